@@ -0,0 +1,6 @@
+-- Migration 008: Store per-frame pose keypoints from the pose-metrics service
+-- The swing_metrics table keeps only the summary numbers; raw keypoints live with the swing
+
+ALTER TABLE pure_swings ADD COLUMN IF NOT EXISTS ai_pose JSONB;
+
+COMMENT ON COLUMN pure_swings.ai_pose IS 'MoveNet keypoints per frame: {video_hash, frame_count, keypoints: [{frame, time_ms, points}]}';
@@ -0,0 +1,6 @@
+-- Migration 009: Swing phase segmentation
+-- Key positions detected by the pose-metrics service, used to seek the swing video
+
+ALTER TABLE pure_swings ADD COLUMN IF NOT EXISTS swing_phases JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN pure_swings.swing_phases IS 'Detected phases: [{"name": "top", "frame": 42, "time_ms": 1400}] for address, takeaway, top, transition, impact, finish';
@@ -0,0 +1,39 @@
+-- Migration 010: Swing video annotations
+-- Coach drawings (lines, angles, circles, freehand) pinned to a swing video timestamp
+
+CREATE TABLE IF NOT EXISTS swing_annotations (
+  id           uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  swing_id     uuid NOT NULL REFERENCES pure_swings(id) ON DELETE CASCADE,
+  author_id    uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  timestamp_ms integer NOT NULL CHECK (timestamp_ms >= 0),
+  tool         text NOT NULL CHECK (tool IN ('line', 'angle', 'circle', 'freehand')),
+  points       jsonb NOT NULL,          -- [{"x": 0.42, "y": 0.31}], normalized 0-1 to the video frame
+  color        text DEFAULT 'accent',   -- design token name, not a raw colour
+  created_at   timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_swing_annotations_swing_time ON swing_annotations(swing_id, timestamp_ms);
+
+ALTER TABLE swing_annotations ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who can see the swing (pure_swings RLS) can see its annotations
+CREATE POLICY "swing viewers can read annotations"
+ON swing_annotations
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM pure_swings WHERE pure_swings.id = swing_id));
+
+CREATE POLICY "swing viewers can add annotations"
+ON swing_annotations
+FOR INSERT
+WITH CHECK (
+  auth.uid() = author_id
+  AND EXISTS (SELECT 1 FROM pure_swings WHERE pure_swings.id = swing_id)
+);
+
+CREATE POLICY "authors can delete their annotations"
+ON swing_annotations
+FOR DELETE
+USING (auth.uid() = author_id);
+
+COMMENT ON TABLE swing_annotations IS 'Drawings on a paused swing video frame, one row per shape';
+COMMENT ON COLUMN swing_annotations.timestamp_ms IS 'Video time the shape belongs to, in milliseconds';
@@ -0,0 +1,35 @@
+-- Migration 011: Per-hole scorecard
+-- Replaces the shot-count approximation of a round's score with one row per hole
+
+CREATE TABLE IF NOT EXISTS pure.hole_scores (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    round_id uuid NOT NULL REFERENCES pure.rounds(id) ON DELETE CASCADE,
+    hole_number integer NOT NULL CHECK (hole_number >= 1 AND hole_number <= 18),
+    par integer NOT NULL CHECK (par >= 3 AND par <= 6),
+    strokes integer NOT NULL CHECK (strokes >= 1),
+    putts integer DEFAULT 0 CHECK (putts >= 0),
+    fairway text CHECK (fairway IN ('hit', 'left', 'right', 'short', 'long', 'miss')), -- null on par 3s
+    gir boolean DEFAULT false,
+    penalty_strokes integer DEFAULT 0 CHECK (penalty_strokes >= 0),
+    up_and_down boolean, -- null when not attempted (green hit in regulation)
+    sand_save boolean,   -- null when no greenside bunker shot
+    updated_at timestamptz DEFAULT now(),
+    created_at timestamptz DEFAULT now(),
+    UNIQUE(round_id, hole_number)
+);
+
+-- Direction of a missed fairway, recorded with the tee shot
+ALTER TABLE pure.shots ADD COLUMN IF NOT EXISTS miss_direction text
+    CHECK (miss_direction IN ('left', 'right', 'short', 'long'));
+
+CREATE INDEX IF NOT EXISTS idx_hole_scores_round_id ON pure.hole_scores (round_id);
+
+ALTER TABLE pure.hole_scores ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY IF NOT EXISTS "hole_scores_policy" ON pure.hole_scores
+    FOR ALL TO authenticated USING (
+        auth.uid() = (SELECT user_id FROM pure.rounds WHERE id = round_id)
+    );
+
+COMMENT ON TABLE pure.hole_scores IS 'Per-hole scorecard: strokes, putts, fairway, GIR, penalties, up-and-down and sand saves';
+COMMENT ON COLUMN pure.hole_scores.fairway IS 'hit, or the miss direction (miss = direction not recorded)';
@@ -0,0 +1,19 @@
+-- Migration 012: World Handicap System index
+-- Handicap index is calculated from completed rounds instead of entered by hand
+
+-- Handicap index carries one decimal place (e.g. 14.3; plus handicaps are negative)
+ALTER TABLE pure.users ALTER COLUMN handicap TYPE numeric(3,1) USING handicap::numeric(3,1);
+ALTER TABLE pure.users ADD COLUMN IF NOT EXISTS handicap_updated_at timestamptz;
+
+-- Per-round handicap figures, filled in when a round is completed
+ALTER TABLE pure.rounds ADD COLUMN IF NOT EXISTS adjusted_gross_score integer; -- after net double bogey
+ALTER TABLE pure.rounds ADD COLUMN IF NOT EXISTS score_differential numeric(4,1);
+ALTER TABLE pure.rounds ADD COLUMN IF NOT EXISTS course_handicap integer;
+ALTER TABLE pure.rounds ADD COLUMN IF NOT EXISTS net_score integer;
+
+CREATE INDEX IF NOT EXISTS idx_rounds_user_completed ON pure.rounds (user_id, started_at DESC)
+    WHERE status = 'completed';
+
+COMMENT ON COLUMN pure.users.handicap IS 'WHS handicap index: best 8 of the last 20 score differentials';
+COMMENT ON COLUMN pure.rounds.score_differential IS '(113 / slope) x (adjusted gross score - course rating)';
+COMMENT ON COLUMN pure.rounds.course_handicap IS 'Handicap index x (slope / 113) + (course rating - par), for the tee set played';
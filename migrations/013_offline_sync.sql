@@ -0,0 +1,11 @@
+-- Migration 013: Offline sync support
+-- Shots arrive with client-generated ids and may be replayed; hole position is synced with the round
+
+ALTER TABLE pure.rounds ADD COLUMN IF NOT EXISTS current_hole integer DEFAULT 1
+    CHECK (current_hole >= 1 AND current_hole <= 18);
+
+-- One shot per number per hole, so replays from two devices can't both land
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shots_round_hole_shot
+    ON pure.shots (round_id, hole_number, shot_number);
+
+COMMENT ON COLUMN pure.rounds.current_hole IS 'Hole the player was last on, synced from the offline queue';
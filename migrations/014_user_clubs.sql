@@ -0,0 +1,27 @@
+-- Migration 014: Per-user bag
+-- The clubs each player carries; the caddy recommends only from these
+
+CREATE TABLE IF NOT EXISTS pure.user_clubs (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name text NOT NULL, -- 'Driver', '4-Hybrid', '52° Wedge'
+    type text NOT NULL CHECK (type IN ('driver', 'wood', 'hybrid', 'iron', 'wedge', 'putter')),
+    loft decimal(4,1) NOT NULL CHECK (loft >= 0 AND loft <= 70),
+    brand text,
+    model text,
+    carry_yards integer CHECK (carry_yards > 0), -- measured; estimated from loft when null
+    total_yards integer CHECK (total_yards > 0),
+    position integer DEFAULT 0, -- display order
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    UNIQUE(user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_clubs_user_id ON pure.user_clubs (user_id, position);
+
+ALTER TABLE pure.user_clubs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY IF NOT EXISTS "user_clubs_policy" ON pure.user_clubs 
+    FOR ALL TO authenticated USING (auth.uid() = user_id);
+
+COMMENT ON TABLE pure.user_clubs IS 'Clubs in each player''s bag (max 14, enforced by the API)';
@@ -0,0 +1,23 @@
+-- Migration 015: Persisted personal tendencies
+-- Computed from shot and swing-flaw history; the caddy loads these on every advice request
+
+CREATE TABLE IF NOT EXISTS pure.user_tendencies (
+    user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    club_bias jsonb DEFAULT '{}'::jsonb, -- {"7-Iron": -8, "Driver": 12} yards vs. expected
+    miss_pattern text NOT NULL DEFAULT 'inconsistent'
+        CHECK (miss_pattern IN ('left', 'right', 'straight', 'inconsistent')),
+    recurring_flaws text[] DEFAULT '{}',
+    lie_preferences jsonb DEFAULT '{}'::jsonb, -- success rate by lie type
+    course_performance jsonb DEFAULT '{}'::jsonb, -- average score by course id
+    confidence_level decimal(3,2) DEFAULT 0.1 CHECK (confidence_level >= 0 AND confidence_level <= 1),
+    sample_size integer DEFAULT 0, -- shots the tendencies were computed from
+    last_updated timestamptz DEFAULT now()
+);
+
+ALTER TABLE pure.user_tendencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY IF NOT EXISTS "user_tendencies_policy" ON pure.user_tendencies 
+    FOR ALL TO authenticated USING (auth.uid() = user_id);
+
+COMMENT ON TABLE pure.user_tendencies IS 'Per-user caddy personalization, recomputed when stale';
+COMMENT ON COLUMN pure.user_tendencies.sample_size IS 'Below the personalization minimum the caddy ignores the row';
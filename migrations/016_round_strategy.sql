@@ -0,0 +1,6 @@
+-- Migration 016: Pre-round strategy plan
+-- The hole-by-hole game plan is generated before the round and kept with it
+
+ALTER TABLE pure.rounds ADD COLUMN IF NOT EXISTS strategy_plan jsonb;
+
+COMMENT ON COLUMN pure.rounds.strategy_plan IS 'Pre-round game plan: tee club, fairway target, layup yardage and miss side for every hole';
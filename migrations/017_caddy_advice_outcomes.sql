@@ -0,0 +1,36 @@
+-- Migration 017: Caddy advice outcome tracking
+-- Every advice response is logged, linked to the shot recorded after it and scored with strokes gained.
+-- Brings both earlier pure.caddy_advice definitions (003 and add_mode_support) to the same shape.
+
+ALTER TABLE pure.caddy_advice
+    ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    ADD COLUMN IF NOT EXISTS round_id uuid REFERENCES pure.rounds(id) ON DELETE CASCADE,
+    ADD COLUMN IF NOT EXISTS hole_number integer,
+    ADD COLUMN IF NOT EXISTS shot_id uuid REFERENCES pure.shots(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS distance_to_target integer,
+    ADD COLUMN IF NOT EXISTS lie_type text,
+    ADD COLUMN IF NOT EXISTS recommended_club text,
+    ADD COLUMN IF NOT EXISTS alternative_clubs jsonb DEFAULT '[]'::jsonb,
+    ADD COLUMN IF NOT EXISTS reasoning text,
+    ADD COLUMN IF NOT EXISTS confidence decimal(3,2), -- as computed by the engine
+    ADD COLUMN IF NOT EXISTS calibrated_confidence decimal(3,2), -- as returned to the player
+    ADD COLUMN IF NOT EXISTS advice_followed boolean,
+    ADD COLUMN IF NOT EXISTS actual_club_used text,
+    ADD COLUMN IF NOT EXISTS shot_result text,
+    ADD COLUMN IF NOT EXISTS outcome text, -- 'good' or 'poor' once scored
+    ADD COLUMN IF NOT EXISTS strokes_gained decimal(4,2),
+    ADD COLUMN IF NOT EXISTS scored_at timestamptz;
+
+-- Advice is logged before any shot exists
+ALTER TABLE pure.caddy_advice ALTER COLUMN recommended_club DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_caddy_advice_user_created ON pure.caddy_advice (user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_caddy_advice_round_hole ON pure.caddy_advice (round_id, hole_number);
+
+ALTER TABLE pure.caddy_advice ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY IF NOT EXISTS "caddy_advice_owner_policy" ON pure.caddy_advice
+    FOR ALL TO authenticated USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN pure.caddy_advice.strokes_gained IS 'Strokes gained on the linked shot vs. the scratch baseline';
+COMMENT ON COLUMN pure.caddy_advice.calibrated_confidence IS 'Confidence after calibration against the player''s past outcomes';
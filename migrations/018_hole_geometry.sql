@@ -0,0 +1,8 @@
+-- Migration 018: Typed hole geometry
+-- Tee boxes, fairway centerline, green polygon with front/middle/back and hazard polygons, imported from GeoJSON.
+-- gps_coordinates and hazards are still written alongside for readers of the older columns.
+
+ALTER TABLE pure.holes
+    ADD COLUMN IF NOT EXISTS geometry jsonb; -- HoleGeometry: {hole_number, tees, fairway_centerline, green, hazards}, points as [lat, lng]
+
+COMMENT ON COLUMN pure.holes.geometry IS 'Mapped hole: tee boxes, fairway centerline, green polygon with front/middle/back, hazard polygons by type';
@@ -0,0 +1,12 @@
+-- Migration 019: Course data sources
+-- Records where each cached course came from: the RapidAPI listing, the local fixture provider or a scorecard import.
+-- Courses are matched on external_id when cached again, so a refresh updates the row rather than adding another.
+
+ALTER TABLE pure.courses
+    ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'rapidapi'
+        CHECK (source IN ('rapidapi', 'local', 'import'));
+
+CREATE INDEX IF NOT EXISTS idx_courses_source ON pure.courses (source);
+
+COMMENT ON COLUMN pure.courses.source IS 'Where the course data came from: rapidapi, local (fixture provider) or import (scorecard CSV/JSON)';
+COMMENT ON COLUMN pure.courses.external_id IS 'ID from the course data source: local:<slug> for fixtures, import:<user id>:<slug> for scorecard imports';
@@ -0,0 +1,74 @@
+-- Migration 020: Community course corrections
+-- Players submit fixes to hole par, handicap, yardages and hazards, and the day's pin positions.
+-- Reviewers approve or reject them; each approval is recorded as the course's next data version,
+-- and pure.courses.data_version tells open rounds when to reload the course.
+
+ALTER TABLE pure.courses
+    ADD COLUMN IF NOT EXISTS data_version integer NOT NULL DEFAULT 0;
+
+ALTER TABLE pure.users
+    ADD COLUMN IF NOT EXISTS course_reviewer boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS pure.course_corrections (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    course_id uuid NOT NULL REFERENCES pure.courses(id) ON DELETE CASCADE,
+    hole_number integer NOT NULL,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    field text NOT NULL CHECK (field IN ('par', 'handicap', 'yardages', 'hazards', 'pin')),
+    value jsonb NOT NULL,
+    current_value jsonb, -- the hole's value when submitted, for the reviewer
+    pin_date date, -- pins only
+    note text,
+    status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'superseded')),
+    reviewed_by uuid REFERENCES auth.users(id),
+    reviewed_at timestamptz,
+    review_note text,
+    applied_version integer,
+    created_at timestamptz DEFAULT now(),
+    CHECK ((field = 'pin') = (pin_date IS NOT NULL))
+);
+
+CREATE TABLE IF NOT EXISTS pure.course_versions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    course_id uuid NOT NULL REFERENCES pure.courses(id) ON DELETE CASCADE,
+    version integer NOT NULL,
+    correction_id uuid REFERENCES pure.course_corrections(id) ON DELETE SET NULL,
+    hole_number integer NOT NULL,
+    field text NOT NULL,
+    previous_value jsonb,
+    value jsonb NOT NULL,
+    approved_by uuid REFERENCES auth.users(id),
+    created_at timestamptz DEFAULT now(),
+    UNIQUE (course_id, version)
+);
+
+CREATE TABLE IF NOT EXISTS pure.pin_positions (
+    course_id uuid NOT NULL REFERENCES pure.courses(id) ON DELETE CASCADE,
+    hole_number integer NOT NULL,
+    pin_date date NOT NULL,
+    pin jsonb NOT NULL, -- {"front_yards": 18, "side": "left", "position": [lat, lng]}
+    correction_id uuid REFERENCES pure.course_corrections(id) ON DELETE SET NULL,
+    created_at timestamptz DEFAULT now(),
+    PRIMARY KEY (course_id, hole_number, pin_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_corrections_status_created ON pure.course_corrections (status, created_at);
+CREATE INDEX IF NOT EXISTS idx_course_corrections_course_hole ON pure.course_corrections (course_id, hole_number);
+CREATE INDEX IF NOT EXISTS idx_course_versions_course ON pure.course_versions (course_id, version);
+
+ALTER TABLE pure.course_corrections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pure.course_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pure.pin_positions ENABLE ROW LEVEL SECURITY;
+
+-- Anyone signed in can see corrections and history; players submit their own; reviews go through the API
+CREATE POLICY IF NOT EXISTS "course_corrections_select_policy" ON pure.course_corrections FOR SELECT TO authenticated USING (true);
+CREATE POLICY IF NOT EXISTS "course_corrections_insert_policy" ON pure.course_corrections
+    FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id AND status = 'pending');
+CREATE POLICY IF NOT EXISTS "course_versions_select_policy" ON pure.course_versions FOR SELECT TO authenticated USING (true);
+CREATE POLICY IF NOT EXISTS "pin_positions_select_policy" ON pure.pin_positions FOR SELECT TO authenticated USING (true);
+
+COMMENT ON TABLE pure.course_corrections IS 'Player-submitted fixes to hole data and pin sheets, waiting on or after review';
+COMMENT ON TABLE pure.course_versions IS 'Approved corrections in order; replayed over provider data when a course is refreshed';
+COMMENT ON TABLE pure.pin_positions IS 'Approved pin positions by day';
+COMMENT ON COLUMN pure.courses.data_version IS 'Number of approved corrections; bumps tell open rounds to reload the course';
+COMMENT ON COLUMN pure.users.course_reviewer IS 'May approve and reject course corrections';
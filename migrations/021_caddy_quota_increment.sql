@@ -0,0 +1,21 @@
+-- Migration 021: Atomic caddy advice counting
+-- Counting advice by reading pure.caddy_quota and writing back the count plus one loses advice
+-- when two requests land together; this increments the day's row in a single statement.
+
+CREATE OR REPLACE FUNCTION public.increment_caddy_advice(
+    p_user_id uuid,
+    p_date date,
+    p_round_id uuid,
+    p_quota_reached boolean,
+    p_strokes_saved decimal
+)
+RETURNS integer AS $$
+    INSERT INTO pure.caddy_quota (user_id, date, round_id, advice_count, quota_reached, strokes_saved)
+    VALUES (p_user_id, p_date, p_round_id, 1, p_quota_reached, p_strokes_saved)
+    ON CONFLICT (user_id, date) DO UPDATE SET
+        advice_count = pure.caddy_quota.advice_count + 1,
+        round_id = EXCLUDED.round_id,
+        quota_reached = EXCLUDED.quota_reached,
+        strokes_saved = EXCLUDED.strokes_saved
+    RETURNING advice_count;
+$$ LANGUAGE sql;
@@ -0,0 +1,25 @@
+-- Migration 022: Replace a bag in one transaction
+-- Clearing the bag and inserting the new clubs as two requests left the player with an empty bag
+-- whenever the insert failed; this swaps the whole set in a single call, or leaves it untouched.
+
+CREATE OR REPLACE FUNCTION public.replace_user_bag(p_clubs jsonb)
+RETURNS SETOF pure.user_clubs AS $$
+BEGIN
+    DELETE FROM pure.user_clubs WHERE user_id = auth.uid();
+
+    RETURN QUERY
+    INSERT INTO pure.user_clubs (user_id, name, type, loft, brand, model, carry_yards, total_yards, position, updated_at)
+    SELECT auth.uid(), c.name, c.type, c.loft, c.brand, c.model, c.carry_yards, c.total_yards, c.position, now()
+    FROM jsonb_to_recordset(p_clubs) AS c(
+        name text,
+        type text,
+        loft decimal(4,1),
+        brand text,
+        model text,
+        carry_yards integer,
+        total_yards integer,
+        position integer
+    )
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
@@ -0,0 +1,44 @@
+-- Migration 023: Count advised holes with the quota
+-- Holes used against a plan's free holes per round were read back from pure.caddy_advice, so advice
+-- whose log insert failed never used a hole. increment_caddy_advice now records the hole as it counts.
+
+CREATE TABLE IF NOT EXISTS pure.caddy_quota_holes (
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    round_id uuid NOT NULL REFERENCES pure.rounds(id) ON DELETE CASCADE,
+    hole_number integer NOT NULL CHECK (hole_number BETWEEN 1 AND 18),
+    created_at timestamptz DEFAULT now(),
+    PRIMARY KEY (user_id, round_id, hole_number)
+);
+
+ALTER TABLE pure.caddy_quota_holes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own advised holes" ON pure.caddy_quota_holes
+    FOR SELECT USING (auth.uid() = user_id);
+
+GRANT SELECT ON pure.caddy_quota_holes TO authenticated;
+
+DROP FUNCTION IF EXISTS public.increment_caddy_advice(uuid, date, uuid, boolean, decimal);
+
+CREATE OR REPLACE FUNCTION public.increment_caddy_advice(
+    p_user_id uuid,
+    p_date date,
+    p_round_id uuid,
+    p_hole_number integer,
+    p_quota_reached boolean,
+    p_strokes_saved decimal
+)
+RETURNS integer AS $$
+    INSERT INTO pure.caddy_quota_holes (user_id, round_id, hole_number)
+    SELECT p_user_id, p_round_id, p_hole_number
+    WHERE p_round_id IS NOT NULL AND p_hole_number IS NOT NULL
+    ON CONFLICT DO NOTHING;
+
+    INSERT INTO pure.caddy_quota (user_id, date, round_id, advice_count, quota_reached, strokes_saved)
+    VALUES (p_user_id, p_date, p_round_id, 1, p_quota_reached, p_strokes_saved)
+    ON CONFLICT (user_id, date) DO UPDATE SET
+        advice_count = pure.caddy_quota.advice_count + 1,
+        round_id = EXCLUDED.round_id,
+        quota_reached = EXCLUDED.quota_reached,
+        strokes_saved = EXCLUDED.strokes_saved
+    RETURNING advice_count;
+$$ LANGUAGE sql;
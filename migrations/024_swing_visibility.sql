@@ -0,0 +1,17 @@
+-- Migration 024: Published and model swings
+-- Swings are private to their owner; a published swing can be opened by any signed-in player,
+-- and model swings are the reference swings offered on the comparison page.
+
+ALTER TABLE pure_swings ADD COLUMN IF NOT EXISTS visibility text NOT NULL DEFAULT 'private'
+    CHECK (visibility IN ('private', 'published', 'model'));
+
+CREATE INDEX IF NOT EXISTS idx_pure_swings_shared ON pure_swings (visibility, created_at DESC)
+    WHERE visibility <> 'private';
+
+CREATE POLICY "published and model swings are readable"
+ON pure_swings
+FOR SELECT
+TO authenticated
+USING (visibility IN ('published', 'model'));
+
+COMMENT ON COLUMN pure_swings.visibility IS 'private (owner only), published (any signed-in player) or model (reference swing for comparisons)';
@@ -0,0 +1,61 @@
+-- Migration 025: Sharing swings with a coach
+-- Swings are private to their owner, so a coach couldn't open the swing they were meant to annotate.
+-- The owner now shares a swing with a coach, who can then view it and draw on it.
+
+CREATE TABLE IF NOT EXISTS swing_coach_shares (
+  swing_id   uuid NOT NULL REFERENCES pure_swings(id) ON DELETE CASCADE,
+  coach_id   uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  owner_id   uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE, -- kept here so these policies never read pure_swings back
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (swing_id, coach_id),
+  CHECK (coach_id <> owner_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_swing_coach_shares_coach ON swing_coach_shares(coach_id);
+
+ALTER TABLE swing_coach_shares ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "owners and coaches can see shares"
+ON swing_coach_shares
+FOR SELECT
+USING (auth.uid() = owner_id OR auth.uid() = coach_id);
+
+CREATE POLICY "owners can share their swings"
+ON swing_coach_shares
+FOR INSERT
+WITH CHECK (
+  auth.uid() = owner_id
+  AND EXISTS (SELECT 1 FROM pure_swings WHERE pure_swings.id = swing_id AND pure_swings.user_id = auth.uid())
+);
+
+CREATE POLICY "owners can stop sharing"
+ON swing_coach_shares
+FOR DELETE
+USING (auth.uid() = owner_id);
+
+CREATE POLICY "coaches can read swings shared with them"
+ON pure_swings
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM swing_coach_shares
+  WHERE swing_coach_shares.swing_id = pure_swings.id AND swing_coach_shares.coach_id = auth.uid()
+));
+
+-- Published and model swings are readable by everyone, but only the owner and their coaches draw on them
+DROP POLICY IF EXISTS "swing viewers can add annotations" ON swing_annotations;
+
+CREATE POLICY "owners and coaches can add annotations"
+ON swing_annotations
+FOR INSERT
+WITH CHECK (
+  auth.uid() = author_id
+  AND (
+    EXISTS (SELECT 1 FROM pure_swings WHERE pure_swings.id = swing_id AND pure_swings.user_id = auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM swing_coach_shares
+      WHERE swing_coach_shares.swing_id = swing_annotations.swing_id AND swing_coach_shares.coach_id = auth.uid()
+    )
+  )
+);
+
+COMMENT ON TABLE swing_coach_shares IS 'Coaches a player has shared a swing with; they can view and annotate it';
@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+
+/**
+ * Course Import Script
+ * Sends a scorecard CSV or course JSON file to /api/courses/import
+ *
+ *   node scripts/import-course.mjs scorecard.csv --name "Pine Valley Municipal" --lat 37.7694 --lng -122.4862
+ *   node scripts/import-course.mjs course.json --dry-run
+ *
+ * CSV files need --name, --lat and --lng; JSON files carry their own course details.
+ * Pass --external-id with the id an earlier import printed to refresh that course. Courses already
+ * listed from elsewhere can't be replaced by an import; send corrections for them instead.
+ */
+
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+
+// Configuration
+const BASE_URL = process.env.IMPORT_URL || 'http://localhost:5174';
+const IMPORT_TOKEN = process.env.IMPORT_TOKEN; // JWT token of the importing user
+
+function parseArgs(argv) {
+  const options = { file: null, dryRun: false, course: {} };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--name':
+        options.course.name = argv[++i];
+        break;
+      case '--lat':
+        options.course.latitude = Number(argv[++i]);
+        break;
+      case '--lng':
+        options.course.longitude = Number(argv[++i]);
+        break;
+      case '--external-id':
+        options.course.external_id = argv[++i];
+        break;
+      default:
+        options.file = arg;
+    }
+  }
+
+  return options;
+}
+
+function buildBody(file, course) {
+  const text = readFileSync(file, 'utf-8');
+
+  if (extname(file).toLowerCase() === '.csv') {
+    return { csv: text, course };
+  }
+
+  // Flags override what's in the file
+  return { course: { ...JSON.parse(text), ...course } };
+}
+
+async function main() {
+  const { file, dryRun, course } = parseArgs(process.argv.slice(2));
+
+  if (!file) {
+    console.error('Usage: node scripts/import-course.mjs <scorecard.csv|course.json> [--name N --lat LAT --lng LNG] [--external-id ID] [--dry-run]');
+    process.exit(1);
+  }
+
+  if (!IMPORT_TOKEN) {
+    console.error('❌ Set IMPORT_TOKEN to a user access token');
+    process.exit(1);
+  }
+
+  console.log(`⛳ Importing ${file}${dryRun ? ' (dry run)' : ''}...`);
+
+  const response = await fetch(`${BASE_URL}/api/courses/import${dryRun ? '?dry_run=true' : ''}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${IMPORT_TOKEN}`
+    },
+    body: JSON.stringify(buildBody(file, course))
+  });
+
+  const result = await response.json();
+
+  for (const issue of result.issues || []) {
+    const where = issue.hole_number ? `Hole ${issue.hole_number}: ` : '';
+    console.log(`${issue.severity === 'error' ? '❌' : '⚠️ '} ${where}${issue.message}`);
+  }
+
+  if (!response.ok) {
+    console.error(`❌ Import failed (${response.status}): ${result.error?.message || 'unknown error'}`);
+    process.exit(1);
+  }
+
+  if (dryRun) {
+    console.log(`✅ ${result.course.name} is valid: ${result.course.holes.length} holes, external id ${result.course.id}`);
+  } else {
+    console.log(`✅ Imported ${result.external_id} as course ${result.course_id} (${result.holes} holes)`);
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Import failed:', error.message);
+  process.exit(1);
+});
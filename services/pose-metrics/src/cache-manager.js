@@ -0,0 +1,47 @@
+/**
+ * In-process metrics cache keyed by video hash (same video = same metrics)
+ */
+
+const MAX_ENTRIES = parseInt(process.env.METRICS_CACHE_SIZE || '200', 10);
+const TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+const cache = new Map();
+
+function cacheKey(videoHash, mode, angle) {
+  return `${videoHash}:${mode}:${angle}`;
+}
+
+function getCachedMetrics(videoHash, mode, angle) {
+  if (!videoHash) return null;
+
+  const key = cacheKey(videoHash, mode, angle);
+  const entry = cache.get(key);
+  if (!entry) return null;
+
+  if (Date.now() - entry.storedAt > TTL_MS) {
+    cache.delete(key);
+    return null;
+  }
+
+  // Refresh recency so frequently viewed swings stay cached
+  cache.delete(key);
+  cache.set(key, entry);
+  return entry.result;
+}
+
+function setCachedMetrics(videoHash, mode, angle, result) {
+  const key = cacheKey(videoHash, mode, angle);
+  cache.delete(key);
+  cache.set(key, { result, storedAt: Date.now() });
+
+  // Evict least recently used entries
+  while (cache.size > MAX_ENTRIES) {
+    const oldest = cache.keys().next().value;
+    cache.delete(oldest);
+  }
+}
+
+module.exports = {
+  getCachedMetrics,
+  setCachedMetrics
+};
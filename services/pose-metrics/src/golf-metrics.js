@@ -0,0 +1,243 @@
+/**
+ * Golf swing metrics from per-frame pose keypoints.
+ * Pure functions only - no I/O, so they can run against recorded keypoint fixtures.
+ */
+
+// Average adult shoulder-midpoint to hip-midpoint distance, used to turn frame units into cm
+const TORSO_LENGTH_CM = 50;
+const MIN_KEYPOINT_SCORE = 0.3;
+const SMOOTHING_WINDOW = 5;
+
+/**
+ * Build smoothed body landmark series (hands, hips, shoulders) from keypoint frames
+ */
+function buildSeries(frames) {
+  const raw = frames.map((frame) => {
+    const p = frame.points;
+    return {
+      frame: frame.frame,
+      time_ms: frame.time_ms,
+      hands: midpoint(p.left_wrist, p.right_wrist),
+      hips: midpoint(p.left_hip, p.right_hip),
+      shoulders: midpoint(p.left_shoulder, p.right_shoulder),
+      shoulder_width: width(p.left_shoulder, p.right_shoulder),
+      hip_width: width(p.left_hip, p.right_hip)
+    };
+  });
+
+  const fields = ['hands', 'hips', 'shoulders', 'shoulder_width', 'hip_width'];
+  for (const field of fields) {
+    fillGaps(raw, field);
+  }
+
+  return raw.map((entry, i) => {
+    const smoothed = { frame: entry.frame, time_ms: entry.time_ms };
+    for (const field of fields) {
+      smoothed[field] = average(raw, i, field);
+    }
+    return smoothed;
+  });
+}
+
+/**
+ * Locate takeaway, top of backswing and impact from the hand path.
+ * Returns null when no full swing motion can be found.
+ */
+function detectSwingEvents(series) {
+  if (series.length < 10) return null;
+
+  const addressHands = series[0].hands;
+  const torso = torsoLength(series[0]);
+  if (!addressHands || !torso) return null;
+
+  // Takeaway: hands leave the address position by more than 10% of torso length
+  const takeaway = series.findIndex(s => s.hands && distance(s.hands, addressHands) > torso * 0.1);
+  if (takeaway <= 0) return null;
+
+  // Fastest hand movement happens in the downswing, just before impact
+  const speeds = series.map((s, i) => (i === 0 || !s.hands || !series[i - 1].hands)
+    ? 0
+    : distance(s.hands, series[i - 1].hands));
+  const peakSpeed = indexOfMax(speeds, takeaway);
+  if (peakSpeed <= takeaway) return null;
+
+  // Top: hands at their highest point (smallest y) between takeaway and peak speed
+  let top = takeaway;
+  for (let i = takeaway; i <= peakSpeed; i++) {
+    if (series[i].hands.y < series[top].hands.y) top = i;
+  }
+  if (top === takeaway) return null;
+
+  // Impact: hands return closest to the address position after the top
+  const searchEnd = Math.min(series.length - 1, peakSpeed + Math.max(3, Math.round((peakSpeed - top) / 2)));
+  let impact = peakSpeed;
+  for (let i = top + 1; i <= searchEnd; i++) {
+    if (distance(series[i].hands, addressHands) < distance(series[impact].hands, addressHands)) {
+      impact = i;
+    }
+  }
+  if (impact <= top) return null;
+
+  return {
+    address: Math.max(0, takeaway - 1),
+    takeaway,
+    top,
+    impact
+  };
+}
+
+/**
+ * Compute the SwingMetrics fields from keypoint frames
+ */
+function calculateMetrics(frames, options = {}) {
+  const series = buildSeries(frames);
+  const events = detectSwingEvents(series);
+
+  if (!events) {
+    return null;
+  }
+
+  const { address, takeaway, top, impact } = events;
+  const at = (i) => series[i];
+
+  // Tempo: backswing time / downswing time (tour average ~3:1)
+  const backswingMs = at(top).time_ms - at(takeaway).time_ms;
+  const downswingMs = at(impact).time_ms - at(top).time_ms;
+  const tempoRatio = downswingMs > 0 ? backswingMs / downswingMs : null;
+
+  // Plane: hand-path angle in the downswing vs the backswing (positive = steeper coming down)
+  const midBackswing = at(Math.round((takeaway + top) / 2));
+  const midDownswing = at(Math.round((top + impact) / 2));
+  const origin = at(address).hands;
+  const planeDelta = pathAngle(origin, midDownswing.hands) - pathAngle(origin, midBackswing.hands);
+
+  // Hip sway: largest lateral hip shift between address and top
+  const cmPerUnit = TORSO_LENGTH_CM / torsoLength(at(address));
+  let maxSway = 0;
+  for (let i = address; i <= top; i++) {
+    maxSway = Math.max(maxSway, Math.abs(at(i).hips.x - at(address).hips.x));
+  }
+
+  const metrics = {
+    tempo_ratio: round(tempoRatio, 2),
+    plane_delta: round(planeDelta, 1),
+    hip_sway_cm: round(maxSway * cmPerUnit, 1),
+    confidence: round(keypointConfidence(frames), 2)
+  };
+
+  // X-factor needs the face-on rotation estimate, only reported for range swings
+  if (options.mode === 'range') {
+    const shoulderTurn = rotationFromWidth(at(address).shoulder_width, at(top).shoulder_width);
+    const hipTurn = rotationFromWidth(at(address).hip_width, at(top).hip_width);
+    metrics.x_factor = round(Math.max(0, shoulderTurn - hipTurn), 1);
+  }
+
+  return { metrics, events };
+}
+
+// Helpers
+
+function midpoint(a, b) {
+  if (!isVisible(a) || !isVisible(b)) return null;
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+function width(a, b) {
+  if (!isVisible(a) || !isVisible(b)) return null;
+  return distance(a, b);
+}
+
+function isVisible(point) {
+  return !!point && point.score >= MIN_KEYPOINT_SCORE;
+}
+
+function distance(a, b) {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function torsoLength(entry) {
+  if (!entry.hips || !entry.shoulders) return null;
+  return distance(entry.hips, entry.shoulders) || null;
+}
+
+/**
+ * Angle above horizontal of the line from origin to point, in degrees
+ */
+function pathAngle(origin, point) {
+  return Math.atan2(origin.y - point.y, Math.abs(point.x - origin.x)) * (180 / Math.PI);
+}
+
+/**
+ * Estimate body rotation from how much a body segment foreshortens in a face-on view
+ */
+function rotationFromWidth(addressWidth, currentWidth) {
+  if (!addressWidth || !currentWidth) return 0;
+  const ratio = Math.min(1, currentWidth / addressWidth);
+  return Math.acos(ratio) * (180 / Math.PI);
+}
+
+function keypointConfidence(frames) {
+  const names = ['left_wrist', 'right_wrist', 'left_shoulder', 'right_shoulder', 'left_hip', 'right_hip'];
+  let total = 0;
+  let count = 0;
+  for (const frame of frames) {
+    for (const name of names) {
+      total += frame.points[name]?.score || 0;
+      count++;
+    }
+  }
+  return count > 0 ? total / count : 0;
+}
+
+/**
+ * Carry the nearest visible value into frames where a landmark was not detected
+ */
+function fillGaps(entries, field) {
+  let last = null;
+  for (const entry of entries) {
+    if (entry[field] !== null) last = entry[field];
+    else if (last !== null) entry[field] = last;
+  }
+  let next = null;
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (entries[i][field] !== null) next = entries[i][field];
+    else if (next !== null) entries[i][field] = next;
+  }
+}
+
+function average(entries, index, field) {
+  const half = Math.floor(SMOOTHING_WINDOW / 2);
+  const window = entries
+    .slice(Math.max(0, index - half), index + half + 1)
+    .map(e => e[field])
+    .filter(v => v !== null);
+
+  if (window.length === 0) return null;
+  if (typeof window[0] === 'number') {
+    return window.reduce((sum, v) => sum + v, 0) / window.length;
+  }
+  return {
+    x: window.reduce((sum, v) => sum + v.x, 0) / window.length,
+    y: window.reduce((sum, v) => sum + v.y, 0) / window.length
+  };
+}
+
+function indexOfMax(values, from) {
+  let best = from;
+  for (let i = from; i < values.length; i++) {
+    if (values[i] > values[best]) best = i;
+  }
+  return best;
+}
+
+function round(value, digits) {
+  if (value === null || !Number.isFinite(value)) return null;
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+module.exports = {
+  buildSeries,
+  detectSwingEvents,
+  calculateMetrics
+};
@@ -1,6 +1,11 @@
 const express = require('express');
 const cors = require('cors');
-const crypto = require('crypto');
+
+const { FRAME_SIZE, downloadVideo, decodeFrames, cleanupVideo } = require('./video-processor');
+const { analyzeFrames, getDetector } = require('./pose-analyzer');
+const { calculateMetrics } = require('./golf-metrics');
+const { detectSwingPhases } = require('./swing-phases');
+const { getCachedMetrics, setCachedMetrics } = require('./cache-manager');
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -8,69 +13,102 @@ const PORT = process.env.PORT || 3001;
 app.use(cors());
 app.use(express.json());
 
-// Dummy metrics generator based on swing mode and angle
-function generateDummyMetrics(mode, angle, videoHash) {
-  // Use video hash for consistent results (same video = same metrics)
-  const seed = videoHash ? parseInt(videoHash.slice(0, 8), 16) : Date.now() % 1000000;
-  const random = (min, max) => min + (seed % 1000) / 1000 * (max - min);
-  
-  const metrics = {
-    tempo_ratio: parseFloat((random(2.4, 3.8)).toFixed(2)),
-    plane_delta: parseFloat((random(-8, 8)).toFixed(1)),
-    hip_sway_cm: parseFloat((random(1.5, 6.2)).toFixed(1)),
-    confidence: parseFloat((random(0.75, 0.95)).toFixed(2)),
-    processing_time_ms: Math.floor(random(3000, 12000)),
-    cached: false
-  };
-  
-  // Only add x_factor for range mode
-  if (mode === 'range') {
-    metrics.x_factor = parseFloat((random(35, 65)).toFixed(1));
+/**
+ * Decode the video, run pose estimation on every frame and derive swing metrics and phases
+ */
+async function processVideo(videoUrl, mode, angle) {
+  const startTime = Date.now();
+  const download = await downloadVideo(videoUrl);
+
+  try {
+    // Cached metrics are keyed by the hash of the bytes we downloaded, never one the caller claims
+    const hash = download.videoHash;
+    const cached = getCachedMetrics(hash, mode, angle);
+    if (cached) {
+      return { ...cached, cached: true };
+    }
+
+    const keypoints = await analyzeFrames(decodeFrames(download.filePath), FRAME_SIZE);
+    const analysis = calculateMetrics(keypoints, { mode, angle });
+
+    if (!analysis) {
+      const error = new Error('No complete swing detected in video');
+      error.status = 422;
+      throw error;
+    }
+
+    const result = {
+      ...analysis.metrics,
+      phases: detectSwingPhases(keypoints),
+      video_hash: hash,
+      processing_time_ms: Date.now() - startTime,
+      frame_count: keypoints.length,
+      keypoints,
+      cached: false
+    };
+
+    setCachedMetrics(hash, mode, angle, result);
+    return result;
+  } finally {
+    await cleanupVideo(download.filePath);
   }
-  
-  return metrics;
 }
 
 // POST /metrics - Main endpoint
-app.post('/metrics', (req, res) => {
-  const { video_url, mode = 'quick', angle = 0, video_hash } = req.body;
-  
+app.post('/metrics', async (req, res) => {
+  const { video_url, mode = 'quick', angle = 0 } = req.body;
+
   if (!video_url) {
     return res.status(400).json({ error: 'video_url is required' });
   }
-  
-  // Simulate processing delay
-  const processingDelay = Math.floor(Math.random() * 2000) + 1000; // 1-3 seconds
-  
-  setTimeout(() => {
-    try {
-      const metrics = generateDummyMetrics(mode, angle, video_hash);
-      
-      console.log(`📊 Generated metrics for ${mode} mode, angle ${angle}:`, metrics);
-      
-      res.json(metrics);
-    } catch (error) {
-      console.error('Error generating metrics:', error);
-      res.status(500).json({ error: 'Internal server error' });
-    }
-  }, processingDelay);
+
+  try {
+    const metrics = await processVideo(video_url, mode, angle);
+
+    console.log(`📊 Computed metrics for ${mode} mode, angle ${angle}:`, {
+      tempo_ratio: metrics.tempo_ratio,
+      plane_delta: metrics.plane_delta,
+      hip_sway_cm: metrics.hip_sway_cm,
+      x_factor: metrics.x_factor,
+      phases: metrics.phases.length,
+      frames: metrics.frame_count,
+      cached: metrics.cached
+    });
+
+    res.json(metrics);
+  } catch (error) {
+    console.error('Error generating metrics:', error);
+    res.status(error.status || 500).json({
+      error: error.status ? error.message : 'Internal server error'
+    });
+  }
 });
 
 // Health check
-app.get('/health', (req, res) => {
-  res.json({ 
-    status: 'ok', 
-    service: 'pose-metrics-dummy',
+app.get('/health', async (req, res) => {
+  let modelLoaded = true;
+  try {
+    await getDetector();
+  } catch (error) {
+    modelLoaded = false;
+  }
+
+  res.status(modelLoaded ? 200 : 503).json({
+    status: modelLoaded ? 'ok' : 'degraded',
+    service: 'pose-metrics',
+    model_loaded: modelLoaded,
     timestamp: new Date().toISOString()
   });
 });
 
 // Start server
-app.listen(PORT, () => {
-  console.log(`🏌️ Pose Metrics Service (DUMMY) running on port ${PORT}`);
-  console.log(`📍 Endpoints:`);
-  console.log(`   POST /metrics - Generate swing metrics`);
-  console.log(`   GET  /health  - Health check`);
-});
+if (require.main === module) {
+  app.listen(PORT, () => {
+    console.log(`🏌️ Pose Metrics Service running on port ${PORT}`);
+    console.log(`📍 Endpoints:`);
+    console.log(`   POST /metrics - Compute swing metrics from video`);
+    console.log(`   GET  /health  - Health check`);
+  });
+}
 
-module.exports = app; 
\ No newline at end of file
+module.exports = app;
@@ -0,0 +1,102 @@
+const tf = require('@tensorflow/tfjs-node');
+const poseDetection = require('@tensorflow-models/pose-detection');
+
+// MoveNet (COCO 17-keypoint topology) - runs on CPU through tfjs-node
+const KEYPOINT_NAMES = [
+  'nose', 'left_eye', 'right_eye', 'left_ear', 'right_ear',
+  'left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow',
+  'left_wrist', 'right_wrist', 'left_hip', 'right_hip',
+  'left_knee', 'right_knee', 'left_ankle', 'right_ankle'
+];
+
+let detectorPromise = null;
+
+// The detector's smoothing filter carries state from frame to frame, so videos take turns with it
+let analysisQueue = Promise.resolve();
+
+/**
+ * Lazily create a single MoveNet detector for the process.
+ * Set MOVENET_MODEL_URL (e.g. file://models/movenet/model.json) to run without tfhub access.
+ */
+function getDetector() {
+  if (!detectorPromise) {
+    const modelType = process.env.MOVENET_MODEL_TYPE === 'thunder'
+      ? poseDetection.movenet.modelType.SINGLEPOSE_THUNDER
+      : poseDetection.movenet.modelType.SINGLEPOSE_LIGHTNING;
+
+    detectorPromise = poseDetection.createDetector(poseDetection.SupportedModels.MoveNet, {
+      modelType,
+      modelUrl: process.env.MOVENET_MODEL_URL || undefined,
+      enableSmoothing: true
+    }).catch((error) => {
+      detectorPromise = null;
+      throw error;
+    });
+  }
+  return detectorPromise;
+}
+
+/**
+ * Estimate keypoints for one decoded frame.
+ * Coordinates are normalized to 0-1 of the square frame; y grows downwards.
+ */
+async function estimateFrame(frame, frameSize) {
+  const detector = await getDetector();
+  const image = tf.tensor3d(new Uint8Array(frame.data), [frameSize, frameSize, 3], 'int32');
+
+  try {
+    const poses = await detector.estimatePoses(image, { flipHorizontal: false }, frame.timeMs * 1000);
+    const pose = poses[0];
+    const points = {};
+
+    for (const name of KEYPOINT_NAMES) {
+      const keypoint = pose?.keypoints.find(k => k.name === name);
+      points[name] = keypoint
+        ? {
+            x: round(keypoint.x / frameSize, 4),
+            y: round(keypoint.y / frameSize, 4),
+            score: round(keypoint.score ?? 0, 3)
+          }
+        : { x: 0, y: 0, score: 0 };
+    }
+
+    return {
+      frame: frame.index,
+      time_ms: frame.timeMs,
+      points
+    };
+  } finally {
+    image.dispose();
+  }
+}
+
+/**
+ * Run pose estimation over every decoded frame, in order.
+ * One video at a time, starting from a reset filter, so no keypoints carry over from the last swing.
+ */
+function analyzeFrames(frames, frameSize) {
+  const run = analysisQueue.then(async () => {
+    const detector = await getDetector();
+    detector.reset();
+
+    const results = [];
+    for await (const frame of frames) {
+      results.push(await estimateFrame(frame, frameSize));
+    }
+    return results;
+  });
+
+  analysisQueue = run.catch(() => {});
+  return run;
+}
+
+function round(value, digits) {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+module.exports = {
+  KEYPOINT_NAMES,
+  getDetector,
+  analyzeFrames
+};
@@ -0,0 +1,71 @@
+/**
+ * Swing phase segmentation from the smoothed landmark series.
+ * Produces address, takeaway, top, transition, impact and finish with frame indices.
+ */
+
+const { buildSeries, detectSwingEvents } = require('./golf-metrics');
+
+const PHASE_ORDER = ['address', 'takeaway', 'top', 'transition', 'impact', 'finish'];
+
+// Hands must be moving at least this fraction of peak speed to count as "in motion"
+const MOTION_FRACTION = 0.1;
+const FINISH_HOLD_FRAMES = 3;
+
+/**
+ * Find the six key swing positions. Returns [] when no full swing is detected.
+ */
+function detectSwingPhases(frames) {
+  const series = buildSeries(frames);
+  const events = detectSwingEvents(series);
+  if (!events) return [];
+
+  const speeds = handSpeeds(series);
+  const peak = Math.max(...speeds);
+  const moving = peak * MOTION_FRACTION;
+
+  // Transition: first frame after the top where the hands are clearly heading down again
+  let transition = events.top;
+  for (let i = events.top + 1; i < events.impact; i++) {
+    if (series[i].hands.y - series[i - 1].hands.y > 0 && speeds[i] > moving) {
+      transition = i;
+      break;
+    }
+  }
+
+  // Finish: hands come to rest after impact (held for a few frames), else last frame
+  let finish = series.length - 1;
+  for (let i = events.impact + 1; i + FINISH_HOLD_FRAMES <= series.length; i++) {
+    const window = speeds.slice(i, i + FINISH_HOLD_FRAMES);
+    if (window.every(speed => speed < moving)) {
+      finish = i;
+      break;
+    }
+  }
+
+  const indices = {
+    address: events.address,
+    takeaway: events.takeaway,
+    top: events.top,
+    transition,
+    impact: events.impact,
+    finish
+  };
+
+  return PHASE_ORDER.map(name => ({
+    name,
+    frame: series[indices[name]].frame,
+    time_ms: series[indices[name]].time_ms
+  }));
+}
+
+function handSpeeds(series) {
+  return series.map((entry, i) => {
+    if (i === 0 || !entry.hands || !series[i - 1].hands) return 0;
+    return Math.hypot(entry.hands.x - series[i - 1].hands.x, entry.hands.y - series[i - 1].hands.y);
+  });
+}
+
+module.exports = {
+  PHASE_ORDER,
+  detectSwingPhases
+};
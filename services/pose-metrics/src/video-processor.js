@@ -0,0 +1,131 @@
+const { spawn } = require('child_process');
+const crypto = require('crypto');
+const fs = require('fs/promises');
+const os = require('os');
+const path = require('path');
+const ffmpegPath = require('ffmpeg-static');
+
+// Frames are letterboxed into a square so keypoint geometry keeps the original aspect ratio
+const FRAME_SIZE = parseInt(process.env.POSE_FRAME_SIZE || '256', 10);
+const SAMPLE_FPS = parseInt(process.env.POSE_SAMPLE_FPS || '30', 10);
+const MAX_SECONDS = parseInt(process.env.POSE_MAX_SECONDS || '15', 10);
+const MAX_VIDEO_BYTES = 100 * 1024 * 1024; // 100MB
+
+/**
+ * Download the uploaded swing video to a temp file and hash its contents
+ */
+async function downloadVideo(videoUrl) {
+  const response = await fetch(videoUrl);
+
+  if (!response.ok) {
+    throw new Error(`Video download failed: ${response.status}`);
+  }
+
+  const bytes = Buffer.from(await response.arrayBuffer());
+  if (bytes.length === 0) {
+    throw new Error('Video download returned an empty file');
+  }
+  if (bytes.length > MAX_VIDEO_BYTES) {
+    throw new Error(`Video too large: ${Math.round(bytes.length / 1024 / 1024)}MB`);
+  }
+
+  const videoHash = crypto.createHash('sha256').update(bytes).digest('hex');
+  const extension = path.extname(new URL(videoUrl).pathname) || '.mp4';
+  const filePath = path.join(os.tmpdir(), `swing-${videoHash.slice(0, 16)}${extension}`);
+
+  await fs.writeFile(filePath, bytes);
+
+  return { filePath, videoHash, sizeBytes: bytes.length };
+}
+
+/**
+ * Decode a webm/mp4 (including iPhone HEVC) into raw RGB frames.
+ * Yields { index, timeMs, data } where data is a FRAME_SIZE x FRAME_SIZE x 3 buffer.
+ */
+async function* decodeFrames(filePath, options = {}) {
+  const fps = options.fps || SAMPLE_FPS;
+  const size = options.size || FRAME_SIZE;
+  const frameBytes = size * size * 3;
+
+  const filters = [
+    `fps=${fps}`,
+    `scale=${size}:${size}:force_original_aspect_ratio=decrease`,
+    `pad=${size}:${size}:(ow-iw)/2:(oh-ih)/2`
+  ].join(',');
+
+  const ffmpeg = spawn(ffmpegPath, [
+    '-loglevel', 'error',
+    '-t', String(MAX_SECONDS),
+    '-i', filePath,
+    '-vf', filters,
+    '-f', 'rawvideo',
+    '-pix_fmt', 'rgb24',
+    'pipe:1'
+  ]);
+
+  let stderr = '';
+  ffmpeg.stderr.on('data', (chunk) => {
+    stderr += chunk.toString();
+  });
+
+  const exited = new Promise((resolve) => {
+    ffmpeg.on('close', (code) => resolve(code));
+  });
+
+  let pending = Buffer.alloc(0);
+  let index = 0;
+  let finished = false;
+
+  try {
+    for await (const chunk of ffmpeg.stdout) {
+      pending = Buffer.concat([pending, chunk]);
+
+      while (pending.length >= frameBytes) {
+        const data = pending.subarray(0, frameBytes);
+        pending = pending.subarray(frameBytes);
+
+        yield {
+          index,
+          timeMs: Math.round((index * 1000) / fps),
+          data: Buffer.from(data)
+        };
+        index++;
+      }
+    }
+
+    const exitCode = await exited;
+    finished = true;
+    if (exitCode !== 0) {
+      throw new Error(`ffmpeg exited with code ${exitCode}: ${stderr.trim()}`);
+    }
+    if (index === 0) {
+      throw new Error('No frames decoded from video');
+    }
+  } finally {
+    // The consumer stopped early (an error or a limit); don't leave ffmpeg decoding into a closed pipe
+    if (!finished) {
+      ffmpeg.kill('SIGKILL');
+    }
+  }
+}
+
+/**
+ * Remove a downloaded video, ignoring files that are already gone
+ */
+async function cleanupVideo(filePath) {
+  try {
+    await fs.unlink(filePath);
+  } catch (error) {
+    if (error.code !== 'ENOENT') {
+      console.warn('⚠️ Failed to remove temp video:', error.message);
+    }
+  }
+}
+
+module.exports = {
+  FRAME_SIZE,
+  SAMPLE_FPS,
+  downloadVideo,
+  decodeFrames,
+  cleanupVideo
+};
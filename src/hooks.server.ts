@@ -1,4 +1,14 @@
 import type { Handle } from '@sveltejs/kit';
+import { WeatherService } from '$lib/weather';
+import { createWeatherProvider } from './services/weather';
+import { CourseDataService } from '$lib/course-data';
+import { createCourseDataProvider } from './services/course';
+
+// Live conditions for rounds and caddy advice; WEATHER_PROVIDER=file for deterministic readings
+WeatherService.setProvider(createWeatherProvider());
+
+// Course listings from RapidAPI; COURSE_DATA_PROVIDER=local for the fixture courses
+CourseDataService.setProvider(createCourseDataProvider());
 
 export const handle: Handle = async ({ event, resolve }) => {
   // Increase body size limit for upload endpoint
@@ -0,0 +1,54 @@
+/**
+ * Swing annotation types - drawings pinned to a video timestamp
+ */
+
+export type AnnotationTool = 'line' | 'angle' | 'circle' | 'freehand';
+
+export type AnnotationColor = 'accent' | 'primary' | 'white' | 'red';
+
+// Normalized to the video frame (0-1) so drawings survive player resizing
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+export interface SwingAnnotation {
+  id: string;
+  swing_id: string;
+  author_id: string;
+  timestamp_ms: number;
+  tool: AnnotationTool;
+  points: AnnotationPoint[];
+  color: AnnotationColor;
+  created_at: string;
+}
+
+export interface CreateAnnotationRequest {
+  timestamp_ms: number;
+  tool: AnnotationTool;
+  points: AnnotationPoint[];
+  color?: AnnotationColor;
+}
+
+// Points needed to finish a shape (freehand is open-ended)
+export const ANNOTATION_POINT_COUNTS: Record<AnnotationTool, number | null> = {
+  line: 2,
+  angle: 3, // arm, vertex, arm
+  circle: 2, // center, edge
+  freehand: null
+};
+
+export const ANNOTATION_TOOLS: { tool: AnnotationTool; label: string; icon: string }[] = [
+  { tool: 'line', label: 'Line', icon: '📏' },
+  { tool: 'angle', label: 'Angle', icon: '📐' },
+  { tool: 'circle', label: 'Circle', icon: '⭕' },
+  { tool: 'freehand', label: 'Draw', icon: '✏️' }
+];
+
+export const ANNOTATION_COLORS: AnnotationColor[] = ['accent', 'primary', 'white', 'red'];
+
+// Max points stored for a freehand stroke
+export const MAX_FREEHAND_POINTS = 500;
+
+// Shapes are shown when the player is within this window of their timestamp
+export const ANNOTATION_TIME_TOLERANCE_MS = 50;
@@ -0,0 +1,203 @@
+/**
+ * Advice log - records caddy advice, links it to the shot that followed and scores the outcome
+ */
+
+import { supabase } from '$lib/supabase';
+import { StrokesGainedCalculator, type RecordedShot } from '$lib/strokes-gained';
+import type { AdviceOutcome, CaddyReportCard, CaddyRequest, ClubRecommendation, ConfidenceCalibration } from './types';
+import { ADVICE_HISTORY, ADVICE_LINK_WINDOW_MINUTES } from './types';
+import { ReportCardEngine } from './report-card';
+
+// The shot fields needed to link and score advice
+export interface AdviceShot {
+  id: string;
+  round_id: string;
+  hole_number: number;
+  club_used: string;
+  shot_result?: string | null;
+}
+
+const OUTCOME_COLUMNS = 'id, round_id, hole_number, distance_to_target, lie_type, recommended_club, confidence, shot_id, actual_club_used, advice_followed, shot_result, strokes_gained, created_at';
+
+export class AdviceLog {
+
+  /**
+   * Log advice as given; returns its id, or null if it couldn't be saved
+   */
+  static async record(
+    request: CaddyRequest,
+    recommendation: ClubRecommendation,
+    rawConfidence: number
+  ): Promise<string | null> {
+    if (!request.user_id) return null;
+
+    const { data, error } = await supabase
+      .from('pure.caddy_advice')
+      .insert({
+        user_id: request.user_id,
+        round_id: request.round_id || null,
+        hole_number: request.course_context?.hole_number ?? null,
+        distance_to_target: Math.round(request.shot_context.distance_to_target),
+        lie_type: request.shot_context.lie_type,
+        recommended_club: recommendation.primary_club,
+        alternative_clubs: recommendation.alternative_clubs,
+        reasoning: recommendation.reasoning,
+        confidence: rawConfidence,
+        calibrated_confidence: recommendation.confidence
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Error logging caddy advice:', error);
+      return null;
+    }
+
+    return data.id;
+  }
+
+  /**
+   * Advice a shot answers: the given id, or the latest unclaimed advice on the same hole before it was hit
+   */
+  static async findForShot(
+    userId: string,
+    shot: { round_id: string; hole_number: number; hit_at?: string },
+    adviceId?: string
+  ): Promise<AdviceOutcome | null> {
+    let query = supabase
+      .from('pure.caddy_advice')
+      .select(OUTCOME_COLUMNS)
+      .eq('user_id', userId)
+      .is('shot_id', null);
+
+    if (adviceId) {
+      query = query.eq('id', adviceId);
+    } else {
+      // Measured back from when the shot was hit, not when it reached the server
+      const hitAt = shot.hit_at ? Date.parse(shot.hit_at) : Date.now();
+      const since = new Date(hitAt - ADVICE_LINK_WINDOW_MINUTES * 60 * 1000).toISOString();
+      query = query
+        .eq('round_id', shot.round_id)
+        .eq('hole_number', shot.hole_number)
+        .gte('created_at', since)
+        .lte('created_at', new Date(hitAt).toISOString())
+        .order('created_at', { ascending: false })
+        .limit(1);
+    }
+
+    const { data, error } = await query.maybeSingle();
+
+    if (error) {
+      console.error('Error finding caddy advice for shot:', error);
+      return null;
+    }
+
+    return (data as AdviceOutcome | null) || null;
+  }
+
+  /**
+   * Attach the recorded shot and note whether the advice was followed
+   */
+  static async linkShot(advice: AdviceOutcome, shot: AdviceShot): Promise<void> {
+    const { error } = await supabase
+      .from('pure.caddy_advice')
+      .update({
+        shot_id: shot.id,
+        round_id: advice.round_id || shot.round_id,
+        hole_number: advice.hole_number ?? shot.hole_number,
+        actual_club_used: shot.club_used,
+        advice_followed: ReportCardEngine.isFollowed(advice.recommended_club, shot.club_used),
+        shot_result: shot.shot_result || null
+      })
+      .eq('id', advice.id);
+
+    if (error) {
+      console.error('Error linking caddy advice to shot:', error);
+    }
+  }
+
+  /**
+   * Score linked advice on a hole once each shot's finish is known (the next shot, or holed)
+   */
+  static async scoreHole(roundId: string, holeNumber: number): Promise<void> {
+    const [{ data: shots }, { data: pending }] = await Promise.all([
+      supabase
+        .from('pure.shots')
+        .select('id, hole_number, shot_number, distance_to_target, lie_type, shot_result, club_used')
+        .eq('round_id', roundId)
+        .eq('hole_number', holeNumber),
+      supabase
+        .from('pure.caddy_advice')
+        .select('id, shot_id')
+        .eq('round_id', roundId)
+        .eq('hole_number', holeNumber)
+        .not('shot_id', 'is', null)
+        .is('strokes_gained', null)
+    ]);
+
+    if (!shots || !pending || pending.length === 0) return;
+
+    const scored = StrokesGainedCalculator.calculateRound(roundId, shots as RecordedShot[]).shots;
+
+    await Promise.all(pending.map(async advice => {
+      const shot = scored.find(s => s.shot_id === advice.shot_id);
+      if (!shot) return;
+
+      const { error } = await supabase
+        .from('pure.caddy_advice')
+        .update({
+          strokes_gained: shot.strokes_gained,
+          outcome: shot.strokes_gained >= 0 ? 'good' : 'poor',
+          scored_at: new Date().toISOString()
+        })
+        .eq('id', advice.id);
+
+      if (error) {
+        console.error('Error scoring caddy advice:', error);
+      }
+    }));
+  }
+
+  /**
+   * The player's most recent advice with outcomes, optionally just one round's
+   */
+  static async loadOutcomes(userId: string, roundId?: string): Promise<AdviceOutcome[]> {
+    let query = supabase
+      .from('pure.caddy_advice')
+      .select(OUTCOME_COLUMNS)
+      .eq('user_id', userId);
+
+    if (roundId) {
+      query = query.eq('round_id', roundId);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(ADVICE_HISTORY);
+
+    if (error) {
+      console.error('Error loading caddy advice outcomes:', error);
+      return [];
+    }
+
+    return (data || []) as AdviceOutcome[];
+  }
+
+  static async getReportCard(userId: string): Promise<CaddyReportCard> {
+    return ReportCardEngine.build(await this.loadOutcomes(userId));
+  }
+
+  /**
+   * Calibration from the player's own outcomes; null without a user
+   */
+  static async getCalibration(userId?: string): Promise<ConfidenceCalibration | null> {
+    if (!userId) return null;
+
+    try {
+      return ReportCardEngine.calibration(await this.loadOutcomes(userId));
+    } catch (error) {
+      console.error('Error loading confidence calibration:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Bag manager - turns a player's own clubs into the set the caddy recommends from
+ */
+
+import { supabase } from '$lib/supabase';
+import type { BagClub, ClubData, ClubType, MissPattern, UserClubStats } from './types';
+import { STANDARD_CLUBS, CLUB_TYPES, MAX_BAG_CLUBS, TENDENCY_SHOT_HISTORY } from './types';
+
+interface ClubStatsRow {
+  club: string;
+  avg_carry_yards: number | null;
+  avg_total_yards: number | null;
+  dispersion_yards?: number | null;
+  accuracy_percentage?: number | null;
+  sample_size?: number | null;
+}
+
+interface RecentShotRow {
+  club_used: string | null;
+  distance_achieved: number | null;
+  miss_direction: string | null;
+}
+
+export class BagManager {
+
+  /**
+   * Load a player's bag with distances, or the standard set if they haven't configured one
+   */
+  static async loadBag(userId?: string): Promise<ClubData[]> {
+    if (!userId) return STANDARD_CLUBS;
+
+    try {
+      const [{ data: clubs, error }, { data: stats }] = await Promise.all([
+        supabase
+          .from('pure.user_clubs')
+          .select('name, type, loft, brand, model, carry_yards, total_yards, position')
+          .eq('user_id', userId)
+          .order('position', { ascending: true }),
+        supabase
+          .from('pure.user_club_stats')
+          .select('club, avg_carry_yards, avg_total_yards')
+          .eq('user_id', userId)
+      ]);
+
+      if (error) {
+        console.error('Error loading bag:', error);
+        return STANDARD_CLUBS;
+      }
+
+      const bag = this.toClubData(clubs || [], stats || []);
+      return this.hasFullSwingClub(bag) ? bag : STANDARD_CLUBS;
+
+    } catch (error) {
+      console.error('Error loading bag:', error);
+      return STANDARD_CLUBS;
+    }
+  }
+
+  /**
+   * Per-club stats for dispersion: tracked averages plus the last 10 distances and left/right misses
+   */
+  static async loadClubStats(userId?: string): Promise<UserClubStats[]> {
+    if (!userId) return [];
+
+    try {
+      const [{ data: stats }, { data: rounds }] = await Promise.all([
+        supabase
+          .from('pure.user_club_stats')
+          .select('club, avg_carry_yards, avg_total_yards, dispersion_yards, accuracy_percentage, sample_size')
+          .eq('user_id', userId),
+        supabase
+          .from('pure.rounds')
+          .select('id')
+          .eq('user_id', userId)
+      ]);
+
+      const roundIds = (rounds || []).map(r => r.id);
+      const { data: shots } = roundIds.length > 0
+        ? await supabase
+            .from('pure.shots')
+            .select('club_used, distance_achieved, miss_direction')
+            .in('round_id', roundIds)
+            .order('created_at', { ascending: false })
+            .limit(TENDENCY_SHOT_HISTORY)
+        : { data: [] as RecentShotRow[] };
+
+      return this.toClubStats(stats || [], shots || []);
+
+    } catch (error) {
+      console.error('Error loading club stats:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Resolve each club's distances: measured, then tracked from shots, then estimated from loft
+   */
+  static toClubData(clubs: BagClub[], stats: ClubStatsRow[] = []): ClubData[] {
+    return clubs
+      .map(club => {
+        const tracked = stats.find(s => s.club.toLowerCase() === club.name.toLowerCase());
+        const estimate = this.estimateDistances(club.type, club.loft);
+        const carry = club.carry_yards ?? tracked?.avg_carry_yards ?? estimate.carry;
+        const total = club.total_yards ?? tracked?.avg_total_yards
+          ?? Math.round(carry * (estimate.carry > 0 ? estimate.total / estimate.carry : 1));
+
+        return {
+          name: club.name,
+          type: club.type,
+          loft: club.loft,
+          typical_carry: Math.round(carry),
+          typical_total: Math.round(total)
+        };
+      })
+      .sort((a, b) => b.typical_carry - a.typical_carry);
+  }
+
+  /**
+   * Typical carry and total for a loft, interpolated from the standard set
+   */
+  static estimateDistances(type: ClubType, loft: number): { carry: number; total: number } {
+    if (type === 'putter') return { carry: 0, total: 0 };
+
+    const reference = STANDARD_CLUBS
+      .filter(c => c.type !== 'putter')
+      .sort((a, b) => a.loft - b.loft);
+
+    if (loft <= reference[0].loft) {
+      return { carry: reference[0].typical_carry, total: reference[0].typical_total };
+    }
+
+    for (let i = 1; i < reference.length; i++) {
+      const lower = reference[i - 1];
+      const upper = reference[i];
+      if (loft <= upper.loft) {
+        const t = (loft - lower.loft) / (upper.loft - lower.loft);
+        return {
+          carry: Math.round(lower.typical_carry + t * (upper.typical_carry - lower.typical_carry)),
+          total: Math.round(lower.typical_total + t * (upper.typical_total - lower.typical_total))
+        };
+      }
+    }
+
+    const last = reference[reference.length - 1];
+    return { carry: last.typical_carry, total: last.typical_total };
+  }
+
+  /**
+   * Validate a single club; returns error messages
+   */
+  static validateClub(club: Partial<BagClub>): string[] {
+    const errors: string[] = [];
+    const label = club.name || 'club';
+
+    if (!club.name || typeof club.name !== 'string' || club.name.trim().length === 0) {
+      errors.push('name is required');
+    } else if (club.name.length > 40) {
+      errors.push(`${label}: name must be 40 characters or fewer`);
+    }
+    if (!club.type || !CLUB_TYPES.includes(club.type)) {
+      errors.push(`${label}: type must be one of: ${CLUB_TYPES.join(', ')}`);
+    }
+    if (typeof club.loft !== 'number' || club.loft < 0 || club.loft > 70) {
+      errors.push(`${label}: loft must be between 0 and 70 degrees`);
+    }
+    for (const field of ['carry_yards', 'total_yards'] as const) {
+      const value = club[field];
+      if (value !== undefined && value !== null && (typeof value !== 'number' || value <= 0 || value > 400)) {
+        errors.push(`${label}: ${field} must be between 1 and 400`);
+      }
+    }
+    if (club.carry_yards && club.total_yards && club.total_yards < club.carry_yards) {
+      errors.push(`${label}: total_yards can't be less than carry_yards`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate a whole bag: the 14-club limit and unique names
+   */
+  static validateBag(clubs: Partial<BagClub>[]): string[] {
+    const errors = clubs.flatMap(club => this.validateClub(club));
+
+    if (clubs.length > MAX_BAG_CLUBS) {
+      errors.push(`A bag can hold at most ${MAX_BAG_CLUBS} clubs`);
+    }
+
+    const names = clubs.map(c => c.name?.trim().toLowerCase()).filter(Boolean);
+    if (new Set(names).size !== names.length) {
+      errors.push('Club names must be unique');
+    }
+
+    return errors;
+  }
+
+  // Private helper methods
+
+  private static toClubStats(rows: ClubStatsRow[], shots: RecentShotRow[]): UserClubStats[] {
+    const clubs = new Set([
+      ...rows.map(r => r.club),
+      ...shots.map(s => s.club_used).filter((club): club is string => !!club)
+    ]);
+
+    return [...clubs].map(club => {
+      const row = rows.find(r => r.club === club);
+      const recent = shots.filter(s => s.club_used === club);
+      const distances = recent
+        .map(s => s.distance_achieved)
+        .filter((d): d is number => typeof d === 'number' && d > 0)
+        .slice(0, 10);
+      const avg = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+      return {
+        club,
+        total_shots: row?.sample_size || recent.length,
+        avg_carry: Number(row?.avg_carry_yards) || (distances.length > 0 ? Math.round(avg(distances)) : 0),
+        avg_total: Number(row?.avg_total_yards) || 0,
+        accuracy_percentage: Number(row?.accuracy_percentage) || 0,
+        miss_pattern: this.lateralMissPattern(recent),
+        typical_lie_types: [],
+        last_10_distances: distances,
+        bias_yards: 0,
+        dispersion_yards: row?.dispersion_yards ? Number(row.dispersion_yards) : undefined
+      };
+    });
+  }
+
+  private static lateralMissPattern(shots: RecentShotRow[]): MissPattern {
+    const left = shots.filter(s => s.miss_direction === 'left').length;
+    const right = shots.filter(s => s.miss_direction === 'right').length;
+
+    if (left + right < 3) return shots.length >= 5 ? 'straight' : 'inconsistent';
+    if (left >= right * 2) return 'left';
+    if (right >= left * 2) return 'right';
+    return 'inconsistent';
+  }
+
+  private static hasFullSwingClub(bag: ClubData[]): boolean {
+    return bag.some(club => club.type !== 'putter' && club.typical_carry > 0);
+  }
+}
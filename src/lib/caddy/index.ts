@@ -10,11 +10,30 @@ import type {
   PersonalTendencies,
   StrokesSavedData,
   CaddyError,
-  UserClubStats
+  HoleHazard,
+  TargetPlan,
+  WeatherContext,
+  CaddyUsage,
+  CaddyQuotaStatus
 } from './types';
+import { CADDY_QUOTA_LIMITS } from './types';
 
 import { RecommendationEngine } from './recommendations';
+import { BagManager } from './bag';
+import { TendencyStore } from './tendencies';
+import { TargetingEngine } from './targeting';
+import { PlaysLikeCalculator } from './plays-like';
+import { PuttingEngine } from './putting';
+import { ShortGameAdvisor } from './short-game';
+import { AdviceLog } from './advice-log';
+import { ReportCardEngine } from './report-card';
+import { CaddyQuota } from './quota';
+import type { UserPlan } from '$lib/auth/quota-guard';
+import type { GPSPosition } from '$lib/utils/gps';
+import { supabase } from '$lib/supabase';
+import { WeatherService, type RoundWeather } from '$lib/weather';
 import { PersonalizationEngine, type HistoricalShot, type SwingFlaw } from './personalization';
+import { StrokesGainedCalculator } from '$lib/strokes-gained';
 
 export class CaddySystem {
   
@@ -25,15 +44,60 @@ export class CaddySystem {
     const startTime = performance.now();
     
     try {
-      // 1. Load user's personal tendencies (if available)
-      const tendencies = await this.loadPersonalTendencies(request);
+      // 0. Attach live conditions when the caller didn't supply any
+      let weatherUnavailable = false;
+      if (!request.weather_context) {
+        const weather = await this.getWeather(request);
+        if ('code' in weather) {
+          weatherUnavailable = true;
+        } else {
+          request = { ...request, weather_context: weather };
+        }
+      }
       
-      // 2. Get club recommendation
-      const recommendation = RecommendationEngine.recommend(
-        request.shot_context,
+      // 1. Load user's personal tendencies (if available), the clubs they carry and the hole's hazards
+      const [tendencies, bag, clubStats, hazards, calibration] = await Promise.all([
+        this.loadPersonalTendencies(request),
+        request.bag || BagManager.loadBag(request.user_id),
+        BagManager.loadClubStats(request.user_id),
+        this.loadHoleHazards(request),
+        AdviceLog.getCalibration(request.user_id)
+      ]);
+      
+      // 2. Get club recommendation; on the green, read the putt instead, and around it plan the chip
+      const onGreen = request.shot_context.lie_type === 'green';
+      const shortGame = !onGreen && ShortGameAdvisor.applies(request.shot_context);
+      const distanceRecommendation = onGreen
+        ? PuttingEngine.recommend(request.shot_context, bag)
+        : shortGame
+        ? ShortGameAdvisor.recommend(request.shot_context, tendencies, bag)
+        : RecommendationEngine.recommend(
+          request.shot_context,
+          tendencies,
+          request.weather_context,
+          clubStats,
+          bag
+        );
+      
+      // 2b. Pick club and aim point from dispersion and hazards
+      const targetPlan = onGreen || shortGame ? null : TargetingEngine.plan({
+        context: request.shot_context,
+        plays_like_distance: RecommendationEngine.calculateAdjustedDistance(request.shot_context, request.weather_context, bag),
+        bag,
+        hazards,
+        club_stats: clubStats,
         tendencies,
-        request.weather_context
-      );
+        risk_tolerance: request.user_preferences?.risk_tolerance
+      });
+      const planned = targetPlan
+        ? TargetingEngine.applyToRecommendation(distanceRecommendation, targetPlan)
+        : distanceRecommendation;
+      
+      // 2c. Calibrate confidence against how this player's followed advice has turned out
+      const recommendation = {
+        ...planned,
+        confidence: ReportCardEngine.calibrate(planned.confidence, calibration)
+      };
       
       // 3. Generate analysis factors
       const analysisFactors = RecommendationEngine.getAnalysisFactors(
@@ -54,12 +118,15 @@ export class CaddySystem {
       // 5. Create caddy advice
       const advice: CaddyAdvice = {
         recommendation,
-        context_factors: this.getContextFactors(request, tendencies),
+        context_factors: this.getContextFactors(request, tendencies, weatherUnavailable),
         risk_assessment: this.assessRisk(request, recommendation),
-        alternative_strategy: this.getAlternativeStrategy(request),
+        alternative_strategy: this.getAlternativeStrategy(request, targetPlan),
         personal_note: tendencies ? this.getPersonalNote(request, tendencies) : undefined
       };
       
+      // 6. Log it so the shot that follows can be scored against it
+      const adviceId = await AdviceLog.record(request, recommendation, planned.confidence);
+      
       const processingTime = performance.now() - startTime;
       
       return {
@@ -67,7 +134,8 @@ export class CaddySystem {
         analysis,
         processing_time_ms: Math.round(processingTime),
         mode: request.mode,
-        personalization_applied: !!tendencies
+        personalization_applied: !!tendencies,
+        advice_id: adviceId || undefined
       };
       
     } catch (error) {
@@ -80,6 +148,42 @@ export class CaddySystem {
     }
   }
 
+  /**
+   * Live conditions at the ball, with wind relative to the shot line when the target is known.
+   * Without a GPS fix the course's location is used, and without a reading the round's stored weather.
+   */
+  static async getWeather(request: CaddyRequest): Promise<WeatherContext | CaddyError> {
+    const { ball_position, target_position } = request.shot_context;
+    const position = ball_position || target_position ||
+      (request.course_context ? await this.loadCourseLocation(request.course_context.course_id) : null);
+
+    const reading = position
+      ? await WeatherService.getConditions({ course_id: request.course_context?.course_id, position })
+      : null;
+
+    if (reading) {
+      return WeatherService.toWeatherContext(reading, ball_position, target_position);
+    }
+
+    const stored = request.round_id ? await this.loadRoundWeather(request.round_id) : null;
+    const fromRound = stored ? WeatherService.roundWeatherContext(stored, ball_position, target_position) : null;
+    if (fromRound) return fromRound;
+
+    if (!position) {
+      return {
+        code: 'WEATHER_UNAVAILABLE',
+        message: 'No position to look up conditions for',
+        suggestion: 'Enable GPS or enter the wind and temperature for the round'
+      };
+    }
+
+    return {
+      code: 'WEATHER_UNAVAILABLE',
+      message: 'Live weather is unavailable right now',
+      suggestion: 'Distances assume calm conditions; enter the wind for the round to adjust them'
+    };
+  }
+
   /**
    * Update user's personal tendencies (called after shots/swings)
    */
@@ -92,8 +196,7 @@ export class CaddySystem {
     // Calculate new tendencies
     const tendencies = PersonalizationEngine.calculateTendencies(shots, flaws);
     
-    // Store in database (implementation depends on your DB layer)
-    await this.savePersonalTendencies(userId, tendencies);
+    await this.savePersonalTendencies(userId, tendencies, shots.length);
     
     return tendencies;
   }
@@ -107,7 +210,10 @@ export class CaddySystem {
     userId?: string
   ): Promise<{ club: string; reasoning: string; confidence: number }> {
     
+    const bag = await BagManager.loadBag(userId);
     const request: CaddyRequest = {
+      user_id: userId,
+      bag,
       shot_context: {
         distance_to_target: distance,
         lie_type: lieType as any
@@ -120,7 +226,7 @@ export class CaddySystem {
     if ('code' in response) {
       // Return basic recommendation on error
       return {
-        club: distance > 150 ? '7-Iron' : '9-Iron',
+        club: RecommendationEngine.getClubByDistance(distance, bag).name,
         reasoning: 'Standard distance recommendation',
         confidence: 0.5
       };
@@ -155,49 +261,169 @@ export class CaddySystem {
   }
 
   /**
-   * Check if user needs caddy quota upgrade
+   * Whether the player may have more advice: free holes per round and daily advice by plan.
+   * Asking again on a hole that already had advice doesn't use another hole.
    */
-  static checkQuotaStatus(
-    adviceCount: number,
-    isPlusUser: boolean
-  ): { canGetAdvice: boolean; quotaReached: boolean; savedStrokes?: number } {
-    
-    if (isPlusUser) {
-      return { canGetAdvice: true, quotaReached: false };
+  static checkQuotaStatus(usage: CaddyUsage, plan: UserPlan): CaddyQuotaStatus {
+    const limits = CADDY_QUOTA_LIMITS[plan];
+    // A request that doesn't say which hole it's for can't be matched to one already advised
+    const newHole = usage.hole_number === undefined || !usage.holes_advised.includes(usage.hole_number);
+
+    const holesRemaining = limits.holes_per_round === null
+      ? null
+      : Math.max(0, limits.holes_per_round - usage.holes_advised.length);
+    const adviceRemaining = limits.advice_per_day === null
+      ? null
+      : Math.max(0, limits.advice_per_day - usage.advice_today);
+
+    let reason: string | undefined;
+    if (limits.holes_per_round !== null && newHole && usage.holes_advised.length >= limits.holes_per_round) {
+      reason = `Free caddy advice covers the first ${limits.holes_per_round} holes of a round`;
+    } else if (limits.advice_per_day !== null && usage.advice_today >= limits.advice_per_day) {
+      reason = `Daily caddy advice limit reached (${limits.advice_per_day})`;
     }
-    
-    const freeLimit = 3; // First 3 holes free
-    const quotaReached = adviceCount >= freeLimit;
-    
+
+    const next = this.nextCaddyPlan(plan);
+
     return {
-      canGetAdvice: !quotaReached,
-      quotaReached,
-      savedStrokes: adviceCount > 0 ? 2 : undefined // Placeholder - would calculate from actual data
+      canGetAdvice: !reason,
+      quotaReached: !!reason,
+      plan,
+      reason,
+      holes_remaining: holesRemaining,
+      advice_remaining: adviceRemaining,
+      savedStrokes: usage.strokes_saved,
+      upgrade_suggestion: reason && next ? {
+        plan: next,
+        benefit: this.describeCaddyLimits(next)
+      } : undefined
+    };
+  }
+
+  /**
+   * Load the player's plan and usage and check them; usage is returned so it can be recorded
+   */
+  static async checkQuota(
+    userId: string,
+    roundId?: string,
+    holeNumber?: number
+  ): Promise<{ status: CaddyQuotaStatus; usage: CaddyUsage }> {
+    const [plan, usage] = await Promise.all([
+      CaddyQuota.getPlan(userId),
+      CaddyQuota.getUsage(userId, roundId, holeNumber)
+    ]);
+
+    return { status: this.checkQuotaStatus(usage, plan), usage };
+  }
+
+  /**
+   * QUOTA_EXCEEDED error for a blocked status, with what upgrading unlocks and what the caddy has saved so far
+   */
+  static quotaError(status: CaddyQuotaStatus): CaddyError {
+    const saved = status.savedStrokes !== undefined && status.savedStrokes > 0
+      ? `Following the caddy has saved you ${status.savedStrokes} strokes this round. `
+      : '';
+
+    return {
+      code: 'QUOTA_EXCEEDED',
+      message: status.reason || 'Caddy advice limit reached',
+      suggestion: status.upgrade_suggestion
+        ? `${saved}Upgrade to ${status.upgrade_suggestion.plan} for ${status.upgrade_suggestion.benefit.toLowerCase()}`
+        : `${saved}Your allowance resets tomorrow`,
+      upgrade_suggestion: status.upgrade_suggestion,
+      strokes_saved: status.savedStrokes
     };
   }
 
   // Private helper methods
 
+  private static nextCaddyPlan(plan: UserPlan): UserPlan | null {
+    const order: UserPlan[] = ['starter', 'pro', 'premium'];
+    return order[order.indexOf(plan) + 1] || null;
+  }
+
+  private static describeCaddyLimits(plan: UserPlan): string {
+    const { holes_per_round, advice_per_day } = CADDY_QUOTA_LIMITS[plan];
+    const holes = holes_per_round === null ? 'Caddy advice on every hole' : `Caddy advice on ${holes_per_round} holes per round`;
+    const daily = advice_per_day === null ? 'no daily limit' : `up to ${advice_per_day} shots a day`;
+    return `${holes}, ${daily}`;
+  }
+
   private static async loadPersonalTendencies(request: CaddyRequest): Promise<PersonalTendencies | undefined> {
-    // In a real implementation, this would load from database
-    // For now, return undefined (no personalization)
-    return undefined;
+    // Recomputed from shot and flaw history when stale; undefined until there's enough to personalize
+    return TendencyStore.getTendencies(request.user_id);
+  }
+
+  private static async loadHoleHazards(request: CaddyRequest): Promise<HoleHazard[]> {
+    if (request.shot_context.hole_hazards) return request.shot_context.hole_hazards;
+    if (!request.course_context) return [];
+
+    const { data: hole, error } = await supabase
+      .from('pure.holes')
+      .select('hazards')
+      .eq('course_id', request.course_context.course_id)
+      .eq('hole_number', request.course_context.hole_number)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading hole hazards:', error);
+      return [];
+    }
+
+    // Skip entries that aren't mapped hazards (older rows hold free-form notes)
+    return (Array.isArray(hole?.hazards) ? hole.hazards : [])
+      .filter((h: HoleHazard) => h && ['water', 'bunker', 'ob'].includes(h.type));
   }
 
-  private static async savePersonalTendencies(userId: string, tendencies: PersonalTendencies): Promise<void> {
-    // In a real implementation, this would save to database
-    console.log('Saving tendencies for user:', userId, tendencies);
+  private static async loadCourseLocation(courseId: string): Promise<GPSPosition | null> {
+    const { data: course, error } = await supabase
+      .from('pure.courses')
+      .select('location')
+      .eq('id', courseId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading course location:', error);
+      return null;
+    }
+
+    // PostGIS POINT(lng lat)
+    const point = typeof course?.location === 'string'
+      ? course.location.match(/POINT\(([^\s]+)\s+([^\)]+)\)/)
+      : null;
+    return point ? { lat: parseFloat(point[2]), lng: parseFloat(point[1]) } : null;
+  }
+
+  private static async loadRoundWeather(roundId: string): Promise<RoundWeather | null> {
+    const { data: round, error } = await supabase
+      .from('pure.rounds')
+      .select('weather')
+      .eq('id', roundId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading round weather:', error);
+      return null;
+    }
+
+    return round?.weather || null;
+  }
+
+  private static async savePersonalTendencies(
+    userId: string,
+    tendencies: PersonalTendencies,
+    sampleSize: number
+  ): Promise<void> {
+    await TendencyStore.save(userId, { tendencies, sample_size: sampleSize });
   }
 
   private static calculateExpectedStrokes(request: CaddyRequest): number {
-    // USGA/course average for this situation
-    const { shot_context, course_context } = request;
+    // Strokes-gained baseline for this lie and distance
+    const { shot_context } = request;
+    const lie = StrokesGainedCalculator.toBaselineLie(shot_context.lie_type) || 'fairway';
+    const expected = StrokesGainedCalculator.expectedStrokes(lie, shot_context.distance_to_target);
     
-    // Simple heuristic - would use real course data in production
-    if (shot_context.distance_to_target <= 100) return 2.5; // Short game
-    if (shot_context.distance_to_target <= 150) return 2.8; // Mid iron
-    if (shot_context.distance_to_target <= 200) return 3.1; // Long iron
-    return 3.5; // Long shot
+    return Math.round(expected * 10) / 10;
   }
 
   private static calculateRecommendedStrokes(request: CaddyRequest, confidence: number): number {
@@ -228,7 +454,11 @@ export class CaddySystem {
     return Math.min(difficulty, 10);
   }
 
-  private static getContextFactors(request: CaddyRequest, tendencies?: PersonalTendencies): string[] {
+  private static getContextFactors(
+    request: CaddyRequest,
+    tendencies?: PersonalTendencies,
+    weatherUnavailable = false
+  ): string[] {
     const factors: string[] = [];
     
     const { shot_context, weather_context } = request;
@@ -244,6 +474,8 @@ export class CaddySystem {
     // Weather
     if (weather_context?.wind_speed && weather_context.wind_speed > 10) {
       factors.push(`${weather_context.wind_speed}mph wind`);
+    } else if (weatherUnavailable) {
+      factors.push('no live weather; calm conditions assumed');
     }
     
     // Personal
@@ -263,9 +495,17 @@ export class CaddySystem {
     return 'high';
   }
 
-  private static getAlternativeStrategy(request: CaddyRequest): string | undefined {
+  private static getAlternativeStrategy(request: CaddyRequest, plan: TargetPlan | null): string | undefined {
     const { shot_context } = request;
     
+    // Offer the other end of the risk scale from what the player prefers
+    if (plan) {
+      const other = plan.risk_tolerance === 'conservative' ? plan.aggressive : plan.conservative;
+      if (other.club !== plan.recommended.club || other.aim_point.x !== plan.recommended.aim_point.x) {
+        return `${other.strategy === 'conservative' ? 'Safer' : 'Aggressive'}: ${other.club}, ${other.aim_point.description}`;
+      }
+    }
+    
     if (shot_context.lie_type === 'sand') {
       return 'Consider laying up to avoid the hazard';
     }
@@ -293,16 +533,61 @@ export class CaddySystem {
 }
 
 // Export commonly used functions for convenience
-export const getCaddyAdvice = CaddySystem.getAdvice;
-export const getQuickAdvice = CaddySystem.getQuickAdvice;
-export const updatePersonalization = CaddySystem.updatePersonalization;
-export const checkQuotaStatus = CaddySystem.checkQuotaStatus;
+export const getCaddyAdvice = CaddySystem.getAdvice.bind(CaddySystem);
+export const getQuickAdvice = CaddySystem.getQuickAdvice.bind(CaddySystem);
+export const updatePersonalization = CaddySystem.updatePersonalization.bind(CaddySystem);
+export const checkQuotaStatus = CaddySystem.checkQuotaStatus.bind(CaddySystem);
+export const checkCaddyQuota = CaddySystem.checkQuota.bind(CaddySystem);
+export const loadBag = BagManager.loadBag.bind(BagManager);
+export const loadTendencies = TendencyStore.getTendencies.bind(TendencyStore);
+export const refreshTendencies = TendencyStore.refresh.bind(TendencyStore);
+export const planTarget = TargetingEngine.plan.bind(TargetingEngine);
+export const calculatePlaysLike = PlaysLikeCalculator.calculate.bind(PlaysLikeCalculator);
+export const readPutt = PuttingEngine.read.bind(PuttingEngine);
+export const planShortGame = ShortGameAdvisor.plan.bind(ShortGameAdvisor);
+export const getCaddyWeather = CaddySystem.getWeather.bind(CaddySystem);
+export const getCaddyReportCard = AdviceLog.getReportCard.bind(AdviceLog);
 
 // Export types for external use
 export type {
   CaddyRequest,
   CaddyResponse,
-  PersonalTendencies
+  CourseContext,
+  LieType,
+  PersonalTendencies,
+  UserClubStats,
+  BagClub,
+  ClubData,
+  ClubType,
+  HoleHazard,
+  HazardSide,
+  AimPoint,
+  TargetOption,
+  TargetPlan,
+  HazardProbabilities,
+  DispersionEllipse,
+  RiskTolerance,
+  WeatherContext,
+  PlaysLikeInput,
+  PlaysLikeFactor,
+  PlaysLikeResult,
+  PuttInput,
+  PuttRead,
+  SlopeDirection,
+  LieQuality,
+  PinDepth,
+  ShortGameShotType,
+  ShortGamePlan,
+  SwingLength,
+  AdviceOutcome,
+  CaddyReportCard,
+  ClubReportLine,
+  ConfidenceBucket,
+  ConfidenceCalibration,
+  CaddyError,
+  CaddyQuotaLimits,
+  CaddyQuotaStatus,
+  CaddyUsage
 } from './types';
 
 export type {
@@ -310,4 +595,14 @@ export type {
   SwingFlaw
 } from './personalization';
 
-export { PersonalizationEngine } from './personalization'; 
\ No newline at end of file
+export { PersonalizationEngine } from './personalization';
+export { BagManager } from './bag';
+export { TendencyStore, type StoredTendencies } from './tendencies';
+export { TargetingEngine, type TargetingInput } from './targeting';
+export { PlaysLikeCalculator } from './plays-like';
+export { PuttingEngine } from './putting';
+export { ShortGameAdvisor } from './short-game';
+export { AdviceLog, type AdviceShot } from './advice-log';
+export { ReportCardEngine } from './report-card';
+export { CaddyQuota } from './quota';
+export { STANDARD_CLUBS, CLUB_TYPES, MAX_BAG_CLUBS, MIN_PERSONALIZATION_SHOTS, REFERENCE_AIR, CADDY_QUOTA_LIMITS, SLOPE_FALL_DEGREES, MAX_GREEN_SLOPE_PERCENT, SHORT_GAME_MAX_YARDS, PIN_DEPTH_YARDS } from './types';
@@ -8,6 +8,7 @@ import type {
   MissPattern,
   LieType
 } from './types';
+import { MIN_PERSONALIZATION_SHOTS } from './types';
 
 export interface HistoricalShot {
   club: string;
@@ -36,7 +37,7 @@ export class PersonalizationEngine {
     courseScores?: Record<string, number[]>
   ): PersonalTendencies {
     
-    if (shots.length < 10) {
+    if (shots.length < MIN_PERSONALIZATION_SHOTS) {
       return this.getDefaultTendencies();
     }
     
@@ -246,13 +247,15 @@ export class PersonalizationEngine {
   }
 
   /**
-   * Check if tendencies need refresh (older than 7 days or <20 confidence)
+   * Check if tendencies need refresh (older than 7 days, or a day when confidence is under 20%
+   * since new shots change them most then)
    */
-  static needsRefresh(tendencies: PersonalTendencies): boolean {
+  static needsRefresh(tendencies: PersonalTendencies, now = Date.now()): boolean {
     const lastUpdate = new Date(tendencies.last_updated);
-    const daysSinceUpdate = (Date.now() - lastUpdate.getTime()) / (1000 * 60 * 60 * 24);
-    
-    return daysSinceUpdate > 7 || tendencies.confidence_level < 0.2;
+    const daysSinceUpdate = (now - lastUpdate.getTime()) / (1000 * 60 * 60 * 24);
+    if (isNaN(daysSinceUpdate)) return true;
+
+    return daysSinceUpdate > 7 || (tendencies.confidence_level < 0.2 && daysSinceUpdate > 1);
   }
 
   /**
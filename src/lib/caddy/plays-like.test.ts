@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { PlaysLikeCalculator } from './plays-like';
+import { REFERENCE_AIR } from './types';
+import type { PlaysLikeInput } from './types';
+
+describe('PlaysLikeCalculator.airDensity', () => {
+  it.each([
+    { temperature: 70, pressure: 1013.25, humidity: 50, density: 1.194 },
+    { temperature: 59, pressure: 1013.25, humidity: 0, density: 1.225 },  // ISA sea level
+    { temperature: 40, pressure: 1013.25, humidity: 50, density: 1.27 },
+    { temperature: 100, pressure: 1013.25, humidity: 50, density: 1.121 },
+    { temperature: 70, pressure: 1013.25, humidity: 0, density: 1.2 },
+    { temperature: 70, pressure: 1013.25, humidity: 100, density: 1.188 }
+  ])('$temperature°F, $pressure hPa, $humidity% is $density kg/m³', ({ temperature, pressure, humidity, density }) => {
+    expect(PlaysLikeCalculator.airDensity(temperature, pressure, humidity)).toBeCloseTo(density, 3);
+  });
+
+  it('clamps humidity to 0-100%', () => {
+    expect(PlaysLikeCalculator.airDensity(70, 1013.25, 150)).toBe(PlaysLikeCalculator.airDensity(70, 1013.25, 100));
+    expect(PlaysLikeCalculator.airDensity(70, 1013.25, -10)).toBe(PlaysLikeCalculator.airDensity(70, 1013.25, 0));
+  });
+});
+
+describe('PlaysLikeCalculator.standardPressure', () => {
+  it.each([
+    { altitude: 0, pressure: REFERENCE_AIR.pressure },
+    { altitude: 5280, pressure: 834.3 }
+  ])('$altitude ft is $pressure hPa', ({ altitude, pressure }) => {
+    expect(PlaysLikeCalculator.standardPressure(altitude)).toBeCloseTo(pressure, 1);
+  });
+});
+
+describe('PlaysLikeCalculator.calculate', () => {
+  it('leaves the distance alone in reference conditions', () => {
+    const result = PlaysLikeCalculator.calculate({ distance: 150 });
+
+    expect(result.plays_like).toBe(150);
+    expect(result.carry_multiplier).toBe(1);
+    expect(result.breakdown).toEqual([]);
+  });
+
+  it.each<{ name: string; input: PlaysLikeInput; plays_like: number; multiplier: number; factor: string; yards: number }>([
+    { name: 'cold air', input: { distance: 150, temperature: 40 }, plays_like: 156, multiplier: 0.962, factor: 'temperature', yards: 5.9 },
+    { name: 'hot air', input: { distance: 150, temperature: 100 }, plays_like: 145, multiplier: 1.036, factor: 'temperature', yards: -5.3 },
+    { name: 'a mile up', input: { distance: 150, altitude_ft: 5280 }, plays_like: 136, multiplier: 1.106, factor: 'altitude', yards: -14.4 }
+  ])('adjusts for $name', ({ input, plays_like, multiplier, factor, yards }) => {
+    const result = PlaysLikeCalculator.calculate(input);
+
+    expect(result.plays_like).toBe(plays_like);
+    expect(result.carry_multiplier).toBe(multiplier);
+    expect(result.breakdown).toEqual([expect.objectContaining({ factor, yards })]);
+  });
+
+  it.each<{ name: string; input: Partial<PlaysLikeInput>; head: number; cross: number; plays_like: number; aim: number }>([
+    { name: 'a described headwind', input: { wind_direction: 'headwind' }, head: 10, cross: 0, plays_like: 167, aim: 0 },
+    { name: 'a described tailwind', input: { wind_direction: 'tailwind' }, head: -10, cross: 0, plays_like: 143, aim: 0 },
+    { name: 'a described crosswind', input: { wind_direction: 'crosswind right-to-left' }, head: 0, cross: 10, plays_like: 150, aim: 9 },
+    { name: 'wind straight down the bearing', input: { wind_degrees: 0, shot_bearing: 0 }, head: 10, cross: 0, plays_like: 167, aim: 0 },
+    { name: 'wind from the right of the bearing', input: { wind_degrees: 90, shot_bearing: 0 }, head: 0, cross: 10, plays_like: 150, aim: 9 },
+    { name: 'a quartering wind', input: { wind_degrees: 45, shot_bearing: 0 }, head: 7.1, cross: 7.1, plays_like: 161, aim: 6 },
+    { name: 'an unreadable direction', input: { wind_direction: 'gusty' }, head: 0, cross: 0, plays_like: 150, aim: 0 }
+  ])('splits $name into components', ({ input, head, cross, plays_like, aim }) => {
+    const result = PlaysLikeCalculator.calculate({ distance: 150, wind_speed: 10, ...input });
+
+    expect(result.head_wind_mph).toBe(head);
+    expect(result.cross_wind_mph).toBe(cross);
+    expect(result.plays_like).toBe(plays_like);
+    expect(result.aim_offset_yards).toBe(aim);
+  });
+
+  it.each([
+    { loft: 9, plays_like: 164 },
+    { loft: 25, plays_like: 167 },
+    { loft: 45, plays_like: 170 }
+  ])('rides the wind more with higher loft ($loft°)', ({ loft, plays_like }) => {
+    const result = PlaysLikeCalculator.calculate({ distance: 150, wind_speed: 10, wind_direction: 'headwind', loft });
+    expect(result.plays_like).toBe(plays_like);
+  });
+
+  it('never loses more than half the carry to wind', () => {
+    const result = PlaysLikeCalculator.calculate({ distance: 150, wind_speed: 100, wind_direction: 'headwind' });
+
+    expect(result.carry_multiplier).toBe(0.5);
+    expect(result.plays_like).toBe(300);
+  });
+
+  it.each([
+    { elevation_change: 30, yards: 10, plays_like: 160, description: '30ft uphill' },
+    { elevation_change: -15, yards: -5, plays_like: 145, description: '15ft downhill' }
+  ])('adds a yard per 3ft of elevation ($description)', ({ elevation_change, yards, plays_like, description }) => {
+    const result = PlaysLikeCalculator.calculate({ distance: 150, elevation_change });
+
+    expect(result.carry_multiplier).toBe(1);
+    expect(result.plays_like).toBe(plays_like);
+    expect(result.breakdown).toEqual([{ factor: 'elevation', yards, description }]);
+  });
+
+  it('breaks combined conditions down factor by factor', () => {
+    const result = PlaysLikeCalculator.calculate({
+      distance: 150,
+      temperature: 50,
+      wind_speed: 10,
+      wind_direction: 'headwind',
+      elevation_change: 9
+    });
+
+    expect(result.breakdown).toEqual([
+      { factor: 'temperature', yards: 3.9, description: '50°F air is denser' },
+      { factor: 'wind', yards: 17.1, description: '10mph into' },
+      { factor: 'elevation', yards: 3, description: '9ft uphill' }
+    ]);
+
+    // Each factor is the extra yards on top of the ones before it, so they add up to the total
+    const total = result.breakdown.reduce((sum, f) => sum + f.yards, 0);
+    expect(result.plays_like).toBe(174);
+    expect(Math.abs(result.distance + total - result.plays_like)).toBeLessThan(1);
+  });
+});
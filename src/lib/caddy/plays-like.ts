@@ -0,0 +1,192 @@
+/**
+ * Plays-like calculator - adjusts a target distance for wind, air density and elevation
+ */
+
+import type { PlaysLikeFactor, PlaysLikeFactorType, PlaysLikeInput, PlaysLikeResult } from './types';
+import {
+  REFERENCE_AIR,
+  DENSITY_CARRY_SENSITIVITY,
+  HEADWIND_CARRY_PER_MPH,
+  TAILWIND_CARRY_PER_MPH,
+  CROSSWIND_DRIFT_PER_MPH,
+  REFERENCE_WIND_LOFT,
+  ELEVATION_YARDS_PER_FOOT
+} from './types';
+
+// Gas constants for dry air and water vapour, J/(kg·K)
+const DRY_AIR_CONSTANT = 287.058;
+const VAPOUR_CONSTANT = 461.495;
+
+// A driver's low flight rides the wind less than a wedge's high one; capped both ways
+const MIN_LOFT_WIND_FACTOR = 0.85;
+const MAX_LOFT_WIND_FACTOR = 1.35;
+
+// A shot can't lose more than half its carry to wind
+const MIN_WIND_MULTIPLIER = 0.5;
+
+export class PlaysLikeCalculator {
+
+  /**
+   * Yards to hit for, with each factor's share. Air density and wind scale carry,
+   * so each is reported as the extra yards needed once the factors before it are applied.
+   */
+  static calculate(input: PlaysLikeInput): PlaysLikeResult {
+    const { distance } = input;
+    const breakdown: PlaysLikeFactor[] = [];
+    let multiplier = 1;
+
+    const addFactor = (factor: PlaysLikeFactorType, next: number, description: string) => {
+      breakdown.push({
+        factor,
+        yards: Math.round((distance / next - distance / multiplier) * 10) / 10,
+        description
+      });
+      multiplier = next;
+    };
+
+    // Air density, changed one input at a time from reference air
+    const reference = this.airDensity(REFERENCE_AIR.temperature, REFERENCE_AIR.pressure, REFERENCE_AIR.humidity);
+    const temperature = input.temperature ?? REFERENCE_AIR.temperature;
+    const humidity = input.humidity ?? REFERENCE_AIR.humidity;
+    const altitudePressure = this.standardPressure(input.altitude_ft ?? 0);
+    const pressure = input.pressure ?? altitudePressure;
+
+    const densityMultiplier = (t: number, p: number, h: number) =>
+      1 - DENSITY_CARRY_SENSITIVITY * (this.airDensity(t, p, h) / reference - 1);
+
+    if (input.temperature !== undefined) {
+      addFactor(
+        'temperature',
+        densityMultiplier(temperature, REFERENCE_AIR.pressure, REFERENCE_AIR.humidity),
+        `${Math.round(temperature)}°F air is ${temperature < REFERENCE_AIR.temperature ? 'denser' : 'thinner'}`
+      );
+    }
+    if (input.altitude_ft) {
+      addFactor(
+        'altitude',
+        densityMultiplier(temperature, altitudePressure, REFERENCE_AIR.humidity),
+        `${Math.round(input.altitude_ft)}ft above sea level`
+      );
+    }
+    if (input.pressure !== undefined) {
+      addFactor(
+        'pressure',
+        densityMultiplier(temperature, pressure, REFERENCE_AIR.humidity),
+        `${Math.round(pressure)} hPa pressure`
+      );
+    }
+    if (input.humidity !== undefined) {
+      addFactor(
+        'humidity',
+        densityMultiplier(temperature, pressure, humidity),
+        `${Math.round(humidity)}% humidity`
+      );
+    }
+
+    // Wind, split into along-the-line and across-the-line components
+    const loftFactor = this.loftWindFactor(input.loft);
+    const { head, cross } = this.windComponents(input);
+
+    if (head !== 0 || cross !== 0) {
+      const windMultiplier = head >= 0
+        ? 1 - HEADWIND_CARRY_PER_MPH * head * loftFactor
+        : 1 + TAILWIND_CARRY_PER_MPH * -head * loftFactor;
+
+      addFactor('wind', multiplier * Math.max(MIN_WIND_MULTIPLIER, windMultiplier), this.describeWind(head, cross));
+    }
+
+    // Elevation changes where the ball lands, not how far it flies
+    let elevationYards = 0;
+    if (input.elevation_change) {
+      elevationYards = Math.round(input.elevation_change * ELEVATION_YARDS_PER_FOOT * 10) / 10;
+      breakdown.push({
+        factor: 'elevation',
+        yards: elevationYards,
+        description: `${Math.abs(Math.round(input.elevation_change))}ft ${input.elevation_change > 0 ? 'uphill' : 'downhill'}`
+      });
+    }
+
+    // Wind from the right pushes the ball left, so aim right
+    const aimOffset = CROSSWIND_DRIFT_PER_MPH * cross * distance * loftFactor;
+
+    return {
+      distance,
+      plays_like: Math.round(distance / multiplier + elevationYards),
+      carry_multiplier: Math.round(multiplier * 1000) / 1000,
+      head_wind_mph: Math.round(head * 10) / 10,
+      cross_wind_mph: Math.round(cross * 10) / 10,
+      aim_offset_yards: Math.round(aimOffset),
+      air_density: Math.round(this.airDensity(temperature, pressure, humidity) * 1000) / 1000,
+      breakdown
+    };
+  }
+
+  /**
+   * Moist air density (kg/m³) from temperature (°F), pressure (hPa) and relative humidity (%)
+   */
+  static airDensity(temperatureF: number, pressureHpa: number, humidity: number): number {
+    const celsius = (temperatureF - 32) * 5 / 9;
+    const kelvin = celsius + 273.15;
+
+    // Tetens saturation vapour pressure, hPa
+    const saturation = 6.1078 * Math.pow(10, (7.5 * celsius) / (celsius + 237.3));
+    const vapour = Math.min(100, Math.max(0, humidity)) / 100 * saturation;
+    const dry = pressureHpa - vapour;
+
+    return (dry * 100) / (DRY_AIR_CONSTANT * kelvin) + (vapour * 100) / (VAPOUR_CONSTANT * kelvin);
+  }
+
+  /**
+   * Standard-atmosphere pressure (hPa) at an altitude in feet
+   */
+  static standardPressure(altitudeFt: number): number {
+    const meters = altitudeFt * 0.3048;
+    return REFERENCE_AIR.pressure * Math.pow(1 - 2.25577e-5 * meters, 5.25588);
+  }
+
+  // Private helper methods
+
+  private static loftWindFactor(loft?: number): number {
+    const factor = 1 + ((loft ?? REFERENCE_WIND_LOFT) - REFERENCE_WIND_LOFT) / 100;
+    return Math.min(MAX_LOFT_WIND_FACTOR, Math.max(MIN_LOFT_WIND_FACTOR, factor));
+  }
+
+  /**
+   * Headwind (negative = tailwind) and crosswind (positive = from the right) in mph.
+   * Uses the compass wind direction and shot bearing when both are known, otherwise
+   * a relative description like "headwind" or "crosswind left-to-right".
+   */
+  private static windComponents(input: PlaysLikeInput): { head: number; cross: number } {
+    const speed = input.wind_speed || 0;
+    if (speed <= 0) return { head: 0, cross: 0 };
+
+    let angle: number | null = null;
+    if (input.wind_degrees !== undefined && input.shot_bearing !== undefined) {
+      angle = input.wind_degrees - input.shot_bearing;
+    } else if (input.wind_direction) {
+      const direction = input.wind_direction.toLowerCase();
+      if (direction.includes('head') || direction.includes('into')) angle = 0;
+      else if (direction.includes('tail') || direction.includes('helping')) angle = 180;
+      else if (direction.includes('right-to-left')) angle = 90;
+      else if (direction.includes('left-to-right')) angle = -90;
+    }
+    if (angle === null) return { head: 0, cross: 0 };
+
+    const radians = angle * Math.PI / 180;
+    return {
+      head: speed * Math.cos(radians),
+      cross: speed * Math.sin(radians)
+    };
+  }
+
+  private static describeWind(head: number, cross: number): string {
+    const parts: string[] = [];
+    if (Math.abs(head) >= 1) {
+      parts.push(`${Math.round(Math.abs(head))}mph ${head > 0 ? 'into' : 'helping'}`);
+    }
+    if (Math.abs(cross) >= 1) {
+      parts.push(`${Math.round(Math.abs(cross))}mph from the ${cross > 0 ? 'right' : 'left'}`);
+    }
+    return parts.join(', ') || 'light wind';
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Putting engine - reads line and pace from distance, green slope and speed
+ */
+
+import type { ClubData, ClubRecommendation, PuttInput, PuttRead, ShotContext } from './types';
+import {
+  CUP_DIAMETER_INCHES,
+  PUTT_FINISH_PAST_INCHES,
+  DEFAULT_STIMP,
+  STIMP_RELEASE_SPEED_FPS,
+  ROLLING_SLOPE_ACCELERATION,
+  MAX_GREEN_SLOPE_PERCENT,
+  BREAK_MAKE_PENALTY_PER_CUP,
+  SLOPE_FALL_DEGREES,
+  STANDARD_CLUBS
+} from './types';
+import { StrokesGainedCalculator } from '$lib/strokes-gained';
+
+// Simulation step and limits
+const TIME_STEP_S = 0.005;
+const MAX_ROLL_S = 30;
+const SOLVER_ITERATIONS = 40;
+const LINE_TOLERANCE_FT = 0.01;
+const PACE_TOLERANCE_FT = 0.02;
+
+// Never let the slope beat friction outright, or a downhill putt would never stop
+const MAX_SLOPE_SHARE_OF_FRICTION = 0.9;
+
+const MIN_STIMP = 6;
+const MAX_STIMP = 15;
+
+interface Roll {
+  crossed: boolean;   // reached the hole's distance
+  miss: number;       // feet right (+) / left (-) of the hole where it got there, or where it stopped short
+  past: number;       // feet rolled after reaching the hole (negative = stopped short)
+}
+
+export class PuttingEngine {
+
+  /**
+   * Where to aim and how hard to hit it so the ball tracks into the hole and would finish
+   * PUTT_FINISH_PAST_INCHES beyond it. Rolls the ball on a plane tilted by the slope,
+   * with friction set by the stimp reading.
+   */
+  static read(input: PuttInput): PuttRead {
+    const distance = Math.max(1, input.distance_feet);
+    const stimp = Math.min(MAX_STIMP, Math.max(MIN_STIMP, input.stimp ?? DEFAULT_STIMP));
+    const friction = (STIMP_RELEASE_SPEED_FPS ** 2) / (2 * stimp);
+
+    const grade = Math.min(
+      Math.max(0, input.slope_percent ?? 0),
+      MAX_GREEN_SLOPE_PERCENT
+    ) / 100;
+    const fall = (SLOPE_FALL_DEGREES[input.slope_direction || 'downhill'] * Math.PI) / 180;
+    const slopeAcceleration = Math.min(grade * ROLLING_SLOPE_ACCELERATION, friction * MAX_SLOPE_SHARE_OF_FRICTION);
+    const gravity = { x: slopeAcceleration * Math.sin(fall), y: slopeAcceleration * Math.cos(fall) };
+
+    const finishPast = PUTT_FINISH_PAST_INCHES / 12;
+
+    // Start straight at the hole with the speed a straight putt on this grade would need
+    let aim = 0;
+    let speed = Math.sqrt(2 * Math.max(friction - gravity.y, 0.1) * (distance + finishPast));
+
+    for (let i = 0; i < SOLVER_ITERATIONS; i++) {
+      const roll = this.roll(aim, speed, distance, friction, gravity);
+      if (roll.crossed && Math.abs(roll.miss) < LINE_TOLERANCE_FT && Math.abs(roll.past - finishPast) < PACE_TOLERANCE_FT) break;
+
+      aim -= Math.atan2(roll.miss, distance);
+      const paceRatio = (distance + finishPast) / Math.max(distance + roll.past, 0.1);
+      speed *= Math.sqrt(Math.min(2, Math.max(0.5, paceRatio)));
+    }
+
+    // How far the same stroke would roll on a flat green, less the planned run-out
+    const playsLike = (speed ** 2) / (2 * friction) - finishPast;
+
+    const offsetInches = Math.abs(Math.tan(aim) * distance * 12);
+    const aimCups = Math.max(0, (offsetInches - CUP_DIAMETER_INCHES / 2) / CUP_DIAMETER_INCHES);
+    const aimSide: PuttRead['aim_side'] = offsetInches < 0.5 ? 'center' : aim > 0 ? 'right' : 'left';
+
+    const baseline = StrokesGainedCalculator.makeProbability(distance);
+    const breakCups = offsetInches / CUP_DIAMETER_INCHES;
+    const makeProbability = baseline * (1 - Math.min(0.5, breakCups * BREAK_MAKE_PENALTY_PER_CUP));
+
+    const read: PuttRead = {
+      distance_feet: this.round(distance, 1),
+      plays_like_feet: this.round(playsLike, 1),
+      finish_past_inches: PUTT_FINISH_PAST_INCHES,
+      aim_cups: this.round(aimCups * 2, 0) / 2, // half cups are as fine as anyone can aim
+      aim_side: aimSide,
+      aim_offset_inches: this.round(offsetInches, 1),
+      make_probability: this.round(makeProbability, 2),
+      baseline_make_probability: this.round(baseline, 2),
+      description: ''
+    };
+    read.description = this.describe(read);
+
+    return read;
+  }
+
+  /**
+   * Putter advice for a ball on the green; the shot context distance is in yards like any other shot
+   */
+  static recommend(context: ShotContext, bag: ClubData[] = STANDARD_CLUBS): ClubRecommendation {
+    const read = this.read({
+      distance_feet: context.distance_to_target * 3,
+      slope_percent: context.slope_percent,
+      slope_direction: context.slope_direction,
+      stimp: context.stimp
+    });
+
+    const putter = bag.find(club => club.type === 'putter') || STANDARD_CLUBS.find(club => club.type === 'putter')!;
+    const slopeNote = context.slope_percent
+      ? `${context.slope_percent}% slope ${(context.slope_direction || 'downhill').replace(/_/g, ' ')}`
+      : 'no slope entered, read as flat';
+
+    return {
+      primary_club: putter.name,
+      alternative_clubs: [],
+      reasoning: `${read.description} (${slopeNote}). ${Math.round(read.make_probability * 100)}% of tour players hole this one.`,
+      confidence: Math.min(0.99, Math.max(0.05, read.make_probability)),
+      distance_adjustment: Math.round((read.plays_like_feet - read.distance_feet) / 3),
+      aim_adjustment: this.describeAim(read),
+      swing_thought: `die it ${read.finish_past_inches} inches past`,
+      putt_read: read
+    };
+  }
+
+  // Private helper methods
+
+  private static roll(
+    aim: number,
+    speed: number,
+    distance: number,
+    friction: number,
+    gravity: { x: number; y: number }
+  ): Roll {
+    let x = 0;
+    let y = 0;
+    let vx = speed * Math.sin(aim);
+    let vy = speed * Math.cos(aim);
+    let crossed = false;
+    let miss = 0;
+    let past = 0;
+
+    for (let t = 0; t < MAX_ROLL_S; t += TIME_STEP_S) {
+      const v = Math.hypot(vx, vy);
+      if (v < friction * TIME_STEP_S) break;
+
+      // Friction opposes the direction of roll; the slope pulls down the fall line
+      vx += (gravity.x - (friction * vx) / v) * TIME_STEP_S;
+      vy += (gravity.y - (friction * vy) / v) * TIME_STEP_S;
+
+      const nextX = x + vx * TIME_STEP_S;
+      const nextY = y + vy * TIME_STEP_S;
+
+      if (!crossed && nextY >= distance) {
+        crossed = true;
+        miss = x + ((distance - y) / (nextY - y)) * (nextX - x);
+      } else if (crossed) {
+        past += Math.hypot(nextX - x, nextY - y);
+      }
+
+      x = nextX;
+      y = nextY;
+    }
+
+    return crossed ? { crossed, miss, past } : { crossed, miss: x, past: y - distance };
+  }
+
+  private static describeAim(read: PuttRead): string {
+    if (read.aim_side === 'center') return 'aim center cup';
+    if (read.aim_cups === 0) return `aim inside the ${read.aim_side} edge`;
+    return `aim ${read.aim_cups} ${read.aim_cups === 1 ? 'cup' : 'cups'} outside ${read.aim_side}`;
+  }
+
+  private static describe(read: PuttRead): string {
+    const aim = this.describeAim(read);
+    const pace = Math.abs(read.plays_like_feet - read.distance_feet) < 0.5
+      ? `roll it the full ${Math.round(read.distance_feet)} ft`
+      : `roll it like ${Math.round(read.plays_like_feet)} ft`;
+    return `${aim.charAt(0).toUpperCase()}${aim.slice(1)}, ${pace}`;
+  }
+
+  private static round(value: number, places: number): number {
+    const factor = 10 ** places;
+    return Math.round(value * factor) / factor;
+  }
+}
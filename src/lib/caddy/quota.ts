@@ -0,0 +1,137 @@
+/**
+ * Caddy quota store - reads and records advice usage against the player's plan in pure.caddy_quota
+ */
+
+import { supabase } from '$lib/supabase';
+import { QuotaGuard, type UserPlan } from '$lib/auth/quota-guard';
+import type { CaddyUsage } from './types';
+import { AdviceLog } from './advice-log';
+import { ReportCardEngine } from './report-card';
+
+interface QuotaRow {
+  advice_count: number | null;
+  strokes_saved: number | null;
+}
+
+export class CaddyQuota {
+
+  /**
+   * The player's plan from their profile; starter when unknown
+   */
+  static async getPlan(userId: string): Promise<UserPlan> {
+    const { data, error } = await supabase
+      .from('pure_users')
+      .select('plan')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching user plan:', error);
+    }
+
+    return QuotaGuard.isValidPlan(data?.plan) ? data.plan : 'starter';
+  }
+
+  /**
+   * Advice used today, holes already advised in the round and what followed advice has saved there.
+   * Strokes saved is the round's report card figure, so the quota message and the card agree.
+   */
+  static async getUsage(userId: string, roundId?: string, holeNumber?: number): Promise<CaddyUsage> {
+    const [today, holesAdvised, outcomes] = await Promise.all([
+      this.loadToday(userId),
+      roundId ? this.loadHolesAdvised(userId, roundId) : Promise.resolve([]),
+      roundId ? AdviceLog.loadOutcomes(userId, roundId) : Promise.resolve([])
+    ]);
+
+    return {
+      advice_today: today?.advice_count || 0,
+      holes_advised: holesAdvised,
+      hole_number: holeNumber,
+      strokes_saved: ReportCardEngine.build(outcomes).strokes_saved ?? undefined
+    };
+  }
+
+  /**
+   * Count one piece of advice against today's allowance
+   */
+  static async recordUsage(
+    userId: string,
+    roundId: string | undefined,
+    usage: CaddyUsage,
+    quotaReached: boolean
+  ): Promise<void> {
+    // Incremented in the database so advice given at the same moment isn't lost; the hole is counted with it
+    const { error } = await supabase.rpc('increment_caddy_advice', {
+      p_user_id: userId,
+      p_date: this.today(),
+      p_round_id: roundId || null,
+      p_hole_number: usage.hole_number ?? null,
+      p_quota_reached: quotaReached,
+      p_strokes_saved: usage.strokes_saved ?? 0
+    });
+
+    if (error) {
+      console.error('Error recording caddy advice usage:', error);
+    }
+  }
+
+  /**
+   * Note that the player hit the limit and was shown an upgrade
+   */
+  static async recordBlocked(userId: string, roundId: string | undefined, usage: CaddyUsage): Promise<void> {
+    // Leaves advice_count alone; only recordUsage changes it
+    await this.save(userId, {
+      round_id: roundId || null,
+      quota_reached: true,
+      upgrade_prompted: true,
+      strokes_saved: usage.strokes_saved ?? 0
+    });
+  }
+
+  // Private helper methods
+
+  private static async loadToday(userId: string): Promise<QuotaRow | null> {
+    const { data, error } = await supabase
+      .from('pure.caddy_quota')
+      .select('advice_count, strokes_saved')
+      .eq('user_id', userId)
+      .eq('date', this.today())
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching caddy quota:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  private static async loadHolesAdvised(userId: string, roundId: string): Promise<number[]> {
+    const { data, error } = await supabase
+      .from('pure.caddy_quota_holes')
+      .select('hole_number')
+      .eq('user_id', userId)
+      .eq('round_id', roundId);
+
+    if (error) {
+      console.error('Error fetching advised holes:', error);
+      return [];
+    }
+
+    return (data || []).map(row => row.hole_number);
+  }
+
+  private static async save(userId: string, fields: Record<string, unknown>): Promise<void> {
+    const { error } = await supabase
+      .from('pure.caddy_quota')
+      .upsert({ user_id: userId, date: this.today(), ...fields }, { onConflict: 'user_id,date' });
+
+    if (error) {
+      console.error('Error saving caddy quota:', error);
+    }
+  }
+
+  private static today(): string {
+    return new Date().toISOString().split('T')[0];
+  }
+}
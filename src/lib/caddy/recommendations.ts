@@ -9,9 +9,12 @@ import type {
   WeatherContext,
   UserClubStats,
   ClubData,
-  AnalysisFactor
+  AnalysisFactor,
+  PlaysLikeResult
 } from './types';
-import { STANDARD_CLUBS, WEATHER_ADJUSTMENTS } from './types';
+import { STANDARD_CLUBS } from './types';
+import { PlaysLikeCalculator } from './plays-like';
+import { calculateBearing } from '$lib/utils/gps';
 
 export class RecommendationEngine {
   
@@ -22,24 +25,26 @@ export class RecommendationEngine {
     context: ShotContext,
     personalTendencies?: PersonalTendencies,
     weather?: WeatherContext,
-    userStats?: UserClubStats[]
+    userStats?: UserClubStats[],
+    bag: ClubData[] = STANDARD_CLUBS
   ): ClubRecommendation {
     
     const startTime = performance.now();
     
     // 1. Calculate base distance with environmental factors
-    const adjustedDistance = this.calculateAdjustedDistance(context, weather);
+    const playsLike = this.calculatePlaysLike(context, weather, bag);
+    const adjustedDistance = playsLike.plays_like + this.getLieAdjustment(context.lie_type);
     
-    // 2. Get base club recommendation
-    const baseClub = this.getClubByDistance(adjustedDistance);
+    // 2. Get base club recommendation from the clubs the player carries
+    const baseClub = this.getClubByDistance(adjustedDistance, bag);
     
     // 3. Apply personal tendencies if available
     const personalizedRec = personalTendencies 
-      ? this.applyPersonalization(baseClub, adjustedDistance, personalTendencies, context)
+      ? this.applyPersonalization(baseClub, adjustedDistance, personalTendencies, context, bag)
       : { club: baseClub.name, adjustment: 0, reasoning: 'Standard distance recommendation' };
     
     // 4. Consider alternative clubs
-    const alternatives = this.getAlternativeClubs(personalizedRec.club, adjustedDistance, context);
+    const alternatives = this.getAlternativeClubs(personalizedRec.club, adjustedDistance, context, bag);
     
     // 5. Calculate confidence based on data quality
     const confidence = this.calculateConfidence(personalTendencies, userStats, context);
@@ -58,55 +63,66 @@ export class RecommendationEngine {
       confidence,
       distance_adjustment: personalizedRec.adjustment,
       aim_adjustment: aimAdvice,
-      swing_thought: swingThought
+      swing_thought: swingThought,
+      plays_like: playsLike
     };
   }
 
   /**
-   * Calculate distance adjustments for environmental factors
+   * Calculate distance adjustments for environmental factors and lie
    */
-  private static calculateAdjustedDistance(
+  static calculateAdjustedDistance(
     context: ShotContext, 
-    weather?: WeatherContext
+    weather?: WeatherContext,
+    bag: ClubData[] = STANDARD_CLUBS
   ): number {
-    let adjustedDistance = context.distance_to_target;
-    
-    // Wind adjustments
-    if (weather?.wind_speed) {
-      const windEffect = this.calculateWindEffect(weather.wind_speed, weather.wind_direction);
-      adjustedDistance += windEffect;
-    }
-    
-    // Temperature adjustments
-    if (weather?.temperature) {
-      const tempEffect = this.calculateTemperatureEffect(weather.temperature);
-      adjustedDistance += tempEffect;
-    }
-    
-    // Elevation adjustments
-    if (context.elevation_change) {
-      const elevationEffect = context.elevation_change * WEATHER_ADJUSTMENTS.elevation.uphill;
-      adjustedDistance += elevationEffect;
-    }
-    
-    // Lie type adjustments
-    const lieAdjustment = this.getLieAdjustment(context.lie_type);
-    adjustedDistance += lieAdjustment;
-    
-    return Math.round(adjustedDistance);
+    const playsLike = this.calculatePlaysLike(context, weather, bag);
+    return playsLike.plays_like + this.getLieAdjustment(context.lie_type);
+  }
+
+  /**
+   * Plays-like distance for the conditions. Wind depends on the club's loft, so the club
+   * for the raw distance is tried first, then the club for the adjusted one.
+   */
+  static calculatePlaysLike(
+    context: ShotContext,
+    weather?: WeatherContext,
+    bag: ClubData[] = STANDARD_CLUBS
+  ): PlaysLikeResult {
+    const shotBearing = context.shot_bearing ?? (context.ball_position && context.target_position
+      ? calculateBearing(context.ball_position, context.target_position)
+      : undefined);
+
+    const calculate = (loft?: number) => PlaysLikeCalculator.calculate({
+      distance: context.distance_to_target,
+      loft,
+      shot_bearing: shotBearing,
+      wind_speed: weather?.wind_speed ?? context.wind_speed,
+      wind_degrees: weather?.wind_degrees,
+      wind_direction: weather?.wind_direction ?? context.wind_direction,
+      temperature: weather?.temperature ?? context.temperature,
+      humidity: weather?.humidity,
+      pressure: weather?.pressure,
+      altitude_ft: weather?.altitude_ft,
+      elevation_change: context.elevation_change
+    });
+
+    const firstPass = calculate(this.getClubByDistance(context.distance_to_target, bag).loft);
+    return calculate(this.getClubByDistance(firstPass.plays_like, bag).loft);
   }
 
   /**
-   * Get base club by distance
+   * Get base club by distance from the given bag
    */
-  private static getClubByDistance(distance: number): ClubData {
+  static getClubByDistance(distance: number, bag: ClubData[] = STANDARD_CLUBS): ClubData {
+    const playable = bag.filter(club => club.type !== 'putter'); // Skip putter for distance shots
+    const clubs = playable.length > 0 ? playable : STANDARD_CLUBS.filter(club => club.type !== 'putter');
+    
     // Find closest club by typical carry distance
-    let bestClub = STANDARD_CLUBS[STANDARD_CLUBS.length - 2]; // Default to SW
+    let bestClub = clubs[clubs.length - 1];
     let smallestDiff = Infinity;
     
-    for (const club of STANDARD_CLUBS) {
-      if (club.type === 'putter') continue; // Skip putter for distance shots
-      
+    for (const club of clubs) {
       const diff = Math.abs(club.typical_carry - distance);
       if (diff < smallestDiff) {
         smallestDiff = diff;
@@ -124,7 +140,8 @@ export class RecommendationEngine {
     baseClub: ClubData,
     targetDistance: number,
     tendencies: PersonalTendencies,
-    context: ShotContext
+    context: ShotContext,
+    bag: ClubData[]
   ): { club: string; adjustment: number; reasoning: string } {
     
     const clubName = baseClub.name;
@@ -133,7 +150,7 @@ export class RecommendationEngine {
     // If bias is significant (>5 yards), consider club change
     if (Math.abs(personalBias) > 5) {
       const compensatedDistance = targetDistance - (personalBias * 0.8);
-      const newClub = this.getClubByDistance(compensatedDistance);
+      const newClub = this.getClubByDistance(compensatedDistance, bag);
       
       const biasDirection = personalBias > 0 ? 'long' : 'short';
       const reasoning = `Your ${clubName} typically plays ${Math.abs(personalBias)}y ${biasDirection}, so taking ${newClub.name} instead`;
@@ -171,22 +188,24 @@ export class RecommendationEngine {
   private static getAlternativeClubs(
     primaryClub: string, 
     distance: number, 
-    context: ShotContext
+    context: ShotContext,
+    bag: ClubData[]
   ): string[] {
     const alternatives: string[] = [];
-    const primary = STANDARD_CLUBS.find(c => c.name === primaryClub);
+    const clubs = bag.filter(c => c.type !== 'putter').sort((a, b) => b.typical_carry - a.typical_carry);
+    const primary = clubs.find(c => c.name === primaryClub);
     
     if (!primary) return alternatives;
     
     // One club shorter (for pin-high or safe play)
-    const shorterClub = STANDARD_CLUBS.find(c => 
+    const shorterClub = clubs.find(c => 
       c.typical_carry < primary.typical_carry && 
       c.typical_carry >= primary.typical_carry - 15
     );
     if (shorterClub) alternatives.push(shorterClub.name);
     
     // One club longer (for aggressive play or into wind)
-    const longerClub = STANDARD_CLUBS.find(c => 
+    const longerClub = [...clubs].reverse().find(c => 
       c.typical_carry > primary.typical_carry && 
       c.typical_carry <= primary.typical_carry + 15
     );
@@ -262,36 +281,6 @@ export class RecommendationEngine {
     return advice;
   }
 
-  /**
-   * Calculate wind effect on ball flight
-   */
-  private static calculateWindEffect(windSpeed: number, windDirection?: string): number {
-    if (!windDirection) return 0;
-    
-    const direction = windDirection.toLowerCase();
-    
-    if (direction.includes('head') || direction.includes('into')) {
-      return windSpeed * WEATHER_ADJUSTMENTS.wind.headwind;
-    } else if (direction.includes('tail') || direction.includes('helping')) {
-      return windSpeed * WEATHER_ADJUSTMENTS.wind.tailwind;
-    } else {
-      // Cross wind - doesn't affect distance much but affects difficulty
-      return 0;
-    }
-  }
-
-  /**
-   * Calculate temperature effect on ball flight
-   */
-  private static calculateTemperatureEffect(temperature: number): number {
-    if (temperature < 70) {
-      return (70 - temperature) * WEATHER_ADJUSTMENTS.temperature.cold;
-    } else if (temperature > 80) {
-      return (temperature - 80) * WEATHER_ADJUSTMENTS.temperature.hot;
-    }
-    return 0;
-  }
-
   /**
    * Get distance adjustment for lie type
    */
@@ -336,13 +325,14 @@ export class RecommendationEngine {
       });
     }
     
-    // Weather factors
-    if (weather?.wind_speed && weather.wind_speed > 10) {
+    // Weather and elevation factors that move the number by a few yards or more
+    for (const factor of this.calculatePlaysLike(context, weather).breakdown) {
+      if (Math.abs(factor.yards) < 3) continue;
       factors.push({
-        type: 'weather',
-        impact: weather.wind_direction?.includes('head') ? 'negative' : 'positive',
-        description: `${weather.wind_speed}mph ${weather.wind_direction} wind`,
-        weight: 0.6
+        type: factor.factor === 'elevation' ? 'course' : 'weather',
+        impact: factor.yards > 0 ? 'negative' : 'positive',
+        description: `${factor.description}: plays ${Math.round(Math.abs(factor.yards))}y ${factor.yards > 0 ? 'longer' : 'shorter'}`,
+        weight: factor.factor === 'wind' ? 0.6 : 0.4
       });
     }
     
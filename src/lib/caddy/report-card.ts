@@ -0,0 +1,171 @@
+/**
+ * Report card engine - scores caddy advice against what the player hit and how it turned out
+ */
+
+import type {
+  AdviceOutcome,
+  CaddyReportCard,
+  ClubReportLine,
+  ConfidenceBucket,
+  ConfidenceCalibration
+} from './types';
+import { CONFIDENCE_BUCKET_WIDTH, CALIBRATION_PRIOR_SHOTS, MIN_GRADED_SHOTS } from './types';
+
+// Full wedge names as players type them, keyed by their normalized form
+const WEDGE_ALIASES: Record<string, string> = {
+  pitchingwedge: 'pw',
+  gapwedge: 'gw',
+  approachwedge: 'gw',
+  aw: 'gw',
+  sandwedge: 'sw',
+  lobwedge: 'lw'
+};
+
+// Strokes gained per followed shot at or above which each grade is earned
+const GRADE_THRESHOLDS: [CaddyReportCard['grade'], number][] = [
+  ['A', 0.1],
+  ['B', 0],
+  ['C', -0.1],
+  ['D', -0.25]
+];
+
+export class ReportCardEngine {
+
+  /**
+   * Whether the club hit is the club recommended ("7-Iron", "7 iron" and "7i" all match)
+   */
+  static isFollowed(recommended?: string | null, used?: string | null): boolean {
+    if (!recommended || !used) return false;
+    return this.normalizeClub(recommended) === this.normalizeClub(used);
+  }
+
+  /**
+   * Follow rate, strokes gained with and without the advice, per-club lines and confidence calibration
+   */
+  static build(outcomes: AdviceOutcome[]): CaddyReportCard {
+    const linked = outcomes.filter(o => o.shot_id);
+    const followed = linked.filter(o => o.advice_followed);
+    const scored = linked.filter(o => o.strokes_gained !== null);
+    const scoredFollowed = scored.filter(o => o.advice_followed);
+    const scoredIgnored = scored.filter(o => !o.advice_followed);
+
+    const avgFollowed = this.average(scoredFollowed.map(o => o.strokes_gained!));
+    const avgIgnored = this.average(scoredIgnored.map(o => o.strokes_gained!));
+
+    // Only credit the caddy with saved strokes when there's something to compare against
+    const strokesSaved = avgFollowed !== null && avgIgnored !== null && scoredIgnored.length >= MIN_GRADED_SHOTS
+      ? this.round((avgFollowed - avgIgnored) * scoredFollowed.length)
+      : null;
+
+    return {
+      advice_count: outcomes.length,
+      linked_count: linked.length,
+      followed_count: followed.length,
+      follow_rate: linked.length > 0 ? this.round(followed.length / linked.length) : null,
+      scored_count: scored.length,
+      avg_strokes_gained_followed: avgFollowed,
+      avg_strokes_gained_ignored: avgIgnored,
+      strokes_saved: strokesSaved,
+      grade: scoredFollowed.length >= MIN_GRADED_SHOTS ? this.grade(avgFollowed!) : null,
+      by_club: this.byClub(linked),
+      calibration: this.calibration(outcomes)
+    };
+  }
+
+  /**
+   * How often followed advice did at least as well as the player usually does, bucketed by the
+   * engine's stated confidence. Strokes gained is against a scratch baseline most players rarely
+   * beat, so success is measured against the player's own average instead.
+   */
+  static calibration(outcomes: AdviceOutcome[]): ConfidenceCalibration {
+    const baseline = this.average(outcomes.filter(o => o.strokes_gained !== null).map(o => o.strokes_gained!));
+    const samples = outcomes.filter(o =>
+      o.advice_followed && o.strokes_gained !== null && o.confidence !== null
+    );
+
+    const bucketCount = Math.round(1 / CONFIDENCE_BUCKET_WIDTH);
+    const buckets: ConfidenceBucket[] = [];
+
+    for (let i = 0; i < bucketCount; i++) {
+      const min = this.round(i * CONFIDENCE_BUCKET_WIDTH);
+      const max = this.round((i + 1) * CONFIDENCE_BUCKET_WIDTH);
+      const inBucket = samples.filter(o => this.bucketIndex(o.confidence!) === i);
+      if (inBucket.length === 0) continue;
+
+      buckets.push({
+        min,
+        max,
+        predicted: this.round(this.average(inBucket.map(o => o.confidence!))!),
+        observed: this.round(inBucket.filter(o => o.strokes_gained! >= baseline!).length / inBucket.length),
+        count: inBucket.length
+      });
+    }
+
+    return { buckets, sample_size: samples.length, baseline };
+  }
+
+  /**
+   * Pull a confidence toward the observed success rate for its bucket, more so as outcomes accumulate.
+   * Confidence then means the chance this shot goes at least as well as the player's usual one.
+   */
+  static calibrate(confidence: number, calibration?: ConfidenceCalibration | null): number {
+    const index = this.bucketIndex(confidence);
+    const bucket = calibration?.buckets.find(b => this.bucketIndex(b.min) === index);
+    if (!bucket) return confidence;
+
+    const weight = bucket.count / (bucket.count + CALIBRATION_PRIOR_SHOTS);
+    const calibrated = confidence * (1 - weight) + bucket.observed * weight;
+
+    return Math.min(0.99, Math.max(0.05, this.round(calibrated)));
+  }
+
+  // Private helper methods
+
+  private static byClub(linked: AdviceOutcome[]): ClubReportLine[] {
+    const lines = new Map<string, AdviceOutcome[]>();
+    for (const outcome of linked) {
+      if (!outcome.recommended_club) continue;
+      lines.set(outcome.recommended_club, [...(lines.get(outcome.recommended_club) || []), outcome]);
+    }
+
+    return [...lines.entries()]
+      .map(([club, rows]) => ({
+        club,
+        advised: rows.length,
+        followed: rows.filter(r => r.advice_followed).length,
+        avg_strokes_gained: this.average(
+          rows.filter(r => r.advice_followed && r.strokes_gained !== null).map(r => r.strokes_gained!)
+        )
+      }))
+      .sort((a, b) => b.advised - a.advised);
+  }
+
+  private static grade(avgStrokesGained: number): CaddyReportCard['grade'] {
+    for (const [grade, threshold] of GRADE_THRESHOLDS) {
+      if (avgStrokesGained >= threshold) return grade;
+    }
+    return 'F';
+  }
+
+  private static bucketIndex(confidence: number): number {
+    const bucketCount = Math.round(1 / CONFIDENCE_BUCKET_WIDTH);
+    return Math.min(bucketCount - 1, Math.max(0, Math.floor(confidence / CONFIDENCE_BUCKET_WIDTH + 1e-9)));
+  }
+
+  private static normalizeClub(name: string): string {
+    const compact = name.toLowerCase().replace(/[^a-z0-9]/g, '');
+    return WEDGE_ALIASES[compact] || compact
+      .replace(/iron$/, 'i')
+      .replace(/wood$/, 'w')
+      .replace(/hybrid$/, 'h');
+  }
+
+  private static average(values: number[]): number | null {
+    if (values.length === 0) return null;
+    return this.round(values.reduce((sum, v) => sum + v, 0) / values.length);
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * Short-game advisor - picks a shot type, club, landing spot and swing length around the green
+ */
+
+import type {
+  ClubData,
+  ClubRecommendation,
+  LieQuality,
+  PersonalTendencies,
+  ShortGamePlan,
+  ShortGameShotType,
+  ShotContext,
+  SwingLength
+} from './types';
+import {
+  STANDARD_CLUBS,
+  SHORT_GAME_MAX_YARDS,
+  LANDING_MARGIN_YARDS,
+  STRUGGLE_LANDING_MARGIN_YARDS,
+  SHORT_GAME_STRUGGLE_RATE,
+  FLOP_CARRY_SHARE,
+  EXPLOSION_CARRY_SHARE,
+  BURIED_EXPLOSION_CARRY_SHARE,
+  SITTING_DOWN_ROLL_FACTOR,
+  EXPLOSION_LOFT,
+  MIN_FLOP_LOFT,
+  FLOP_MAX_YARDS,
+  PIN_DEPTH_YARDS,
+  CARRY_SHARE_BY_LOFT,
+  SHORT_GAME_SHOT_LOFTS,
+  ROLL_EFFORT_SHARE,
+  SWING_LENGTH_YARDS,
+  SHOT_EFFORT_FACTOR
+} from './types';
+
+const SHOT_LABELS: Record<ShortGameShotType, string> = {
+  bump_and_run: 'bump-and-run',
+  chip: 'standard chip',
+  pitch: 'pitch',
+  flop: 'flop shot',
+  explosion: 'explosion bunker shot'
+};
+
+// Lowest loft worth chipping with, and the loft below which thick grass grabs the hosel
+const MIN_CHIPPING_LOFT = 30;
+const SITTING_DOWN_MIN_LOFT = 40;
+
+// Confidence before lie and history
+const BASE_CONFIDENCE = 0.7;
+const LIE_CONFIDENCE_PENALTY: Record<LieQuality, number> = {
+  good: 0,
+  tight: 0.05,
+  sitting_down: 0.05,
+  buried: 0.15
+};
+const FLOP_CONFIDENCE_PENALTY = 0.1;
+
+interface Candidate {
+  club: ClubData;
+  share: number;
+}
+
+export class ShortGameAdvisor {
+
+  /**
+   * Greenside lies and greenside bunkers get a short-game plan; fairway bunkers are full swings
+   */
+  static applies(context: ShotContext): boolean {
+    return (context.lie_type === 'greenside' || context.lie_type === 'sand')
+      && context.distance_to_target <= SHORT_GAME_MAX_YARDS;
+  }
+
+  /**
+   * Land the ball just onto the green with the least loft that still reaches it, so it rolls
+   * like a putt for the rest. Flop only when nothing lower can land on the green; explode
+   * from sand. Players whose history shows they struggle from the lie get more margin.
+   */
+  static plan(
+    context: ShotContext,
+    tendencies?: PersonalTendencies,
+    bag: ClubData[] = STANDARD_CLUBS
+  ): ShortGamePlan {
+    const distance = Math.max(1, context.distance_to_target);
+    const quality = context.lie_quality || 'good';
+    const carryToGreen = Math.min(
+      distance,
+      Math.max(0, context.carry_to_green ?? distance - PIN_DEPTH_YARDS[context.pin_position || 'middle'])
+    );
+    const notes: string[] = [];
+
+    const history = context.lie_type === 'sand'
+      ? tendencies?.lie_preferences.sand
+      : tendencies?.lie_preferences.greenside;
+    const struggling = history !== undefined && history < SHORT_GAME_STRUGGLE_RATE;
+    if (struggling) {
+      notes.push(`you get ${Math.round(history! * 100)}% of these close, so the plan leaves more margin`);
+    }
+
+    const margin = struggling ? STRUGGLE_LANDING_MARGIN_YARDS : LANDING_MARGIN_YARDS;
+    const targetCarry = Math.min(distance, carryToGreen + margin);
+    const rollFactor = quality === 'sitting_down' ? SITTING_DOWN_ROLL_FACTOR : 1;
+    if (quality === 'sitting_down') {
+      notes.push('sitting down, it will come out with less spin and run more');
+    }
+
+    if (context.lie_type === 'sand') {
+      const club = this.closestLoft(this.wedges(bag), EXPLOSION_LOFT);
+      const share = quality === 'buried' ? BURIED_EXPLOSION_CARRY_SHARE : EXPLOSION_CARRY_SHARE;
+      if (quality === 'buried') {
+        notes.push('buried, so square the face and dig; it will come out low and run');
+      }
+      if (struggling) {
+        notes.push('getting out first: land it toward the middle of the green');
+      }
+      const carry = Math.max(distance * share, targetCarry);
+      return this.build('explosion', club, distance, carry, carryToGreen, notes);
+    }
+
+    // Least loft first; thick grass rules out the low-lofted clubs
+    const minLoft = quality === 'sitting_down' ? SITTING_DOWN_MIN_LOFT : MIN_CHIPPING_LOFT;
+    const candidates: Candidate[] = bag
+      .filter(club => (club.type === 'iron' || club.type === 'wedge') && club.loft >= minLoft)
+      .sort((a, b) => a.loft - b.loft)
+      .map(club => ({ club, share: this.carryShare(club.loft, rollFactor) }));
+
+    const pick = candidates.find(c => distance * c.share >= targetCarry);
+    if (pick) {
+      return this.build(this.shotTypeForLoft(pick.club.loft), pick.club, distance, distance * pick.share, carryToGreen, notes);
+    }
+
+    // Short-sided: nothing lands on the green with room to stop, so go up in the air
+    const highest = candidates[candidates.length - 1]?.club || this.closestLoft(this.wedges(bag), MIN_FLOP_LOFT);
+    const highCarry = Math.max(distance * FLOP_CARRY_SHARE, targetCarry);
+    if (distance > FLOP_MAX_YARDS) {
+      return this.build('pitch', highest, distance, highCarry, carryToGreen, notes);
+    }
+    if (quality !== 'tight' && highest.loft >= MIN_FLOP_LOFT) {
+      return this.build('flop', highest, distance, highCarry, carryToGreen, notes);
+    }
+
+    notes.push(quality === 'tight'
+      ? 'too tight to flop it; land it on the fringe and let it release'
+      : 'no club stops it from here; land it on the fringe and accept some run past');
+    return this.build('pitch', highest, distance, distance * this.carryShare(highest.loft, rollFactor), carryToGreen, notes);
+  }
+
+  /**
+   * Club advice for a greenside or bunker shot
+   */
+  static recommend(
+    context: ShotContext,
+    tendencies?: PersonalTendencies,
+    bag: ClubData[] = STANDARD_CLUBS
+  ): ClubRecommendation {
+    const plan = this.plan(context, tendencies, bag);
+
+    const history = context.lie_type === 'sand'
+      ? tendencies?.lie_preferences.sand
+      : tendencies?.lie_preferences.greenside;
+    let confidence = history !== undefined
+      ? (BASE_CONFIDENCE + history) / 2
+      : BASE_CONFIDENCE;
+    confidence -= LIE_CONFIDENCE_PENALTY[context.lie_quality || 'good'];
+    if (plan.shot_type === 'flop') confidence -= FLOP_CONFIDENCE_PENALTY;
+
+    // Neighbouring lofts play the same shot a little longer or shorter; there's no alternative to exploding
+    const plannedLoft = bag.find(club => club.name === plan.club)?.loft ?? EXPLOSION_LOFT;
+    const alternatives = plan.shot_type === 'explosion'
+      ? []
+      : bag
+        .filter(club => (club.type === 'iron' || club.type === 'wedge') && club.name !== plan.club)
+        .sort((a, b) => Math.abs(a.loft - plannedLoft) - Math.abs(b.loft - plannedLoft))
+        .slice(0, 2)
+        .map(club => club.name);
+
+    return {
+      primary_club: plan.club,
+      alternative_clubs: alternatives,
+      reasoning: `${SHOT_LABELS[plan.shot_type].charAt(0).toUpperCase()}${SHOT_LABELS[plan.shot_type].slice(1)}: carry ${plan.carry_yards} and roll ${plan.roll_yards}`
+        + (plan.notes.length > 0 ? `; ${plan.notes.join('; ')}` : ''),
+      confidence: Math.round(Math.min(0.95, Math.max(0.1, confidence)) * 100) / 100,
+      distance_adjustment: 0,
+      aim_adjustment: `land it ${plan.landing_spot}`,
+      swing_thought: plan.swing_cue,
+      short_game: plan
+    };
+  }
+
+  // Private helper methods
+
+  private static build(
+    shotType: ShortGameShotType,
+    club: ClubData,
+    distance: number,
+    carry: number,
+    carryToGreen: number,
+    notes: string[]
+  ): ShortGamePlan {
+    const carryYards = Math.round(Math.min(distance, carry));
+    const rollYards = Math.max(0, Math.round(distance) - carryYards);
+    const onto = Math.max(0, carryYards - Math.round(carryToGreen));
+    const swingLength = this.swingLength(carryYards * SHOT_EFFORT_FACTOR[shotType] + rollYards * ROLL_EFFORT_SHARE);
+
+    const landing = carryYards < carryToGreen
+      ? `${this.yards(Math.round(carryToGreen) - carryYards)} short of the green`
+      : onto === 0 ? 'on the front edge of the green' : `${this.yards(onto)} onto the green`;
+
+    return {
+      shot_type: shotType,
+      club: club.name,
+      carry_yards: carryYards,
+      roll_yards: rollYards,
+      landing_yards_onto_green: onto,
+      landing_spot: rollYards > 0 ? `${landing}, ${this.yards(rollYards)} short of the pin` : `${landing}, right at the pin`,
+      swing_length: swingLength,
+      swing_cue: this.swingCue(shotType, swingLength),
+      notes
+    };
+  }
+
+  // Carry share for a loft, with extra run-out from a lie that kills spin
+  private static carryShare(loft: number, rollFactor: number): number {
+    const table = CARRY_SHARE_BY_LOFT;
+    let share = table[table.length - 1][1];
+    if (loft <= table[0][0]) {
+      share = table[0][1];
+    } else {
+      for (let i = 1; i < table.length; i++) {
+        const [l1, s1] = table[i - 1];
+        const [l2, s2] = table[i];
+        if (loft <= l2) {
+          share = s1 + ((loft - l1) / (l2 - l1)) * (s2 - s1);
+          break;
+        }
+      }
+    }
+    return share / (share + (1 - share) * rollFactor);
+  }
+
+  private static shotTypeForLoft(loft: number): ShortGameShotType {
+    return SHORT_GAME_SHOT_LOFTS.find(([, maxLoft]) => loft <= maxLoft)?.[0] || 'pitch';
+  }
+
+  private static swingLength(effortYards: number): SwingLength {
+    return SWING_LENGTH_YARDS.find(([, maxYards]) => effortYards <= maxYards)![0];
+  }
+
+  private static swingCue(shotType: ShortGameShotType, length: SwingLength): string {
+    const stroke = `${length}-high back, ${length}-high through`;
+    switch (shotType) {
+      case 'bump_and_run':
+      case 'chip':
+        return `${stroke}; hands ahead, rock the shoulders like a putt`;
+      case 'pitch':
+        return `${stroke}; let the bounce brush the turf`;
+      case 'flop':
+        return `${stroke}; open face, keep it accelerating under the ball`;
+      case 'explosion':
+        return `${stroke}; splash the sand two inches behind the ball`;
+    }
+  }
+
+  private static yards(value: number): string {
+    return `${value} ${value === 1 ? 'yard' : 'yards'}`;
+  }
+
+  private static wedges(bag: ClubData[]): ClubData[] {
+    const wedges = bag.filter(club => club.type === 'wedge');
+    return wedges.length > 0 ? wedges : STANDARD_CLUBS.filter(club => club.type === 'wedge');
+  }
+
+  private static closestLoft(clubs: ClubData[], loft: number): ClubData {
+    return clubs.reduce((best, club) => Math.abs(club.loft - loft) < Math.abs(best.loft - loft) ? club : best);
+  }
+}
@@ -0,0 +1,484 @@
+/**
+ * Targeting engine - picks an aim point and club from each club's dispersion ellipse and the hole's hazards
+ */
+
+import type {
+  AimPoint,
+  ClubData,
+  DispersionEllipse,
+  HazardProbabilities,
+  HazardSide,
+  HazardType,
+  HoleHazard,
+  PersonalTendencies,
+  RiskTolerance,
+  ShotContext,
+  TargetOption,
+  TargetPlan,
+  TargetPoint,
+  UserClubStats,
+  ClubRecommendation
+} from './types';
+import {
+  MIN_TARGETING_DISTANCE,
+  GREEN_RADIUS_YARDS,
+  FAIRWAY_HALF_WIDTH_YARDS,
+  DEFAULT_LATERAL_SPREAD,
+  DEFAULT_DEPTH_SPREAD,
+  MIN_SPREAD_YARDS,
+  AIM_STEP_YARDS,
+  MAX_AIM_OFFSET_YARDS,
+  MAX_LAYUP_YARDS,
+  MAX_OVERCLUB_YARDS,
+  CONSERVATIVE_PENALTY_WEIGHT,
+  AGGRESSIVE_STROKE_ALLOWANCE,
+  AIM_TIE_TOLERANCE,
+  HAZARD_SIDE_RADIUS_YARDS
+} from './types';
+import { StrokesGainedCalculator } from '$lib/strokes-gained';
+import type { GPSPosition } from '$lib/utils/gps';
+
+export interface TargetingInput {
+  context: ShotContext;
+  plays_like_distance: number; // adjusted for weather, elevation and lie
+  bag: ClubData[];
+  hazards: HoleHazard[];
+  club_stats?: UserClubStats[];
+  tendencies?: PersonalTendencies;
+  risk_tolerance?: RiskTolerance;
+}
+
+// A hazard placed in the ball's frame (yards, target up the +y axis)
+interface LocalHazard {
+  type: HazardType;
+  polygon?: TargetPoint[];
+  center?: TargetPoint;
+  radius?: number;
+}
+
+interface EvaluatedOption {
+  club: ClubData;
+  aim: TargetPoint;
+  dispersion: DispersionEllipse;
+  expected_strokes: number;
+  hazard_probabilities: HazardProbabilities;
+  green_probability: number;
+}
+
+// Standard-normal grid (±2.5 sigma in quarter steps) with normalized weights; deterministic in place of random sampling
+const SAMPLE_OFFSETS = Array.from({ length: 21 }, (_, i) => -2.5 + i * 0.25);
+const SAMPLE_WEIGHTS = (() => {
+  const raw = SAMPLE_OFFSETS.map(z => Math.exp(-(z * z) / 2));
+  const total = raw.reduce((sum, w) => sum + w, 0);
+  return raw.map(w => w / total);
+})();
+
+const YARDS_PER_DEGREE_LAT = 120_880; // 110,540 m
+const YARDS_PER_DEGREE_LNG = 121_740; // 111,320 m at the equator
+
+export class TargetingEngine {
+
+  /**
+   * Choose club and aim point that minimize expected strokes, with conservative and aggressive options.
+   * Returns null for short or putting shots, or when the bag has nothing that reaches.
+   */
+  static plan(input: TargetingInput): TargetPlan | null {
+    const { context, plays_like_distance, bag } = input;
+    const distance = context.distance_to_target;
+
+    if (distance < MIN_TARGETING_DISTANCE || context.lie_type === 'green') return null;
+
+    const hazards = [
+      ...this.placeMappedHazards(input.hazards, context.ball_position, context.target_position),
+      ...this.placeDescribedHazards(context.hazards || [], distance)
+    ];
+
+    // Club carries are in plays-like yards; convert to yards on the ground
+    const scale = plays_like_distance > 0 ? distance / plays_like_distance : 1;
+    const playable = bag.filter(club => club.type !== 'putter' && club.typical_carry > 0);
+    const longest = Math.max(0, ...playable.map(club => club.typical_carry * scale));
+
+    // Out of reach (a tee shot on a long hole), the longest clubs are the ones worth comparing
+    const shortest = Math.min(distance, longest) - MAX_LAYUP_YARDS;
+    const candidates = playable.filter(club => {
+      const carry = club.typical_carry * scale;
+      return carry <= distance + MAX_OVERCLUB_YARDS && carry >= shortest;
+    });
+
+    if (candidates.length === 0) return null;
+
+    const startLie = StrokesGainedCalculator.toBaselineLie(context.lie_type) || 'fairway';
+    const startExpected = StrokesGainedCalculator.expectedStrokes(startLie, distance);
+
+    const options: EvaluatedOption[] = [];
+    for (const club of candidates) {
+      const dispersion = this.buildDispersion(club, scale, input.club_stats, input.tendencies);
+      for (let x = -MAX_AIM_OFFSET_YARDS; x <= MAX_AIM_OFFSET_YARDS; x += AIM_STEP_YARDS) {
+        options.push(this.evaluate(club, { x, y: dispersion.carry }, dispersion, distance, hazards, startExpected));
+      }
+    }
+
+    const balanced = this.pickBalanced(options);
+    const conservative = this.pickConservative(options);
+    const aggressive = this.pickAggressive(options, balanced.expected_strokes);
+    const riskTolerance = input.risk_tolerance || 'balanced';
+
+    const plan = {
+      conservative: this.toOption('conservative', conservative, distance, context),
+      balanced: this.toOption('balanced', balanced, distance, context),
+      aggressive: this.toOption('aggressive', aggressive, distance, context),
+      risk_tolerance: riskTolerance
+    };
+
+    return { ...plan, recommended: plan[riskTolerance] };
+  }
+
+  /**
+   * Fold a target plan into a distance-based recommendation: its club, aim and alternatives
+   */
+  static applyToRecommendation(recommendation: ClubRecommendation, plan: TargetPlan): ClubRecommendation {
+    const { recommended } = plan;
+    const risk = this.describeRisk(recommended.hazard_probabilities);
+    const changedClub = recommended.club !== recommendation.primary_club;
+
+    const reasoning = changedClub
+      ? `${recommended.club} rather than ${recommendation.primary_club}: ${recommended.aim_point.description}${risk}`
+      : `${recommendation.reasoning}${risk}`;
+
+    const alternatives = [plan.conservative.club, plan.aggressive.club, recommendation.primary_club, ...recommendation.alternative_clubs]
+      .filter((club, i, all) => club !== recommended.club && all.indexOf(club) === i);
+
+    return {
+      ...recommendation,
+      primary_club: recommended.club,
+      alternative_clubs: alternatives.slice(0, 3),
+      reasoning,
+      aim_adjustment: recommended.aim_point.description,
+      target_plan: plan
+    };
+  }
+
+  /**
+   * Which sides of the target have a hazard within reach of a missed shot
+   */
+  static hazardSides(context: ShotContext, hazards: HoleHazard[]): HazardSide[] {
+    const distance = context.distance_to_target;
+    const placed = [
+      ...this.placeMappedHazards(hazards, context.ball_position, context.target_position),
+      ...this.placeDescribedHazards(context.hazards || [], distance)
+    ];
+
+    const sides = new Set<HazardSide>();
+    for (const hazard of placed) {
+      const center = hazard.center || this.centroid(hazard.polygon || []);
+      const dx = center.x;
+      const dy = center.y - distance;
+      if (Math.hypot(dx, dy) > HAZARD_SIDE_RADIUS_YARDS) continue;
+
+      sides.add(Math.abs(dx) > Math.abs(dy) ? (dx < 0 ? 'left' : 'right') : (dy < 0 ? 'short' : 'long'));
+    }
+
+    return [...sides];
+  }
+
+  /**
+   * Landing spread for a club: measured distances and misses when tracked, otherwise a share of carry
+   */
+  static buildDispersion(
+    club: ClubData,
+    scale: number,
+    clubStats?: UserClubStats[],
+    tendencies?: PersonalTendencies
+  ): DispersionEllipse {
+    const stats = clubStats?.find(s => s.club.toLowerCase() === club.name.toLowerCase());
+    const bias = tendencies?.club_bias[club.name] ?? stats?.bias_yards ?? 0;
+    const carry = (club.typical_carry + bias) * scale;
+
+    const distances = stats?.last_10_distances || [];
+    const depthSigma = distances.length >= 3
+      ? this.standardDeviation(distances)
+      : carry * DEFAULT_DEPTH_SPREAD;
+
+    // Mean absolute miss of a normal distribution is sigma * sqrt(2/pi)
+    const lateralSigma = stats?.dispersion_yards
+      ? stats.dispersion_yards * Math.sqrt(Math.PI / 2)
+      : carry * DEFAULT_LATERAL_SPREAD;
+
+    const missPattern = stats?.miss_pattern || tendencies?.miss_pattern;
+    const lateralBias = missPattern === 'left'
+      ? -lateralSigma / 2
+      : missPattern === 'right' ? lateralSigma / 2 : 0;
+
+    return {
+      club: club.name,
+      carry: Math.round(carry),
+      lateral_bias: Math.round(lateralBias),
+      lateral_sigma: Math.round(Math.max(lateralSigma, MIN_SPREAD_YARDS)),
+      depth_sigma: Math.round(Math.max(depthSigma, MIN_SPREAD_YARDS))
+    };
+  }
+
+  // Private helper methods
+
+  private static evaluate(
+    club: ClubData,
+    aim: TargetPoint,
+    dispersion: DispersionEllipse,
+    distance: number,
+    hazards: LocalHazard[],
+    startExpected: number
+  ): EvaluatedOption {
+    const probabilities: HazardProbabilities = { water: 0, bunker: 0, ob: 0 };
+    let expected = 0;
+    let green = 0;
+
+    for (let i = 0; i < SAMPLE_OFFSETS.length; i++) {
+      for (let j = 0; j < SAMPLE_OFFSETS.length; j++) {
+        const weight = SAMPLE_WEIGHTS[i] * SAMPLE_WEIGHTS[j];
+        const landing = {
+          x: aim.x + dispersion.lateral_bias + SAMPLE_OFFSETS[i] * dispersion.lateral_sigma,
+          y: aim.y + SAMPLE_OFFSETS[j] * dispersion.depth_sigma
+        };
+        const toPin = Math.hypot(landing.x, distance - landing.y);
+        const hazard = hazards.find(h => this.contains(h, landing));
+
+        let strokes: number;
+        if (hazard?.type === 'ob') {
+          // Stroke and distance: replay from here with a penalty
+          strokes = 2 + startExpected;
+        } else if (hazard?.type === 'water') {
+          strokes = 2 + StrokesGainedCalculator.expectedStrokes('rough', toPin);
+        } else if (hazard?.type === 'bunker') {
+          strokes = 1 + StrokesGainedCalculator.expectedStrokes('sand', toPin);
+        } else if (toPin <= GREEN_RADIUS_YARDS) {
+          strokes = 1 + StrokesGainedCalculator.expectedStrokes('green', toPin);
+          green += weight;
+        } else {
+          const lie = Math.abs(landing.x) <= FAIRWAY_HALF_WIDTH_YARDS ? 'fairway' : 'rough';
+          strokes = 1 + StrokesGainedCalculator.expectedStrokes(lie, toPin);
+        }
+
+        if (hazard) probabilities[hazard.type] += weight;
+        expected += weight * strokes;
+      }
+    }
+
+    return {
+      club,
+      aim,
+      dispersion,
+      expected_strokes: expected,
+      hazard_probabilities: probabilities,
+      green_probability: green
+    };
+  }
+
+  private static pickBalanced(options: EvaluatedOption[]): EvaluatedOption {
+    return this.pickNearLine(options, o => o.expected_strokes);
+  }
+
+  private static pickConservative(options: EvaluatedOption[]): EvaluatedOption {
+    return this.pickNearLine(options, o =>
+      o.expected_strokes
+      + CONSERVATIVE_PENALTY_WEIGHT * (o.hazard_probabilities.water + o.hazard_probabilities.ob)
+      + 0.5 * CONSERVATIVE_PENALTY_WEIGHT * o.hazard_probabilities.bunker
+    );
+  }
+
+  private static pickAggressive(options: EvaluatedOption[], bestExpected: number): EvaluatedOption {
+    const playable = options.filter(o => o.expected_strokes <= bestExpected + AGGRESSIVE_STROKE_ALLOWANCE);
+    return this.pickNearLine(playable, o => -o.green_probability);
+  }
+
+  /**
+   * Lowest score, but among near-ties the aim closest to the target line
+   */
+  private static pickNearLine(options: EvaluatedOption[], score: (option: EvaluatedOption) => number): EvaluatedOption {
+    const best = score(this.minBy(options, score));
+    const nearBest = options.filter(o => score(o) <= best + AIM_TIE_TOLERANCE);
+    return this.minBy(nearBest, o => Math.abs(o.aim.x) + score(o) / 1000);
+  }
+
+  private static minBy<T>(items: T[], score: (item: T) => number): T {
+    return items.reduce((best, item) => (score(item) < score(best) ? item : best));
+  }
+
+  private static toOption(
+    strategy: RiskTolerance,
+    option: EvaluatedOption,
+    distance: number,
+    context: ShotContext
+  ): TargetOption {
+    const round2 = (value: number) => Math.round(value * 100) / 100;
+
+    return {
+      strategy,
+      club: option.club.name,
+      aim_point: this.toAimPoint(option.aim, distance, context.ball_position, context.target_position),
+      expected_strokes: round2(option.expected_strokes),
+      hazard_probabilities: {
+        water: round2(option.hazard_probabilities.water),
+        bunker: round2(option.hazard_probabilities.bunker),
+        ob: round2(option.hazard_probabilities.ob)
+      },
+      green_probability: round2(option.green_probability),
+      dispersion: option.dispersion
+    };
+  }
+
+  private static toAimPoint(
+    aim: TargetPoint,
+    distance: number,
+    ball?: GPSPosition,
+    target?: GPSPosition
+  ): AimPoint {
+    const side = aim.x < 0 ? 'left' : 'right';
+    const short = distance - aim.y;
+    const lateral = Math.abs(aim.x) >= 2 ? `${Math.abs(aim.x)}y ${side} of` : 'at';
+
+    const description = short > GREEN_RADIUS_YARDS * 2
+      ? `land it ${Math.round(aim.y)}y out, ${Math.abs(aim.x) >= 2 ? `${Math.abs(aim.x)}y ${side} of the line` : 'on the line'}, leaving ${Math.round(short)}y`
+      : `aim ${lateral} the pin`;
+
+    const point: AimPoint = { x: aim.x, y: Math.round(aim.y), description };
+
+    if (ball && target) {
+      const { lat, lng } = this.toGps(aim, ball, target);
+      point.lat = lat;
+      point.lng = lng;
+    }
+
+    return point;
+  }
+
+  private static describeRisk(probabilities: HazardProbabilities): string {
+    const parts = (['water', 'ob', 'bunker'] as const)
+      .filter(type => probabilities[type] >= 0.01)
+      .map(type => `${Math.round(probabilities[type] * 100)}% ${type === 'ob' ? 'OB' : type}`);
+
+    return parts.length > 0 ? ` (${parts.join(', ')} risk)` : '';
+  }
+
+  /**
+   * Mapped hazards need both ball and target positions to be placed on the target line
+   */
+  private static placeMappedHazards(
+    hazards: HoleHazard[],
+    ball?: GPSPosition,
+    target?: GPSPosition
+  ): LocalHazard[] {
+    if (!ball || !target) return [];
+
+    const toLocal = ([lat, lng]: [number, number]) => this.toLocal({ lat, lng }, ball, target);
+
+    return hazards
+      .filter(h => (h.polygon && h.polygon.length >= 3) || (h.center && h.radius_yards))
+      .map(h => ({
+        type: h.type,
+        polygon: h.polygon && h.polygon.length >= 3 ? h.polygon.map(toLocal) : undefined,
+        center: h.center ? toLocal(h.center) : undefined,
+        radius: h.radius_yards
+      }));
+  }
+
+  /**
+   * Described hazards ("water left", "bunker short") become boxes beside the target
+   */
+  private static placeDescribedHazards(descriptions: string[], distance: number): LocalHazard[] {
+    const edge = GREEN_RADIUS_YARDS + 3;
+    const depth = 20;
+
+    return descriptions.flatMap(description => {
+      const text = description.toLowerCase();
+      const type: HazardType | null = text.includes('water') || text.includes('lake') || text.includes('creek')
+        ? 'water'
+        : text.includes('bunker') || text.includes('sand')
+          ? 'bunker'
+          : /\bob\b/.test(text) || text.includes('out of bounds') ? 'ob' : null;
+      if (!type) return [];
+
+      let box: [number, number, number, number]; // minX, maxX, minY, maxY
+      if (text.includes('left')) box = [-edge - 25, -edge, distance - depth, distance + depth];
+      else if (text.includes('right')) box = [edge, edge + 25, distance - depth, distance + depth];
+      else if (text.includes('short') || text.includes('front')) box = [-edge, edge, distance - edge - depth, distance - edge];
+      else if (text.includes('long') || text.includes('back')) box = [-edge, edge, distance + edge, distance + edge + depth];
+      else return [];
+
+      const [minX, maxX, minY, maxY] = box;
+      return [{
+        type,
+        polygon: [
+          { x: minX, y: minY },
+          { x: maxX, y: minY },
+          { x: maxX, y: maxY },
+          { x: minX, y: maxY }
+        ]
+      }];
+    });
+  }
+
+  private static centroid(points: TargetPoint[]): TargetPoint {
+    if (points.length === 0) return { x: Infinity, y: Infinity };
+    return {
+      x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+      y: points.reduce((sum, p) => sum + p.y, 0) / points.length
+    };
+  }
+
+  private static contains(hazard: LocalHazard, point: TargetPoint): boolean {
+    if (hazard.center && hazard.radius) {
+      return Math.hypot(point.x - hazard.center.x, point.y - hazard.center.y) <= hazard.radius;
+    }
+    if (!hazard.polygon) return false;
+
+    // Ray casting
+    let inside = false;
+    const polygon = hazard.polygon;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const a = polygon[i];
+      const b = polygon[j];
+      if ((a.y > point.y) !== (b.y > point.y)
+        && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
+  /**
+   * Flat projection around the ball, rotated so the target lies straight up the y axis
+   */
+  private static toLocal(position: GPSPosition, ball: GPSPosition, target: GPSPosition): TargetPoint {
+    const east = (p: GPSPosition) => (p.lng - ball.lng) * YARDS_PER_DEGREE_LNG * Math.cos(ball.lat * Math.PI / 180);
+    const north = (p: GPSPosition) => (p.lat - ball.lat) * YARDS_PER_DEGREE_LAT;
+
+    const heading = Math.atan2(east(target), north(target));
+    const e = east(position);
+    const n = north(position);
+
+    return {
+      x: e * Math.cos(heading) - n * Math.sin(heading),
+      y: e * Math.sin(heading) + n * Math.cos(heading)
+    };
+  }
+
+  private static toGps(point: TargetPoint, ball: GPSPosition, target: GPSPosition): { lat: number; lng: number } {
+    const east = (target.lng - ball.lng) * YARDS_PER_DEGREE_LNG * Math.cos(ball.lat * Math.PI / 180);
+    const north = (target.lat - ball.lat) * YARDS_PER_DEGREE_LAT;
+    const heading = Math.atan2(east, north);
+
+    const e = point.x * Math.cos(heading) + point.y * Math.sin(heading);
+    const n = -point.x * Math.sin(heading) + point.y * Math.cos(heading);
+
+    return {
+      lat: ball.lat + n / YARDS_PER_DEGREE_LAT,
+      lng: ball.lng + e / (YARDS_PER_DEGREE_LNG * Math.cos(ball.lat * Math.PI / 180))
+    };
+  }
+
+  private static standardDeviation(values: number[]): number {
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+    return Math.sqrt(variance);
+  }
+}
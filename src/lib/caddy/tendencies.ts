@@ -0,0 +1,223 @@
+/**
+ * Tendency store - persists personal tendencies and recomputes them from shot and flaw history
+ */
+
+import { supabase } from '$lib/supabase';
+import type { ClubData, PersonalTendencies } from './types';
+import { MIN_PERSONALIZATION_SHOTS, TENDENCY_SHOT_HISTORY, TENDENCY_SWING_HISTORY } from './types';
+import { PersonalizationEngine, type HistoricalShot, type SwingFlaw } from './personalization';
+import { BagManager } from './bag';
+
+export interface StoredTendencies {
+  tendencies: PersonalTendencies;
+  sample_size: number;
+}
+
+interface ShotRow {
+  club_used: string | null;
+  distance_to_target: number | null;
+  distance_achieved: number | null;
+  lie_type: string | null;
+  shot_result: string | null;
+  miss_direction: string | null;
+  created_at: string;
+}
+
+interface SwingRow {
+  ai_flaws: any;
+  created_at: string;
+}
+
+// Within this many yards of the intended distance counts as on target
+const DISTANCE_TOLERANCE = 10;
+
+export class TendencyStore {
+
+  /**
+   * Tendencies the caddy should personalize with, recomputing them first if stale.
+   * Undefined when the player hasn't tracked enough shots to personalize.
+   */
+  static async getTendencies(userId?: string): Promise<PersonalTendencies | undefined> {
+    if (!userId) return undefined;
+
+    try {
+      let stored = await this.load(userId);
+
+      if (!stored || PersonalizationEngine.needsRefresh(stored.tendencies)) {
+        stored = await this.recompute(userId);
+        await this.save(userId, stored);
+      }
+
+      return stored.sample_size >= MIN_PERSONALIZATION_SHOTS ? stored.tendencies : undefined;
+
+    } catch (error) {
+      console.error('Error loading personal tendencies:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Recompute and store tendencies now, e.g. once a round's shots are in
+   */
+  static async refresh(userId: string): Promise<void> {
+    try {
+      await this.save(userId, await this.recompute(userId));
+    } catch (error) {
+      console.error('Error refreshing personal tendencies:', error);
+    }
+  }
+
+  /**
+   * Read stored tendencies
+   */
+  static async load(userId: string): Promise<StoredTendencies | null> {
+    const { data, error } = await supabase
+      .from('pure.user_tendencies')
+      .select('club_bias, miss_pattern, recurring_flaws, lie_preferences, course_performance, confidence_level, sample_size, last_updated')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching personal tendencies:', error);
+      return null;
+    }
+    if (!data) return null;
+
+    const { sample_size, ...tendencies } = data;
+    return {
+      tendencies: {
+        ...tendencies,
+        club_bias: tendencies.club_bias || {},
+        recurring_flaws: tendencies.recurring_flaws || [],
+        lie_preferences: tendencies.lie_preferences || {},
+        course_performance: tendencies.course_performance || {},
+        confidence_level: Number(tendencies.confidence_level)
+      },
+      sample_size: sample_size || 0
+    };
+  }
+
+  /**
+   * Write tendencies, replacing any previous row
+   */
+  static async save(userId: string, stored: StoredTendencies): Promise<void> {
+    const { error } = await supabase
+      .from('pure.user_tendencies')
+      .upsert({
+        user_id: userId,
+        ...stored.tendencies,
+        sample_size: stored.sample_size
+      }, { onConflict: 'user_id' });
+
+    if (error) {
+      console.error('Error saving personal tendencies:', error);
+    }
+  }
+
+  /**
+   * Calculate tendencies from the player's recent shots, swing flaws and round scores
+   */
+  static async recompute(userId: string): Promise<StoredTendencies> {
+    const [{ data: rounds }, { data: swings }, bag] = await Promise.all([
+      supabase
+        .from('pure.rounds')
+        .select('id, course_id, status, total_score')
+        .eq('user_id', userId),
+      supabase
+        .from('pure_swings')
+        .select('ai_flaws, created_at')
+        .eq('user_id', userId)
+        .not('ai_flaws', 'is', null)
+        .order('created_at', { ascending: false })
+        .limit(TENDENCY_SWING_HISTORY),
+      BagManager.loadBag(userId)
+    ]);
+
+    const roundIds = (rounds || []).map(r => r.id);
+    const { data: shotRows } = roundIds.length > 0
+      ? await supabase
+          .from('pure.shots')
+          .select('club_used, distance_to_target, distance_achieved, lie_type, shot_result, miss_direction, created_at')
+          .in('round_id', roundIds)
+          .order('created_at', { ascending: false })
+          .limit(TENDENCY_SHOT_HISTORY)
+      : { data: [] as ShotRow[] };
+
+    const shots = (shotRows || [])
+      .map(row => this.toHistoricalShot(row, bag))
+      .filter((shot): shot is HistoricalShot => shot !== null);
+
+    const flaws = (swings || []).flatMap(swing => this.toSwingFlaws(swing));
+
+    const courseScores: Record<string, number[]> = {};
+    for (const round of rounds || []) {
+      if (round.status !== 'completed' || !round.total_score || !round.course_id) continue;
+      (courseScores[round.course_id] ||= []).push(round.total_score);
+    }
+
+    return {
+      tendencies: PersonalizationEngine.calculateTendencies(shots, flaws, courseScores),
+      sample_size: shots.length
+    };
+  }
+
+  // Private helper methods
+
+  /**
+   * Full shots only; a tee shot on a long hole intends the club's carry, not the whole hole
+   */
+  private static toHistoricalShot(row: ShotRow, bag: ClubData[]): HistoricalShot | null {
+    if (!row.club_used || !row.distance_to_target || !row.distance_achieved) return null;
+    if (row.lie_type === 'green') return null;
+
+    const club = bag.find(c => c.name.toLowerCase() === row.club_used!.toLowerCase());
+    if (club?.type === 'putter' || row.club_used.toLowerCase() === 'putter') return null;
+
+    const intended = club ? Math.min(row.distance_to_target, club.typical_carry) : row.distance_to_target;
+
+    return {
+      club: row.club_used,
+      intended_distance: intended,
+      actual_distance: row.distance_achieved,
+      lie_type: (row.lie_type || 'fairway') as HistoricalShot['lie_type'],
+      result: this.classifyResult(row, intended),
+      date: row.created_at
+    };
+  }
+
+  private static classifyResult(row: ShotRow, intended: number): HistoricalShot['result'] {
+    // Recorded miss directions (left/right/short/long) map straight across
+    if (row.miss_direction) return row.miss_direction as HistoricalShot['result'];
+    if (['green', 'fairway', 'holed'].includes(row.shot_result || '')) return 'good';
+    if (['water', 'oob'].includes(row.shot_result || '')) return 'poor';
+
+    const diff = row.distance_achieved! - intended;
+    if (diff < -DISTANCE_TOLERANCE) return 'short';
+    if (diff > DISTANCE_TOLERANCE) return 'long';
+    return 'poor';
+  }
+
+  /**
+   * Measured flaws when the pose service ran, otherwise the coach's named flaws
+   */
+  private static toSwingFlaws(swing: SwingRow): SwingFlaw[] {
+    const detected: { code: string; severity: number }[] = swing.ai_flaws?.detected || [];
+    if (detected.length > 0) {
+      return detected.map(flaw => ({
+        flaw_code: flaw.code,
+        severity: flaw.severity,
+        frequency: 1,
+        date: swing.created_at
+      }));
+    }
+
+    return [swing.ai_flaws?.primary_flaw, swing.ai_flaws?.secondary_flaw]
+      .filter((name): name is string => typeof name === 'string' && name.length > 0)
+      .map(name => ({
+        flaw_code: name.toLowerCase().replace(/\s+/g, '_'),
+        severity: 2,
+        frequency: 1,
+        date: swing.created_at
+      }));
+  }
+}
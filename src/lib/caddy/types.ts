@@ -2,10 +2,26 @@
  * Caddy recommendation system type definitions
  */
 
+import type { GPSPosition } from '$lib/utils/gps';
+import type { UserPlan } from '$lib/auth/quota-guard';
+
 export type ClubType = 'driver' | 'wood' | 'hybrid' | 'iron' | 'wedge' | 'putter';
 export type LieType = 'tee' | 'fairway' | 'rough' | 'sand' | 'greenside' | 'green';
+export type LieQuality = 'good' | 'tight' | 'sitting_down' | 'buried';
+
+// Where the pin is cut, front to back
+export type PinDepth = 'front' | 'middle' | 'back';
+export type ShortGameShotType = 'bump_and_run' | 'chip' | 'pitch' | 'flop' | 'explosion';
+export type SwingLength = 'ankle' | 'knee' | 'hip' | 'chest' | 'shoulder';
+// Which way the green falls, as seen from the ball looking at the hole
+export type SlopeDirection =
+  | 'uphill' | 'downhill' | 'left_to_right' | 'right_to_left'
+  | 'uphill_left_to_right' | 'uphill_right_to_left' | 'downhill_left_to_right' | 'downhill_right_to_left';
 export type MissPattern = 'left' | 'right' | 'straight' | 'inconsistent';
 export type WeatherCondition = 'sunny' | 'cloudy' | 'rain' | 'wind';
+export type RiskTolerance = 'conservative' | 'aggressive' | 'balanced';
+export type HazardType = 'water' | 'bunker' | 'ob';
+export type HazardSide = 'left' | 'right' | 'short' | 'long';
 
 export interface ClubData {
   name: string;
@@ -15,6 +31,19 @@ export interface ClubData {
   typical_total: number;
 }
 
+// A club in the player's own bag; measured distances override loft-based estimates
+export interface BagClub {
+  id?: string;
+  name: string;
+  type: ClubType;
+  loft: number;
+  brand?: string | null;
+  model?: string | null;
+  carry_yards?: number | null;
+  total_yards?: number | null;
+  position?: number;
+}
+
 export interface PersonalTendencies {
   club_bias: Record<string, number>;        // { "7-iron": -8, "driver": +12 }
   miss_pattern: MissPattern;
@@ -28,12 +57,75 @@ export interface PersonalTendencies {
 export interface ShotContext {
   distance_to_target: number;
   lie_type: LieType;
-  elevation_change?: number;  // positive = uphill
+  elevation_change?: number;  // feet, positive = uphill
+  shot_bearing?: number;      // degrees from north; worked out from ball and target positions when omitted
   wind_speed?: number;        // mph
   wind_direction?: string;    // relative to target
   temperature?: number;       // fahrenheit
-  pin_position?: 'front' | 'middle' | 'back';
+  pin_position?: PinDepth;
   hazards?: string[];         // ["water left", "bunker right"]
+  ball_position?: GPSPosition;   // needed to place mapped hazards
+  target_position?: GPSPosition; // usually the pin
+  hole_hazards?: HoleHazard[];   // loaded from pure.holes.hazards when omitted
+  slope_percent?: number;        // on the green: grade around the hole
+  slope_direction?: SlopeDirection;
+  stimp?: number;                // on the green: speed, when known
+  lie_quality?: LieQuality;      // around the green: how the ball sits
+  carry_to_green?: number;       // around the green: yards to the nearest edge; estimated from pin_position when omitted
+}
+
+// A mapped hazard as stored in pure.holes.hazards; coordinates are [lat, lng] like gps_coordinates
+export interface HoleHazard {
+  type: HazardType;
+  name?: string;
+  polygon?: [number, number][];
+  center?: [number, number];
+  radius_yards?: number;
+}
+
+// Yards relative to the ball: x right (+) / left (-) of the target line, y toward the target
+export interface TargetPoint {
+  x: number;
+  y: number;
+}
+
+export interface AimPoint extends TargetPoint {
+  lat?: number; // when ball and target positions are known
+  lng?: number;
+  description: string; // "aim 8y left of the pin"
+}
+
+// Expected landing spread for one club, centered on where the ball lands when aimed at the origin
+export interface DispersionEllipse {
+  club: string;
+  carry: number;          // yards, on the target line
+  lateral_bias: number;   // yards, from the player's miss pattern
+  lateral_sigma: number;  // one standard deviation, yards
+  depth_sigma: number;
+}
+
+export interface HazardProbabilities {
+  water: number;
+  bunker: number;
+  ob: number;
+}
+
+export interface TargetOption {
+  strategy: RiskTolerance;
+  club: string;
+  aim_point: AimPoint;
+  expected_strokes: number;
+  hazard_probabilities: HazardProbabilities;
+  green_probability: number;
+  dispersion: DispersionEllipse;
+}
+
+export interface TargetPlan {
+  recommended: TargetOption; // the option matching the player's risk tolerance
+  conservative: TargetOption;
+  balanced: TargetOption;
+  aggressive: TargetOption;
+  risk_tolerance: RiskTolerance;
 }
 
 export interface ClubRecommendation {
@@ -44,6 +136,74 @@ export interface ClubRecommendation {
   distance_adjustment: number; // yards from base distance
   aim_adjustment?: string;    // "aim left", "aim center", etc.
   swing_thought?: string;     // "smooth tempo", "commit to it"
+  target_plan?: TargetPlan;   // dispersion-based aim point and risk options
+  plays_like?: PlaysLikeResult; // how the conditions change the distance
+  putt_read?: PuttRead;       // on the green: line, pace and make chance
+  short_game?: ShortGamePlan; // around the green: shot type, landing spot and swing length
+}
+
+export type PlaysLikeFactorType = 'wind' | 'temperature' | 'altitude' | 'pressure' | 'humidity' | 'elevation';
+
+export interface PlaysLikeInput {
+  distance: number;           // yards to the target
+  loft?: number;              // of the club likely to be hit; higher shots ride the wind more
+  shot_bearing?: number;      // degrees from north
+  wind_speed?: number;        // mph
+  wind_degrees?: number;      // direction the wind blows from; needs shot_bearing
+  wind_direction?: string;    // relative fallback: "headwind", "tailwind", "crosswind left-to-right"
+  temperature?: number;       // °F
+  humidity?: number;          // %
+  pressure?: number;          // station pressure, hPa (already reflects altitude)
+  altitude_ft?: number;       // used for pressure when none is measured
+  elevation_change?: number;  // feet, positive = uphill
+}
+
+export interface PlaysLikeFactor {
+  factor: PlaysLikeFactorType;
+  yards: number;              // positive = plays longer
+  description: string;
+}
+
+export interface PlaysLikeResult {
+  distance: number;
+  plays_like: number;         // yards of carry to hit for
+  carry_multiplier: number;   // how far a shot flies here relative to reference air and no wind
+  head_wind_mph: number;      // negative = tailwind
+  cross_wind_mph: number;     // positive = from the right
+  aim_offset_yards: number;   // aim this far right (negative = left) to allow for crosswind drift
+  air_density: number;        // kg/m³
+  breakdown: PlaysLikeFactor[];
+}
+
+export interface PuttInput {
+  distance_feet: number;
+  slope_percent?: number;
+  slope_direction?: SlopeDirection;
+  stimp?: number;             // green speed; DEFAULT_STIMP when unknown
+}
+
+export interface PuttRead {
+  distance_feet: number;
+  plays_like_feet: number;    // pace: roll it as if the putt were this long on a flat green
+  finish_past_inches: number;
+  aim_cups: number;           // cup widths outside the edge of the hole; 0 = aim inside it
+  aim_side: 'left' | 'right' | 'center';
+  aim_offset_inches: number;  // from the center of the hole
+  make_probability: number;
+  baseline_make_probability: number; // flat putt of the same length
+  description: string;        // "Aim 1.5 cups outside right, roll it like 12 ft"
+}
+
+export interface ShortGamePlan {
+  shot_type: ShortGameShotType;
+  club: string;
+  carry_yards: number;        // to the landing spot
+  roll_yards: number;         // from the landing spot to the hole
+  landing_yards_onto_green: number;
+  landing_spot: string;       // "2 yards onto the green, 12 yards short of the pin"
+  swing_length: SwingLength;
+  swing_cue: string;          // "hip-high back, hip-high through"
+  notes: string[];            // lie and history adjustments that changed the shot
 }
 
 export interface CaddyAdvice {
@@ -64,6 +224,7 @@ export interface UserClubStats {
   typical_lie_types: LieType[];
   last_10_distances: number[];
   bias_yards: number;          // calculated adjustment needed
+  dispersion_yards?: number;   // average left/right miss distance
 }
 
 export interface ShotAnalysis {
@@ -84,7 +245,9 @@ export interface AnalysisFactor {
 export interface WeatherContext {
   temperature: number;
   wind_speed: number;
-  wind_direction: string;
+  wind_direction: string;   // relative to the shot ("headwind") when known, otherwise "from NW"
+  wind_degrees?: number;    // compass direction the wind blows from
+  altitude_ft?: number;     // course elevation; only used when pressure is missing
   humidity?: number;
   pressure?: number;
   conditions: WeatherCondition;
@@ -101,6 +264,9 @@ export interface CourseContext {
 }
 
 export interface CaddyRequest {
+  user_id?: string;
+  round_id?: string;          // logged with the advice so the next shot can be matched to it
+  bag?: ClubData[];           // Clubs to choose from; loaded for user_id when omitted
   shot_context: ShotContext;
   weather_context?: WeatherContext;
   course_context?: CourseContext;
@@ -110,7 +276,7 @@ export interface CaddyRequest {
 
 export interface UserPreferences {
   preferred_clubs: string[];
-  risk_tolerance: 'conservative' | 'aggressive' | 'balanced';
+  risk_tolerance: RiskTolerance;
   coaching_style: 'technical' | 'simple' | 'encouraging';
   units: 'yards' | 'meters';
 }
@@ -121,6 +287,59 @@ export interface CaddyResponse {
   processing_time_ms: number;
   mode: 'training' | 'quick';
   personalization_applied: boolean;
+  advice_id?: string;          // logged advice; send with the shot so the outcome can be scored
+}
+
+// A pure.caddy_advice row and, once the shot is recorded, how it turned out
+export interface AdviceOutcome {
+  id: string;
+  round_id: string | null;
+  hole_number: number | null;
+  distance_to_target: number | null;
+  lie_type: string | null;
+  recommended_club: string | null;
+  confidence: number | null;        // engine confidence before calibration
+  shot_id: string | null;
+  actual_club_used: string | null;
+  advice_followed: boolean | null;
+  shot_result: string | null;
+  strokes_gained: number | null;    // versus the baseline, once the ball's finish is known
+  created_at: string;
+}
+
+export interface ConfidenceBucket {
+  min: number;
+  max: number;
+  predicted: number;                // mean engine confidence in the bucket
+  observed: number;                 // share of followed shots that matched or beat the player's average
+  count: number;
+}
+
+export interface ConfidenceCalibration {
+  buckets: ConfidenceBucket[];
+  sample_size: number;
+  baseline: number | null;          // the player's average strokes gained per scored shot
+}
+
+export interface ClubReportLine {
+  club: string;
+  advised: number;
+  followed: number;
+  avg_strokes_gained: number | null;
+}
+
+export interface CaddyReportCard {
+  advice_count: number;
+  linked_count: number;             // advice with a recorded shot
+  followed_count: number;
+  follow_rate: number | null;       // of linked advice
+  scored_count: number;
+  avg_strokes_gained_followed: number | null;  // per shot
+  avg_strokes_gained_ignored: number | null;
+  strokes_saved: number | null;     // followed shots versus ignored ones, in total
+  grade: 'A' | 'B' | 'C' | 'D' | 'F' | null;
+  by_club: ClubReportLine[];
+  calibration: ConfidenceCalibration;
 }
 
 export interface StrokesSavedData {
@@ -136,6 +355,36 @@ export interface CaddyError {
   code: 'INSUFFICIENT_DATA' | 'WEATHER_UNAVAILABLE' | 'PROCESSING_ERROR' | 'QUOTA_EXCEEDED';
   message: string;
   suggestion?: string;
+  upgrade_suggestion?: {
+    plan: UserPlan;
+    benefit: string;
+  };
+  strokes_saved?: number;       // what followed advice has been worth so far, for the upgrade prompt
+}
+
+// Caddy allowance for each plan; null means unlimited
+export interface CaddyQuotaLimits {
+  holes_per_round: number | null;
+  advice_per_day: number | null;
+}
+
+// Advice already used, as counted from pure.caddy_quota and pure.caddy_quota_holes
+export interface CaddyUsage {
+  advice_today: number;
+  holes_advised: number[];      // holes in this round that already had advice
+  hole_number?: number;         // hole being asked about
+  strokes_saved?: number;       // this round's report card strokes saved (followed vs ignored advice)
+}
+
+export interface CaddyQuotaStatus {
+  canGetAdvice: boolean;
+  quotaReached: boolean;
+  plan: UserPlan;
+  reason?: string;
+  holes_remaining: number | null;
+  advice_remaining: number | null;
+  savedStrokes?: number;
+  upgrade_suggestion?: CaddyError['upgrade_suggestion'];
 }
 
 // Golf club data constants
@@ -157,19 +406,124 @@ export const STANDARD_CLUBS: ClubData[] = [
   { name: 'Putter', type: 'putter', loft: 4, typical_carry: 0, typical_total: 0 }
 ];
 
-// Environmental impact factors
-export const WEATHER_ADJUSTMENTS = {
-  wind: {
-    headwind: -1.5,    // yards per mph
-    tailwind: 1.0,     // yards per mph
-    crosswind: 0.5     // difficulty factor
-  },
-  temperature: {
-    cold: -0.2,        // yards per degree below 70F
-    hot: 0.1          // yards per degree above 80F
-  },
-  elevation: {
-    uphill: -2,        // yards per degree of elevation
-    downhill: 1.5      // yards per degree of elevation
-  }
-} as const; 
\ No newline at end of file
+// Starter keeps the original first-three-holes trial; the daily cap stops unlimited new rounds getting around it
+export const CADDY_QUOTA_LIMITS: Record<UserPlan, CaddyQuotaLimits> = {
+  starter: { holes_per_round: 3, advice_per_day: 15 },
+  pro: { holes_per_round: null, advice_per_day: 150 },
+  premium: { holes_per_round: null, advice_per_day: null }
+};
+
+export const CLUB_TYPES: ClubType[] = ['driver', 'wood', 'hybrid', 'iron', 'wedge', 'putter'];
+
+// Rules of golf limit
+export const MAX_BAG_CLUBS = 14;
+
+// Fewer tracked shots than this and tendencies are defaults, not personalization
+export const MIN_PERSONALIZATION_SHOTS = 10;
+
+// Most recent shots and swings used when recomputing tendencies
+export const TENDENCY_SHOT_HISTORY = 500;
+export const TENDENCY_SWING_HISTORY = 50;
+
+// Dispersion targeting
+export const MIN_TARGETING_DISTANCE = 40;      // shorter shots aren't full swings
+export const GREEN_RADIUS_YARDS = 15;
+export const FAIRWAY_HALF_WIDTH_YARDS = 18;
+export const DEFAULT_LATERAL_SPREAD = 0.08;    // lateral sigma as a fraction of carry
+export const DEFAULT_DEPTH_SPREAD = 0.06;      // depth sigma as a fraction of carry
+export const MIN_SPREAD_YARDS = 4;
+export const AIM_STEP_YARDS = 4;
+export const MAX_AIM_OFFSET_YARDS = 40;
+export const MAX_LAYUP_YARDS = 80;             // shortest layup considered, yards short of target
+export const MAX_OVERCLUB_YARDS = 20;
+export const CONSERVATIVE_PENALTY_WEIGHT = 1.5; // extra strokes charged per unit of penalty probability
+export const AGGRESSIVE_STROKE_ALLOWANCE = 0.2; // strokes an aggressive line may give up to attack the pin
+export const AIM_TIE_TOLERANCE = 0.02;          // options this close count as equal; aim nearer the line wins
+export const HAZARD_SIDE_RADIUS_YARDS = 45;     // hazards further from the target don't decide the miss side
+
+// Advice outcomes
+export const ADVICE_HISTORY = 500;              // most recent advice used for the report card and calibration
+export const ADVICE_LINK_WINDOW_MINUTES = 30;   // a shot without an advice id claims advice this recent on its hole
+export const CONFIDENCE_BUCKET_WIDTH = 0.1;
+export const CALIBRATION_PRIOR_SHOTS = 10;      // outcomes needed before observed rates outweigh the engine
+export const MIN_GRADED_SHOTS = 5;
+
+// Plays-like physics; club carries are taken to be measured in reference air
+export const REFERENCE_AIR = {
+  temperature: 70,     // °F
+  pressure: 1013.25,   // hPa, sea level
+  humidity: 50         // %
+} as const;
+export const DENSITY_CARRY_SENSITIVITY = 0.6;   // 10% thinner air carries 6% further
+export const HEADWIND_CARRY_PER_MPH = 0.01;     // share of carry lost per mph of headwind
+export const TAILWIND_CARRY_PER_MPH = 0.005;    // tailwinds help about half as much as headwinds hurt
+export const CROSSWIND_DRIFT_PER_MPH = 0.006;   // lateral drift as a share of carry per mph of crosswind
+export const REFERENCE_WIND_LOFT = 25;          // wind effects above are for a mid-loft club
+export const ELEVATION_YARDS_PER_FOOT = 1 / 3;  // a yard of rise plays a yard longer
+
+// Putting; slope is acceleration on a rolling ball, which feels 5/7 of gravity along the grade
+export const CUP_DIAMETER_INCHES = 4.25;
+export const PUTT_FINISH_PAST_INCHES = 15;       // middle of the 12-18 inch window
+export const DEFAULT_STIMP = 10;
+export const STIMP_RELEASE_SPEED_FPS = 6;        // ball speed leaving the stimpmeter ramp
+export const ROLLING_SLOPE_ACCELERATION = 32.17 * 5 / 7; // ft/s² per unit of grade
+export const MAX_GREEN_SLOPE_PERCENT = 6;        // steeper and a stopped ball wouldn't stay put
+export const BREAK_MAKE_PENALTY_PER_CUP = 0.05;  // share of the flat make chance lost per cup of break
+
+// Fall line in degrees from the putt line, clockwise: 0 = falls toward the hole, 90 = falls to the right
+export const SLOPE_FALL_DEGREES: Record<SlopeDirection, number> = {
+  downhill: 0,
+  downhill_left_to_right: 45,
+  left_to_right: 90,
+  uphill_left_to_right: 135,
+  uphill: 180,
+  uphill_right_to_left: 225,
+  right_to_left: 270,
+  downhill_right_to_left: 315
+};
+
+// Short game; carry share is carry / (carry + roll) on a level green at medium speed
+export const SHORT_GAME_MAX_YARDS = 50;          // further out is a full swing
+export const LANDING_MARGIN_YARDS = 2;           // land at least this far onto the green
+export const STRUGGLE_LANDING_MARGIN_YARDS = 4;  // more room for players whose history says they chunk it
+export const SHORT_GAME_STRUGGLE_RATE = 0.5;     // lie_preferences success rate below which the safer shot is chosen
+export const FLOP_CARRY_SHARE = 0.75;            // an opened lob wedge, 3:1 carry to roll
+export const EXPLOSION_CARRY_SHARE = 0.7;
+export const BURIED_EXPLOSION_CARRY_SHARE = 0.5; // a buried ball comes out low and runs
+export const SITTING_DOWN_ROLL_FACTOR = 1.25;    // less spin from thick grass, so more run-out
+export const EXPLOSION_LOFT = 56;                // sand wedge, or the nearest club to it
+export const MIN_FLOP_LOFT = 58;
+export const FLOP_MAX_YARDS = 25;                // further out, a high pitch stops just as quickly
+
+// Yards from the front edge to the pin when only its position is known; a green is about 30 deep
+export const PIN_DEPTH_YARDS: Record<PinDepth, number> = {
+  front: 6,
+  middle: 15,
+  back: 24
+};
+
+// Rodgers' carry-to-roll ratios by loft: 8-iron 1:4, pitching wedge 1:2, sand wedge 1:1
+export const CARRY_SHARE_BY_LOFT: [number, number][] = [
+  [26, 0.11], [30, 0.14], [34, 0.17], [38, 0.2], [42, 0.25],
+  [46, 0.33], [50, 0.4], [56, 0.5], [60, 0.55]
+];
+
+// Lofts up to each bound play as that shot type
+export const SHORT_GAME_SHOT_LOFTS: [ShortGameShotType, number][] = [
+  ['bump_and_run', 40],
+  ['chip', 48],
+  ['pitch', 64]
+];
+
+// Effort yards a swing length covers; a shot's effort is its carry times its effort factor, plus a share of its roll
+export const ROLL_EFFORT_SHARE = 0.35;
+export const SWING_LENGTH_YARDS: [SwingLength, number][] = [
+  ['ankle', 5], ['knee', 12], ['hip', 22], ['chest', 35], ['shoulder', Infinity]
+];
+export const SHOT_EFFORT_FACTOR: Record<ShortGameShotType, number> = {
+  bump_and_run: 1.5,
+  chip: 1.3,
+  pitch: 1.1,
+  flop: 1.6,           // an open face throws energy upward
+  explosion: 2         // the sand takes half of it
+};
@@ -0,0 +1,77 @@
+/**
+ * Correction applier - what an approved correction writes to a hole, and where a pin sheet puts the hole
+ */
+
+import type { HoleGeometry, LatLng } from '$lib/hole-geometry/types';
+import { HoleMeasure } from '$lib/hole-geometry/measure';
+import type { CorrectableHole, CorrectionField, CorrectionValue, PinPosition } from './types';
+import { PIN_SIDE_OFFSET_YARDS } from './types';
+
+// Columns of pure.holes a correction writes
+export type HoleUpdate = Partial<Pick<CorrectableHole, 'par' | 'handicap' | 'yardages' | 'hazards'>>;
+
+export class CorrectionApplier {
+
+  /**
+   * The hole's value for the field now; pins live in their own table, so null here
+   */
+  static currentValue(hole: CorrectableHole, field: CorrectionField): CorrectionValue | null {
+    switch (field) {
+      case 'par':
+        return hole.par;
+      case 'handicap':
+        return hole.handicap ?? null;
+      case 'yardages':
+        return hole.yardages || {};
+      case 'hazards':
+        return Array.isArray(hole.hazards) ? hole.hazards : [];
+      case 'pin':
+        return null;
+    }
+  }
+
+  /**
+   * Columns to write for an approved correction; yardages only replace the tees given.
+   * Null for pins, which don't change the hole row.
+   */
+  static holeUpdate(hole: CorrectableHole, field: CorrectionField, value: CorrectionValue): HoleUpdate | null {
+    switch (field) {
+      case 'par':
+        return { par: value as number };
+      case 'handicap':
+        return { handicap: value as number };
+      case 'yardages':
+        return { yardages: { ...(hole.yardages || {}), ...(value as Record<string, number>) } };
+      case 'hazards':
+        return { hazards: value };
+      case 'pin':
+        return null;
+    }
+  }
+
+  /**
+   * True when the correction wouldn't change anything
+   */
+  static matchesCurrent(hole: CorrectableHole, field: CorrectionField, value: CorrectionValue): boolean {
+    const update = this.holeUpdate(hole, field, value);
+    if (!update) return false;
+
+    return Object.entries(update).every(([column, next]) =>
+      JSON.stringify(hole[column as keyof HoleUpdate] ?? null) === JSON.stringify(next ?? null)
+    );
+  }
+
+  /**
+   * Where the hole is: the stood-on position if there is one, otherwise measured from the front
+   * of a mapped green along the line of play and offset to the side given
+   */
+  static pinLocation(pin: PinPosition, geometry?: HoleGeometry | null): LatLng | null {
+    if (pin.position) return pin.position;
+    if (!geometry) return null;
+
+    const front = HoleMeasure.toHolePoint(geometry, geometry.green.front);
+    const offset = pin.side === 'left' ? -PIN_SIDE_OFFSET_YARDS : pin.side === 'right' ? PIN_SIDE_OFFSET_YARDS : 0;
+
+    return HoleMeasure.fromHolePoint(geometry, { x: front.x + offset, y: front.y + pin.front_yards });
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Course corrections - player-submitted fixes to hole data and pin sheets, through a review queue
+ * into versioned course data
+ */
+
+import { CorrectionValidator } from './validator';
+import { CorrectionApplier } from './applier';
+
+export { CorrectionValidator, type CorrectionValidation } from './validator';
+export { CorrectionApplier, type HoleUpdate } from './applier';
+export { CourseCorrectionStore } from './store';
+export {
+  CORRECTION_FIELDS,
+  CORRECTION_HAZARD_TYPES,
+  PIN_SIDES,
+  MAX_PIN_FRONT_YARDS
+} from './types';
+
+// Export convenience functions
+export const validateCorrection = CorrectionValidator.validate.bind(CorrectionValidator);
+export const getPinLocation = CorrectionApplier.pinLocation.bind(CorrectionApplier);
+
+// Export types for external use
+export type {
+  CorrectionField,
+  CorrectionStatus,
+  PinSide,
+  PinPosition,
+  HazardEntry,
+  CorrectionValues,
+  CorrectionValue,
+  CorrectionInput,
+  CourseCorrection,
+  CourseVersion,
+  ReviewDecision,
+  ReviewResult,
+  CorrectableHole
+} from './types';
@@ -0,0 +1,352 @@
+/**
+ * Course correction store - the review queue in pure.course_corrections, approved changes versioned
+ * in pure.course_versions and pin sheets in pure.pin_positions
+ */
+
+import { supabase } from '$lib/supabase';
+import type {
+  CorrectableHole,
+  CorrectionField,
+  CorrectionInput,
+  CorrectionStatus,
+  CorrectionValue,
+  CourseCorrection,
+  CourseVersion,
+  PinPosition,
+  ReviewDecision,
+  ReviewResult
+} from './types';
+import { CorrectionApplier } from './applier';
+
+const QUEUE_LIMIT = 50;
+
+export class CourseCorrectionStore {
+
+  /**
+   * Whether the user may approve and reject corrections
+   */
+  static async isReviewer(userId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('pure_users')
+      .select('course_reviewer')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error checking course reviewer:', error);
+      return false;
+    }
+
+    return data?.course_reviewer === true;
+  }
+
+  /**
+   * Queue a correction for review. The player's own earlier pending correction to the same
+   * thing is superseded, so the queue only holds their latest.
+   */
+  static async submit(
+    courseId: string,
+    userId: string,
+    input: CorrectionInput & { value: CorrectionValue },
+    hole: CorrectableHole
+  ): Promise<CourseCorrection | null> {
+    let superseded = supabase
+      .from('pure.course_corrections')
+      .update({ status: 'superseded' })
+      .eq('course_id', courseId)
+      .eq('hole_number', input.hole_number)
+      .eq('field', input.field)
+      .eq('user_id', userId)
+      .eq('status', 'pending');
+    if (input.pin_date) superseded = superseded.eq('pin_date', input.pin_date);
+
+    const { error: supersedeError } = await superseded;
+    if (supersedeError) {
+      console.error('Error superseding earlier correction:', supersedeError);
+    }
+
+    const { data, error } = await supabase
+      .from('pure.course_corrections')
+      .insert({
+        course_id: courseId,
+        hole_number: input.hole_number,
+        user_id: userId,
+        field: input.field,
+        value: input.value,
+        current_value: CorrectionApplier.currentValue(hole, input.field),
+        pin_date: input.pin_date ?? null,
+        note: input.note ?? null,
+        status: 'pending'
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error submitting correction:', error);
+      return null;
+    }
+
+    return data as CourseCorrection;
+  }
+
+  static async get(correctionId: string): Promise<CourseCorrection | null> {
+    const { data, error } = await supabase
+      .from('pure.course_corrections')
+      .select('*')
+      .eq('id', correctionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading correction:', error);
+      return null;
+    }
+
+    return data as CourseCorrection | null;
+  }
+
+  /**
+   * A course's corrections, newest first
+   */
+  static async listForCourse(courseId: string, status?: CorrectionStatus): Promise<CourseCorrection[]> {
+    let query = supabase
+      .from('pure.course_corrections')
+      .select('*')
+      .eq('course_id', courseId)
+      .order('created_at', { ascending: false });
+    if (status) query = query.eq('status', status);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Error loading corrections:', error);
+      return [];
+    }
+
+    return (data || []) as CourseCorrection[];
+  }
+
+  /**
+   * Pending corrections across all courses, oldest first
+   */
+  static async queue(limit = QUEUE_LIMIT): Promise<CourseCorrection[]> {
+    const { data, error } = await supabase
+      .from('pure.course_corrections')
+      .select('*')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error loading correction queue:', error);
+      return [];
+    }
+
+    return (data || []) as CourseCorrection[];
+  }
+
+  /**
+   * Approve or reject a pending correction. Approving writes it to the hole (or the day's pin sheet)
+   * and records it as the course's next data version.
+   */
+  static async review(
+    correction: CourseCorrection,
+    reviewerId: string,
+    decision: ReviewDecision,
+    note?: string
+  ): Promise<ReviewResult | null> {
+    let version: number | null = null;
+
+    if (decision === 'approve') {
+      version = await this.apply(correction, reviewerId);
+      if (version === null) return null;
+    }
+
+    const { data, error } = await supabase
+      .from('pure.course_corrections')
+      .update({
+        status: decision === 'approve' ? 'approved' : 'rejected',
+        reviewed_by: reviewerId,
+        reviewed_at: new Date().toISOString(),
+        review_note: note ?? null,
+        applied_version: version
+      })
+      .eq('id', correction.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error recording review:', error);
+      return null;
+    }
+
+    return { correction: data as CourseCorrection, version };
+  }
+
+  /**
+   * Pin positions posted for a day, by hole number
+   */
+  static async pinsForDate(courseId: string, date: string): Promise<Map<number, PinPosition>> {
+    const { data, error } = await supabase
+      .from('pure.pin_positions')
+      .select('hole_number, pin')
+      .eq('course_id', courseId)
+      .eq('pin_date', date);
+
+    if (error) {
+      console.error('Error loading pin positions:', error);
+      return new Map();
+    }
+
+    return new Map((data || []).map(row => [row.hole_number as number, row.pin as PinPosition]));
+  }
+
+  /**
+   * Write approved corrections back over the holes, oldest first. A provider refresh replaces
+   * hole rows with the provider's data; this keeps the community's fixes on top.
+   */
+  static async reapply(courseId: string): Promise<void> {
+    const { data: versions, error } = await supabase
+      .from('pure.course_versions')
+      .select('hole_number, field, value')
+      .eq('course_id', courseId)
+      .neq('field', 'pin')
+      .order('version', { ascending: true });
+
+    if (error) {
+      console.error('Error loading course versions:', error);
+      return;
+    }
+    if (!versions || versions.length === 0) return;
+
+    const { data: holes, error: holesError } = await supabase
+      .from('pure.holes')
+      .select('hole_number, par, handicap, yardages, hazards')
+      .eq('course_id', courseId);
+
+    if (holesError || !holes) {
+      console.error('Error loading holes to reapply corrections:', holesError);
+      return;
+    }
+
+    for (const hole of holes as CorrectableHole[]) {
+      const changes = versions.filter(v => v.hole_number === hole.hole_number);
+      if (changes.length === 0) continue;
+
+      const corrected = changes.reduce<CorrectableHole>(
+        (current, change) => ({
+          ...current,
+          ...CorrectionApplier.holeUpdate(current, change.field as CorrectionField, change.value as CorrectionValue)
+        }),
+        hole
+      );
+
+      const { error: updateError } = await supabase
+        .from('pure.holes')
+        .update({ par: corrected.par, handicap: corrected.handicap, yardages: corrected.yardages, hazards: corrected.hazards })
+        .eq('course_id', courseId)
+        .eq('hole_number', hole.hole_number);
+
+      if (updateError) {
+        console.error(`Error reapplying corrections to hole ${hole.hole_number}:`, updateError);
+      }
+    }
+  }
+
+  static async history(courseId: string): Promise<CourseVersion[]> {
+    const { data, error } = await supabase
+      .from('pure.course_versions')
+      .select('*')
+      .eq('course_id', courseId)
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Error loading course history:', error);
+      return [];
+    }
+
+    return (data || []) as CourseVersion[];
+  }
+
+  // Private helper methods
+
+  /**
+   * Record the next version first: the unique (course_id, version) key stops two approvals
+   * landing on the same version. Returns the new version, or null if nothing was written.
+   */
+  private static async apply(correction: CourseCorrection, reviewerId: string): Promise<number | null> {
+    const { data: course, error: courseError } = await supabase
+      .from('pure.courses')
+      .select('data_version')
+      .eq('id', correction.course_id)
+      .single();
+
+    if (courseError || !course) {
+      console.error('Error loading course version:', courseError);
+      return null;
+    }
+
+    const { data: hole, error: holeError } = await supabase
+      .from('pure.holes')
+      .select('hole_number, par, handicap, yardages, hazards')
+      .eq('course_id', correction.course_id)
+      .eq('hole_number', correction.hole_number)
+      .maybeSingle();
+
+    if (holeError || !hole) {
+      console.error('Error loading hole for correction:', holeError);
+      return null;
+    }
+
+    const version = (course.data_version || 0) + 1;
+    const { error: versionError } = await supabase
+      .from('pure.course_versions')
+      .insert({
+        course_id: correction.course_id,
+        version,
+        correction_id: correction.id,
+        hole_number: correction.hole_number,
+        field: correction.field,
+        previous_value: CorrectionApplier.currentValue(hole as CorrectableHole, correction.field),
+        value: correction.value,
+        approved_by: reviewerId
+      });
+
+    if (versionError) {
+      console.error('Error recording course version:', versionError);
+      return null;
+    }
+
+    const update = CorrectionApplier.holeUpdate(hole as CorrectableHole, correction.field, correction.value);
+    const { error: writeError } = update
+      ? await supabase
+        .from('pure.holes')
+        .update(update)
+        .eq('course_id', correction.course_id)
+        .eq('hole_number', correction.hole_number)
+      : await supabase
+        .from('pure.pin_positions')
+        .upsert({
+          course_id: correction.course_id,
+          hole_number: correction.hole_number,
+          pin_date: correction.pin_date,
+          pin: correction.value,
+          correction_id: correction.id
+        }, { onConflict: 'course_id,hole_number,pin_date' });
+
+    if (writeError) {
+      console.error('Error applying correction:', writeError);
+      await supabase.from('pure.course_versions').delete().eq('course_id', correction.course_id).eq('version', version);
+      return null;
+    }
+
+    const { error: bumpError } = await supabase
+      .from('pure.courses')
+      .update({ data_version: version })
+      .eq('id', correction.course_id);
+
+    if (bumpError) {
+      console.error('Error updating course version:', bumpError);
+    }
+
+    return version;
+  }
+}
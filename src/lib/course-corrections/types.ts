@@ -0,0 +1,107 @@
+/**
+ * Course correction types - player-submitted fixes to hole data and pin sheets, reviewed before they apply
+ */
+
+import type { HazardType, HoleHazard } from '$lib/caddy/types';
+import type { LatLng } from '$lib/hole-geometry/types';
+
+export type CorrectionField = 'par' | 'handicap' | 'yardages' | 'hazards' | 'pin';
+
+export type CorrectionStatus = 'pending' | 'approved' | 'rejected' | 'superseded';
+
+export type PinSide = 'left' | 'center' | 'right';
+
+// A day's hole location, as a pin sheet gives it; position when someone stood on it
+export interface PinPosition {
+  front_yards: number;         // from the front edge of the green
+  side: PinSide;
+  position?: LatLng;
+}
+
+// Free-form notes ("water left") or mapped hazards, the two forms pure.holes.hazards holds
+export type HazardEntry = string | HoleHazard;
+
+export interface CorrectionValues {
+  par: number;
+  handicap: number;
+  yardages: Record<string, number>;   // only the tees being corrected
+  hazards: HazardEntry[];             // replaces the hole's hazards
+  pin: PinPosition;
+}
+
+export type CorrectionValue = CorrectionValues[CorrectionField];
+
+export interface CorrectionInput {
+  hole_number: number;
+  field: CorrectionField;
+  value: unknown;
+  pin_date?: string;           // YYYY-MM-DD; pins only, defaults to today
+  note?: string;
+}
+
+// As stored in pure.course_corrections
+export interface CourseCorrection {
+  id: string;
+  course_id: string;
+  hole_number: number;
+  user_id: string;
+  field: CorrectionField;
+  value: CorrectionValue;
+  current_value: CorrectionValue | null;   // what the hole had when it was submitted
+  pin_date: string | null;
+  note: string | null;
+  status: CorrectionStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  applied_version: number | null;
+  created_at: string;
+}
+
+// One approved change, as stored in pure.course_versions
+export interface CourseVersion {
+  course_id: string;
+  version: number;
+  correction_id: string;
+  hole_number: number;
+  field: CorrectionField;
+  previous_value: CorrectionValue | null;
+  value: CorrectionValue;
+  approved_by: string;
+  created_at: string;
+}
+
+export type ReviewDecision = 'approve' | 'reject';
+
+export interface ReviewResult {
+  correction: CourseCorrection;
+  version: number | null;      // the course's data version after an approval
+}
+
+// Hole columns a correction reads and writes
+export interface CorrectableHole {
+  hole_number: number;
+  par: number;
+  handicap?: number | null;
+  yardages?: Record<string, number> | null;
+  hazards?: unknown;
+}
+
+// Constants
+export const CORRECTION_FIELDS: CorrectionField[] = ['par', 'handicap', 'yardages', 'hazards', 'pin'];
+export const CORRECTION_HAZARD_TYPES: HazardType[] = ['water', 'bunker', 'ob'];
+export const PIN_SIDES: PinSide[] = ['left', 'center', 'right'];
+
+export const MIN_HOLE_PAR = 3;
+export const MAX_HOLE_PAR = 6;
+export const MAX_HOLE_HANDICAP = 18;
+export const MAX_HOLE_YARDS = 750;
+export const MAX_PIN_FRONT_YARDS = 60;
+export const MAX_HAZARD_NOTE_LENGTH = 80;
+export const MAX_CORRECTION_NOTE_LENGTH = 500;
+
+// Pin sheets say left or right of center; this is how far that puts the hole
+export const PIN_SIDE_OFFSET_YARDS = 5;
+
+// How far ahead of today a pin sheet can be posted
+export const MAX_PIN_DAYS_AHEAD = 1;
@@ -0,0 +1,239 @@
+/**
+ * Correction validator - checks a submitted correction and normalizes its value for the field
+ */
+
+import type {
+  CorrectionField,
+  CorrectionInput,
+  CorrectionValue,
+  HazardEntry,
+  PinPosition,
+  PinSide
+} from './types';
+import {
+  CORRECTION_FIELDS,
+  CORRECTION_HAZARD_TYPES,
+  PIN_SIDES,
+  MIN_HOLE_PAR,
+  MAX_HOLE_PAR,
+  MAX_HOLE_HANDICAP,
+  MAX_HOLE_YARDS,
+  MAX_PIN_FRONT_YARDS,
+  MAX_HAZARD_NOTE_LENGTH,
+  MAX_CORRECTION_NOTE_LENGTH,
+  MAX_PIN_DAYS_AHEAD
+} from './types';
+
+export interface CorrectionValidation {
+  correction: (CorrectionInput & { value: CorrectionValue }) | null;
+  errors: string[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class CorrectionValidator {
+
+  static validate(input: unknown, maxHole: number, today = this.today()): CorrectionValidation {
+    if (!input || typeof input !== 'object') {
+      return { correction: null, errors: ['Expected a correction object'] };
+    }
+
+    const raw = input as Record<string, unknown>;
+    const errors: string[] = [];
+
+    const holeNumber = raw.hole_number;
+    if (typeof holeNumber !== 'number' || !Number.isInteger(holeNumber) || holeNumber < 1 || holeNumber > maxHole) {
+      errors.push(`hole_number must be between 1 and ${maxHole}`);
+    }
+
+    const field = raw.field as CorrectionField;
+    if (!CORRECTION_FIELDS.includes(field)) {
+      errors.push(`field must be one of: ${CORRECTION_FIELDS.join(', ')}`);
+      return { correction: null, errors };
+    }
+
+    const value = this.normalizeValue(field, raw.value, errors);
+
+    let pinDate: string | undefined;
+    if (field === 'pin') {
+      pinDate = typeof raw.pin_date === 'string' ? raw.pin_date : today;
+      if (!this.isValidPinDate(pinDate, today)) {
+        errors.push(`pin_date must be a YYYY-MM-DD date no more than ${MAX_PIN_DAYS_AHEAD} day ahead, and not in the past`);
+      }
+    } else if (raw.pin_date !== undefined) {
+      errors.push('pin_date only applies to pin corrections');
+    }
+
+    let note: string | undefined;
+    if (raw.note !== undefined) {
+      if (typeof raw.note !== 'string' || raw.note.length > MAX_CORRECTION_NOTE_LENGTH) {
+        errors.push(`note must be text of at most ${MAX_CORRECTION_NOTE_LENGTH} characters`);
+      } else if (raw.note.trim()) {
+        note = raw.note.trim();
+      }
+    }
+
+    if (errors.length > 0 || value === null) {
+      return { correction: null, errors };
+    }
+
+    return {
+      correction: {
+        hole_number: holeNumber as number,
+        field,
+        value,
+        ...(pinDate && { pin_date: pinDate }),
+        ...(note && { note })
+      },
+      errors
+    };
+  }
+
+  /**
+   * Today's date as pin sheets are keyed (YYYY-MM-DD, UTC)
+   */
+  static today(now = new Date()): string {
+    return now.toISOString().slice(0, 10);
+  }
+
+  // Private helper methods
+
+  private static normalizeValue(field: CorrectionField, value: unknown, errors: string[]): CorrectionValue | null {
+    switch (field) {
+      case 'par':
+        if (!this.isIntegerBetween(value, MIN_HOLE_PAR, MAX_HOLE_PAR)) {
+          errors.push(`par must be a whole number from ${MIN_HOLE_PAR} to ${MAX_HOLE_PAR}`);
+          return null;
+        }
+        return value as number;
+
+      case 'handicap':
+        if (!this.isIntegerBetween(value, 1, MAX_HOLE_HANDICAP)) {
+          errors.push(`handicap must be a whole number from 1 to ${MAX_HOLE_HANDICAP}`);
+          return null;
+        }
+        return value as number;
+
+      case 'yardages':
+        return this.normalizeYardages(value, errors);
+
+      case 'hazards':
+        return this.normalizeHazards(value, errors);
+
+      case 'pin':
+        return this.normalizePin(value, errors);
+    }
+  }
+
+  private static normalizeYardages(value: unknown, errors: string[]): Record<string, number> | null {
+    if (!value || typeof value !== 'object' || Array.isArray(value) || Object.keys(value).length === 0) {
+      errors.push('yardages must be an object of tee name to yards, e.g. {"blue": 412}');
+      return null;
+    }
+
+    const yardages: Record<string, number> = {};
+    for (const [tee, yards] of Object.entries(value)) {
+      if (!tee.trim() || !this.isIntegerBetween(yards, 1, MAX_HOLE_YARDS)) {
+        errors.push(`${tee || 'tee'} yardage must be a whole number from 1 to ${MAX_HOLE_YARDS}`);
+        continue;
+      }
+      yardages[tee.trim().toLowerCase()] = yards as number;
+    }
+
+    return Object.keys(yardages).length === Object.keys(value).length ? yardages : null;
+  }
+
+  private static normalizeHazards(value: unknown, errors: string[]): HazardEntry[] | null {
+    if (!Array.isArray(value)) {
+      errors.push('hazards must be a list of notes or mapped hazards');
+      return null;
+    }
+
+    const hazards: HazardEntry[] = [];
+    value.forEach((entry, i) => {
+      if (typeof entry === 'string') {
+        if (!entry.trim() || entry.length > MAX_HAZARD_NOTE_LENGTH) {
+          errors.push(`Hazard ${i + 1}: notes must be 1 to ${MAX_HAZARD_NOTE_LENGTH} characters`);
+        } else {
+          hazards.push(entry.trim());
+        }
+        return;
+      }
+
+      if (!entry || typeof entry !== 'object' || !CORRECTION_HAZARD_TYPES.includes(entry.type)) {
+        errors.push(`Hazard ${i + 1}: type must be one of: ${CORRECTION_HAZARD_TYPES.join(', ')}`);
+        return;
+      }
+
+      const polygon = Array.isArray(entry.polygon) ? entry.polygon : undefined;
+      if (polygon && (polygon.length < 3 || !polygon.every((p: unknown) => this.isLatLng(p)))) {
+        errors.push(`Hazard ${i + 1}: polygon needs at least 3 [lat, lng] points`);
+        return;
+      }
+      if (entry.center !== undefined && !this.isLatLng(entry.center)) {
+        errors.push(`Hazard ${i + 1}: center must be [lat, lng]`);
+        return;
+      }
+
+      hazards.push({
+        type: entry.type,
+        ...(typeof entry.name === 'string' && entry.name.trim() && { name: entry.name.trim() }),
+        ...(polygon && { polygon }),
+        ...(entry.center && { center: entry.center }),
+        ...(typeof entry.radius_yards === 'number' && entry.radius_yards > 0 && { radius_yards: entry.radius_yards })
+      });
+    });
+
+    return hazards.length === value.length ? hazards : null;
+  }
+
+  private static normalizePin(value: unknown, errors: string[]): PinPosition | null {
+    if (!value || typeof value !== 'object') {
+      errors.push('pin must be an object with front_yards and side');
+      return null;
+    }
+
+    const raw = value as Record<string, unknown>;
+    const frontYards = raw.front_yards;
+    const side = (raw.side ?? 'center') as PinSide;
+    let valid = true;
+
+    if (!this.isIntegerBetween(frontYards, 1, MAX_PIN_FRONT_YARDS)) {
+      errors.push(`front_yards must be a whole number from 1 to ${MAX_PIN_FRONT_YARDS}`);
+      valid = false;
+    }
+    if (!PIN_SIDES.includes(side)) {
+      errors.push(`side must be one of: ${PIN_SIDES.join(', ')}`);
+      valid = false;
+    }
+    if (raw.position !== undefined && !this.isLatLng(raw.position)) {
+      errors.push('position must be [lat, lng]');
+      valid = false;
+    }
+
+    if (!valid) return null;
+
+    return {
+      front_yards: frontYards as number,
+      side,
+      ...(raw.position !== undefined && { position: raw.position as [number, number] })
+    };
+  }
+
+  private static isValidPinDate(date: string, today: string): boolean {
+    if (!DATE_PATTERN.test(date) || Number.isNaN(Date.parse(date))) return false;
+    const daysAhead = (Date.parse(date) - Date.parse(today)) / DAY_MS;
+    return daysAhead >= 0 && daysAhead <= MAX_PIN_DAYS_AHEAD;
+  }
+
+  private static isIntegerBetween(value: unknown, min: number, max: number): boolean {
+    return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+  }
+
+  private static isLatLng(value: unknown): boolean {
+    return Array.isArray(value) && value.length === 2
+      && typeof value[0] === 'number' && Math.abs(value[0]) <= 90
+      && typeof value[1] === 'number' && Math.abs(value[1]) <= 180;
+  }
+}
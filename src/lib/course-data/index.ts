@@ -0,0 +1,33 @@
+/**
+ * Course data - course listings and scorecards from a pluggable provider, plus scorecard import
+ */
+
+import { CourseDataService } from './service';
+import { ScorecardImporter } from './scorecard';
+
+export { CourseDataService } from './service';
+export { RapidApiCourseProvider } from './providers';
+export { ScorecardImporter } from './scorecard';
+export {
+  COURSE_SOURCES,
+  LOCAL_ID_PREFIX,
+  IMPORT_ID_PREFIX
+} from './types';
+
+// Export convenience functions
+export const setCourseDataProvider = CourseDataService.setProvider.bind(CourseDataService);
+export const importScorecard = ScorecardImporter.parse.bind(ScorecardImporter);
+
+// Export types for external use
+export type {
+  CourseSource,
+  ExternalCourse,
+  ExternalHole,
+  TeeSet,
+  CourseSearchQuery,
+  CourseDataProvider,
+  ScorecardIssue,
+  ScorecardIssueSeverity,
+  ScorecardImportResult,
+  ScorecardCourseDetails
+} from './types';
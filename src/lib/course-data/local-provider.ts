@@ -0,0 +1,60 @@
+/**
+ * Local course provider - courses from a JSON fixture file, for tests and local development.
+ * Server-only (reads the file system), so it isn't exported from the browser-safe index.
+ */
+
+import { readFile } from 'node:fs/promises';
+import type { CourseDataProvider, CourseSearchQuery, ExternalCourse } from './types';
+import { LOCAL_ID_PREFIX, YARDS_PER_MILE } from './types';
+import { calculateDistance } from '$lib/utils/gps';
+
+/**
+ * { "courses": [ { "id": "pine-valley-muni", "name": ..., "latitude": ..., "longitude": ..., "holes": [...] } ] }
+ * Ids are reported with the local: prefix so fixture courses never overwrite real ones.
+ */
+interface CourseFixture {
+  courses?: ExternalCourse[];
+}
+
+export class LocalCourseProvider implements CourseDataProvider {
+  readonly name = 'local';
+  private fixture: Promise<ExternalCourse[]> | null = null;
+
+  constructor(private readonly path: string) {}
+
+  async searchCourses({ lat, lng, radius }: CourseSearchQuery): Promise<ExternalCourse[]> {
+    const courses = await this.load();
+
+    return courses
+      .map(course => ({
+        course,
+        yards: calculateDistance({ lat, lng }, { lat: course.latitude, lng: course.longitude }).yards
+      }))
+      .filter(({ yards }) => yards <= radius * YARDS_PER_MILE)
+      .sort((a, b) => a.yards - b.yards)
+      .map(({ course }) => course);
+  }
+
+  async getCourseDetails(externalId: string): Promise<ExternalCourse | null> {
+    const courses = await this.load();
+    const id = externalId.startsWith(LOCAL_ID_PREFIX) ? externalId : `${LOCAL_ID_PREFIX}${externalId}`;
+    return courses.find(course => course.id === id) || null;
+  }
+
+  // Private helper methods
+
+  private load(): Promise<ExternalCourse[]> {
+    this.fixture ||= readFile(this.path, 'utf-8')
+      .then(text => JSON.parse(text) as CourseFixture)
+      .then(fixture => (fixture.courses || []).map(course => ({
+        ...course,
+        id: course.id.startsWith(LOCAL_ID_PREFIX) ? course.id : `${LOCAL_ID_PREFIX}${course.id}`
+      })))
+      .catch(error => {
+        console.error('Error reading course fixture:', error);
+        this.fixture = null;
+        return [];
+      });
+    return this.fixture;
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Course data providers - Golf Course Data API on RapidAPI
+ */
+
+import type { CourseDataProvider, CourseSearchQuery, ExternalCourse } from './types';
+
+const RAPIDAPI_HOST = 'golf-course-api-rapidapi.p.rapidapi.com';
+
+export class RapidApiCourseProvider implements CourseDataProvider {
+  readonly name = 'rapidapi';
+
+  constructor(private readonly apiKey: string | undefined, private readonly timeoutMs = 8000) {}
+
+  async searchCourses({ lat, lng, radius }: CourseSearchQuery): Promise<ExternalCourse[]> {
+    const data = await this.get(`/courses/search?lat=${lat}&lng=${lng}&radius=${radius}`);
+    return data?.courses || [];
+  }
+
+  async getCourseDetails(externalId: string): Promise<ExternalCourse | null> {
+    const data = await this.get(`/courses/${encodeURIComponent(externalId)}`);
+    return data?.course || null;
+  }
+
+  // Private helper methods
+
+  private async get(path: string): Promise<any | null> {
+    if (!this.apiKey) {
+      console.warn('Golf Course API key not configured, returning empty results');
+      return null;
+    }
+
+    try {
+      const response = await fetch(`https://${RAPIDAPI_HOST}${path}`, {
+        headers: {
+          'X-RapidAPI-Key': this.apiKey,
+          'X-RapidAPI-Host': RAPIDAPI_HOST
+        },
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+
+      if (!response.ok) {
+        console.error('Golf Course API error:', response.status, await response.text());
+        return null;
+      }
+
+      return await response.json();
+
+    } catch (error) {
+      console.error('Error calling Golf Course API:', error);
+      return null;
+    }
+  }
+}
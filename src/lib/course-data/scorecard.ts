@@ -0,0 +1,318 @@
+/**
+ * Scorecard import - builds a course from a scorecard CSV or a course JSON document
+ *
+ * CSV: one row per hole; every column that isn't hole, par, handicap or description is a tee
+ *   hole,par,handicap,blue,white,red
+ *   1,4,7,412,388,331
+ * Course details (name, location) come alongside the CSV since a scorecard doesn't carry them.
+ *
+ * Imported courses always get an import:<owner>:<slug> external id, so an import can only ever
+ * create or refresh the importer's own course, never one from a provider or another player.
+ *
+ * JSON: the same shape the providers return,
+ *   { "name": ..., "latitude": ..., "longitude": ..., "tee_sets": [...], "holes": [{ "number": 1, "par": 4, "yardages": {...} }] }
+ */
+
+import type {
+  ExternalHole,
+  ScorecardCourseDetails,
+  ScorecardImportResult,
+  ScorecardIssue,
+  TeeSet
+} from './types';
+import {
+  IMPORT_ID_PREFIX,
+  MIN_HOLE_PAR,
+  MAX_HOLE_PAR,
+  MAX_HOLE_YARDS,
+  MAX_HOLES,
+  SCORECARD_HOLE_COLUMNS,
+  SCORECARD_PAR_COLUMNS,
+  SCORECARD_HANDICAP_COLUMNS,
+  SCORECARD_DESCRIPTION_COLUMNS
+} from './types';
+
+export class ScorecardImporter {
+
+  /**
+   * Either { csv, course } or { course } with holes, imported on behalf of owner (the user id).
+   * The course comes back even with issues; callers decide whether errors block saving.
+   */
+  static parse(input: unknown, owner: string): ScorecardImportResult {
+    if (!input || typeof input !== 'object') {
+      return this.failure('Expected a JSON body with a scorecard csv or a course');
+    }
+
+    const { csv, course } = input as { csv?: unknown; course?: unknown };
+    const details = course && typeof course === 'object' ? course as ScorecardCourseDetails : {};
+
+    if (typeof csv === 'string') return this.parseCsv(csv, owner, details);
+    if (course && typeof course === 'object') return this.parseJson(course, owner);
+    return this.failure('Expected a scorecard csv or a course with holes');
+  }
+
+  static parseCsv(text: string, owner: string, details: ScorecardCourseDetails = {}): ScorecardImportResult {
+    const issues: ScorecardIssue[] = [];
+    // Quoted fields may contain commas but not line breaks
+    const rows = text.split(/\r?\n/).filter(line => line.trim() !== '').map(line => this.splitCsvLine(line));
+
+    if (rows.length < 2) {
+      return this.failure('The CSV needs a header row and at least one hole');
+    }
+
+    const header = rows[0].map(column => column.trim().toLowerCase());
+    const holeColumn = header.findIndex(column => SCORECARD_HOLE_COLUMNS.includes(column));
+    const parColumn = header.findIndex(column => SCORECARD_PAR_COLUMNS.includes(column));
+    const handicapColumn = header.findIndex(column => SCORECARD_HANDICAP_COLUMNS.includes(column));
+    const descriptionColumn = header.findIndex(column => SCORECARD_DESCRIPTION_COLUMNS.includes(column));
+
+    if (holeColumn === -1 || parColumn === -1) {
+      return this.failure('The CSV header needs hole and par columns');
+    }
+
+    const teeColumns = header
+      .map((name, index) => ({ name, index }))
+      .filter(({ index }) => ![holeColumn, parColumn, handicapColumn, descriptionColumn].includes(index));
+
+    if (teeColumns.length === 0) {
+      issues.push({ hole_number: null, severity: 'warning', message: 'No tee yardage columns; holes will have no yardages' });
+    }
+
+    const holes: ExternalHole[] = [];
+    rows.slice(1).forEach((row, i) => {
+      const line = i + 2;
+      const number = this.toNumber(row[holeColumn]);
+      const par = this.toNumber(row[parColumn]);
+
+      if (number === null || par === null) {
+        issues.push({ hole_number: number, severity: 'error', message: `Line ${line}: hole and par must be numbers` });
+        return;
+      }
+
+      const yardages: Record<string, number> = {};
+      for (const tee of teeColumns) {
+        const cell = row[tee.index]?.trim();
+        if (!cell) continue;
+
+        const yards = this.toNumber(cell);
+        if (yards === null) {
+          issues.push({ hole_number: number, severity: 'error', message: `Line ${line}: ${tee.name} yardage "${cell}" isn't a number` });
+        } else {
+          yardages[tee.name] = yards;
+        }
+      }
+
+      const handicap = handicapColumn === -1 ? null : this.toNumber(row[handicapColumn]);
+      const description = descriptionColumn === -1 ? '' : (row[descriptionColumn] || '').trim();
+
+      holes.push({
+        number,
+        par,
+        ...(handicap !== null && { handicap }),
+        yardages,
+        ...(description && { description })
+      });
+    });
+
+    return this.finish(details, owner, holes, issues);
+  }
+
+  static parseJson(input: unknown, owner: string): ScorecardImportResult {
+    if (!input || typeof input !== 'object') {
+      return this.failure('Expected a course object');
+    }
+
+    const course = input as ScorecardCourseDetails & { id?: unknown; holes?: unknown };
+    const issues: ScorecardIssue[] = [];
+
+    if (!Array.isArray(course.holes) || course.holes.length === 0) {
+      return this.failure('The course needs a holes array');
+    }
+
+    const holes: ExternalHole[] = [];
+    course.holes.forEach((raw: any, i: number) => {
+      const number = this.toNumber(raw?.number ?? raw?.hole_number);
+      const par = this.toNumber(raw?.par);
+
+      if (number === null || par === null) {
+        issues.push({ hole_number: number, severity: 'error', message: `Hole entry ${i + 1}: number and par must be numbers` });
+        return;
+      }
+
+      const yardages: Record<string, number> = {};
+      for (const [tee, value] of Object.entries(raw.yardages && typeof raw.yardages === 'object' ? raw.yardages : {})) {
+        const yards = this.toNumber(value);
+        if (yards === null) {
+          issues.push({ hole_number: number, severity: 'error', message: `${tee} yardage isn't a number` });
+        } else {
+          yardages[tee.trim().toLowerCase()] = yards;
+        }
+      }
+
+      const handicap = this.toNumber(raw.handicap);
+      holes.push({
+        number,
+        par,
+        ...(handicap !== null && { handicap }),
+        yardages,
+        ...(typeof raw.description === 'string' && raw.description.trim() && { description: raw.description.trim() })
+      });
+    });
+
+    const details: ScorecardCourseDetails = {
+      ...course,
+      external_id: course.external_id ?? (typeof course.id === 'string' ? course.id : undefined)
+    };
+
+    return this.finish(details, owner, holes, issues);
+  }
+
+  static hasErrors(issues: ScorecardIssue[]): boolean {
+    return issues.some(issue => issue.severity === 'error');
+  }
+
+  /**
+   * The external id an import by owner is stored under. The caller's own id (or the course name)
+   * only picks the slug; passing back an id from an earlier import refreshes that course.
+   */
+  static externalIdFor(owner: string, requestedId: string | undefined, name: string): string {
+    const ownPrefix = `${IMPORT_ID_PREFIX}${owner}:`;
+    const requested = requestedId?.trim().startsWith(ownPrefix)
+      ? requestedId.trim().slice(ownPrefix.length)
+      : requestedId?.trim();
+    return `${ownPrefix}${this.slug(requested || name)}`;
+  }
+
+  // Private helper methods
+
+  private static finish(
+    details: ScorecardCourseDetails,
+    owner: string,
+    holes: ExternalHole[],
+    issues: ScorecardIssue[]
+  ): ScorecardImportResult {
+    const name = typeof details.name === 'string' ? details.name.trim() : '';
+    const latitude = this.toNumber(details.latitude);
+    const longitude = this.toNumber(details.longitude);
+
+    if (!name) {
+      issues.push({ hole_number: null, severity: 'error', message: 'The course needs a name' });
+    }
+    if (latitude === null || longitude === null || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      issues.push({ hole_number: null, severity: 'error', message: 'The course needs a valid latitude and longitude' });
+    }
+
+    this.validateHoles(holes, issues);
+    holes.sort((a, b) => a.number - b.number);
+
+    const externalId = this.externalIdFor(
+      owner,
+      typeof details.external_id === 'string' ? details.external_id : undefined,
+      name
+    );
+
+    return {
+      course: {
+        id: externalId,
+        name,
+        latitude: latitude ?? 0,
+        longitude: longitude ?? 0,
+        address: details.address,
+        phone: details.phone,
+        website: details.website,
+        tee_sets: Array.isArray(details.tee_sets) && details.tee_sets.length > 0
+          ? details.tee_sets
+          : this.teeSetsFrom(holes),
+        holes
+      },
+      issues
+    };
+  }
+
+  private static validateHoles(holes: ExternalHole[], issues: ScorecardIssue[]): void {
+    const seen = new Set<number>();
+    const handicaps = new Set<number>();
+
+    for (const hole of holes) {
+      if (!Number.isInteger(hole.number) || hole.number < 1 || hole.number > MAX_HOLES) {
+        issues.push({ hole_number: hole.number, severity: 'error', message: `Hole number must be between 1 and ${MAX_HOLES}` });
+      }
+      if (seen.has(hole.number)) {
+        issues.push({ hole_number: hole.number, severity: 'error', message: 'Hole appears more than once' });
+      }
+      seen.add(hole.number);
+
+      if (!Number.isInteger(hole.par) || hole.par < MIN_HOLE_PAR || hole.par > MAX_HOLE_PAR) {
+        issues.push({ hole_number: hole.number, severity: 'error', message: `Par ${hole.par} isn't between ${MIN_HOLE_PAR} and ${MAX_HOLE_PAR}` });
+      }
+
+      for (const [tee, yards] of Object.entries(hole.yardages)) {
+        if (yards <= 0 || yards > MAX_HOLE_YARDS) {
+          issues.push({ hole_number: hole.number, severity: 'error', message: `${tee} yardage ${yards} isn't between 1 and ${MAX_HOLE_YARDS}` });
+        }
+      }
+
+      if (hole.handicap !== undefined) {
+        if (handicaps.has(hole.handicap)) {
+          issues.push({ hole_number: hole.number, severity: 'warning', message: `Handicap ${hole.handicap} is used by more than one hole` });
+        }
+        handicaps.add(hole.handicap);
+      }
+    }
+
+    if (holes.length > 0 && holes.length !== 9 && holes.length !== 18) {
+      issues.push({ hole_number: null, severity: 'warning', message: `${holes.length} holes; expected 9 or 18` });
+    }
+  }
+
+  // Tee names from the yardage columns, in the order they first appear
+  private static teeSetsFrom(holes: ExternalHole[]): TeeSet[] {
+    const names = [...new Set(holes.flatMap(hole => Object.keys(hole.yardages)))];
+    return names.map(name => ({ name: name.charAt(0).toUpperCase() + name.slice(1) }));
+  }
+
+  private static splitCsvLine(line: string): string[] {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quoted) {
+        if (char === '"' && line[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        cells.push(cell);
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+    cells.push(cell);
+
+    return cells;
+  }
+
+  private static toNumber(value: unknown): number | null {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value !== 'string' || value.trim() === '') return null;
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+
+  private static slug(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'course';
+  }
+
+  private static failure(message: string): ScorecardImportResult {
+    return { course: null, issues: [{ hole_number: null, severity: 'error', message }] };
+  }
+}
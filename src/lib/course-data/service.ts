@@ -0,0 +1,48 @@
+/**
+ * Course data service - the configured course listing source, behind one swappable provider
+ */
+
+import type { CourseDataProvider, CourseSearchQuery, ExternalCourse } from './types';
+import { RapidApiCourseProvider } from './providers';
+
+export class CourseDataService {
+  private static provider: CourseDataProvider = new RapidApiCourseProvider(undefined);
+
+  /**
+   * Swap the course source (e.g. the local fixture provider in tests)
+   */
+  static setProvider(provider: CourseDataProvider): void {
+    this.provider = provider;
+  }
+
+  static getProvider(): CourseDataProvider {
+    return this.provider;
+  }
+
+  /**
+   * Courses near a point, each listed once even if the provider repeats it
+   */
+  static async searchCourses(query: CourseSearchQuery): Promise<ExternalCourse[]> {
+    try {
+      const courses = await this.provider.searchCourses(query);
+      const byId = new Map<string, ExternalCourse>();
+      for (const course of courses) {
+        if (course?.id && !byId.has(String(course.id))) byId.set(String(course.id), { ...course, id: String(course.id) });
+      }
+      return [...byId.values()];
+
+    } catch (error) {
+      console.error(`Error searching courses (${this.provider.name}):`, error);
+      return [];
+    }
+  }
+
+  static async getCourseDetails(externalId: string): Promise<ExternalCourse | null> {
+    try {
+      return await this.provider.getCourseDetails(externalId);
+    } catch (error) {
+      console.error(`Error fetching course details (${this.provider.name}):`, error);
+      return null;
+    }
+  }
+}
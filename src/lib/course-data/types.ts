@@ -0,0 +1,93 @@
+/**
+ * Course data types - courses and scorecards from external sources, before they're cached in pure.courses
+ */
+
+// Where a cached course came from; stored on pure.courses.source
+export type CourseSource = 'rapidapi' | 'local' | 'import';
+
+export interface ExternalCourse {
+  id: string;                  // the source's id; stored as pure.courses.external_id
+  name: string;
+  latitude: number;
+  longitude: number;
+  address?: string;
+  phone?: string;
+  website?: string;
+  holes?: ExternalHole[];
+  tee_sets?: TeeSet[];
+}
+
+export interface ExternalHole {
+  number: number;
+  par: number;
+  handicap?: number;
+  yardages: Record<string, number>; // {"blue": 420, "white": 385, "red": 320}
+  description?: string;
+}
+
+export interface TeeSet {
+  name: string;
+  rating?: number;
+  slope?: number;
+  color?: string;
+}
+
+export interface CourseSearchQuery {
+  lat: number;
+  lng: number;
+  radius: number;              // miles
+}
+
+/**
+ * A source of course listings and scorecards. Returns empty results when the source can't answer.
+ */
+export interface CourseDataProvider {
+  readonly name: CourseSource;
+  searchCourses(query: CourseSearchQuery): Promise<ExternalCourse[]>;
+  getCourseDetails(externalId: string): Promise<ExternalCourse | null>;
+}
+
+export type ScorecardIssueSeverity = 'error' | 'warning';
+
+export interface ScorecardIssue {
+  hole_number: number | null;  // null for problems with the file or course as a whole
+  severity: ScorecardIssueSeverity;
+  message: string;
+}
+
+export interface ScorecardImportResult {
+  course: ExternalCourse | null;
+  issues: ScorecardIssue[];
+}
+
+// Course details that don't fit in a scorecard CSV
+export interface ScorecardCourseDetails {
+  external_id?: string;        // picks the slug of the import's id; see ScorecardImporter.externalIdFor
+  name?: string;
+  latitude?: number;
+  longitude?: number;
+  address?: string;
+  phone?: string;
+  website?: string;
+  tee_sets?: TeeSet[];
+}
+
+// Constants
+export const COURSE_SOURCES: CourseSource[] = ['rapidapi', 'local', 'import'];
+
+// Sources other than RapidAPI namespace their ids so they can't collide with its numeric ones
+export const LOCAL_ID_PREFIX = 'local:';
+export const IMPORT_ID_PREFIX = 'import:';
+
+export const YARDS_PER_MILE = 1760;
+
+export const MIN_HOLE_PAR = 3;
+export const MAX_HOLE_PAR = 6;
+export const MAX_HOLE_YARDS = 750;
+export const MAX_HOLES = 36;
+
+// Columns in a scorecard CSV that aren't tee yardages
+export const SCORECARD_HOLE_COLUMNS = ['hole', 'number'];
+export const SCORECARD_PAR_COLUMNS = ['par'];
+export const SCORECARD_HANDICAP_COLUMNS = ['handicap', 'hcp', 'si', 'stroke_index'];
+export const SCORECARD_DESCRIPTION_COLUMNS = ['description', 'notes'];
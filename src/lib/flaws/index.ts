@@ -0,0 +1,22 @@
+/**
+ * Flaw detection - rule-based swing flaws from pose metrics
+ */
+
+import { FlawRulesEngine } from './rules';
+
+export { FlawRulesEngine } from './rules';
+export { CATEGORY_THRESHOLDS, HANDICAP_BANDS, FLAW_DEFINITIONS } from './types';
+
+// Export convenience functions
+export const detectFlaws = FlawRulesEngine.detect.bind(FlawRulesEngine);
+export const scoreSwing = FlawRulesEngine.scoreSwing;
+
+// Export types for external use
+export type {
+  FlawCode,
+  HandicapBand,
+  SwingMetricsInput,
+  FlawThreshold,
+  FlawThresholds,
+  FlawRuleOptions
+} from './types';
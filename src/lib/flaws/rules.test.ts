@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { FlawRulesEngine } from './rules';
+import type { FlawCode, SwingMetricsInput } from './types';
+
+// An iron swing that trips none of the rules
+const clean: SwingMetricsInput = {
+  tempo_ratio: 3.0,
+  plane_delta: 0,
+  hip_sway_cm: 0,
+  x_factor: 40
+};
+
+const severityOf = (code: FlawCode, metrics: SwingMetricsInput, handicap?: number) =>
+  FlawRulesEngine.detect({ ...clean, ...metrics }, { category: 'iron', handicap })
+    .find(flaw => flaw.code === code)?.severity ?? null;
+
+describe('FlawRulesEngine.detect thresholds', () => {
+  // Iron thresholds at scratch: severity 1 just past `limit`, 5 at `severe`
+  it.each<{ code: FlawCode; metrics: SwingMetricsInput; severity: number | null }>([
+    { code: 'tempo_fast', metrics: { tempo_ratio: 2.6 }, severity: null },
+    { code: 'tempo_fast', metrics: { tempo_ratio: 2.2 }, severity: 3 },
+    { code: 'tempo_fast', metrics: { tempo_ratio: 1.8 }, severity: 5 },
+    { code: 'tempo_fast', metrics: { tempo_ratio: 1.0 }, severity: 5 },
+    { code: 'tempo_slow', metrics: { tempo_ratio: 3.6 }, severity: null },
+    { code: 'tempo_slow', metrics: { tempo_ratio: 4.1 }, severity: 3 },
+    { code: 'tempo_slow', metrics: { tempo_ratio: 4.6 }, severity: 5 },
+    { code: 'over_the_top', metrics: { plane_delta: 5 }, severity: null },
+    { code: 'over_the_top', metrics: { plane_delta: 6 }, severity: 1 },
+    { code: 'over_the_top', metrics: { plane_delta: 10.5 }, severity: 3 },
+    { code: 'over_the_top', metrics: { plane_delta: 16 }, severity: 5 },
+    { code: 'sway', metrics: { hip_sway_cm: 6 }, severity: null },
+    { code: 'sway', metrics: { hip_sway_cm: 10.5 }, severity: 3 },
+    { code: 'sway', metrics: { hip_sway_cm: 15 }, severity: 5 }
+  ])('$code with $metrics is severity $severity', ({ code, metrics, severity }) => {
+    expect(severityOf(code, metrics, 0)).toBe(severity);
+  });
+
+  // The same swings judged at each handicap band's tolerance
+  it.each<{ code: FlawCode; metrics: SwingMetricsInput; scratch: number | null; low: number | null; mid: number | null; high: number | null }>([
+    { code: 'tempo_fast', metrics: { tempo_ratio: 2.2 }, scratch: 3, low: 1, mid: null, high: null },
+    { code: 'tempo_slow', metrics: { tempo_ratio: 4.6 }, scratch: 5, low: 3, mid: null, high: null },
+    { code: 'over_the_top', metrics: { plane_delta: 7 }, scratch: 2, low: 1, mid: 1, high: null },
+    { code: 'sway', metrics: { hip_sway_cm: 10.5 }, scratch: 3, low: 2, mid: 2, high: 1 }
+  ])('$code with $metrics widens with handicap', ({ code, metrics, scratch, low, mid, high }) => {
+    expect(severityOf(code, metrics, 2)).toBe(scratch);
+    expect(severityOf(code, metrics, 10)).toBe(low);
+    expect(severityOf(code, metrics, 18)).toBe(mid);
+    expect(severityOf(code, metrics, 30)).toBe(high);
+  });
+
+  it('flags nothing on a clean swing', () => {
+    expect(FlawRulesEngine.detect(clean, { category: 'iron', handicap: 0 })).toEqual([]);
+  });
+
+  it('skips rules the category has no threshold for', () => {
+    const flaws = FlawRulesEngine.detect({ ...clean, plane_delta: 30 }, { category: 'chip', handicap: 0 });
+    expect(flaws.map(f => f.code)).not.toContain('over_the_top');
+  });
+
+  // X-factor is shoulder-hip separation; it says nothing about the body extending toward the ball
+  it('flags nothing from x-factor alone', () => {
+    expect(FlawRulesEngine.detect({ ...clean, x_factor: 0 }, { category: 'iron', handicap: 0 })).toEqual([]);
+  });
+
+  it('skips metrics that were not measured', () => {
+    expect(FlawRulesEngine.detect({}, { category: 'iron', handicap: 0 })).toEqual([]);
+  });
+
+  it('takes tempo from the phases when there is no ratio', () => {
+    const phases = [
+      { name: 'takeaway', time_ms: 0 },
+      { name: 'top', time_ms: 600 },
+      { name: 'impact', time_ms: 1000 }
+    ] as SwingMetricsInput['phases'];
+
+    expect(severityOf('tempo_fast', { tempo_ratio: undefined, phases }, 0)).toBe(5);
+  });
+
+  it('applies overrides after the handicap band', () => {
+    const flaws = FlawRulesEngine.detect(
+      { ...clean, plane_delta: 4 },
+      { category: 'iron', handicap: 30, overrides: { plane_delta_max: { limit: 2, severe: 6 } } }
+    );
+    expect(flaws).toEqual([expect.objectContaining({ code: 'over_the_top', severity: 3 })]);
+  });
+
+  it('lists the most severe flaw first', () => {
+    const flaws = FlawRulesEngine.detect(
+      { tempo_ratio: 2.2, plane_delta: 6, hip_sway_cm: 15, x_factor: 40 },
+      { category: 'iron', handicap: 0 }
+    );
+    expect(flaws.map(f => [f.code, f.severity])).toEqual([
+      ['sway', 5],
+      ['tempo_fast', 3],
+      ['over_the_top', 1]
+    ]);
+  });
+});
+
+describe('FlawRulesEngine.getHandicapBand', () => {
+  it.each([
+    { handicap: undefined, band: 'mid' },
+    { handicap: null, band: 'mid' },
+    { handicap: NaN, band: 'mid' },
+    { handicap: -2, band: 'scratch' },
+    { handicap: 5, band: 'scratch' },
+    { handicap: 5.1, band: 'low' },
+    { handicap: 12, band: 'low' },
+    { handicap: 20, band: 'mid' },
+    { handicap: 20.1, band: 'high' },
+    { handicap: 54, band: 'high' },
+    { handicap: 60, band: 'high' }
+  ])('$handicap is $band', ({ handicap, band }) => {
+    expect(FlawRulesEngine.getHandicapBand(handicap)).toBe(band);
+  });
+});
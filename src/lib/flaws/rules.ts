@@ -0,0 +1,139 @@
+/**
+ * Flaw rules engine - deterministic flaw detection from pose metrics
+ */
+
+import type { SwingCategory } from '$lib/supabase';
+import type { FlawDetection, SwingPhase } from '$lib/modes/types';
+import type {
+  FlawCode,
+  FlawThreshold,
+  FlawThresholds,
+  FlawRuleOptions,
+  HandicapBand,
+  SwingMetricsInput
+} from './types';
+
+import { CATEGORY_THRESHOLDS, HANDICAP_BANDS, FLAW_DEFINITIONS } from './types';
+
+export class FlawRulesEngine {
+
+  /**
+   * Run every rule against the metrics, most severe flaw first
+   */
+  static detect(metrics: SwingMetricsInput, options: FlawRuleOptions = {}): FlawDetection[] {
+    const thresholds = this.resolveThresholds(
+      options.category || 'iron',
+      this.getHandicapBand(options.handicap),
+      options.overrides
+    );
+    const phases = metrics.phases || [];
+    const tempo = metrics.tempo_ratio ?? this.tempoFromPhases(phases);
+    const flaws: FlawDetection[] = [];
+
+    const add = (code: FlawCode, severity: FlawDetection['severity'] | null) => {
+      if (severity === null) return;
+      flaws.push({
+        code,
+        name: FLAW_DEFINITIONS[code].name,
+        severity,
+        description: FLAW_DEFINITIONS[code].description,
+        frame_references: this.getFrameReferences(code, phases)
+      });
+    };
+
+    add('tempo_fast', this.severityBelow(tempo, thresholds.tempo_min));
+    add('tempo_slow', this.severityAbove(tempo, thresholds.tempo_max));
+    add('over_the_top', this.severityAbove(metrics.plane_delta, thresholds.plane_delta_max));
+    add('sway', this.severityAbove(metrics.hip_sway_cm, thresholds.hip_sway_max_cm));
+
+    return flaws.sort((a, b) => b.severity - a.severity);
+  }
+
+  /**
+   * Map a handicap index onto a threshold band (unknown handicaps use mid)
+   */
+  static getHandicapBand(handicap?: number | null): HandicapBand {
+    if (handicap === null || handicap === undefined || isNaN(handicap)) return 'mid';
+
+    const bands = Object.entries(HANDICAP_BANDS) as [HandicapBand, { max_handicap: number }][];
+    for (const [band, config] of bands) {
+      if (handicap <= config.max_handicap) return band;
+    }
+    return 'high';
+  }
+
+  /**
+   * Category thresholds widened by the handicap band's tolerance, then overridden
+   */
+  static resolveThresholds(
+    category: SwingCategory,
+    band: HandicapBand,
+    overrides: Partial<FlawThresholds> = {}
+  ): FlawThresholds {
+    const base = CATEGORY_THRESHOLDS[category] || CATEGORY_THRESHOLDS.iron;
+    const tolerance = HANDICAP_BANDS[band].tolerance;
+
+    const widenUp = (t: FlawThreshold | null) =>
+      t ? { limit: t.limit * tolerance, severe: t.severe * tolerance } : null;
+    const widenDown = (t: FlawThreshold | null) =>
+      t ? { limit: t.limit / tolerance, severe: t.severe / tolerance } : null;
+
+    return {
+      tempo_min: widenDown(base.tempo_min),
+      tempo_max: widenUp(base.tempo_max),
+      plane_delta_max: widenUp(base.plane_delta_max),
+      hip_sway_max_cm: widenUp(base.hip_sway_max_cm),
+      ...overrides
+    };
+  }
+
+  /**
+   * Overall 0-100 score, each severity point costs 4
+   */
+  static scoreSwing(flaws: FlawDetection[]): number {
+    const penalty = flaws.reduce((sum, flaw) => sum + flaw.severity * 4, 0);
+    return Math.max(0, 100 - penalty);
+  }
+
+  // Private helper methods
+
+  private static severityAbove(
+    value: number | null | undefined,
+    threshold: FlawThreshold | null
+  ): FlawDetection['severity'] | null {
+    if (value === null || value === undefined || !threshold) return null;
+    if (value <= threshold.limit) return null;
+    return this.scaleSeverity((value - threshold.limit) / (threshold.severe - threshold.limit));
+  }
+
+  private static severityBelow(
+    value: number | null | undefined,
+    threshold: FlawThreshold | null
+  ): FlawDetection['severity'] | null {
+    if (value === null || value === undefined || !threshold) return null;
+    if (value >= threshold.limit) return null;
+    return this.scaleSeverity((threshold.limit - value) / (threshold.limit - threshold.severe));
+  }
+
+  private static scaleSeverity(fraction: number): FlawDetection['severity'] {
+    const severity = 1 + Math.round(Math.min(Math.max(fraction, 0), 1) * 4);
+    return severity as FlawDetection['severity'];
+  }
+
+  private static tempoFromPhases(phases: SwingPhase[]): number | null {
+    const time = (name: SwingPhase['name']) => phases.find(p => p.name === name)?.time_ms;
+    const takeaway = time('takeaway');
+    const top = time('top');
+    const impact = time('impact');
+
+    if (takeaway === undefined || top === undefined || impact === undefined) return null;
+    if (impact <= top) return null;
+    return (top - takeaway) / (impact - top);
+  }
+
+  private static getFrameReferences(code: FlawCode, phases: SwingPhase[]): number[] {
+    return FLAW_DEFINITIONS[code].phases
+      .map(name => phases.find(p => p.name === name)?.frame)
+      .filter((frame): frame is number => frame !== undefined);
+  }
+}
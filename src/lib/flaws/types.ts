@@ -0,0 +1,118 @@
+/**
+ * Flaw rules types - thresholds for turning pose metrics into swing flaws
+ */
+
+import type { SwingCategory } from '$lib/supabase';
+import type { SwingPhase, SwingPhaseName } from '$lib/modes/types';
+
+export type FlawCode =
+  | 'tempo_fast'
+  | 'tempo_slow'
+  | 'over_the_top'
+  | 'sway';
+
+export type HandicapBand = 'scratch' | 'low' | 'mid' | 'high';
+
+// Summary numbers from the pose-metrics service (swing_metrics row + swing_phases)
+export interface SwingMetricsInput {
+  tempo_ratio?: number | null;
+  plane_delta?: number | null; // degrees, positive = steeper in the downswing
+  hip_sway_cm?: number | null;
+  x_factor?: number | null; // degrees, range mode only
+  phases?: SwingPhase[];
+}
+
+// Severity 1 at `limit`, severity 5 at `severe`; works in either direction
+export interface FlawThreshold {
+  limit: number;
+  severe: number;
+}
+
+export interface FlawThresholds {
+  tempo_min: FlawThreshold | null;
+  tempo_max: FlawThreshold | null;
+  plane_delta_max: FlawThreshold | null;
+  hip_sway_max_cm: FlawThreshold | null;
+}
+
+export interface FlawRuleOptions {
+  category?: SwingCategory;
+  handicap?: number | null;
+  overrides?: Partial<FlawThresholds>;
+}
+
+export interface FlawDefinition {
+  name: string;
+  description: string;
+  phases: SwingPhaseName[]; // phases whose frames are referenced
+}
+
+export interface HandicapBandConfig {
+  max_handicap: number;
+  tolerance: number; // multiplier applied to how far past ideal a metric may drift
+}
+
+// Base thresholds per club category (scratch-level expectations)
+export const CATEGORY_THRESHOLDS: Record<SwingCategory, FlawThresholds> = {
+  wood: {
+    tempo_min: { limit: 2.6, severe: 1.8 },
+    tempo_max: { limit: 3.6, severe: 4.6 },
+    plane_delta_max: { limit: 6, severe: 18 },
+    hip_sway_max_cm: { limit: 8, severe: 18 }
+  },
+  iron: {
+    tempo_min: { limit: 2.6, severe: 1.8 },
+    tempo_max: { limit: 3.6, severe: 4.6 },
+    plane_delta_max: { limit: 5, severe: 16 },
+    hip_sway_max_cm: { limit: 6, severe: 15 }
+  },
+  wedge: {
+    tempo_min: { limit: 2.4, severe: 1.6 },
+    tempo_max: { limit: 3.6, severe: 4.6 },
+    plane_delta_max: { limit: 5, severe: 15 },
+    hip_sway_max_cm: { limit: 5, severe: 12 }
+  },
+  chip: {
+    tempo_min: { limit: 1.6, severe: 1.0 },
+    tempo_max: { limit: 2.6, severe: 3.6 },
+    plane_delta_max: null,
+    hip_sway_max_cm: { limit: 3, severe: 8 }
+  },
+  putt: {
+    tempo_min: { limit: 1.6, severe: 1.0 },
+    tempo_max: { limit: 2.4, severe: 3.2 },
+    plane_delta_max: null,
+    hip_sway_max_cm: { limit: 2, severe: 6 }
+  }
+};
+
+// Higher handicaps get wider tolerances so only meaningful faults are flagged
+export const HANDICAP_BANDS: Record<HandicapBand, HandicapBandConfig> = {
+  scratch: { max_handicap: 5, tolerance: 1.0 },
+  low: { max_handicap: 12, tolerance: 1.15 },
+  mid: { max_handicap: 20, tolerance: 1.3 },
+  high: { max_handicap: 54, tolerance: 1.5 }
+};
+
+export const FLAW_DEFINITIONS: Record<FlawCode, FlawDefinition> = {
+  tempo_fast: {
+    name: 'Fast Tempo',
+    description: 'Backswing is rushed relative to the downswing',
+    phases: ['takeaway', 'top', 'impact']
+  },
+  tempo_slow: {
+    name: 'Slow Tempo',
+    description: 'Backswing is long and slow relative to the downswing',
+    phases: ['takeaway', 'top', 'impact']
+  },
+  over_the_top: {
+    name: 'Over the Top',
+    description: 'Hands move outside the backswing plane coming down',
+    phases: ['top', 'transition', 'impact']
+  },
+  sway: {
+    name: 'Hip Sway',
+    description: 'Hips slide laterally away from the target in the backswing',
+    phases: ['address', 'top']
+  }
+};
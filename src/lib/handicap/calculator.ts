@@ -0,0 +1,197 @@
+/**
+ * Handicap calculator - score differentials and handicap index under the World Handicap System
+ */
+
+import type {
+  HandicapHole,
+  HandicapHoleScore,
+  HandicapIndexResult,
+  HandicapRoundInput,
+  RoundHandicapResult,
+  TeeRating
+} from './types';
+
+import {
+  STANDARD_SLOPE,
+  MAX_HANDICAP_INDEX,
+  SCORING_RECORD_SIZE,
+  MIN_HOLES_FOR_18_HOLE_SCORE,
+  NO_INDEX_MAX_OVER_PAR,
+  DIFFERENTIALS_TO_USE
+} from './types';
+
+export class HandicapCalculator {
+
+  /**
+   * Find the rated tee set a round was played from (names compared case-insensitively)
+   */
+  static findTee(
+    teeSets: { name: string; rating?: number; slope?: number }[] | null | undefined,
+    teeName: string
+  ): TeeRating | null {
+    const tee = (teeSets || []).find(t => t.name.toLowerCase() === teeName.toLowerCase());
+    if (!tee?.rating || !tee?.slope) return null;
+    return { name: tee.name, rating: tee.rating, slope: tee.slope };
+  }
+
+  /**
+   * Course handicap: strokes received for this tee set
+   */
+  static courseHandicap(handicapIndex: number, tee: TeeRating, par: number): number {
+    return Math.round(handicapIndex * (tee.slope / STANDARD_SLOPE) + (tee.rating - par));
+  }
+
+  /**
+   * Strokes received on a hole, allocated by stroke index (negative for plus handicaps)
+   */
+  static strokesReceived(courseHandicap: number, strokeIndex: number, holeCount = 18): number {
+    if (courseHandicap >= 0) {
+      const base = Math.floor(courseHandicap / holeCount);
+      return base + (strokeIndex <= courseHandicap % holeCount ? 1 : 0);
+    }
+
+    // Plus handicaps give strokes back, starting at the easiest hole
+    const giveBack = Math.abs(courseHandicap);
+    return strokeIndex > holeCount - giveBack ? -1 : 0;
+  }
+
+  /**
+   * Gross score with each hole capped at net double bogey; unplayed holes count as net par
+   */
+  static adjustedGrossScore(
+    scores: HandicapHoleScore[],
+    holes: HandicapHole[],
+    courseHandicap: number | null
+  ): number {
+    return holes.reduce((total, hole) => {
+      const received = courseHandicap === null
+        ? 0
+        : this.strokesReceived(courseHandicap, hole.handicap || hole.hole_number, holes.length);
+      const score = scores.find(s => s.hole_number === hole.hole_number);
+
+      if (!score) return total + hole.par + received;
+
+      // Without an index the cap is par plus five
+      const maxScore = courseHandicap === null
+        ? hole.par + NO_INDEX_MAX_OVER_PAR
+        : hole.par + 2 + received;
+      return total + Math.min(score.strokes, maxScore);
+    }, 0);
+  }
+
+  /**
+   * Score differential for an adjusted gross score from a rated tee
+   */
+  static scoreDifferential(adjustedGrossScore: number, tee: TeeRating): number {
+    return this.round((STANDARD_SLOPE / tee.slope) * (adjustedGrossScore - tee.rating));
+  }
+
+  /**
+   * Handicap index from differentials (oldest first); null with fewer than three
+   */
+  static handicapIndex(differentials: number[]): number | null {
+    const selection = this.selectCounting(differentials.map(value => ({ value })));
+    if (!selection) return null;
+
+    const average =
+      selection.counting.reduce((sum, d) => sum + d.value, 0) / selection.counting.length;
+
+    return Math.min(this.round(average + selection.adjustment), MAX_HANDICAP_INDEX);
+  }
+
+  /**
+   * Score each round in date order and derive the current index.
+   * Rounds are adjusted with the index in effect when they were played, falling
+   * back to the starting index until three differentials exist.
+   */
+  static calculate(rounds: HandicapRoundInput[], startingIndex: number | null = null): HandicapIndexResult {
+    const ordered = [...rounds].sort(
+      (a, b) => new Date(a.played_at).getTime() - new Date(b.played_at).getTime()
+    );
+    const differentials: { round_id: string; value: number }[] = [];
+    const results: RoundHandicapResult[] = [];
+
+    for (const round of ordered) {
+      const indexBefore = this.handicapIndex(differentials.map(d => d.value)) ?? startingIndex;
+      const result = this.scoreRound(round, indexBefore);
+      results.push(result);
+
+      if (result.eligible && result.score_differential !== null) {
+        differentials.push({ round_id: round.round_id, value: result.score_differential });
+      }
+    }
+
+    const counting = this.selectCounting(differentials)?.counting || [];
+
+    return {
+      handicap_index: this.handicapIndex(differentials.map(d => d.value)),
+      differentials_available: Math.min(differentials.length, SCORING_RECORD_SIZE),
+      differentials_used: counting.length,
+      counting_round_ids: counting.map(d => d.round_id),
+      rounds: results
+    };
+  }
+
+  // Private helper methods
+
+  private static selectCounting<T extends { value: number }>(
+    differentials: T[]
+  ): { counting: T[]; adjustment: number } | null {
+    const recent = differentials.slice(-SCORING_RECORD_SIZE);
+    if (recent.length < DIFFERENTIALS_TO_USE[0].available) return null;
+
+    const rule = DIFFERENTIALS_TO_USE.find(r => recent.length <= r.available);
+    if (!rule) return null;
+
+    return {
+      counting: [...recent].sort((a, b) => a.value - b.value).slice(0, rule.use),
+      adjustment: rule.adjustment
+    };
+  }
+
+  private static scoreRound(round: HandicapRoundInput, handicapIndex: number | null): RoundHandicapResult {
+    const played = round.scores.filter(s => s.strokes > 0);
+    const grossScore = played.reduce((sum, s) => sum + s.strokes, 0);
+    const par = round.holes.reduce((sum, h) => sum + h.par, 0);
+
+    const courseHandicap = round.tee && handicapIndex !== null
+      ? this.courseHandicap(handicapIndex, round.tee, par)
+      : null;
+    const complete = round.holes.length > 0 && played.length === round.holes.length;
+
+    const base: RoundHandicapResult = {
+      round_id: round.round_id,
+      played_at: round.played_at,
+      eligible: false,
+      gross_score: grossScore,
+      adjusted_gross_score: null,
+      score_differential: null,
+      handicap_index_used: handicapIndex,
+      course_handicap: courseHandicap,
+      net_score: complete && courseHandicap !== null ? grossScore - courseHandicap : null
+    };
+
+    if (!round.tee) {
+      return { ...base, reason: 'Tee set has no course rating or slope' };
+    }
+    if (round.holes.length !== 18) {
+      return { ...base, reason: 'Only 18-hole courses are supported' };
+    }
+    if (played.length < MIN_HOLES_FOR_18_HOLE_SCORE) {
+      return { ...base, reason: `Fewer than ${MIN_HOLES_FOR_18_HOLE_SCORE} holes played` };
+    }
+
+    const adjusted = this.adjustedGrossScore(played, round.holes, courseHandicap);
+
+    return {
+      ...base,
+      eligible: true,
+      adjusted_gross_score: adjusted,
+      score_differential: this.scoreDifferential(adjusted, round.tee)
+    };
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
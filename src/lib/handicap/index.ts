@@ -0,0 +1,23 @@
+/**
+ * Handicap - World Handicap System index, course handicap and net scores
+ */
+
+import { HandicapCalculator } from './calculator';
+
+export { HandicapCalculator } from './calculator';
+export { STANDARD_SLOPE, MAX_HANDICAP_INDEX, SCORING_RECORD_SIZE } from './types';
+
+// Export convenience functions
+export const calculateHandicap = HandicapCalculator.calculate.bind(HandicapCalculator);
+export const calculateCourseHandicap = HandicapCalculator.courseHandicap.bind(HandicapCalculator);
+export const findRatedTee = HandicapCalculator.findTee.bind(HandicapCalculator);
+
+// Export types for external use
+export type {
+  TeeRating,
+  HandicapHole,
+  HandicapHoleScore,
+  HandicapRoundInput,
+  RoundHandicapResult,
+  HandicapIndexResult
+} from './types';
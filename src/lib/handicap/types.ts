@@ -0,0 +1,78 @@
+/**
+ * Handicap types - World Handicap System inputs and results
+ */
+
+export interface TeeRating {
+  name: string;
+  rating: number;
+  slope: number;
+}
+
+export interface HandicapHole {
+  hole_number: number;
+  par: number;
+  handicap?: number; // Stroke index, 1 = hardest
+}
+
+export interface HandicapHoleScore {
+  hole_number: number;
+  strokes: number;
+}
+
+export interface HandicapRoundInput {
+  round_id: string;
+  played_at: string;
+  tee: TeeRating | null;
+  holes: HandicapHole[];
+  scores: HandicapHoleScore[];
+}
+
+export interface RoundHandicapResult {
+  round_id: string;
+  played_at: string;
+  eligible: boolean;
+  reason?: string; // Why the round doesn't count
+  gross_score: number;
+  adjusted_gross_score: number | null;
+  score_differential: number | null;
+  handicap_index_used: number | null; // Index in effect when the round was played
+  course_handicap: number | null;
+  net_score: number | null;
+}
+
+export interface HandicapIndexResult {
+  handicap_index: number | null; // null until enough rounds are posted
+  differentials_available: number;
+  differentials_used: number;
+  counting_round_ids: string[];
+  rounds: RoundHandicapResult[]; // Oldest first
+}
+
+// Slope rating of a course of standard difficulty
+export const STANDARD_SLOPE = 113;
+
+export const MAX_HANDICAP_INDEX = 54.0;
+
+// Differentials considered for the index
+export const SCORING_RECORD_SIZE = 20;
+
+// Minimum holes played for an 18-hole score; unplayed holes count as net par
+export const MIN_HOLES_FOR_18_HOLE_SCORE = 14;
+
+// Maximum hole score over par before a player has a handicap index
+export const NO_INDEX_MAX_OVER_PAR = 5;
+
+// Differentials used and adjustment, by how many are available (WHS Rule 5.2)
+export const DIFFERENTIALS_TO_USE: { available: number; use: number; adjustment: number }[] = [
+  { available: 3, use: 1, adjustment: -2.0 },
+  { available: 4, use: 1, adjustment: -1.0 },
+  { available: 5, use: 1, adjustment: 0 },
+  { available: 6, use: 2, adjustment: -1.0 },
+  { available: 8, use: 2, adjustment: 0 },
+  { available: 11, use: 3, adjustment: 0 },
+  { available: 14, use: 4, adjustment: 0 },
+  { available: 16, use: 5, adjustment: 0 },
+  { available: 18, use: 6, adjustment: 0 },
+  { available: 19, use: 7, adjustment: 0 },
+  { available: 20, use: 8, adjustment: 0 }
+];
@@ -0,0 +1,67 @@
+/**
+ * IndexedDB cache of course geometry, so the hole map and yardages keep working without signal
+ */
+
+import type { CachedCourseGeometry, HoleGeometry } from './types';
+import { GEOMETRY_DB_NAME, GEOMETRY_DB_VERSION, GEOMETRY_STORE_NAME } from './types';
+
+export class GeometryCache {
+  private db: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Check if IndexedDB is available (not during SSR or in some private modes)
+   */
+  isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async get(courseId: string): Promise<CachedCourseGeometry | null> {
+    if (!this.isSupported()) return null;
+    const entry = await this.request<CachedCourseGeometry | undefined>('readonly', store => store.get(courseId));
+    return entry || null;
+  }
+
+  async put(courseId: string, holes: HoleGeometry[]): Promise<void> {
+    if (!this.isSupported() || holes.length === 0) return;
+    const entry: CachedCourseGeometry = { course_id: courseId, holes, cached_at: new Date().toISOString() };
+    await this.request('readwrite', store => store.put(entry));
+  }
+
+  // Private helper methods
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(GEOMETRY_DB_NAME, GEOMETRY_DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(GEOMETRY_STORE_NAME)) {
+            request.result.createObjectStore(GEOMETRY_STORE_NAME, { keyPath: 'course_id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.db = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.db;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(GEOMETRY_STORE_NAME, mode);
+      const request = operation(transaction.objectStore(GEOMETRY_STORE_NAME));
+
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * GeoJSON import - builds hole geometry from a FeatureCollection of tagged features
+ *
+ * Each feature carries its hole and what it describes in its properties:
+ *   { "hole": 7, "feature": "tee", "tee_set": "blue" }                 Point
+ *   { "hole": 7, "feature": "centerline" }                             LineString, tee to green
+ *   { "hole": 7, "feature": "green" }                                  Polygon
+ *   { "hole": 7, "feature": "green_front" | "green_middle" | "green_back" }   Point, optional
+ *   { "hole": 7, "feature": "hazard", "hazard_type": "bunker", "name": "Left greenside" }   Polygon or MultiPolygon
+ * Green points left out are worked out from the green polygon and the line of play.
+ */
+
+import type {
+  GeoJsonFeature,
+  GeometryFeatureKind,
+  GeometryHazard,
+  GeometryHazardType,
+  GeometryImportResult,
+  GeometryIssue,
+  HoleGeometry,
+  LatLng,
+  TeeBox
+} from './types';
+import { GEOMETRY_FEATURE_KINDS } from './types';
+import { HoleMeasure } from './measure';
+import { HoleGeometryValidator } from './validator';
+
+// Everything collected for one hole before it's assembled
+interface HoleParts {
+  tees: TeeBox[];
+  centerline: LatLng[];
+  green: LatLng[] | null;
+  front?: LatLng;
+  middle?: LatLng;
+  back?: LatLng;
+  hazards: GeometryHazard[];
+}
+
+export class GeoJsonImporter {
+
+  /**
+   * Parse and validate a FeatureCollection. Holes come back even with issues;
+   * callers decide whether errors block saving.
+   */
+  static parse(input: unknown): GeometryImportResult {
+    const issues: GeometryIssue[] = [];
+
+    if (!this.isFeatureCollection(input)) {
+      return {
+        holes: [],
+        issues: [{ hole_number: null, severity: 'error', message: 'Expected a GeoJSON FeatureCollection' }]
+      };
+    }
+
+    const parts = new Map<number, HoleParts>();
+
+    input.features.forEach((feature, index) => {
+      const problem = this.collect(feature, parts);
+      if (problem) {
+        issues.push({ hole_number: problem.hole_number, severity: 'error', message: `Feature ${index + 1}: ${problem.message}` });
+      }
+    });
+
+    const holes: HoleGeometry[] = [];
+    for (const [holeNumber, hole] of [...parts.entries()].sort(([a], [b]) => a - b)) {
+      if (!hole.green) {
+        issues.push({ hole_number: holeNumber, severity: 'error', message: 'No green polygon' });
+        continue;
+      }
+
+      const approach = HoleMeasure.approachPoint({ tees: hole.tees, fairway_centerline: hole.centerline })
+        || hole.green[0];
+      const derived = HoleMeasure.greenPoints(hole.green, approach);
+
+      holes.push({
+        hole_number: holeNumber,
+        tees: hole.tees,
+        fairway_centerline: hole.centerline,
+        green: {
+          polygon: hole.green,
+          front: hole.front || derived.front,
+          middle: hole.middle || derived.middle,
+          back: hole.back || derived.back
+        },
+        hazards: hole.hazards
+      });
+    }
+
+    if (holes.length === 0 && issues.length === 0) {
+      issues.push({ hole_number: null, severity: 'error', message: 'No holes found in the file' });
+    }
+
+    return {
+      holes,
+      issues: [...issues, ...HoleGeometryValidator.validateCourse(holes)]
+    };
+  }
+
+  // Private helper methods
+
+  /**
+   * File one feature under its hole; returns what was wrong with it, if anything
+   */
+  private static collect(
+    feature: GeoJsonFeature,
+    parts: Map<number, HoleParts>
+  ): { hole_number: number | null; message: string } | null {
+    const props = feature?.properties || {};
+    const holeNumber = Number(props.hole ?? props.hole_number);
+    if (!Number.isInteger(holeNumber)) {
+      return { hole_number: null, message: 'properties.hole must be a hole number' };
+    }
+
+    const kind = props.feature as GeometryFeatureKind;
+    if (!GEOMETRY_FEATURE_KINDS.includes(kind)) {
+      return { hole_number: holeNumber, message: `properties.feature must be one of: ${GEOMETRY_FEATURE_KINDS.join(', ')}` };
+    }
+
+    const geometry = feature.geometry;
+    if (!geometry) {
+      return { hole_number: holeNumber, message: `${kind} has no geometry` };
+    }
+
+    if (!parts.has(holeNumber)) {
+      parts.set(holeNumber, { tees: [], centerline: [], green: null, hazards: [] });
+    }
+    const hole = parts.get(holeNumber)!;
+    const wrongType = (expected: string) => ({ hole_number: holeNumber, message: `${kind} must be a ${expected}` });
+
+    switch (kind) {
+      case 'tee': {
+        const position = geometry.type === 'Point' ? this.toLatLng(geometry.coordinates) : null;
+        if (!position) return wrongType('Point');
+        hole.tees.push({ tee_set: String(props.tee_set ?? props.name ?? '').trim().toLowerCase(), position });
+        return null;
+      }
+      case 'green_front':
+      case 'green_middle':
+      case 'green_back': {
+        const position = geometry.type === 'Point' ? this.toLatLng(geometry.coordinates) : null;
+        if (!position) return wrongType('Point');
+        hole[kind === 'green_front' ? 'front' : kind === 'green_middle' ? 'middle' : 'back'] = position;
+        return null;
+      }
+      case 'centerline': {
+        const line = geometry.type === 'LineString' ? this.toLine(geometry.coordinates) : null;
+        if (!line) return wrongType('LineString');
+        hole.centerline = line;
+        return null;
+      }
+      case 'green': {
+        const ring = geometry.type === 'Polygon' ? this.toRing(geometry.coordinates) : null;
+        if (!ring) return wrongType('Polygon with at least three corners');
+        hole.green = ring;
+        return null;
+      }
+      case 'hazard': {
+        const rings = geometry.type === 'Polygon'
+          ? [this.toRing(geometry.coordinates)]
+          : geometry.type === 'MultiPolygon' && Array.isArray(geometry.coordinates)
+            ? geometry.coordinates.map(polygon => this.toRing(polygon))
+            : null;
+        if (!rings || rings.some(ring => !ring)) return wrongType('Polygon or MultiPolygon with at least three corners');
+
+        const name = typeof props.name === 'string' ? props.name : undefined;
+        for (const ring of rings) {
+          hole.hazards.push({ type: String(props.hazard_type ?? '') as GeometryHazardType, name, polygon: ring! });
+        }
+        return null;
+      }
+    }
+  }
+
+  private static isFeatureCollection(input: unknown): input is { type: 'FeatureCollection'; features: GeoJsonFeature[] } {
+    return !!input
+      && typeof input === 'object'
+      && (input as { type?: unknown }).type === 'FeatureCollection'
+      && Array.isArray((input as { features?: unknown }).features);
+  }
+
+  // GeoJSON positions are [lng, lat(, elevation)]
+  private static toLatLng(position: unknown): LatLng | null {
+    if (!Array.isArray(position) || position.length < 2) return null;
+    const [lng, lat] = position;
+    return typeof lat === 'number' && typeof lng === 'number' ? [lat, lng] : null;
+  }
+
+  private static toLine(coordinates: unknown): LatLng[] | null {
+    if (!Array.isArray(coordinates)) return null;
+    const points = coordinates.map(p => this.toLatLng(p));
+    return points.every((p): p is LatLng => p !== null) ? points : null;
+  }
+
+  // Outer ring only, without the closing point GeoJSON repeats
+  private static toRing(coordinates: unknown): LatLng[] | null {
+    if (!Array.isArray(coordinates) || coordinates.length === 0) return null;
+    const ring = this.toLine(coordinates[0]);
+    if (!ring || ring.length === 0) return null;
+
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    const open = ring.length > 1 && first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring;
+    return open.length >= 3 ? open : null;
+  }
+}
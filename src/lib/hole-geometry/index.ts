@@ -0,0 +1,52 @@
+/**
+ * Hole geometry - typed tee, fairway, green and hazard mapping for each hole, imported from GeoJSON
+ */
+
+import { HoleMeasure } from './measure';
+import { HoleGeometryValidator } from './validator';
+import { GeoJsonImporter } from './geojson';
+import { HoleGeometryStore } from './store';
+import { GeometryCache } from './cache';
+
+export { HoleMeasure } from './measure';
+export { HoleGeometryValidator } from './validator';
+export { GeoJsonImporter } from './geojson';
+export { HoleGeometryStore, type GeometrySaveResult } from './store';
+export { GeometryCache } from './cache';
+export {
+  GEOMETRY_HAZARD_TYPES,
+  GEOMETRY_FEATURE_KINDS,
+  HAZARD_CORRIDOR_YARDS,
+  HAZARD_PAST_GREEN_YARDS
+} from './types';
+
+// Shared on-device cache
+export const geometryCache = new GeometryCache();
+
+// Export convenience functions
+export const importGeoJson = GeoJsonImporter.parse.bind(GeoJsonImporter);
+export const validateHoleGeometry = HoleGeometryValidator.validate.bind(HoleGeometryValidator);
+export const getHazardCarries = HoleMeasure.hazardCarries.bind(HoleMeasure);
+export const loadHoleGeometry = HoleGeometryStore.load.bind(HoleGeometryStore);
+export const loadCourseGeometry = HoleGeometryStore.loadCourse.bind(HoleGeometryStore);
+
+// Export types for external use
+export type {
+  LatLng,
+  HolePoint,
+  GeometryHazardType,
+  TeeBox,
+  GreenGeometry,
+  GeometryHazard,
+  HoleGeometry,
+  GeometryIssue,
+  GeometryIssueSeverity,
+  GeometryImportResult,
+  HazardSideOfLine,
+  HazardCarry,
+  GreenYardages,
+  GeoJsonFeature,
+  GeoJsonFeatureCollection,
+  GeometryFeatureKind,
+  CachedCourseGeometry
+} from './types';
@@ -0,0 +1,253 @@
+/**
+ * Hole measurement - green front/middle/back and hazard carries from a position on a mapped hole
+ */
+
+import type { GPSPosition } from '$lib/utils/gps';
+import type {
+  GreenGeometry,
+  HazardCarry,
+  HazardSideOfLine,
+  HoleGeometry,
+  HolePoint,
+  LatLng
+} from './types';
+import { HAZARD_CORRIDOR_YARDS, HAZARD_PAST_GREEN_YARDS } from './types';
+
+const YARDS_PER_DEGREE_LAT = 120_880; // 110,540 m
+const YARDS_PER_DEGREE_LNG = 121_740; // 111,320 m at the equator
+
+interface Frame {
+  origin: LatLng;
+  heading: number;     // radians clockwise from north
+  lngScale: number;    // yards per degree of longitude at the origin
+}
+
+export class HoleMeasure {
+
+  /**
+   * Every hazard within HAZARD_CORRIDOR_YARDS of the line from the position to the middle of the
+   * green, between the ball and just over the back, with the yardage to reach and to carry it
+   */
+  static hazardCarries(position: GPSPosition, hole: HoleGeometry): HazardCarry[] {
+    const origin: LatLng = [position.lat, position.lng];
+    const frame = this.frame(origin, hole.green.middle);
+    const back = this.toLocal(hole.green.back, frame).y;
+    const limit = Math.max(back, this.toLocal(hole.green.middle, frame).y) + HAZARD_PAST_GREEN_YARDS;
+
+    const carries: HazardCarry[] = [];
+    for (const hazard of hole.hazards) {
+      if (hazard.polygon.length < 3) continue;
+
+      const inCorridor = this.clipToCorridor(hazard.polygon.map(p => this.toLocal(p, frame)), HAZARD_CORRIDOR_YARDS);
+      if (inCorridor.length === 0) continue;
+
+      const ys = inCorridor.map(p => p.y);
+      const xs = inCorridor.map(p => p.x);
+      const near = Math.min(...ys);
+      const far = Math.max(...ys);
+      if (far <= 0 || near > limit) continue;
+
+      const left = Math.min(...xs);
+      const right = Math.max(...xs);
+      const side: HazardSideOfLine = left < 0 && right > 0 ? 'across' : right <= 0 ? 'left' : 'right';
+
+      carries.push({
+        type: hazard.type,
+        name: hazard.name,
+        side,
+        reach_yards: Math.round(Math.max(0, near)),
+        carry_yards: Math.round(far)
+      });
+    }
+
+    return carries.sort((a, b) => a.reach_yards - b.reach_yards);
+  }
+
+  /**
+   * Front, middle and back of a green polygon along the line of play from `approach`:
+   * the middle is the green's centroid, front and back where the line through it crosses the edge
+   */
+  static greenPoints(polygon: LatLng[], approach: LatLng): Pick<GreenGeometry, 'front' | 'middle' | 'back'> {
+    const middle = this.centroid(polygon);
+    const frame: Frame = { ...this.frame(middle, middle), heading: this.frame(approach, middle).heading };
+
+    const local = polygon.map(p => this.toLocal(p, frame));
+    const crossings: number[] = [];
+    for (let i = 0; i < local.length; i++) {
+      const a = local[i];
+      const b = local[(i + 1) % local.length];
+      if ((a.x <= 0 && b.x > 0) || (b.x <= 0 && a.x > 0)) {
+        crossings.push(a.y + ((0 - a.x) / (b.x - a.x)) * (b.y - a.y));
+      }
+    }
+
+    const behind = crossings.filter(y => y < 0);
+    const ahead = crossings.filter(y => y > 0);
+    const front = behind.length > 0 ? Math.max(...behind) : 0;
+    const back = ahead.length > 0 ? Math.min(...ahead) : 0;
+
+    return {
+      front: this.toLatLng({ x: 0, y: front }, frame),
+      middle,
+      back: this.toLatLng({ x: 0, y: back }, frame)
+    };
+  }
+
+  /**
+   * Where the line of play into the green comes from: the last fairway point short of the green, else the first tee
+   */
+  static approachPoint(hole: Pick<HoleGeometry, 'tees' | 'fairway_centerline'>): LatLng | null {
+    const line = hole.fairway_centerline;
+    if (line.length >= 2) return line[line.length - 2];
+    return hole.tees[0]?.position || null;
+  }
+
+  /**
+   * Flat yards for drawing a hole: origin at the first tee, the middle of the green straight up the y axis
+   */
+  static toHolePoint(hole: HoleGeometry, point: LatLng): HolePoint {
+    return this.toLocal(point, this.holeFrame(hole));
+  }
+
+  static fromHolePoint(hole: HoleGeometry, point: HolePoint): LatLng {
+    return this.toLatLng(point, this.holeFrame(hole));
+  }
+
+  static distanceYards(a: LatLng, b: LatLng): number {
+    const p = this.toLocal(b, this.frame(a, b));
+    return Math.hypot(p.x, p.y);
+  }
+
+  static areaSqYards(polygon: LatLng[]): number {
+    if (polygon.length < 3) return 0;
+    const frame = this.frame(polygon[0], polygon[0]);
+    return Math.abs(this.signedArea(polygon.map(p => this.toLocal(p, frame))));
+  }
+
+  /**
+   * Yards from a point to the edge of a polygon; zero when inside
+   */
+  static distanceToPolygon(polygon: LatLng[], point: LatLng): number {
+    if (polygon.length < 3) return Infinity;
+    const frame = this.frame(point, point);
+    const local = polygon.map(p => this.toLocal(p, frame));
+    if (this.contains(local, { x: 0, y: 0 })) return 0;
+
+    let best = Infinity;
+    for (let i = 0; i < local.length; i++) {
+      best = Math.min(best, this.distanceToSegment(local[i], local[(i + 1) % local.length]));
+    }
+    return best;
+  }
+
+  // Private helper methods
+
+  private static holeFrame(hole: HoleGeometry): Frame {
+    const origin = hole.tees[0]?.position || hole.fairway_centerline[0] || hole.green.front;
+    return this.frame(origin, hole.green.middle);
+  }
+
+  private static frame(origin: LatLng, toward: LatLng): Frame {
+    const lngScale = YARDS_PER_DEGREE_LNG * Math.cos(origin[0] * Math.PI / 180);
+    const east = (toward[1] - origin[1]) * lngScale;
+    const north = (toward[0] - origin[0]) * YARDS_PER_DEGREE_LAT;
+    return { origin, heading: Math.atan2(east, north), lngScale };
+  }
+
+  private static toLocal([lat, lng]: LatLng, frame: Frame): HolePoint {
+    const e = (lng - frame.origin[1]) * frame.lngScale;
+    const n = (lat - frame.origin[0]) * YARDS_PER_DEGREE_LAT;
+    return {
+      x: e * Math.cos(frame.heading) - n * Math.sin(frame.heading),
+      y: e * Math.sin(frame.heading) + n * Math.cos(frame.heading)
+    };
+  }
+
+  private static toLatLng(point: HolePoint, frame: Frame): LatLng {
+    const e = point.x * Math.cos(frame.heading) + point.y * Math.sin(frame.heading);
+    const n = -point.x * Math.sin(frame.heading) + point.y * Math.cos(frame.heading);
+    return [frame.origin[0] + n / YARDS_PER_DEGREE_LAT, frame.origin[1] + e / frame.lngScale];
+  }
+
+  // Area-weighted centroid; the vertex average when the polygon is degenerate
+  private static centroid(polygon: LatLng[]): LatLng {
+    const frame = this.frame(polygon[0], polygon[0]);
+    const local = polygon.map(p => this.toLocal(p, frame));
+    const area = this.signedArea(local);
+
+    if (Math.abs(area) < 1e-6) {
+      const x = local.reduce((sum, p) => sum + p.x, 0) / local.length;
+      const y = local.reduce((sum, p) => sum + p.y, 0) / local.length;
+      return this.toLatLng({ x, y }, frame);
+    }
+
+    let cx = 0;
+    let cy = 0;
+    for (let i = 0; i < local.length; i++) {
+      const a = local[i];
+      const b = local[(i + 1) % local.length];
+      const cross = a.x * b.y - b.x * a.y;
+      cx += (a.x + b.x) * cross;
+      cy += (a.y + b.y) * cross;
+    }
+    return this.toLatLng({ x: cx / (6 * area), y: cy / (6 * area) }, frame);
+  }
+
+  private static signedArea(points: HolePoint[]): number {
+    let area = 0;
+    for (let i = 0; i < points.length; i++) {
+      const a = points[i];
+      const b = points[(i + 1) % points.length];
+      area += a.x * b.y - b.x * a.y;
+    }
+    return area / 2;
+  }
+
+  private static contains(polygon: HolePoint[], point: HolePoint): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const a = polygon[i];
+      const b = polygon[j];
+      if ((a.y > point.y) !== (b.y > point.y) &&
+          point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
+  // Distance from the frame origin to a segment
+  private static distanceToSegment(a: HolePoint, b: HolePoint): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, (-a.x * dx - a.y * dy) / lengthSq));
+    return Math.hypot(a.x + t * dx, a.y + t * dy);
+  }
+
+  // The part of a polygon within `halfWidth` of the y axis (Sutherland-Hodgman against both edges)
+  private static clipToCorridor(polygon: HolePoint[], halfWidth: number): HolePoint[] {
+    const clip = (points: HolePoint[], inside: (p: HolePoint) => boolean, edgeX: number): HolePoint[] => {
+      const out: HolePoint[] = [];
+      for (let i = 0; i < points.length; i++) {
+        const current = points[i];
+        const previous = points[(i + points.length - 1) % points.length];
+        const cross = (): HolePoint => ({
+          x: edgeX,
+          y: previous.y + ((edgeX - previous.x) / (current.x - previous.x)) * (current.y - previous.y)
+        });
+
+        if (inside(current)) {
+          if (!inside(previous)) out.push(cross());
+          out.push(current);
+        } else if (inside(previous)) {
+          out.push(cross());
+        }
+      }
+      return out;
+    };
+
+    const leftClipped = clip(polygon, p => p.x >= -halfWidth, -halfWidth);
+    return leftClipped.length > 0 ? clip(leftClipped, p => p.x <= halfWidth, halfWidth) : [];
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Hole geometry store - reads and writes pure.holes.geometry, keeping the older
+ * gps_coordinates and hazards columns in step for the caddy and strategy planner
+ */
+
+import { supabase } from '$lib/supabase';
+import type { HoleGeometry } from './types';
+
+export interface GeometrySaveResult {
+  saved: number[];     // hole numbers written
+  missing: number[];   // mapped holes the course has no row for
+  failed: number[];
+}
+
+export class HoleGeometryStore {
+
+  static async load(courseId: string, holeNumber: number): Promise<HoleGeometry | null> {
+    const { data, error } = await supabase
+      .from('pure.holes')
+      .select('geometry')
+      .eq('course_id', courseId)
+      .eq('hole_number', holeNumber)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading hole geometry:', error);
+      return null;
+    }
+
+    return data?.geometry || null;
+  }
+
+  static async loadCourse(courseId: string): Promise<HoleGeometry[]> {
+    const { data, error } = await supabase
+      .from('pure.holes')
+      .select('geometry')
+      .eq('course_id', courseId)
+      .order('hole_number');
+
+    if (error) {
+      console.error('Error loading course geometry:', error);
+      return [];
+    }
+
+    return (data || []).map(row => row.geometry).filter((g): g is HoleGeometry => !!g);
+  }
+
+  /**
+   * Write validated geometry onto the course's existing hole rows
+   */
+  static async save(courseId: string, holes: HoleGeometry[]): Promise<GeometrySaveResult> {
+    const result: GeometrySaveResult = { saved: [], missing: [], failed: [] };
+
+    for (const hole of holes) {
+      const { data, error } = await supabase
+        .from('pure.holes')
+        .update({
+          geometry: hole,
+          gps_coordinates: {
+            tee: hole.tees[0]?.position,
+            green: hole.green.middle
+          },
+          hazards: hole.hazards.map(h => ({ type: h.type, name: h.name, polygon: h.polygon }))
+        })
+        .eq('course_id', courseId)
+        .eq('hole_number', hole.hole_number)
+        .select('id');
+
+      if (error) {
+        console.error(`Error saving geometry for hole ${hole.hole_number}:`, error);
+        result.failed.push(hole.hole_number);
+      } else if (!data || data.length === 0) {
+        result.missing.push(hole.hole_number);
+      } else {
+        result.saved.push(hole.hole_number);
+      }
+    }
+
+    return result;
+  }
+}
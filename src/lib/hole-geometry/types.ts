@@ -0,0 +1,123 @@
+/**
+ * Hole geometry types - tee boxes, fairway line, green and hazard polygons for a mapped hole
+ */
+
+// [lat, lng], the same order pure.holes.gps_coordinates has always used
+export type LatLng = [number, number];
+
+// Yards in a flat frame: x right (+) / left (-) of the line, y along it
+export interface HolePoint {
+  x: number;
+  y: number;
+}
+
+export type GeometryHazardType = 'water' | 'bunker' | 'ob' | 'trees' | 'waste';
+
+export interface TeeBox {
+  tee_set: string;     // matches the keys of pure.holes.yardages ("blue", "white")
+  position: LatLng;
+}
+
+export interface GreenGeometry {
+  polygon: LatLng[];
+  front: LatLng;       // along the line of play from the fairway
+  middle: LatLng;
+  back: LatLng;
+}
+
+export interface GeometryHazard {
+  type: GeometryHazardType;
+  name?: string;       // "Pond", "Left greenside bunker"
+  polygon: LatLng[];
+}
+
+// Stored in pure.holes.geometry
+export interface HoleGeometry {
+  hole_number: number;
+  tees: TeeBox[];
+  fairway_centerline: LatLng[];   // tee to green; empty on holes with no fairway to speak of
+  green: GreenGeometry;
+  hazards: GeometryHazard[];
+}
+
+export type GeometryIssueSeverity = 'error' | 'warning';
+
+export interface GeometryIssue {
+  hole_number: number | null;     // null when the file itself is the problem
+  severity: GeometryIssueSeverity;
+  message: string;
+}
+
+export interface GeometryImportResult {
+  holes: HoleGeometry[];
+  issues: GeometryIssue[];
+}
+
+export type HazardSideOfLine = 'left' | 'right' | 'across';
+
+// Distances from the ball to one hazard, measured along the line to the middle of the green
+export interface HazardCarry {
+  type: GeometryHazardType;
+  name?: string;
+  side: HazardSideOfLine;
+  reach_yards: number;   // to the near edge
+  carry_yards: number;   // to clear the far edge
+}
+
+export interface GreenYardages {
+  front: number;
+  middle: number;
+  back: number;
+}
+
+/**
+ * Minimal GeoJSON shapes accepted on import. Coordinates are [lng, lat] per RFC 7946.
+ */
+export interface GeoJsonFeature {
+  type: 'Feature';
+  geometry: {
+    type: string;
+    coordinates: unknown;
+  } | null;
+  properties?: Record<string, unknown> | null;
+}
+
+export interface GeoJsonFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJsonFeature[];
+}
+
+// What each feature describes, from its "feature" property
+export type GeometryFeatureKind =
+  | 'tee'
+  | 'centerline'
+  | 'green'
+  | 'green_front'
+  | 'green_middle'
+  | 'green_back'
+  | 'hazard';
+
+// Course geometry kept on the device so the hole map works without signal
+export interface CachedCourseGeometry {
+  course_id: string;
+  holes: HoleGeometry[];
+  cached_at: string;
+}
+
+// Constants
+export const GEOMETRY_HAZARD_TYPES: GeometryHazardType[] = ['water', 'bunker', 'ob', 'trees', 'waste'];
+export const GEOMETRY_FEATURE_KINDS: GeometryFeatureKind[] = [
+  'tee', 'centerline', 'green', 'green_front', 'green_middle', 'green_back', 'hazard'
+];
+
+export const HAZARD_CORRIDOR_YARDS = 25;      // either side of the line of play; wider misses rarely find it
+export const HAZARD_PAST_GREEN_YARDS = 20;    // hazards this far over the back are still in play
+export const MAX_HOLE_LENGTH_YARDS = 750;     // tee to green, longer than any par 6
+export const MIN_GREEN_AREA_SQ_YARDS = 150;
+export const MAX_GREEN_AREA_SQ_YARDS = 3000;
+export const GREEN_POINT_TOLERANCE_YARDS = 3; // front/back marks may sit just off the mapped edge
+export const CENTERLINE_END_TOLERANCE_YARDS = 40;
+
+export const GEOMETRY_DB_NAME = 'pure-geometry';
+export const GEOMETRY_DB_VERSION = 1;
+export const GEOMETRY_STORE_NAME = 'course_geometry';
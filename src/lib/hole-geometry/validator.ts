@@ -0,0 +1,141 @@
+/**
+ * Hole geometry validator - catches unusable or implausible mapping before it reaches players
+ */
+
+import type { GeometryIssue, GeometryIssueSeverity, HoleGeometry, LatLng } from './types';
+import {
+  GEOMETRY_HAZARD_TYPES,
+  MAX_HOLE_LENGTH_YARDS,
+  MIN_GREEN_AREA_SQ_YARDS,
+  MAX_GREEN_AREA_SQ_YARDS,
+  GREEN_POINT_TOLERANCE_YARDS,
+  CENTERLINE_END_TOLERANCE_YARDS
+} from './types';
+import { HoleMeasure } from './measure';
+
+export class HoleGeometryValidator {
+
+  /**
+   * Problems with one hole. Errors make the hole unusable; warnings are worth a second look.
+   */
+  static validate(hole: HoleGeometry): GeometryIssue[] {
+    const issues: GeometryIssue[] = [];
+    const add = (severity: GeometryIssueSeverity, message: string) =>
+      issues.push({ hole_number: hole.hole_number ?? null, severity, message });
+
+    if (!Number.isInteger(hole.hole_number) || hole.hole_number < 1 || hole.hole_number > 18) {
+      add('error', 'Hole number must be between 1 and 18');
+    }
+
+    const points: LatLng[] = [
+      ...hole.tees.map(t => t.position),
+      ...hole.fairway_centerline,
+      ...hole.green.polygon,
+      hole.green.front,
+      hole.green.middle,
+      hole.green.back,
+      ...hole.hazards.flatMap(h => h.polygon)
+    ];
+    if (points.some(p => !this.isCoordinate(p))) {
+      add('error', 'Coordinates are out of range; GeoJSON positions are [longitude, latitude]');
+      return issues;
+    }
+
+    // Tees
+    if (hole.tees.length === 0) {
+      add('error', 'At least one tee box is required');
+    }
+    const teeSets = hole.tees.map(t => t.tee_set);
+    if (teeSets.some(name => !name)) {
+      add('error', 'Every tee box needs a tee set name');
+    }
+    if (new Set(teeSets).size !== teeSets.length) {
+      add('warning', 'Tee sets appear more than once; only the first of each is used');
+    }
+
+    // Green
+    if (hole.green.polygon.length < 3) {
+      add('error', 'The green needs a polygon with at least three points');
+    } else {
+      const area = HoleMeasure.areaSqYards(hole.green.polygon);
+      if (area < MIN_GREEN_AREA_SQ_YARDS || area > MAX_GREEN_AREA_SQ_YARDS) {
+        add('warning', `Green covers ${Math.round(area)} sq yds; most are ${MIN_GREEN_AREA_SQ_YARDS} to ${MAX_GREEN_AREA_SQ_YARDS}`);
+      }
+
+      for (const mark of ['front', 'middle', 'back'] as const) {
+        if (HoleMeasure.distanceToPolygon(hole.green.polygon, hole.green[mark]) > GREEN_POINT_TOLERANCE_YARDS) {
+          add('warning', `Green ${mark} is off the green polygon`);
+        }
+      }
+
+      const approach = HoleMeasure.approachPoint(hole);
+      if (approach && HoleMeasure.distanceYards(approach, hole.green.front) > HoleMeasure.distanceYards(approach, hole.green.back)) {
+        add('warning', 'Green front is further from the fairway than the back; they may be swapped');
+      }
+    }
+
+    // Tee to green
+    for (const tee of hole.tees) {
+      const length = HoleMeasure.distanceYards(tee.position, hole.green.middle);
+      if (length > MAX_HOLE_LENGTH_YARDS) {
+        add('error', `The ${tee.tee_set} tee is ${Math.round(length)} yards from the green; check the coordinates are [lng, lat] in the GeoJSON`);
+      }
+    }
+
+    // Fairway centerline
+    const line = hole.fairway_centerline;
+    if (line.length === 1) {
+      add('error', 'The fairway centerline needs at least two points');
+    } else if (line.length >= 2) {
+      if (HoleMeasure.distanceYards(line[line.length - 1], hole.green.middle) > CENTERLINE_END_TOLERANCE_YARDS) {
+        add('warning', 'The fairway centerline does not end at the green');
+      }
+      if (hole.tees.length > 0 && hole.tees.every(t => HoleMeasure.distanceYards(line[0], t.position) > CENTERLINE_END_TOLERANCE_YARDS)) {
+        add('warning', 'The fairway centerline does not start at a tee');
+      }
+    }
+
+    // Hazards
+    hole.hazards.forEach((hazard, index) => {
+      const label = hazard.name || `Hazard ${index + 1}`;
+      if (!GEOMETRY_HAZARD_TYPES.includes(hazard.type)) {
+        add('error', `${label} has unknown type '${hazard.type}'; use one of: ${GEOMETRY_HAZARD_TYPES.join(', ')}`);
+      }
+      if (hazard.polygon.length < 3) {
+        add('error', `${label} needs a polygon with at least three points`);
+      }
+    });
+
+    return issues;
+  }
+
+  /**
+   * Problems across a course's holes, including holes mapped twice
+   */
+  static validateCourse(holes: HoleGeometry[]): GeometryIssue[] {
+    const issues = holes.flatMap(hole => this.validate(hole));
+
+    const seen = new Set<number>();
+    for (const hole of holes) {
+      if (seen.has(hole.hole_number)) {
+        issues.push({ hole_number: hole.hole_number, severity: 'error', message: 'Hole is mapped more than once' });
+      }
+      seen.add(hole.hole_number);
+    }
+
+    return issues;
+  }
+
+  static hasErrors(issues: GeometryIssue[]): boolean {
+    return issues.some(issue => issue.severity === 'error');
+  }
+
+  // Private helper methods
+
+  private static isCoordinate(point: unknown): point is LatLng {
+    return Array.isArray(point)
+      && point.length >= 2
+      && Number.isFinite(point[0]) && Math.abs(point[0]) <= 90
+      && Number.isFinite(point[1]) && Math.abs(point[1]) <= 180;
+  }
+}
@@ -21,6 +21,9 @@ import {
 
 import { getCaddyAdvice } from '$lib/caddy';
 import type { CaddyRequest } from '$lib/caddy/types';
+import { detectFlaws, scoreSwing } from '$lib/flaws';
+import type { SwingMetricsInput } from '$lib/flaws';
+import { supabase } from '$lib/supabase';
 
 export class ModeOrchestrator {
   
@@ -233,50 +236,85 @@ export class ModeOrchestrator {
   }
 
   private static async processTrainingMode(swingId: string, submission: SwingSubmission) {
-    // Full 3-angle analysis with pose detection
-    // In production, this would call the pose analysis service
+    // Full 3-angle analysis - flaws come from the pose service metrics
+    const [{ metrics, confidence }, handicap] = await Promise.all([
+      this.loadSwingMetrics(swingId),
+      this.loadHandicap(submission.user_id)
+    ]);
+    const flaws = metrics
+      ? detectFlaws(metrics, { category: submission.metadata.category, handicap })
+      : [];
     
     return {
-      flaws: [
-        {
-          code: 'over_the_top',
-          name: 'Over the Top',
-          severity: 3 as const,
-          description: 'Club coming over the plane in downswing',
-          frame_references: [45, 52, 58]
-        }
-      ],
-      swing_score: 72,
-      confidence: 0.85,
-      category_detected: submission.metadata.category,
-      pose_data: { mock: 'pose_data' }
+      flaws,
+      phases: metrics?.phases,
+      swing_score: metrics ? scoreSwing(flaws) : 0,
+      confidence,
+      category_detected: submission.metadata.category
     };
   }
 
   private static async processQuickMode(swingId: string, submission: SwingSubmission) {
     // Quick single-angle analysis
-    // Faster, less detailed processing
+    // Single view is less reliable, so only report the most significant flaws
+    const [{ metrics, confidence }, handicap] = await Promise.all([
+      this.loadSwingMetrics(swingId),
+      this.loadHandicap(submission.user_id)
+    ]);
+    const flaws = metrics
+      ? detectFlaws(metrics, { category: submission.metadata.category, handicap }).slice(0, 2)
+      : [];
     
     return {
-      flaws: [
-        {
-          code: 'tempo_fast',
-          name: 'Fast Tempo',
-          severity: 2 as const,
-          description: 'Swing tempo appears rushed',
-          frame_references: []
-        }
-      ],
-      swing_score: 68,
-      confidence: 0.65,
+      flaws,
+      phases: metrics?.phases,
+      swing_score: metrics ? scoreSwing(flaws) : 0,
+      confidence,
       category_detected: submission.metadata.category || 'iron'
     };
   }
 
+  private static async loadSwingMetrics(
+    swingId: string
+  ): Promise<{ metrics: SwingMetricsInput | null; confidence: number }> {
+    const [{ data: row }, { data: swing }] = await Promise.all([
+      supabase
+        .from('swing_metrics')
+        .select('tempo_ratio, plane_delta, hip_sway_cm, x_factor, confidence')
+        .eq('swing_id', swingId)
+        .maybeSingle(),
+      supabase
+        .from('pure_swings')
+        .select('swing_phases')
+        .eq('id', swingId)
+        .maybeSingle()
+    ]);
+    
+    if (!row) return { metrics: null, confidence: 0 };
+    
+    return {
+      metrics: { ...row, phases: swing?.swing_phases || [] },
+      confidence: row.confidence || 0
+    };
+  }
+
+  // Flaw thresholds widen with handicap; unknown handicaps get the mid band.
+  // users.handicap is the index the handicap service recalculates after each round.
+  private static async loadHandicap(userId: string): Promise<number | null> {
+    const { data: profile } = await supabase
+      .from('users')
+      .select('handicap')
+      .eq('id', userId)
+      .maybeSingle();
+
+    return typeof profile?.handicap === 'number' ? profile.handicap : null;
+  }
+
   private static async getCaddyAdviceForShot(submission: SwingSubmission) {
     if (!submission.metadata.location) return undefined;
     
     const caddyRequest: CaddyRequest = {
+      user_id: submission.user_id,
       shot_context: {
         distance_to_target: 150, // Would get from GPS/course data
         lie_type: (submission.metadata.location.lie_type as any) || 'fairway'
@@ -312,4 +350,4 @@ export const getModeInfo = ModeOrchestrator.getModeInfo;
 export const getRecommendedMode = ModeOrchestrator.getRecommendedMode;
 
 // Export types for external use
-export type { SwingMode, SwingSubmission, ProcessingResult } from './types'; 
\ No newline at end of file
+export type { SwingMode, SwingSubmission, ProcessingResult, SwingPhase } from './types'; 
\ No newline at end of file
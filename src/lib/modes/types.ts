@@ -69,6 +69,7 @@ export interface ProcessingResult {
 
 export interface SwingAnalysis {
   pose_data?: any; // MediaPipe results
+  phases?: SwingPhase[];
   flaws: FlawDetection[];
   swing_score: number;
   confidence: number;
@@ -83,6 +84,14 @@ export interface FlawDetection {
   frame_references?: number[];
 }
 
+export type SwingPhaseName = 'address' | 'takeaway' | 'top' | 'transition' | 'impact' | 'finish';
+
+export interface SwingPhase {
+  name: SwingPhaseName;
+  frame: number;
+  time_ms: number;
+}
+
 export interface DrillRecommendation {
   drill_id: string;
   title: string;
@@ -180,6 +189,15 @@ export const MODE_DISPLAY: Record<SwingMode, ModeDisplayConfig> = {
   }
 };
 
+export const SWING_PHASE_LABELS: Record<SwingPhaseName, string> = {
+  address: 'Address',
+  takeaway: 'Takeaway',
+  top: 'Top',
+  transition: 'Transition',
+  impact: 'Impact',
+  finish: 'Finish'
+};
+
 // Validation rules
 export interface ModeValidationRules {
   min_video_duration: number;
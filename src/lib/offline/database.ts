@@ -0,0 +1,71 @@
+/**
+ * IndexedDB access for the sync queue
+ */
+
+import type { SyncItem } from './types';
+import { SYNC_DB_NAME, SYNC_DB_VERSION, SYNC_STORE_NAME } from './types';
+
+export class SyncDatabase {
+  private db: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Check if IndexedDB is available (not during SSR or in some private modes)
+   */
+  isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * All queued items in replay order
+   */
+  async getAll(): Promise<SyncItem[]> {
+    const items = await this.request<SyncItem[]>('readonly', store => store.getAll());
+    return items.sort((a, b) => a.sequence - b.sequence);
+  }
+
+  async put(item: SyncItem): Promise<void> {
+    await this.request('readwrite', store => store.put(item));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(id));
+  }
+
+  // Private helper methods
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(SYNC_DB_NAME, SYNC_DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(SYNC_STORE_NAME)) {
+            request.result.createObjectStore(SYNC_STORE_NAME, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.db = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.db;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(SYNC_STORE_NAME, mode);
+      const request = operation(transaction.objectStore(SYNC_STORE_NAME));
+
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Offline module - IndexedDB-backed sync queue for round tracking
+ *
+ * @example
+ * ```typescript
+ * import { syncQueue } from '$lib/offline';
+ *
+ * syncQueue.start();
+ * await syncQueue.enqueue({ kind: 'shot', round_id, payload: shot });
+ * ```
+ */
+
+import { SyncQueue } from './queue';
+
+export { SyncQueue } from './queue';
+export { SyncDatabase } from './database';
+export { SYNC_ITEM_LABELS } from './types';
+
+// Shared queue instance
+export const syncQueue = SyncQueue.getInstance();
+
+// Export types for external use
+export type {
+  SyncItemKind,
+  SyncItemStatus,
+  SyncItem,
+  NewSyncItem,
+  SyncStatus,
+  SyncOutcome
+} from './types';
@@ -0,0 +1,257 @@
+/**
+ * Sync queue - stores round writes offline and replays them in order
+ */
+
+import { supabase } from '$lib/supabase';
+import { SyncDatabase } from './database';
+import type { NewSyncItem, SyncItem, SyncOutcome, SyncStatus } from './types';
+import { RETRYABLE_STATUS_CODES, SYNC_INTERVAL_MS, SYNC_ITEM_LABELS } from './types';
+
+type StatusListener = (status: SyncStatus) => void;
+
+export class SyncQueue {
+  private static instance: SyncQueue;
+  private database = new SyncDatabase();
+  private listeners = new Set<StatusListener>();
+  private flushing: Promise<void> | null = null;
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private lastSequence = 0;
+  private status: SyncStatus = {
+    online: true,
+    syncing: false,
+    pending: 0,
+    conflicts: [],
+    failed: [],
+    last_synced_at: null
+  };
+
+  private constructor() {}
+
+  static getInstance(): SyncQueue {
+    if (!SyncQueue.instance) {
+      SyncQueue.instance = new SyncQueue();
+    }
+    return SyncQueue.instance;
+  }
+
+  /**
+   * Watch connectivity and replay periodically. Safe to call more than once.
+   */
+  start(): void {
+    if (this.interval || typeof window === 'undefined') return;
+
+    this.setStatus({ online: navigator.onLine });
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+    this.interval = setInterval(() => this.flush(), SYNC_INTERVAL_MS);
+
+    this.flush();
+  }
+
+  stop(): void {
+    if (!this.interval) return;
+
+    clearInterval(this.interval);
+    this.interval = null;
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+  }
+
+  /**
+   * Listen for status changes; called immediately with the current status
+   */
+  subscribe(listener: StatusListener): () => void {
+    this.listeners.add(listener);
+    listener(this.status);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Queue a write and try to send it straight away.
+   * Throws when there's no offline storage and the one send didn't go through.
+   */
+  async enqueue(item: NewSyncItem): Promise<SyncItem> {
+    const queued: SyncItem = {
+      ...item,
+      id: item.id || crypto.randomUUID(),
+      sequence: this.nextSequence(),
+      created_at: new Date().toISOString(),
+      attempts: 0,
+      status: 'pending'
+    };
+
+    if (!this.database.isSupported()) {
+      // No offline storage; send once without queueing, and say so if it doesn't land
+      const outcome = await this.send(queued);
+      if (outcome !== 'synced') {
+        throw new Error(`${SYNC_ITEM_LABELS[queued.kind]} not saved: ${queued.last_error || 'no connection'}`);
+      }
+      return queued;
+    }
+
+    // Only the latest hole change for a round matters
+    if (queued.kind === 'hole_change') {
+      const items = await this.database.getAll();
+      await Promise.all(items
+        .filter(i => i.kind === 'hole_change' && i.round_id === queued.round_id && i.status === 'pending')
+        .map(i => this.database.delete(i.id)));
+    }
+
+    await this.database.put(queued);
+    await this.refreshStatus();
+    this.flush();
+
+    return queued;
+  }
+
+  /**
+   * Replay pending items in order, stopping at the first one that should be retried later
+   */
+  flush(): Promise<void> {
+    if (!this.database.isSupported()) return Promise.resolve();
+    if (!this.flushing) {
+      this.flushing = this.replay().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * Send a conflicting or failed item again
+   */
+  async retry(id: string): Promise<void> {
+    const item = (await this.database.getAll()).find(i => i.id === id);
+    if (!item) return;
+
+    await this.database.put({ ...item, status: 'pending', last_error: undefined });
+    await this.refreshStatus();
+    this.flush();
+  }
+
+  /**
+   * Drop an item, keeping whatever the server has
+   */
+  async discard(id: string): Promise<void> {
+    await this.database.delete(id);
+    await this.refreshStatus();
+  }
+
+  // Private helper methods
+
+  private handleOnline = () => {
+    this.setStatus({ online: true });
+    this.flush();
+  };
+
+  private handleOffline = () => {
+    this.setStatus({ online: false });
+  };
+
+  private async replay(): Promise<void> {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+
+    this.setStatus({ syncing: true });
+
+    try {
+      const pending = (await this.database.getAll()).filter(i => i.status === 'pending');
+
+      for (const item of pending) {
+        const outcome = await this.send(item);
+
+        if (outcome === 'synced') {
+          await this.database.delete(item.id);
+        } else if (outcome === 'retry') {
+          await this.database.put({ ...item, attempts: item.attempts + 1 });
+          break; // Keep order: later items may depend on this one
+        } else {
+          await this.database.put({ ...item, attempts: item.attempts + 1, status: outcome });
+        }
+      }
+
+      this.setStatus({ last_synced_at: new Date().toISOString() });
+    } catch (error) {
+      console.error('Error replaying sync queue:', error);
+    } finally {
+      this.setStatus({ syncing: false });
+      await this.refreshStatus();
+    }
+  }
+
+  private async send(item: SyncItem): Promise<SyncOutcome> {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return 'retry';
+
+      const response = await fetch(this.endpoint(item), {
+        method: item.kind === 'shot' || item.kind === 'lie_photo' ? 'POST' : 'PUT',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          ...(item.kind !== 'lie_photo' && { 'Content-Type': 'application/json' })
+        },
+        body: this.body(item)
+      });
+
+      if (response.ok) return 'synced';
+
+      const errorData = await response.json().catch(() => ({}));
+      item.last_error = errorData.error?.message || errorData.error || `HTTP ${response.status}`;
+
+      if (response.status === 409) return 'conflict';
+      if (response.status >= 500 || RETRYABLE_STATUS_CODES.includes(response.status)) return 'retry';
+      return 'failed';
+
+    } catch (error) {
+      // Network unreachable; try again when connectivity returns
+      item.last_error = error instanceof Error ? error.message : 'Network error';
+      return 'retry';
+    }
+  }
+
+  private endpoint(item: SyncItem): string {
+    switch (item.kind) {
+      case 'shot':
+        return '/api/shots/record';
+      case 'lie_photo':
+        return '/api/photos/upload';
+      case 'hole_score':
+        return `/api/rounds/${item.round_id}/scorecard`;
+      case 'hole_change':
+      case 'round_update':
+        return `/api/rounds/${item.round_id}`;
+    }
+  }
+
+  private body(item: SyncItem): BodyInit {
+    if (item.kind !== 'lie_photo') return JSON.stringify(item.payload);
+
+    // The item id lets the server recognise a replay of an upload that already landed
+    const formData = new FormData();
+    formData.append('clientId', item.id);
+    if (item.photo) formData.append('file', item.photo, item.payload.filename);
+    formData.append('roundId', item.round_id);
+    formData.append('holeNumber', String(item.payload.hole_number));
+    formData.append('shotNumber', String(item.payload.shot_number));
+    formData.append('filename', item.payload.filename);
+    return formData;
+  }
+
+  private nextSequence(): number {
+    this.lastSequence = Math.max(Date.now(), this.lastSequence + 1);
+    return this.lastSequence;
+  }
+
+  private async refreshStatus(): Promise<void> {
+    const items = await this.database.getAll();
+    this.setStatus({
+      pending: items.filter(i => i.status === 'pending').length,
+      conflicts: items.filter(i => i.status === 'conflict'),
+      failed: items.filter(i => i.status === 'failed')
+    });
+  }
+
+  private setStatus(updates: Partial<SyncStatus>): void {
+    this.status = { ...this.status, ...updates };
+    this.listeners.forEach(listener => listener(this.status));
+  }
+}
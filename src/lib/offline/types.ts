@@ -0,0 +1,58 @@
+/**
+ * Offline sync types - queued round writes replayed when connectivity returns
+ */
+
+export type SyncItemKind = 'shot' | 'lie_photo' | 'hole_change' | 'hole_score' | 'round_update';
+
+// pending: waiting to replay; conflict: server holds different data; failed: rejected as invalid
+export type SyncItemStatus = 'pending' | 'conflict' | 'failed';
+
+export interface SyncItem {
+  id: string; // Client-generated; doubles as the idempotency key
+  kind: SyncItemKind;
+  round_id: string;
+  payload: Record<string, any>;
+  photo?: Blob; // Lie photos only
+  sequence: number; // Replay order
+  created_at: string;
+  attempts: number;
+  status: SyncItemStatus;
+  last_error?: string;
+}
+
+export interface NewSyncItem {
+  id?: string;
+  kind: SyncItemKind;
+  round_id: string;
+  payload: Record<string, any>;
+  photo?: Blob;
+}
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  conflicts: SyncItem[];
+  failed: SyncItem[];
+  last_synced_at: string | null;
+}
+
+export type SyncOutcome = 'synced' | 'conflict' | 'failed' | 'retry';
+
+export const SYNC_DB_NAME = 'pure-offline';
+export const SYNC_DB_VERSION = 1;
+export const SYNC_STORE_NAME = 'sync_queue';
+
+// Replay pending items this often while the app is open
+export const SYNC_INTERVAL_MS = 30000;
+
+// Statuses worth retrying later rather than giving up on
+export const RETRYABLE_STATUS_CODES = [401, 408, 429];
+
+export const SYNC_ITEM_LABELS: Record<SyncItemKind, string> = {
+  shot: 'Shot',
+  lie_photo: 'Lie photo',
+  hole_change: 'Hole change',
+  hole_score: 'Hole score',
+  round_update: 'Round update'
+};
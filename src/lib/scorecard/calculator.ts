@@ -0,0 +1,193 @@
+/**
+ * Scorecard calculator - derives hole scores from shots and totals a round
+ */
+
+import type {
+  FairwayResult,
+  HoleScore,
+  NineTotals,
+  SaveStat,
+  ScorecardHole,
+  ScorecardShot,
+  ScorecardSummary
+} from './types';
+
+import { PENALTY_SHOT_RESULTS, SAVE_MAX_PUTTS } from './types';
+
+export class ScorecardCalculator {
+
+  /**
+   * Build a hole score from the shots recorded on it
+   */
+  static deriveHoleScore(holeNumber: number, par: number, shots: ScorecardShot[]): HoleScore {
+    const ordered = shots
+      .filter(s => s.hole_number === holeNumber)
+      .sort((a, b) => a.shot_number - b.shot_number);
+
+    if (ordered.length === 0) {
+      return {
+        hole_number: holeNumber,
+        par,
+        strokes: 0,
+        putts: 0,
+        fairway: null,
+        gir: false,
+        penalty_strokes: 0,
+        up_and_down: null,
+        sand_save: null
+      };
+    }
+
+    // Penalty strokes show up as a gap in shot numbers; assume one if none was recorded
+    let penalties = 0;
+    let unnumberedPenalties = 0;
+    ordered.forEach((shot, i) => {
+      const next = ordered[i + 1];
+      const gap = next ? Math.max(0, next.shot_number - shot.shot_number - 1) : 0;
+      if (gap > 0) {
+        penalties += gap;
+      } else if (PENALTY_SHOT_RESULTS.includes(shot.shot_result || '')) {
+        penalties += 1;
+        unnumberedPenalties += 1;
+      }
+    });
+
+    const strokes = ordered[ordered.length - 1].shot_number + unnumberedPenalties;
+    const onGreen = ordered.map((shot, i) => this.startsOnGreen(shot, ordered[i - 1]));
+    const putts = onGreen.filter(Boolean).length;
+    const gir = strokes - putts <= par - 2;
+
+    const lastOffGreen = onGreen.lastIndexOf(false);
+    const fromSand =
+      lastOffGreen >= 0 && this.startsInSand(ordered[lastOffGreen], ordered[lastOffGreen - 1]);
+    const saved = putts <= SAVE_MAX_PUTTS;
+
+    return {
+      hole_number: holeNumber,
+      par,
+      strokes,
+      putts,
+      fairway: par >= 4 ? this.fairwayResult(ordered[0]) : null,
+      gir,
+      penalty_strokes: penalties,
+      up_and_down: !gir && lastOffGreen >= 0 ? saved : null,
+      sand_save: !gir && fromSand ? saved : null
+    };
+  }
+
+  /**
+   * The same hole score against a corrected par; strokes and putts stay as entered
+   */
+  static withPar(score: HoleScore, par: number): HoleScore {
+    if (score.par === par) return score;
+
+    // Unscored holes have nothing to re-judge
+    if (score.strokes === 0) {
+      return { ...score, par, fairway: par >= 4 ? score.fairway : null };
+    }
+
+    const gir = score.strokes - score.putts <= par - 2;
+
+    return {
+      ...score,
+      par,
+      fairway: par >= 4 ? score.fairway : null,
+      gir,
+      // Saves only count on missed greens; a newly missed one has no save recorded yet
+      up_and_down: gir ? null : score.up_and_down,
+      sand_save: gir ? null : score.sand_save
+    };
+  }
+
+  /**
+   * Round totals for the holes played, with yardages from the tee set
+   */
+  static summarize(
+    scores: HoleScore[],
+    holes: ScorecardHole[] = [],
+    teeSet: string | null = null
+  ): ScorecardSummary {
+    const played = scores.filter(s => s.strokes > 0);
+    const fairwayHoles = played.filter(s => s.fairway !== null);
+
+    return {
+      tee_set: teeSet,
+      holes_played: played.length,
+      strokes: this.sum(played, s => s.strokes),
+      par: this.sum(played, s => s.par),
+      to_par: this.sum(played, s => s.strokes - s.par),
+      course_par: this.sum(holes, h => h.par),
+      yardage: this.yardage(holes, teeSet),
+      front_nine: this.nineTotals(played, holes, teeSet, 1, 9),
+      back_nine: this.nineTotals(played, holes, teeSet, 10, 18),
+      putts: this.sum(played, s => s.putts),
+      fairways_hit: fairwayHoles.filter(s => s.fairway === 'hit').length,
+      fairways_possible: fairwayHoles.length,
+      greens_in_regulation: played.filter(s => s.gir).length,
+      penalty_strokes: this.sum(played, s => s.penalty_strokes),
+      up_and_downs: this.saveStat(played.map(s => s.up_and_down)),
+      sand_saves: this.saveStat(played.map(s => s.sand_save))
+    };
+  }
+
+  /**
+   * Score relative to par as it's written on a card: E, +3, -1
+   */
+  static formatToPar(toPar: number): string {
+    if (toPar === 0) return 'E';
+    return toPar > 0 ? `+${toPar}` : `${toPar}`;
+  }
+
+  // Private helper methods
+
+  private static startsOnGreen(shot: ScorecardShot, previous?: ScorecardShot): boolean {
+    if (shot.lie_type) return shot.lie_type === 'green';
+    return previous?.shot_result === 'green';
+  }
+
+  private static startsInSand(shot: ScorecardShot, previous?: ScorecardShot): boolean {
+    if (shot.lie_type) return shot.lie_type === 'sand' || shot.lie_type === 'bunker';
+    return previous?.shot_result === 'sand';
+  }
+
+  private static fairwayResult(teeShot: ScorecardShot): FairwayResult | null {
+    if (!teeShot.shot_result) return null;
+    if (teeShot.shot_result === 'fairway' || teeShot.shot_result === 'green') return 'hit';
+    return teeShot.miss_direction || 'miss';
+  }
+
+  private static nineTotals(
+    scores: HoleScore[],
+    holes: ScorecardHole[],
+    teeSet: string | null,
+    first: number,
+    last: number
+  ): NineTotals {
+    const inNine = <T extends { hole_number: number }>(items: T[]) =>
+      items.filter(item => item.hole_number >= first && item.hole_number <= last);
+    const nine = inNine(scores);
+
+    return {
+      holes_played: nine.length,
+      strokes: this.sum(nine, s => s.strokes),
+      par: this.sum(nine, s => s.par),
+      to_par: this.sum(nine, s => s.strokes - s.par),
+      putts: this.sum(nine, s => s.putts),
+      yardage: this.yardage(inNine(holes), teeSet)
+    };
+  }
+
+  private static yardage(holes: ScorecardHole[], teeSet: string | null): number {
+    if (!teeSet) return 0;
+    return this.sum(holes, h => h.yardages?.[teeSet] || 0);
+  }
+
+  private static saveStat(values: (boolean | null)[]): SaveStat {
+    const attempts = values.filter(v => v !== null);
+    return { made: attempts.filter(v => v).length, attempts: attempts.length };
+  }
+
+  private static sum<T>(items: T[], pick: (item: T) => number): number {
+    return items.reduce((total, item) => total + pick(item), 0);
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Scorecard - per-hole scores, round totals and stats
+ */
+
+import { ScorecardCalculator } from './calculator';
+
+export { ScorecardCalculator } from './calculator';
+export { FAIRWAY_RESULTS, MISS_DIRECTIONS } from './types';
+
+// Export convenience functions
+export const deriveHoleScore = ScorecardCalculator.deriveHoleScore.bind(ScorecardCalculator);
+export const withCorrectedPar = ScorecardCalculator.withPar.bind(ScorecardCalculator);
+export const summarizeScorecard = ScorecardCalculator.summarize.bind(ScorecardCalculator);
+export const formatToPar = ScorecardCalculator.formatToPar.bind(ScorecardCalculator);
+
+// Export types for external use
+export type {
+  FairwayResult,
+  MissDirection,
+  HoleScore,
+  ScorecardShot,
+  ScorecardHole,
+  NineTotals,
+  SaveStat,
+  ScorecardSummary
+} from './types';
@@ -0,0 +1,78 @@
+/**
+ * Scorecard types - per-hole scores and round totals
+ */
+
+// 'miss' is a missed fairway whose direction wasn't recorded
+export type FairwayResult = 'hit' | 'left' | 'right' | 'short' | 'long' | 'miss';
+
+export type MissDirection = 'left' | 'right' | 'short' | 'long';
+
+export interface HoleScore {
+  hole_number: number;
+  par: number;
+  strokes: number;
+  putts: number;
+  fairway: FairwayResult | null; // null on par 3s
+  gir: boolean;
+  penalty_strokes: number;
+  up_and_down: boolean | null; // null when not attempted
+  sand_save: boolean | null; // null when no greenside bunker shot
+}
+
+export interface ScorecardShot {
+  hole_number: number;
+  shot_number: number;
+  lie_type?: string | null;
+  shot_result?: string | null;
+  miss_direction?: MissDirection | null;
+}
+
+export interface ScorecardHole {
+  hole_number: number;
+  par: number;
+  handicap?: number;
+  yardages?: Record<string, number>;
+}
+
+export interface NineTotals {
+  holes_played: number;
+  strokes: number;
+  par: number;
+  to_par: number;
+  putts: number;
+  yardage: number;
+}
+
+export interface SaveStat {
+  made: number;
+  attempts: number;
+}
+
+export interface ScorecardSummary {
+  tee_set: string | null;
+  holes_played: number;
+  strokes: number;
+  par: number; // Par of the holes played
+  to_par: number;
+  course_par: number;
+  yardage: number; // Total yardage for the tee set
+  front_nine: NineTotals;
+  back_nine: NineTotals;
+  putts: number;
+  fairways_hit: number;
+  fairways_possible: number;
+  greens_in_regulation: number;
+  penalty_strokes: number;
+  up_and_downs: SaveStat;
+  sand_saves: SaveStat;
+}
+
+export const FAIRWAY_RESULTS: FairwayResult[] = ['hit', 'left', 'right', 'short', 'long', 'miss'];
+
+export const MISS_DIRECTIONS: MissDirection[] = ['left', 'right', 'short', 'long'];
+
+// Shot results that cost a penalty stroke
+export const PENALTY_SHOT_RESULTS = ['water', 'oob'];
+
+// Putts (including the chip) allowed for an up-and-down or sand save
+export const SAVE_MAX_PUTTS = 1;
@@ -0,0 +1,72 @@
+/**
+ * IndexedDB store of each round's GPS track, so drafts can still be proposed after a reload
+ */
+
+import type { StoredTrack, TrackPoint } from './types';
+import { TRACK_DB_NAME, TRACK_DB_VERSION, TRACK_STORE_NAME } from './types';
+
+export class TrackDatabase {
+  private db: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Check if IndexedDB is available (not during SSR or in some private modes)
+   */
+  isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async get(roundId: string): Promise<StoredTrack | null> {
+    if (!this.isSupported()) return null;
+    const entry = await this.request<StoredTrack | undefined>('readonly', store => store.get(roundId));
+    return entry || null;
+  }
+
+  async put(roundId: string, points: TrackPoint[]): Promise<void> {
+    if (!this.isSupported()) return;
+    const entry: StoredTrack = { round_id: roundId, points, saved_at: new Date().toISOString() };
+    await this.request('readwrite', store => store.put(entry));
+  }
+
+  async delete(roundId: string): Promise<void> {
+    if (!this.isSupported()) return;
+    await this.request('readwrite', store => store.delete(roundId));
+  }
+
+  // Private helper methods
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(TRACK_DB_NAME, TRACK_DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(TRACK_STORE_NAME)) {
+            request.result.createObjectStore(TRACK_STORE_NAME, { keyPath: 'round_id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.db = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.db;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(TRACK_STORE_NAME, mode);
+      const request = operation(transaction.objectStore(TRACK_STORE_NAME));
+
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
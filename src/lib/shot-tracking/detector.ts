@@ -0,0 +1,166 @@
+/**
+ * Shot detector - turns a hole's GPS breadcrumbs into draft shots from dwell-then-move patterns
+ */
+
+import type { GPSPosition } from '$lib/utils/gps';
+import type { DraftShot, TrackingInput, TrackPoint, TrackStop } from './types';
+import {
+  MAX_FIX_ACCURACY_METERS,
+  STOP_RADIUS_YARDS,
+  MIN_DWELL_MS,
+  LONG_DWELL_MS,
+  MIN_SHOT_YARDS,
+  GREEN_EDGE_YARDS,
+  LONG_DWELL_CONFIDENCE_PENALTY,
+  POOR_ACCURACY_CONFIDENCE_PENALTY,
+  POOR_ACCURACY_METERS
+} from './types';
+import { HoleMeasure } from '$lib/hole-geometry/measure';
+
+// Confidence for a clean stop-and-walk
+const BASE_CONFIDENCE = 0.9;
+
+// Unmapped greens: how close to the middle counts as on it
+const GREEN_RADIUS_YARDS = 15;
+
+export class ShotDetector {
+
+  /**
+   * Places the player stood within STOP_RADIUS_YARDS for at least MIN_DWELL_MS, in order.
+   * Stops too close together to be separate shots are merged.
+   */
+  static findStops(points: TrackPoint[]): TrackStop[] {
+    const fixes = points
+      .filter(p => p.accuracy === undefined || p.accuracy <= MAX_FIX_ACCURACY_METERS)
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    const stops: TrackStop[] = [];
+    let cluster: TrackPoint[] = [];
+
+    const close = (leftAt: number | null) => {
+      if (cluster.length === 0) return;
+      const dwell = cluster[cluster.length - 1].timestamp - cluster[0].timestamp;
+      if (dwell >= MIN_DWELL_MS) {
+        stops.push(this.toStop(cluster, leftAt));
+      }
+    };
+
+    for (const fix of fixes) {
+      if (cluster.length > 0 && this.yards(this.centroid(cluster), fix) > STOP_RADIUS_YARDS) {
+        close(fix.timestamp);
+        cluster = [];
+      }
+      cluster.push(fix);
+    }
+    close(null);
+
+    return this.mergeNearby(stops);
+  }
+
+  /**
+   * One draft per stop the player walked away from, up to the first stop on the green;
+   * each shot's distance runs to the next place they stopped
+   */
+  static draftShots(points: TrackPoint[], input: TrackingInput): DraftShot[] {
+    const stops = this.findStops(points);
+    const greenIndex = stops.findIndex(stop => this.onGreen(stop, input));
+    const played = greenIndex === -1 ? stops : stops.slice(0, greenIndex);
+    const firstNumber = input.first_shot_number ?? 1;
+
+    const drafts: DraftShot[] = [];
+    played.forEach((stop, i) => {
+      // Still standing over it: the ball is here, but it hasn't been hit yet
+      if (stop.left_at === null) return;
+      if ((input.recorded_locations || []).some(([lat, lng]) => this.yards(stop, { lat, lng }) < MIN_SHOT_YARDS)) return;
+
+      const next = stops[i + 1] || null;
+      const distance = next ? Math.round(this.yards(stop, next)) : null;
+      if (distance !== null && distance < MIN_SHOT_YARDS) return;
+
+      const reasons: string[] = [];
+      let confidence = BASE_CONFIDENCE;
+      if (stop.dwell_ms > LONG_DWELL_MS) {
+        confidence -= LONG_DWELL_CONFIDENCE_PENALTY;
+        reasons.push(`stood here ${Math.round(stop.dwell_ms / 60000)} minutes; may have been waiting rather than hitting`);
+      }
+      if (stop.accuracy !== null && stop.accuracy > POOR_ACCURACY_METERS) {
+        confidence -= POOR_ACCURACY_CONFIDENCE_PENALTY;
+        reasons.push('weak GPS signal here');
+      }
+
+      drafts.push({
+        id: crypto.randomUUID(),
+        hole_number: input.hole_number,
+        shot_number: firstNumber + drafts.length,
+        gps_location: [stop.lat, stop.lng],
+        landed_at: next ? [next.lat, next.lng] : null,
+        landed_on_green: next ? this.onGreen(next, input) : false,
+        distance_achieved: distance,
+        distance_to_target: input.green
+          ? Math.round(this.yards(stop, { lat: input.green.middle[0], lng: input.green.middle[1] }))
+          : null,
+        hit_at: new Date(stop.left_at).toISOString(),
+        confidence: Math.round(Math.max(0.1, confidence) * 100) / 100,
+        reasons
+      });
+    });
+
+    return drafts;
+  }
+
+  // Private helper methods
+
+  private static toStop(cluster: TrackPoint[], leftAt: number | null): TrackStop {
+    const center = this.centroid(cluster);
+    const accuracies = cluster.map(p => p.accuracy).filter((a): a is number => a !== undefined);
+    const arrivedAt = cluster[0].timestamp;
+
+    return {
+      lat: center.lat,
+      lng: center.lng,
+      arrived_at: arrivedAt,
+      left_at: leftAt,
+      dwell_ms: (leftAt ?? cluster[cluster.length - 1].timestamp) - arrivedAt,
+      accuracy: accuracies.length > 0 ? accuracies.reduce((sum, a) => sum + a, 0) / accuracies.length : null,
+      samples: cluster.length
+    };
+  }
+
+  // A step to the side (to the bag, to line up) isn't a new shot
+  private static mergeNearby(stops: TrackStop[]): TrackStop[] {
+    const merged: TrackStop[] = [];
+    for (const stop of stops) {
+      const previous = merged[merged.length - 1];
+      if (previous && this.yards(previous, stop) < MIN_SHOT_YARDS) {
+        merged[merged.length - 1] = {
+          ...previous,
+          left_at: stop.left_at,
+          dwell_ms: previous.dwell_ms + stop.dwell_ms,
+          samples: previous.samples + stop.samples
+        };
+      } else {
+        merged.push(stop);
+      }
+    }
+    return merged;
+  }
+
+  private static onGreen(stop: TrackStop, input: TrackingInput): boolean {
+    if (!input.green) return false;
+    if (input.green.polygon && input.green.polygon.length >= 3) {
+      return HoleMeasure.distanceToPolygon(input.green.polygon, [stop.lat, stop.lng]) <= GREEN_EDGE_YARDS;
+    }
+    return this.yards(stop, { lat: input.green.middle[0], lng: input.green.middle[1] }) <= GREEN_RADIUS_YARDS;
+  }
+
+  private static centroid(points: { lat: number; lng: number }[]): GPSPosition {
+    return {
+      lat: points.reduce((sum, p) => sum + p.lat, 0) / points.length,
+      lng: points.reduce((sum, p) => sum + p.lng, 0) / points.length
+    };
+  }
+
+  private static yards(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+    return HoleMeasure.distanceYards([a.lat, a.lng], [b.lat, b.lng]);
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Shot tracking - GPS breadcrumbs through a round turned into draft shots for the player to confirm
+ *
+ * @example
+ * ```typescript
+ * import { shotTracker, draftShots } from '$lib/shot-tracking';
+ *
+ * shotTracker.start(round.id, 1);
+ * const drafts = draftShots(shotTracker.pointsForHole(1), { hole_number: 1 });
+ * ```
+ */
+
+import { ShotTracker } from './recorder';
+import { ShotDetector } from './detector';
+
+export { ShotTracker } from './recorder';
+export { ShotDetector } from './detector';
+export { TrackDatabase } from './database';
+export {
+  TRACK_SAMPLE_INTERVAL_MS,
+  MIN_DWELL_MS,
+  STOP_RADIUS_YARDS,
+  MIN_SHOT_YARDS
+} from './types';
+
+// Shared tracker instance
+export const shotTracker = ShotTracker.getInstance();
+
+// Export convenience functions
+export const findStops = ShotDetector.findStops.bind(ShotDetector);
+export const draftShots = ShotDetector.draftShots.bind(ShotDetector);
+
+// Export types for external use
+export type {
+  TrackPoint,
+  TrackStop,
+  DraftShot,
+  TrackingInput,
+  TrackerStatus,
+  StoredTrack
+} from './types';
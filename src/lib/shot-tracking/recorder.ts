@@ -0,0 +1,185 @@
+/**
+ * Shot tracker - samples the player's position through a round, hole by hole, for shot detection.
+ * The track is saved on the device as it grows and picked up again when the round is resumed.
+ */
+
+import type { TrackerStatus, TrackPoint } from './types';
+import { TRACK_SAMPLE_INTERVAL_MS, MAX_TRACK_POINTS_PER_HOLE } from './types';
+import { TrackDatabase } from './database';
+
+type StatusListener = (status: TrackerStatus) => void;
+
+export class ShotTracker {
+  private static instance: ShotTracker;
+  private watchId: number | null = null;
+  private points: TrackPoint[] = [];
+  private database = new TrackDatabase();
+  private listeners = new Set<StatusListener>();
+  private status: TrackerStatus = {
+    recording: false,
+    round_id: null,
+    hole_number: null,
+    points: 0,
+    last_fix_at: null,
+    error: null
+  };
+
+  private constructor() {}
+
+  static getInstance(): ShotTracker {
+    if (!ShotTracker.instance) {
+      ShotTracker.instance = new ShotTracker();
+    }
+    return ShotTracker.instance;
+  }
+
+  /**
+   * Start sampling for a round; a different round starts a fresh track. Safe to call more than once.
+   */
+  start(roundId: string, holeNumber: number): void {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      this.setStatus({ error: 'Geolocation is not supported by this browser' });
+      return;
+    }
+
+    if (this.status.round_id !== roundId) {
+      this.points = [];
+      this.restore(roundId);
+    }
+    this.setStatus({ round_id: roundId, hole_number: holeNumber, points: this.pointsForHole(holeNumber).length });
+
+    if (this.watchId !== null) return;
+
+    this.watchId = navigator.geolocation.watchPosition(
+      this.handlePosition,
+      this.handleError,
+      { enableHighAccuracy: true, maximumAge: 0, timeout: 30000 }
+    );
+    this.setStatus({ recording: true, error: null });
+  }
+
+  stop(): void {
+    if (this.watchId === null) return;
+
+    navigator.geolocation.clearWatch(this.watchId);
+    this.watchId = null;
+    this.setStatus({ recording: false });
+  }
+
+  /**
+   * Stop and throw away a finished round's track
+   */
+  async end(roundId: string): Promise<void> {
+    if (this.status.round_id === roundId) {
+      this.stop();
+      this.points = [];
+      this.setStatus({ round_id: null, hole_number: null, points: 0, last_fix_at: null });
+    }
+
+    try {
+      await this.database.delete(roundId);
+    } catch (error) {
+      console.error('Error deleting GPS track:', error);
+    }
+  }
+
+  /**
+   * Fixes from here on belong to this hole
+   */
+  setHole(holeNumber: number): void {
+    if (this.status.hole_number === holeNumber) return;
+    this.setStatus({ hole_number: holeNumber, points: this.pointsForHole(holeNumber).length });
+  }
+
+  pointsForHole(holeNumber: number): TrackPoint[] {
+    return this.points.filter(p => p.hole_number === holeNumber);
+  }
+
+  /**
+   * Forget a hole's track once its shots are confirmed
+   */
+  clearHole(holeNumber: number): void {
+    this.points = this.points.filter(p => p.hole_number !== holeNumber);
+    if (this.status.hole_number === holeNumber) {
+      this.setStatus({ points: 0 });
+    }
+    this.persist();
+  }
+
+  /**
+   * Listen for status changes; called immediately with the current status
+   */
+  subscribe(listener: StatusListener): () => void {
+    this.listeners.add(listener);
+    listener(this.status);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Private helper methods
+
+  private handlePosition = (position: GeolocationPosition): void => {
+    const holeNumber = this.status.hole_number;
+    if (holeNumber === null) return;
+
+    const last = this.points[this.points.length - 1];
+    if (last && position.timestamp - last.timestamp < TRACK_SAMPLE_INTERVAL_MS) return;
+
+    this.points.push({
+      lat: position.coords.latitude,
+      lng: position.coords.longitude,
+      accuracy: position.coords.accuracy,
+      timestamp: position.timestamp,
+      hole_number: holeNumber
+    });
+
+    // A hole left running for hours shouldn't grow without bound
+    let count = this.pointsForHole(holeNumber).length;
+    if (count > MAX_TRACK_POINTS_PER_HOLE) {
+      const oldest = this.points.findIndex(p => p.hole_number === holeNumber);
+      this.points.splice(oldest, 1);
+      count--;
+    }
+
+    this.setStatus({ points: count, last_fix_at: position.timestamp, error: null });
+    this.persist();
+  };
+
+  private handleError = (error: GeolocationPositionError): void => {
+    const message = error.code === error.PERMISSION_DENIED
+      ? 'GPS access denied; shots won\'t be tracked automatically'
+      : 'GPS signal lost; tracking will resume when it returns';
+    this.setStatus({ error: message });
+  };
+
+  /**
+   * Put back the track saved before a reload, ahead of any fixes taken since
+   */
+  private async restore(roundId: string): Promise<void> {
+    try {
+      const stored = await this.database.get(roundId);
+      if (!stored || this.status.round_id !== roundId) return;
+
+      const since = this.points[0]?.timestamp ?? Infinity;
+      this.points = [...stored.points.filter(p => p.timestamp < since), ...this.points];
+
+      const holeNumber = this.status.hole_number;
+      this.setStatus({ points: holeNumber === null ? 0 : this.pointsForHole(holeNumber).length });
+    } catch (error) {
+      console.error('Error restoring GPS track:', error);
+    }
+  }
+
+  private persist(): void {
+    const roundId = this.status.round_id;
+    if (!roundId) return;
+
+    this.database.put(roundId, this.points).catch(error => {
+      console.error('Error saving GPS track:', error);
+    });
+  }
+
+  private setStatus(update: Partial<TrackerStatus>): void {
+    this.status = { ...this.status, ...update };
+    this.listeners.forEach(listener => listener(this.status));
+  }
+}
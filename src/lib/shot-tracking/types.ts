@@ -0,0 +1,81 @@
+/**
+ * Shot tracking types - GPS breadcrumbs sampled during a round and the draft shots inferred from them
+ */
+
+export interface TrackPoint {
+  lat: number;
+  lng: number;
+  accuracy?: number;    // meters, as reported by the device
+  timestamp: number;    // ms since epoch
+  hole_number: number;
+}
+
+// Somewhere the player stood still long enough to hit a shot
+export interface TrackStop {
+  lat: number;
+  lng: number;
+  arrived_at: number;
+  left_at: number | null;   // null while still standing there
+  dwell_ms: number;
+  accuracy: number | null;  // average reported accuracy, meters
+  samples: number;
+}
+
+// A shot inferred from the track, waiting for the player to confirm or edit it
+export interface DraftShot {
+  id: string;               // becomes the shot's id once confirmed
+  hole_number: number;
+  shot_number: number;
+  gps_location: [number, number];     // [lat, lng] where it was hit
+  landed_at: [number, number] | null; // where the player next stopped
+  landed_on_green: boolean;
+  distance_achieved: number | null;   // yards; null until the player has walked to the ball
+  distance_to_target: number | null;  // yards to the middle of the green, when the hole is mapped
+  hit_at: string;
+  confidence: number;       // 0-1, how sure the detector is this was a shot
+  reasons: string[];        // why confidence is lowered
+}
+
+export interface TrackingInput {
+  hole_number: number;
+  first_shot_number?: number;          // shots already recorded by hand come first
+  recorded_locations?: [number, number][];   // where those were hit, so they aren't drafted again
+  green?: {
+    middle: [number, number];
+    polygon?: [number, number][];
+  } | null;
+}
+
+// A round's track kept on the device so a reload or closed tab doesn't lose it
+export interface StoredTrack {
+  round_id: string;
+  points: TrackPoint[];
+  saved_at: string;
+}
+
+export interface TrackerStatus {
+  recording: boolean;
+  round_id: string | null;
+  hole_number: number | null;
+  points: number;            // kept for the current hole
+  last_fix_at: number | null;
+  error: string | null;
+}
+
+// Constants
+export const TRACK_SAMPLE_INTERVAL_MS = 5000;   // keep at most one fix this often
+export const MAX_FIX_ACCURACY_METERS = 25;      // noisier fixes are dropped
+export const STOP_RADIUS_YARDS = 8;             // GPS wander while standing over the ball
+export const MIN_DWELL_MS = 20000;              // walk up, pick a club, hit
+export const LONG_DWELL_MS = 180000;            // waiting on the group ahead looks the same
+export const MIN_SHOT_YARDS = 10;               // anything shorter is shuffling about, not a shot
+export const GREEN_EDGE_YARDS = 3;              // stops this close to the green are putting
+export const MAX_TRACK_POINTS_PER_HOLE = 1500;  // about two hours at the sample interval
+
+export const LONG_DWELL_CONFIDENCE_PENALTY = 0.3;
+export const POOR_ACCURACY_CONFIDENCE_PENALTY = 0.2;
+export const POOR_ACCURACY_METERS = 12;
+
+export const TRACK_DB_NAME = 'pure-shot-tracking';
+export const TRACK_DB_VERSION = 1;
+export const TRACK_STORE_NAME = 'tracks';
@@ -0,0 +1,28 @@
+/**
+ * Course strategy - pre-round hole-by-hole game plan and yardage book
+ */
+
+import { StrategyPlanner } from './planner';
+import { YardageBook } from './pdf';
+
+export { StrategyPlanner, type PlannerInput } from './planner';
+export { YardageBook } from './pdf';
+export {
+  DEFAULT_LAYUP_LEAVE_YARDS,
+  REACH_ALLOWANCE_YARDS,
+  MIN_LAYUP_SHOT_YARDS,
+  FAIRWAY_SIDE_LABELS
+} from './types';
+
+// Export convenience functions
+export const planRound = StrategyPlanner.planRound.bind(StrategyPlanner);
+export const planToCourseContext = StrategyPlanner.toCourseContext.bind(StrategyPlanner);
+export const renderYardageBook = YardageBook.toPdf.bind(YardageBook);
+
+// Export types for external use
+export type {
+  FairwaySide,
+  PlannerHole,
+  HolePlan,
+  RoundPlan
+} from './types';
@@ -0,0 +1,151 @@
+/**
+ * Yardage book - renders a round plan as a one-page PDF (standard fonts only, no dependencies)
+ */
+
+import type { RoundPlan } from './types';
+import { FAIRWAY_SIDE_LABELS } from './types';
+
+interface Column {
+  label: string;
+  width: number;
+  value: (hole: RoundPlan['holes'][number]) => string;
+}
+
+// US Letter, portrait, in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 40;
+const ROW_HEIGHT = 18;
+
+const COLUMNS: Column[] = [
+  { label: 'Hole', width: 34, value: h => String(h.hole_number) },
+  { label: 'Par', width: 30, value: h => String(h.par) },
+  { label: 'Yds', width: 38, value: h => String(h.yardage) },
+  { label: 'Tee club', width: 70, value: h => h.tee_club },
+  { label: 'Target', width: 62, value: h => FAIRWAY_SIDE_LABELS[h.tee_target] },
+  { label: 'Layup', width: 110, value: h => (h.layup_club ? `${h.layup_club} to ${h.layup_yardage}y` : '-') },
+  { label: 'In', width: 38, value: h => (h.approach_yardage !== null ? `${h.approach_yardage}` : '-') },
+  { label: 'Miss', width: 44, value: h => h.miss_side },
+  { label: 'Trouble', width: 106, value: h => h.hazard_sides.join(', ') || '-' }
+];
+
+export class YardageBook {
+
+  /**
+   * One page: course header with totals, a row per hole, then the strategy notes
+   */
+  static toPdf(plan: RoundPlan): Uint8Array {
+    return this.buildDocument(this.pageContent(plan));
+  }
+
+  /**
+   * Download name like "yardage-book-pebble-beach-blue.pdf"
+   */
+  static fileName(plan: RoundPlan): string {
+    const slug = `${plan.course_name}-${plan.tee_set}`
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+    return `yardage-book-${slug || 'course'}.pdf`;
+  }
+
+  // Private helper methods
+
+  private static pageContent(plan: RoundPlan): string {
+    const ops: string[] = [];
+    const tableWidth = COLUMNS.reduce((sum, c) => sum + c.width, 0);
+    let y = PAGE_HEIGHT - MARGIN - 20;
+
+    ops.push(this.text(plan.course_name || 'Course', MARGIN, y, 18, true));
+    y -= 18;
+    ops.push(this.text(
+      `${plan.tee_set} tees - Par ${plan.total_par} - ${plan.total_yardage} yards - ${plan.risk_tolerance} game plan`,
+      MARGIN, y, 10
+    ));
+    y -= 28;
+
+    // Header row
+    ops.push(`0.85 0.9 0.85 rg ${MARGIN} ${y - 5} ${tableWidth} ${ROW_HEIGHT} re f 0 g`);
+    let x = MARGIN;
+    for (const column of COLUMNS) {
+      ops.push(this.text(column.label, x + 3, y, 9, true));
+      x += column.width;
+    }
+    y -= ROW_HEIGHT;
+
+    for (const hole of plan.holes) {
+      if (hole.hole_number === 10) {
+        // Separate the nines
+        ops.push(`0.5 G 1 w ${MARGIN} ${y + ROW_HEIGHT - 5} m ${MARGIN + tableWidth} ${y + ROW_HEIGHT - 5} l S`);
+      }
+
+      x = MARGIN;
+      for (const column of COLUMNS) {
+        ops.push(this.text(this.fit(column.value(hole), column.width), x + 3, y, 9));
+        x += column.width;
+      }
+      ops.push(`0.8 G 0.5 w ${MARGIN} ${y - 5} m ${MARGIN + tableWidth} ${y - 5} l S`);
+      y -= ROW_HEIGHT;
+    }
+
+    // Strategy notes, one line per hole
+    y -= 16;
+    ops.push(this.text('Notes', MARGIN, y, 11, true));
+    y -= 14;
+    for (const hole of plan.holes) {
+      if (y < MARGIN) break;
+      ops.push(this.text(this.fit(`${hole.hole_number}. ${hole.summary}`, tableWidth), MARGIN, y, 8));
+      y -= 11;
+    }
+
+    return ops.join('\n');
+  }
+
+  private static text(value: string, x: number, y: number, size: number, bold = false): string {
+    return `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x} ${y} Td (${this.escape(value)}) Tj ET`;
+  }
+
+  /**
+   * Trim to a column; Helvetica averages about half the font size per character
+   */
+  private static fit(value: string, width: number, size = 9): string {
+    const maxChars = Math.floor((width - 6) / (size * 0.5));
+    return value.length > maxChars ? `${value.slice(0, maxChars - 1)}.` : value;
+  }
+
+  // Standard fonts only cover plain text; anything else becomes '?'
+  private static escape(value: string): string {
+    return value
+      .replace(/[^\x20-\x7e]/g, '?')
+      .replace(/\\/g, '\\\\')
+      .replace(/\(/g, '\\(')
+      .replace(/\)/g, '\\)');
+  }
+
+  private static buildDocument(content: string): Uint8Array {
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        '/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    ];
+
+    // Everything is ASCII, so string length equals byte length for the xref offsets
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(pdf.length);
+      pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xref = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    return new TextEncoder().encode(pdf);
+  }
+}
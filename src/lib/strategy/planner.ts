@@ -0,0 +1,252 @@
+/**
+ * Strategy planner - turns a course, tee set and the player's bag into a hole-by-hole game plan
+ */
+
+import {
+  TargetingEngine,
+  STANDARD_CLUBS,
+  type ClubData,
+  type CourseContext,
+  type HazardSide,
+  type HoleHazard,
+  type PersonalTendencies,
+  type RiskTolerance,
+  type TargetOption,
+  type UserClubStats
+} from '$lib/caddy';
+import type { GPSPosition } from '$lib/utils/gps';
+import type { FairwaySide, HolePlan, PlannerHole, RoundPlan } from './types';
+import {
+  DEFAULT_LAYUP_LEAVE_YARDS,
+  REACH_ALLOWANCE_YARDS,
+  MIN_LAYUP_SHOT_YARDS,
+  CENTER_LINE_YARDS,
+  FAIRWAY_SIDE_LABELS,
+  HAZARD_TYPES
+} from './types';
+
+export interface PlannerInput {
+  course_id: string;
+  course_name: string;
+  tee_set: string;
+  holes: PlannerHole[];
+  bag: ClubData[];
+  club_stats?: UserClubStats[];
+  tendencies?: PersonalTendencies;
+  risk_tolerance?: RiskTolerance;
+}
+
+// Preferred miss when nothing else decides it; short of the green is usually the easiest recovery
+const MISS_PREFERENCE: HazardSide[] = ['short', 'left', 'right', 'long'];
+
+export class StrategyPlanner {
+
+  /**
+   * Plan every hole that has a yardage for the tee set
+   */
+  static planRound(input: PlannerInput): RoundPlan {
+    const holes = [...input.holes]
+      .sort((a, b) => a.hole_number - b.hole_number)
+      .map(hole => this.planHole(hole, input))
+      .filter((plan): plan is HolePlan => plan !== null);
+
+    return {
+      course_id: input.course_id,
+      course_name: input.course_name,
+      tee_set: input.tee_set,
+      risk_tolerance: input.risk_tolerance || 'balanced',
+      generated_at: new Date().toISOString(),
+      holes,
+      total_yardage: holes.reduce((sum, h) => sum + h.yardage, 0),
+      total_par: holes.reduce((sum, h) => sum + h.par, 0)
+    };
+  }
+
+  /**
+   * Tee club and target, layup if the green is out of reach, and where to miss
+   */
+  static planHole(hole: PlannerHole, input: PlannerInput): HolePlan | null {
+    const yardage = this.yardageFor(hole, input.tee_set);
+    if (!yardage) return null;
+
+    const bag = input.bag.some(c => c.type !== 'putter') ? input.bag : STANDARD_CLUBS;
+    const hazards = this.parseHazards(hole.hazards);
+    const tee = this.toPosition(hole.gps_coordinates?.tee);
+    const green = this.toPosition(hole.gps_coordinates?.green);
+    const context = {
+      distance_to_target: yardage,
+      lie_type: 'tee' as const,
+      hazards: this.describeHazards(hole.hazards),
+      ball_position: tee,
+      target_position: green
+    };
+
+    const teeShot = TargetingEngine.plan({
+      context,
+      plays_like_distance: yardage,
+      bag,
+      hazards,
+      club_stats: input.club_stats,
+      tendencies: input.tendencies,
+      risk_tolerance: input.risk_tolerance
+    });
+    const teeClub = (teeShot && bag.find(c => c.name === teeShot.recommended.club)) || this.longestClub(bag);
+
+    const plan: HolePlan = {
+      hole_number: hole.hole_number,
+      par: hole.par,
+      yardage,
+      tee_club: teeClub.name,
+      tee_target: teeShot ? this.fairwaySide(teeShot.recommended) : 'center',
+      tee_carry: teeShot?.recommended.dispersion.carry ?? teeClub.typical_carry,
+      layup_club: null,
+      layup_yardage: null,
+      approach_yardage: null,
+      miss_side: 'short',
+      hazard_sides: TargetingEngine.hazardSides(context, hazards),
+      tee_hazard_risk: teeShot?.recommended.hazard_probabilities ?? { water: 0, bunker: 0, ob: 0 },
+      summary: ''
+    };
+
+    if (hole.par > 3) {
+      this.planSecondShot(plan, teeClub, bag, input.risk_tolerance);
+    }
+
+    plan.miss_side = this.chooseMissSide(plan.hazard_sides, input.tendencies);
+    plan.summary = this.summarize(plan);
+
+    return plan;
+  }
+
+  /**
+   * Caddy context for one hole of a plan, with its strategy line
+   */
+  static toCourseContext(plan: RoundPlan, holeNumber: number): CourseContext | null {
+    const hole = plan.holes.find(h => h.hole_number === holeNumber);
+    if (!hole) return null;
+
+    return {
+      course_id: plan.course_id,
+      hole_number: hole.hole_number,
+      par: hole.par,
+      handicap: 0,
+      yardage: hole.yardage,
+      typical_strategy: hole.summary
+    };
+  }
+
+  // Private helper methods
+
+  private static planSecondShot(
+    plan: HolePlan,
+    teeClub: ClubData,
+    bag: ClubData[],
+    riskTolerance?: RiskTolerance
+  ): void {
+    const remaining = Math.max(0, plan.yardage - (teeClub.typical_total || teeClub.typical_carry));
+    const fairwayClubs = bag.filter(c => c.type !== 'driver' && c.type !== 'putter');
+    const reach = Math.max(0, ...fairwayClubs.map(c => c.typical_carry)) + REACH_ALLOWANCE_YARDS;
+
+    // Going for a par 5 in two is the aggressive play; conservative players lay up anyway
+    const goForIt = remaining <= reach && (plan.par < 5 || riskTolerance !== 'conservative');
+    if (goForIt) {
+      plan.approach_yardage = Math.round(remaining);
+      return;
+    }
+
+    const leave = this.layupLeave(bag);
+    if (remaining - leave < MIN_LAYUP_SHOT_YARDS) {
+      plan.approach_yardage = Math.round(remaining);
+      return;
+    }
+
+    const layupClub = this.clubForCarry(remaining - leave, fairwayClubs.length > 0 ? fairwayClubs : bag);
+    plan.layup_club = layupClub.name;
+    plan.layup_yardage = Math.round(Math.max(leave, remaining - layupClub.typical_carry));
+    plan.approach_yardage = plan.layup_yardage;
+  }
+
+  /**
+   * Leave a full wedge: the wedge whose carry is nearest the default layup yardage
+   */
+  private static layupLeave(bag: ClubData[]): number {
+    const wedges = bag.filter(c => c.type === 'wedge' && c.typical_carry > 0);
+    if (wedges.length === 0) return DEFAULT_LAYUP_LEAVE_YARDS;
+    return this.clubForCarry(DEFAULT_LAYUP_LEAVE_YARDS, wedges).typical_carry;
+  }
+
+  /**
+   * Longest club that doesn't carry past the distance (so layups stay short of the target yardage)
+   */
+  private static clubForCarry(distance: number, clubs: ClubData[]): ClubData {
+    const sorted = [...clubs].sort((a, b) => b.typical_carry - a.typical_carry);
+    return sorted.find(c => c.typical_carry <= distance) || sorted[sorted.length - 1];
+  }
+
+  /**
+   * Miss where the player already misses if that side is safe, otherwise the first safe side
+   */
+  private static chooseMissSide(hazardSides: HazardSide[], tendencies?: PersonalTendencies): HazardSide {
+    const safe = MISS_PREFERENCE.filter(side => !hazardSides.includes(side));
+    const natural = tendencies?.miss_pattern;
+
+    if ((natural === 'left' || natural === 'right') && safe.includes(natural)) return natural;
+    return safe[0] || 'short';
+  }
+
+  private static fairwaySide(option: TargetOption): FairwaySide {
+    if (option.aim_point.x < -CENTER_LINE_YARDS) return 'left';
+    if (option.aim_point.x > CENTER_LINE_YARDS) return 'right';
+    return 'center';
+  }
+
+  private static summarize(plan: HolePlan): string {
+    const target = plan.par === 3
+      ? `${plan.tee_club} at the ${FAIRWAY_SIDE_LABELS[plan.tee_target]} of the green`
+      : `${plan.tee_club}, ${FAIRWAY_SIDE_LABELS[plan.tee_target]}`;
+
+    const parts = [`Par ${plan.par}, ${plan.yardage}y: ${target}`];
+    if (plan.layup_club) {
+      parts.push(`lay up with ${plan.layup_club} to ${plan.layup_yardage}y`);
+    } else if (plan.approach_yardage !== null) {
+      parts.push(`${plan.approach_yardage}y in`);
+    }
+    parts.push(`miss ${plan.miss_side}`);
+
+    return parts.join('; ');
+  }
+
+  private static yardageFor(hole: PlannerHole, teeSet: string): number | null {
+    const yardages = hole.yardages || {};
+    const key = Object.keys(yardages).find(k => k.toLowerCase() === teeSet.toLowerCase());
+    const yardage = key ? yardages[key] : Object.values(yardages)[0];
+    return typeof yardage === 'number' && yardage > 0 ? yardage : null;
+  }
+
+  private static parseHazards(value: unknown): HoleHazard[] {
+    if (!Array.isArray(value)) return [];
+    return value.filter((h): h is HoleHazard => !!h && HAZARD_TYPES.includes(h.type));
+  }
+
+  /**
+   * Free-form notes ("water left") and unmapped named hazards, placed beside the green by the targeting engine
+   */
+  private static describeHazards(value: unknown): string[] {
+    if (!Array.isArray(value)) return [];
+    return value.flatMap(h => {
+      if (typeof h === 'string') return [h];
+      if (h && typeof h.name === 'string' && !h.polygon && !h.center) return [h.name];
+      return [];
+    });
+  }
+
+  private static toPosition(point?: [number, number]): GPSPosition | undefined {
+    return Array.isArray(point) && point.length === 2 ? { lat: point[0], lng: point[1] } : undefined;
+  }
+
+  private static longestClub(bag: ClubData[]): ClubData {
+    return bag
+      .filter(c => c.type !== 'putter')
+      .reduce((longest, club) => (club.typical_carry > longest.typical_carry ? club : longest));
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Course strategy types - a pre-round game plan for every hole
+ */
+
+import type { HazardProbabilities, HazardSide, HoleHazard, RiskTolerance } from '$lib/caddy';
+
+export type FairwaySide = 'left' | 'center' | 'right';
+
+// A hole as stored in pure.holes; hazards and GPS are optional
+export interface PlannerHole {
+  hole_number: number;
+  par: number;
+  handicap?: number;
+  yardages: Record<string, number>;
+  hazards?: unknown; // HoleHazard[] when mapped; older rows hold free-form notes
+  gps_coordinates?: { tee?: [number, number]; green?: [number, number] } | null;
+}
+
+export interface HolePlan {
+  hole_number: number;
+  par: number;
+  yardage: number;
+  tee_club: string;
+  tee_target: FairwaySide;       // side of the fairway, or of the green on par 3s
+  tee_carry: number;
+  layup_club: string | null;     // when the green is out of reach in two
+  layup_yardage: number | null;  // yards to leave for the next shot
+  approach_yardage: number | null;
+  miss_side: HazardSide;         // the safe place to miss the green
+  hazard_sides: HazardSide[];    // sides of the green with trouble
+  tee_hazard_risk: HazardProbabilities;
+  summary: string;               // one line; also used as CourseContext.typical_strategy
+}
+
+export interface RoundPlan {
+  course_id: string;
+  course_name: string;
+  tee_set: string;
+  risk_tolerance: RiskTolerance;
+  generated_at: string;
+  holes: HolePlan[];
+  total_yardage: number;
+  total_par: number;
+}
+
+// Layups leave this many yards by default, adjusted to the nearest wedge in the bag
+export const DEFAULT_LAYUP_LEAVE_YARDS = 100;
+
+// A green this far beyond the longest fairway club still counts as reachable
+export const REACH_ALLOWANCE_YARDS = 10;
+
+// A layup shorter than this isn't worth a separate shot; play to the green instead
+export const MIN_LAYUP_SHOT_YARDS = 40;
+
+// Aims within this many yards of the line are "center"
+export const CENTER_LINE_YARDS = 4;
+
+export const FAIRWAY_SIDE_LABELS: Record<FairwaySide, string> = {
+  left: 'left side',
+  center: 'center',
+  right: 'right side'
+};
+
+export const HAZARD_TYPES: HoleHazard['type'][] = ['water', 'bunker', 'ob'];
@@ -0,0 +1,224 @@
+/**
+ * Strokes-gained calculator - scores recorded shots against the baseline table
+ */
+
+import type {
+  BaselineLie,
+  CategoryTotals,
+  RecordedShot,
+  RoundStrokesGained,
+  ShotStrokesGained,
+  StrokesGainedCategory,
+  StrokesGainedTrend
+} from './types';
+
+import { EXPECTED_STROKES_BASELINE, PUTT_MAKE_BASELINE, AROUND_GREEN_MAX_YARDS, PENALTY_RESULTS } from './types';
+
+export class StrokesGainedCalculator {
+
+  /**
+   * Expected strokes to hole out from a lie and distance (yards; converted to feet on the green)
+   */
+  static expectedStrokes(lie: BaselineLie, distanceYards: number): number {
+    const distance = lie === 'green' ? distanceYards * 3 : distanceYards;
+    return this.interpolate(EXPECTED_STROKES_BASELINE[lie], distance);
+  }
+
+  /**
+   * Chance of holing a putt of this many feet
+   */
+  static makeProbability(distanceFeet: number): number {
+    return this.interpolate(PUTT_MAKE_BASELINE, distanceFeet);
+  }
+
+  /**
+   * Map a recorded lie or shot result onto a baseline lie
+   */
+  static toBaselineLie(value?: string | null): BaselineLie | null {
+    switch (value) {
+      case 'tee':
+        return 'tee';
+      case 'fairway':
+        return 'fairway';
+      case 'rough':
+      case 'greenside':
+      case 'water': // played as a drop
+        return 'rough';
+      case 'sand':
+      case 'bunker':
+        return 'sand';
+      case 'trees':
+      case 'tree':
+        return 'recovery';
+      case 'green':
+        return 'green';
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Score every shot in a round. Holes without a holed final shot are only partly scored.
+   */
+  static calculateRound(
+    roundId: string,
+    shots: RecordedShot[],
+    pars: Record<number, number> = {},
+    date?: string
+  ): RoundStrokesGained {
+    const byHole = new Map<number, RecordedShot[]>();
+    for (const shot of shots) {
+      byHole.set(shot.hole_number, [...(byHole.get(shot.hole_number) || []), shot]);
+    }
+
+    const scored: ShotStrokesGained[] = [];
+    let holesCounted = 0;
+
+    for (const [holeNumber, holeShots] of byHole) {
+      const ordered = [...holeShots].sort((a, b) => a.shot_number - b.shot_number);
+      scored.push(...this.scoreHole(ordered, pars[holeNumber]));
+
+      if (ordered[ordered.length - 1]?.shot_result === 'holed') holesCounted++;
+    }
+
+    const byCategory = this.sumByCategory(scored);
+
+    return {
+      round_id: roundId,
+      date,
+      total: this.round(Object.values(byCategory).reduce((sum, v) => sum + v, 0)),
+      by_category: byCategory,
+      shots: scored,
+      holes_counted: holesCounted
+    };
+  }
+
+  /**
+   * Average strokes gained per round across several rounds (oldest first)
+   */
+  static calculateTrend(rounds: RoundStrokesGained[]): StrokesGainedTrend {
+    const ordered = [...rounds].sort(
+      (a, b) => new Date(a.date || 0).getTime() - new Date(b.date || 0).getTime()
+    );
+    const counted = ordered.filter(r => r.holes_counted > 0);
+    const average = (pick: (r: RoundStrokesGained) => number) =>
+      counted.length ? this.round(counted.reduce((sum, r) => sum + pick(r), 0) / counted.length) : 0;
+
+    return {
+      rounds: ordered.map(({ shots, ...summary }) => summary),
+      average: {
+        off_the_tee: average(r => r.by_category.off_the_tee),
+        approach: average(r => r.by_category.approach),
+        around_green: average(r => r.by_category.around_green),
+        putting: average(r => r.by_category.putting),
+        total: average(r => r.total)
+      }
+    };
+  }
+
+  // Private helper methods
+
+  private static scoreHole(shots: RecordedShot[], par?: number): ShotStrokesGained[] {
+    const scored: ShotStrokesGained[] = [];
+    const lies = this.resolveLies(shots);
+
+    for (let i = 0; i < shots.length; i++) {
+      const shot = shots[i];
+      const next = shots[i + 1];
+      const startLie = lies[i];
+      const startDistance = shot.distance_to_target;
+
+      if (startDistance === null || startDistance === undefined) continue;
+
+      let expectedAfter: number;
+      let penalty = 0;
+
+      if (shot.shot_result === 'holed') {
+        expectedAfter = 0;
+      } else if (next && next.distance_to_target !== null && next.distance_to_target !== undefined) {
+        expectedAfter = this.expectedStrokes(lies[i + 1], next.distance_to_target);
+        // Penalty strokes show up as a gap in shot numbers; assume one if none was recorded
+        penalty = Math.max(0, next.shot_number - shot.shot_number - 1);
+        if (penalty === 0 && PENALTY_RESULTS.includes(shot.shot_result || '')) penalty = 1;
+      } else {
+        continue; // Can't score without knowing where the ball finished
+      }
+
+      const expectedBefore = this.expectedStrokes(startLie, startDistance);
+
+      scored.push({
+        shot_id: shot.id,
+        hole_number: shot.hole_number,
+        shot_number: shot.shot_number,
+        category: this.categorize(startLie, startDistance, par),
+        start_lie: startLie,
+        start_distance: startLie === 'green' ? startDistance * 3 : startDistance,
+        expected_before: this.round(expectedBefore),
+        expected_after: this.round(expectedAfter),
+        penalty_strokes: penalty,
+        strokes_gained: this.round(expectedBefore - expectedAfter - 1 - penalty)
+      });
+    }
+
+    return scored;
+  }
+
+  private static resolveLies(shots: RecordedShot[]): BaselineLie[] {
+    const lies: BaselineLie[] = [];
+
+    shots.forEach((shot, i) => {
+      const recorded = this.toBaselineLie(shot.lie_type);
+      if (recorded) {
+        lies.push(recorded);
+      } else if (i === 0) {
+        lies.push('tee');
+      } else if (shots[i - 1].shot_result === 'oob') {
+        lies.push(lies[i - 1]); // Replayed from the previous spot
+      } else {
+        lies.push(this.toBaselineLie(shots[i - 1].shot_result) || 'fairway');
+      }
+    });
+
+    return lies;
+  }
+
+  private static categorize(lie: BaselineLie, distance: number, par?: number): StrokesGainedCategory {
+    if (lie === 'green') return 'putting';
+    if (lie === 'tee' && (par ? par >= 4 : distance > 250)) return 'off_the_tee';
+    if (distance <= AROUND_GREEN_MAX_YARDS) return 'around_green';
+    return 'approach';
+  }
+
+  private static sumByCategory(shots: ShotStrokesGained[]): CategoryTotals {
+    const totals: CategoryTotals = { off_the_tee: 0, approach: 0, around_green: 0, putting: 0 };
+    for (const shot of shots) {
+      totals[shot.category] += shot.strokes_gained;
+    }
+
+    return {
+      off_the_tee: this.round(totals.off_the_tee),
+      approach: this.round(totals.approach),
+      around_green: this.round(totals.around_green),
+      putting: this.round(totals.putting)
+    };
+  }
+
+  // Linear interpolation between the surrounding table entries, clamped at either end
+  private static interpolate(table: [number, number][], distance: number): number {
+    if (distance <= table[0][0]) return table[0][1];
+    if (distance >= table[table.length - 1][0]) return table[table.length - 1][1];
+
+    for (let i = 1; i < table.length; i++) {
+      const [d1, e1] = table[i - 1];
+      const [d2, e2] = table[i];
+      if (distance <= d2) {
+        return e1 + ((distance - d1) / (d2 - d1)) * (e2 - e1);
+      }
+    }
+    return table[table.length - 1][1];
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
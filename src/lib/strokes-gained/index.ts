@@ -0,0 +1,25 @@
+/**
+ * Strokes gained - shot-by-shot scoring against a baseline
+ */
+
+import { StrokesGainedCalculator } from './calculator';
+
+export { StrokesGainedCalculator } from './calculator';
+export { EXPECTED_STROKES_BASELINE, PUTT_MAKE_BASELINE, AROUND_GREEN_MAX_YARDS } from './types';
+
+// Export convenience functions
+export const calculateRoundStrokesGained = StrokesGainedCalculator.calculateRound.bind(StrokesGainedCalculator);
+export const calculateStrokesGainedTrend = StrokesGainedCalculator.calculateTrend.bind(StrokesGainedCalculator);
+export const getExpectedStrokes = StrokesGainedCalculator.expectedStrokes.bind(StrokesGainedCalculator);
+export const getPuttMakeProbability = StrokesGainedCalculator.makeProbability.bind(StrokesGainedCalculator);
+
+// Export types for external use
+export type {
+  StrokesGainedCategory,
+  BaselineLie,
+  CategoryTotals,
+  RecordedShot,
+  ShotStrokesGained,
+  RoundStrokesGained,
+  StrokesGainedTrend
+} from './types';
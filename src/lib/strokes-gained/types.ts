@@ -0,0 +1,98 @@
+/**
+ * Strokes-gained types and baseline expected-strokes table
+ */
+
+export type StrokesGainedCategory = 'off_the_tee' | 'approach' | 'around_green' | 'putting';
+
+export type BaselineLie = 'tee' | 'fairway' | 'rough' | 'sand' | 'recovery' | 'green';
+
+export type CategoryTotals = Record<StrokesGainedCategory, number>;
+
+// Subset of a pure.shots row needed for scoring
+export interface RecordedShot {
+  id?: string;
+  hole_number: number;
+  shot_number: number;
+  distance_to_target?: number | null; // yards
+  lie_type?: string | null;
+  shot_result?: string | null;
+  club_used?: string | null;
+}
+
+export interface ShotStrokesGained {
+  shot_id?: string;
+  hole_number: number;
+  shot_number: number;
+  category: StrokesGainedCategory;
+  start_lie: BaselineLie;
+  start_distance: number; // yards (feet on the green)
+  expected_before: number;
+  expected_after: number;
+  penalty_strokes: number;
+  strokes_gained: number;
+}
+
+export interface RoundStrokesGained {
+  round_id: string;
+  date?: string;
+  total: number;
+  by_category: CategoryTotals;
+  shots: ShotStrokesGained[];
+  holes_counted: number;
+}
+
+export interface StrokesGainedTrend {
+  rounds: Omit<RoundStrokesGained, 'shots'>[];
+  average: CategoryTotals & { total: number };
+}
+
+// Shots inside this distance (off the green) count as around-the-green
+export const AROUND_GREEN_MAX_YARDS = 30;
+
+export const PENALTY_RESULTS = ['water', 'oob'];
+
+// Expected strokes to hole out by lie and distance, tour-level baseline (Broadie)
+// Distances in yards, except green which is in feet
+export const EXPECTED_STROKES_BASELINE: Record<BaselineLie, [number, number][]> = {
+  tee: [
+    [100, 2.92], [120, 2.99], [140, 2.97], [160, 2.99], [180, 3.05], [200, 3.12],
+    [220, 3.17], [240, 3.25], [260, 3.45], [280, 3.65], [300, 3.71], [320, 3.79],
+    [340, 3.86], [360, 3.92], [380, 3.96], [400, 3.99], [420, 4.02], [440, 4.08],
+    [460, 4.17], [480, 4.28], [500, 4.41], [520, 4.54], [540, 4.65], [560, 4.74],
+    [580, 4.79], [600, 4.82]
+  ],
+  fairway: [
+    [5, 2.10], [10, 2.18], [20, 2.40], [40, 2.60], [60, 2.70], [80, 2.75],
+    [100, 2.80], [120, 2.85], [140, 2.91], [160, 2.98], [180, 3.08], [200, 3.19],
+    [220, 3.32], [240, 3.45], [260, 3.58], [280, 3.69], [300, 3.78], [350, 3.95],
+    [400, 4.11], [450, 4.30], [500, 4.50]
+  ],
+  rough: [
+    [5, 2.18], [10, 2.34], [20, 2.59], [40, 2.78], [60, 2.91], [80, 2.96],
+    [100, 3.02], [120, 3.08], [140, 3.15], [160, 3.23], [180, 3.31], [200, 3.42],
+    [220, 3.53], [240, 3.64], [260, 3.74], [280, 3.83], [300, 3.90], [350, 4.05],
+    [400, 4.20], [450, 4.39], [500, 4.59]
+  ],
+  sand: [
+    [5, 2.27], [10, 2.43], [20, 2.53], [40, 2.82], [60, 3.15], [80, 3.24],
+    [100, 3.23], [120, 3.21], [140, 3.22], [160, 3.28], [180, 3.40], [200, 3.55],
+    [220, 3.70], [240, 3.84], [260, 3.93], [280, 4.00], [300, 4.04]
+  ],
+  recovery: [
+    [20, 3.00], [40, 3.08], [60, 3.15], [80, 3.18], [100, 3.20], [120, 3.25],
+    [140, 3.31], [160, 3.38], [180, 3.47], [200, 3.57], [220, 3.67], [240, 3.78],
+    [260, 3.88], [280, 3.97], [300, 4.04], [400, 4.40]
+  ],
+  green: [
+    [1, 1.00], [2, 1.01], [3, 1.04], [4, 1.13], [5, 1.23], [6, 1.34], [7, 1.42],
+    [8, 1.50], [9, 1.56], [10, 1.61], [15, 1.78], [20, 1.87], [30, 1.98],
+    [40, 2.06], [50, 2.14], [60, 2.21], [90, 2.40]
+  ]
+};
+
+// Share of putts holed by distance in feet, tour-level baseline (Broadie)
+export const PUTT_MAKE_BASELINE: [number, number][] = [
+  [2, 0.99], [3, 0.96], [4, 0.88], [5, 0.77], [6, 0.66], [7, 0.58], [8, 0.50],
+  [9, 0.45], [10, 0.40], [15, 0.23], [20, 0.15], [25, 0.10], [30, 0.07],
+  [40, 0.04], [50, 0.03], [60, 0.02], [90, 0.01]
+];
@@ -0,0 +1,112 @@
+/**
+ * Trend analysis - rolling averages and significant change detection for swing metrics
+ */
+
+import type {
+  MetricTrend,
+  TrendChange,
+  TrendMetric,
+  TrendPoint,
+  TrendSample
+} from './types';
+
+import {
+  TREND_METRICS,
+  DEFAULT_ROLLING_WINDOW,
+  MIN_SAMPLES_PER_GROUP,
+  SIGNIFICANT_T
+} from './types';
+
+export class TrendAnalyzer {
+
+  /**
+   * Build a trend for every metric from samples (any order)
+   */
+  static buildTrends(samples: TrendSample[], window = DEFAULT_ROLLING_WINDOW): MetricTrend[] {
+    const sorted = [...samples].sort(
+      (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+    );
+
+    return (Object.keys(TREND_METRICS) as TrendMetric[]).map(metric => {
+      const present = sorted.filter(s => typeof s[metric] === 'number' && !isNaN(s[metric] as number));
+      const values = present.map(s => s[metric] as number);
+      const averages = this.rollingAverage(values, window);
+
+      const points: TrendPoint[] = present.map((sample, i) => ({
+        swing_id: sample.swing_id,
+        date: sample.date,
+        value: values[i],
+        rolling_avg: Math.round(averages[i] * 100) / 100
+      }));
+
+      return {
+        metric,
+        points,
+        change: this.detectChange(metric, values, window)
+      };
+    });
+  }
+
+  /**
+   * Trailing average over the last `window` values (shorter at the start)
+   */
+  static rollingAverage(values: number[], window: number): number[] {
+    return values.map((_, i) => {
+      const slice = values.slice(Math.max(0, i - window + 1), i + 1);
+      return slice.reduce((sum, v) => sum + v, 0) / slice.length;
+    });
+  }
+
+  /**
+   * Compare the most recent window against the baseline before it
+   */
+  static detectChange(metric: TrendMetric, values: number[], window: number): TrendChange | null {
+    const recentSize = Math.max(window, MIN_SAMPLES_PER_GROUP);
+    if (values.length < recentSize + MIN_SAMPLES_PER_GROUP) return null;
+
+    const baseline = values.slice(0, values.length - recentSize);
+    const recent = values.slice(values.length - recentSize);
+    const t = this.welchT(baseline, recent);
+
+    if (t === null || Math.abs(t) < SIGNIFICANT_T) return null;
+
+    const config = TREND_METRICS[metric];
+    const baselineAvg = this.mean(baseline);
+    const recentAvg = this.mean(recent);
+
+    let improved: boolean;
+    if (config.ideal !== undefined) {
+      improved = Math.abs(recentAvg - config.ideal) < Math.abs(baselineAvg - config.ideal);
+    } else {
+      improved = config.better === 'lower' ? recentAvg < baselineAvg : recentAvg > baselineAvg;
+    }
+
+    const delta = Math.round((recentAvg - baselineAvg) * 10) / 10;
+    const direction = improved ? 'improved' : 'regressed';
+
+    return {
+      direction,
+      baseline_avg: Math.round(baselineAvg * 100) / 100,
+      recent_avg: Math.round(recentAvg * 100) / 100,
+      t_statistic: Math.round(t * 100) / 100,
+      description: `${config.label} ${direction}: ${delta > 0 ? '+' : ''}${delta}${config.unit} over your last ${recent.length} swings`
+    };
+  }
+
+  // Private helper methods
+
+  private static mean(values: number[]): number {
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+  }
+
+  private static variance(values: number[]): number {
+    const avg = this.mean(values);
+    return values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1);
+  }
+
+  private static welchT(a: number[], b: number[]): number | null {
+    const standardError = Math.sqrt(this.variance(a) / a.length + this.variance(b) / b.length);
+    if (standardError === 0) return null;
+    return (this.mean(b) - this.mean(a)) / standardError;
+  }
+}
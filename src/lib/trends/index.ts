@@ -0,0 +1,21 @@
+/**
+ * Swing trends - longitudinal metric analysis
+ */
+
+import { TrendAnalyzer } from './analysis';
+
+export { TrendAnalyzer } from './analysis';
+export { TREND_METRICS, DEFAULT_ROLLING_WINDOW } from './types';
+
+// Export convenience functions
+export const buildTrends = TrendAnalyzer.buildTrends.bind(TrendAnalyzer);
+
+// Export types for external use
+export type {
+  TrendMetric,
+  TrendSample,
+  TrendPoint,
+  TrendChange,
+  MetricTrend,
+  TrendFilters
+} from './types';
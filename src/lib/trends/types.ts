@@ -0,0 +1,73 @@
+/**
+ * Swing trend types - longitudinal metrics per category and club
+ */
+
+import type { SwingCategory } from '$lib/supabase';
+
+export type TrendMetric = 'tempo_ratio' | 'plane_delta' | 'hip_sway_cm' | 'x_factor' | 'swing_score';
+
+export type TrendDirection = 'improved' | 'regressed';
+
+// One analyzed swing with whatever metrics it has
+export interface TrendSample {
+  swing_id: string;
+  date: string;
+  category: SwingCategory;
+  club?: string | null;
+  tempo_ratio?: number | null;
+  plane_delta?: number | null;
+  hip_sway_cm?: number | null;
+  x_factor?: number | null;
+  swing_score?: number | null;
+}
+
+export interface TrendPoint {
+  swing_id: string;
+  date: string;
+  value: number;
+  rolling_avg: number;
+}
+
+export interface TrendChange {
+  direction: TrendDirection;
+  baseline_avg: number;
+  recent_avg: number;
+  t_statistic: number;
+  description: string;
+}
+
+export interface MetricTrend {
+  metric: TrendMetric;
+  points: TrendPoint[];
+  change: TrendChange | null;
+}
+
+export interface TrendFilters {
+  category?: SwingCategory;
+  club?: string;
+  from?: string;
+  to?: string;
+  window?: number;
+}
+
+export interface TrendMetricConfig {
+  label: string;
+  unit: string;
+  // Better = closer to ideal when set, otherwise higher/lower is better
+  ideal?: number;
+  better?: 'higher' | 'lower';
+}
+
+export const TREND_METRICS: Record<TrendMetric, TrendMetricConfig> = {
+  tempo_ratio: { label: 'Tempo Ratio', unit: '', ideal: 3.0 },
+  plane_delta: { label: 'Swing Plane', unit: '°', ideal: 0 },
+  hip_sway_cm: { label: 'Hip Sway', unit: 'cm', better: 'lower' },
+  x_factor: { label: 'X-Factor', unit: '°', better: 'higher' },
+  swing_score: { label: 'Swing Score', unit: '', better: 'higher' }
+};
+
+export const DEFAULT_ROLLING_WINDOW = 5;
+
+// Change detection: recent window vs everything before it (Welch's t-test)
+export const MIN_SAMPLES_PER_GROUP = 4;
+export const SIGNIFICANT_T = 2.0; // roughly p < 0.05 for the sample sizes we see
@@ -2,6 +2,9 @@
  * GPS utilities for golf course distance calculation and positioning
  */
 
+import { HoleMeasure } from '$lib/hole-geometry/measure';
+import type { GreenYardages, HazardCarry, HoleGeometry, LatLng } from '$lib/hole-geometry/types';
+
 export interface GPSPosition {
   lat: number;
   lng: number;
@@ -15,6 +18,12 @@ export interface DistanceResult {
   accuracy: 'high' | 'medium' | 'low';
 }
 
+export interface PinDistanceResult extends DistanceResult {
+  from: GPSPosition;        // where the player was when measured
+  green?: GreenYardages;    // when the hole is mapped
+  hazards: HazardCarry[];   // in play between the ball and the green, nearest first
+}
+
 /**
  * Calculate distance between two GPS coordinates using Haversine formula
  */
@@ -51,6 +60,21 @@ export function calculateDistance(pos1: GPSPosition, pos2: GPSPosition): Distanc
   };
 }
 
+/**
+ * Initial compass bearing from one point to another, in degrees (0 = north, 90 = east)
+ */
+export function calculateBearing(from: GPSPosition, to: GPSPosition): number {
+  const lat1Rad = toRadians(from.lat);
+  const lat2Rad = toRadians(to.lat);
+  const deltaLngRad = toRadians(to.lng - from.lng);
+
+  const y = Math.sin(deltaLngRad) * Math.cos(lat2Rad);
+  const x = Math.cos(lat1Rad) * Math.sin(lat2Rad) -
+            Math.sin(lat1Rad) * Math.cos(lat2Rad) * Math.cos(deltaLngRad);
+
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+}
+
 /**
  * Get current GPS position with high accuracy for golf
  */
@@ -97,18 +121,56 @@ export function getCurrentPosition(timeout: number = 10000): Promise<GPSPosition
 }
 
 /**
- * Calculate distance to pin from current position
+ * Calculate distance to pin from current position, with front/middle/back and hazard carries on a mapped hole
  */
-export async function getDistanceToPin(pinPosition: GPSPosition): Promise<DistanceResult | null> {
+export async function getDistanceToPin(
+  pinPosition: GPSPosition,
+  geometry?: HoleGeometry | null
+): Promise<PinDistanceResult | null> {
   try {
     const currentPos = await getCurrentPosition();
-    return calculateDistance(currentPos, pinPosition);
+    return measureFromPosition(currentPos, pinPosition, geometry);
   } catch (error) {
     console.error('Error getting distance to pin:', error);
     return null;
   }
 }
 
+/**
+ * Yardages from a known position to the pin, the green and every hazard in play
+ */
+export function measureFromPosition(
+  position: GPSPosition,
+  pinPosition: GPSPosition,
+  geometry?: HoleGeometry | null
+): PinDistanceResult {
+  const toPin = calculateDistance(position, pinPosition);
+  if (!geometry) {
+    return { ...toPin, from: position, hazards: [] };
+  }
+
+  const yardsTo = ([lat, lng]: LatLng) => calculateDistance(position, { lat, lng }).yards;
+
+  return {
+    ...toPin,
+    from: position,
+    green: {
+      front: yardsTo(geometry.green.front),
+      middle: yardsTo(geometry.green.middle),
+      back: yardsTo(geometry.green.back)
+    },
+    hazards: HoleMeasure.hazardCarries(position, geometry)
+  };
+}
+
+/**
+ * Middle of a mapped green, for when the day's pin position isn't known
+ */
+export function getGreenCenter(geometry: HoleGeometry): GPSPosition {
+  const [lat, lng] = geometry.green.middle;
+  return { lat, lng };
+}
+
 /**
  * Format distance for display
  */
@@ -139,7 +201,7 @@ function toRadians(degrees: number): number {
 }
 
 /**
- * Mock pin positions for development/testing
+ * Mock pin positions for development/testing, used only on holes with no mapped geometry
  */
 export const MOCK_PIN_POSITIONS: Record<string, GPSPosition[]> = {
   'pebble-beach': [
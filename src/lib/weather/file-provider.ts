@@ -0,0 +1,63 @@
+/**
+ * File weather provider - fixed readings from a JSON file, for tests and local development.
+ * Server-only (reads the file system), so it isn't exported from the browser-safe index.
+ */
+
+import { readFile } from 'node:fs/promises';
+import type { WeatherProvider, WeatherQuery, WeatherReading } from './types';
+import { toCompassPoint } from './providers';
+
+/**
+ * {
+ *   "default": { "temperature": 72, "wind_speed": 8, "wind_degrees": 270, ... },
+ *   "courses": { "<course uuid>": { ... } }
+ * }
+ * A course with no entry and no default is reported as unavailable.
+ */
+interface WeatherFixture {
+  default?: Partial<WeatherReading>;
+  courses?: Record<string, Partial<WeatherReading>>;
+}
+
+// Fixed timestamp so repeated runs produce identical readings
+const FIXTURE_OBSERVED_AT = '2024-06-01T15:00:00.000Z';
+
+export class FileWeatherProvider implements WeatherProvider {
+  readonly name = 'file';
+  private fixture: Promise<WeatherFixture> | null = null;
+
+  constructor(private readonly path: string) {}
+
+  async fetchConditions({ course_id }: WeatherQuery): Promise<WeatherReading | null> {
+    try {
+      const fixture = await this.load();
+      const entry = (course_id && fixture.courses?.[course_id]) || fixture.default;
+      if (!entry || typeof entry.temperature !== 'number') return null;
+
+      const windDegrees = entry.wind_degrees ?? 0;
+      return {
+        temperature: entry.temperature,
+        wind_speed: entry.wind_speed ?? 0,
+        wind_direction: entry.wind_direction || toCompassPoint(windDegrees),
+        wind_degrees: windDegrees,
+        humidity: entry.humidity ?? 50,
+        pressure: entry.pressure ?? 1013,
+        altitude_ft: entry.altitude_ft,
+        conditions: entry.conditions || 'clear',
+        observed_at: entry.observed_at || FIXTURE_OBSERVED_AT,
+        source: this.name
+      };
+
+    } catch (error) {
+      console.error('Error reading weather fixture:', error);
+      return null;
+    }
+  }
+
+  // Private helper methods
+
+  private load(): Promise<WeatherFixture> {
+    this.fixture ||= readFile(this.path, 'utf-8').then(text => JSON.parse(text) as WeatherFixture);
+    return this.fixture;
+  }
+}
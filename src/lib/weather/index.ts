@@ -0,0 +1,22 @@
+/**
+ * Weather - live course conditions from a pluggable provider
+ */
+
+import { WeatherService } from './service';
+
+export { WeatherService } from './service';
+export { OpenMeteoProvider, toCompassPoint } from './providers';
+export { WEATHER_CACHE_TTL_MS, COMPASS_POINTS } from './types';
+
+// Export convenience functions
+export const getWeather = WeatherService.getConditions.bind(WeatherService);
+export const setWeatherProvider = WeatherService.setProvider.bind(WeatherService);
+
+// Export types for external use
+export type {
+  SkyCondition,
+  WeatherQuery,
+  WeatherReading,
+  RoundWeather,
+  WeatherProvider
+} from './types';
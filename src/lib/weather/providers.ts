@@ -0,0 +1,85 @@
+/**
+ * Weather providers - Open-Meteo current conditions (no API key required)
+ */
+
+import type { SkyCondition, WeatherProvider, WeatherQuery, WeatherReading } from './types';
+import { COMPASS_POINTS, WINDY_THRESHOLD_MPH } from './types';
+
+const OPEN_METEO_URL = 'https://api.open-meteo.com/v1/forecast';
+const OPEN_METEO_FIELDS = [
+  'temperature_2m',
+  'relative_humidity_2m',
+  'surface_pressure',
+  'wind_speed_10m',
+  'wind_direction_10m',
+  'weather_code'
+];
+
+export class OpenMeteoProvider implements WeatherProvider {
+  readonly name = 'open-meteo';
+
+  constructor(private readonly timeoutMs = 5000) {}
+
+  async fetchConditions({ position }: WeatherQuery): Promise<WeatherReading | null> {
+    const params = new URLSearchParams({
+      latitude: position.lat.toFixed(4),
+      longitude: position.lng.toFixed(4),
+      current: OPEN_METEO_FIELDS.join(','),
+      temperature_unit: 'fahrenheit',
+      wind_speed_unit: 'mph'
+    });
+
+    try {
+      const response = await fetch(`${OPEN_METEO_URL}?${params}`, {
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+
+      if (!response.ok) {
+        console.error('Weather API error:', response.status);
+        return null;
+      }
+
+      const { current, elevation } = await response.json();
+      if (!current || typeof current.temperature_2m !== 'number') return null;
+
+      const windSpeed = Math.round(current.wind_speed_10m ?? 0);
+      const windDegrees = Math.round(current.wind_direction_10m ?? 0);
+
+      return {
+        temperature: Math.round(current.temperature_2m),
+        wind_speed: windSpeed,
+        wind_direction: toCompassPoint(windDegrees),
+        wind_degrees: windDegrees,
+        humidity: Math.round(current.relative_humidity_2m ?? 50),
+        pressure: Math.round(current.surface_pressure ?? 1013),
+        altitude_ft: typeof elevation === 'number' ? Math.round(elevation / 0.3048) : undefined,
+        conditions: skyFromWeatherCode(current.weather_code, windSpeed),
+        observed_at: current.time ? new Date(`${current.time}Z`).toISOString() : new Date().toISOString(),
+        source: this.name
+      };
+
+    } catch (error) {
+      console.error('Error fetching weather:', error);
+      return null;
+    }
+  }
+}
+
+/**
+ * Nearest of the eight compass points, e.g. 300° -> "NW"
+ */
+export function toCompassPoint(degrees: number): string {
+  const index = Math.round((((degrees % 360) + 360) % 360) / 45) % COMPASS_POINTS.length;
+  return COMPASS_POINTS[index];
+}
+
+/**
+ * WMO weather interpretation codes, collapsed to the round setup conditions
+ */
+export function skyFromWeatherCode(code: number | undefined, windSpeed: number): SkyCondition {
+  if (windSpeed >= WINDY_THRESHOLD_MPH) return 'windy';
+  if (code === undefined || code <= 1) return 'clear';
+  if (code === 2) return 'partly_cloudy';
+  if ((code >= 51 && code <= 67) || (code >= 80 && code <= 82) || code >= 95) return 'light_rain';
+  return 'cloudy';
+}
@@ -0,0 +1,143 @@
+/**
+ * Weather service - pluggable provider with a per-course cache, converted for rounds and the caddy
+ */
+
+import type { WeatherContext, WeatherCondition } from '$lib/caddy/types';
+import { calculateBearing, type GPSPosition } from '$lib/utils/gps';
+import type { RoundWeather, SkyCondition, WeatherProvider, WeatherQuery, WeatherReading } from './types';
+import { WEATHER_CACHE_TTL_MS, HEAD_TAIL_WIND_DEGREES } from './types';
+import { OpenMeteoProvider } from './providers';
+
+interface CachedReading {
+  reading: WeatherReading;
+  expires_at: number;
+}
+
+const CADDY_CONDITIONS: Record<SkyCondition, WeatherCondition> = {
+  clear: 'sunny',
+  partly_cloudy: 'cloudy',
+  cloudy: 'cloudy',
+  light_rain: 'rain',
+  windy: 'wind'
+};
+
+export class WeatherService {
+  private static provider: WeatherProvider = new OpenMeteoProvider();
+  private static cache = new Map<string, CachedReading>();
+
+  /**
+   * Swap the conditions source (e.g. the file provider in tests); clears cached readings
+   */
+  static setProvider(provider: WeatherProvider): void {
+    this.provider = provider;
+    this.cache.clear();
+  }
+
+  static getProvider(): WeatherProvider {
+    return this.provider;
+  }
+
+  /**
+   * Current conditions, reused per course for 15 minutes. A stale reading is better than none
+   * when the provider fails; null only when there's nothing to fall back on.
+   */
+  static async getConditions(query: WeatherQuery, now = Date.now()): Promise<WeatherReading | null> {
+    const key = this.cacheKey(query);
+    const cached = this.cache.get(key);
+    if (cached && cached.expires_at > now) return cached.reading;
+
+    const reading = await this.provider.fetchConditions(query);
+    if (!reading) return cached?.reading ?? null;
+
+    this.cache.set(key, { reading, expires_at: now + WEATHER_CACHE_TTL_MS });
+    return reading;
+  }
+
+  static clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Caddy weather context. With the shot line, wind is described relative to it
+   * ("headwind", "crosswind left-to-right"), which is what the distance adjustments read.
+   */
+  static toWeatherContext(reading: WeatherReading, from?: GPSPosition, to?: GPSPosition): WeatherContext {
+    return {
+      temperature: reading.temperature,
+      wind_speed: reading.wind_speed,
+      wind_direction: from && to
+        ? this.relativeWind(reading.wind_degrees, calculateBearing(from, to))
+        : `from ${reading.wind_direction}`,
+      wind_degrees: reading.wind_degrees,
+      humidity: reading.humidity,
+      pressure: reading.pressure,
+      altitude_ft: reading.altitude_ft,
+      conditions: CADDY_CONDITIONS[reading.conditions]
+    };
+  }
+
+  /**
+   * Caddy weather context from the conditions stored on a round; null without temperature and wind
+   */
+  static roundWeatherContext(weather: RoundWeather, from?: GPSPosition, to?: GPSPosition): WeatherContext | null {
+    if (typeof weather.temperature !== 'number' || typeof weather.wind_speed !== 'number') return null;
+
+    const wind_direction = from && to && typeof weather.wind_degrees === 'number'
+      ? this.relativeWind(weather.wind_degrees, calculateBearing(from, to))
+      : weather.wind_direction ? `from ${weather.wind_direction}` : 'calm';
+
+    return {
+      temperature: weather.temperature,
+      wind_speed: weather.wind_speed,
+      wind_direction,
+      wind_degrees: weather.wind_degrees,
+      humidity: weather.humidity,
+      pressure: weather.pressure,
+      altitude_ft: weather.altitude_ft,
+      conditions: CADDY_CONDITIONS[weather.conditions as SkyCondition] ?? 'sunny'
+    };
+  }
+
+  /**
+   * Round weather: anything the player entered wins over the reading
+   */
+  static toRoundWeather(reading: WeatherReading | null, entered?: RoundWeather | null): RoundWeather | null {
+    const manual = Object.fromEntries(
+      Object.entries(entered || {}).filter(([, value]) => value !== undefined && value !== null && value !== '')
+    ) as RoundWeather;
+
+    if (!reading) return Object.keys(manual).length > 0 ? manual : null;
+
+    return {
+      temperature: reading.temperature,
+      wind_speed: reading.wind_speed,
+      wind_direction: reading.wind_direction,
+      wind_degrees: reading.wind_degrees,
+      humidity: reading.humidity,
+      pressure: reading.pressure,
+      altitude_ft: reading.altitude_ft,
+      conditions: reading.conditions,
+      observed_at: reading.observed_at,
+      source: reading.source,
+      ...manual
+    };
+  }
+
+  // Private helper methods
+
+  private static cacheKey(query: WeatherQuery): string {
+    // About 1km of latitude when there's no course to key on
+    return query.course_id || `${query.position.lat.toFixed(2)},${query.position.lng.toFixed(2)}`;
+  }
+
+  /**
+   * Wind blowing from where the player is facing is a headwind
+   */
+  private static relativeWind(windFrom: number, shotBearing: number): string {
+    const angle = ((windFrom - shotBearing + 540) % 360) - 180;
+
+    if (Math.abs(angle) <= HEAD_TAIL_WIND_DEGREES) return 'headwind';
+    if (Math.abs(angle) >= 180 - HEAD_TAIL_WIND_DEGREES) return 'tailwind';
+    return angle > 0 ? 'crosswind right-to-left' : 'crosswind left-to-right';
+  }
+}
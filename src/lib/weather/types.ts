@@ -0,0 +1,59 @@
+/**
+ * Weather types - live course conditions for rounds and caddy advice
+ */
+
+import type { GPSPosition } from '$lib/utils/gps';
+
+// Same vocabulary as the round setup form
+export type SkyCondition = 'clear' | 'partly_cloudy' | 'cloudy' | 'light_rain' | 'windy';
+
+export interface WeatherQuery {
+  course_id?: string;          // cache key; nearby shots on one course share a reading
+  position: GPSPosition;
+}
+
+export interface WeatherReading {
+  temperature: number;         // °F
+  wind_speed: number;          // mph
+  wind_direction: string;      // compass point the wind blows from, e.g. "NW"
+  wind_degrees: number;        // degrees the wind blows from, 0 = north
+  humidity: number;            // relative humidity, %
+  pressure: number;            // surface pressure, hPa
+  altitude_ft?: number;        // elevation the reading is for
+  conditions: SkyCondition;
+  observed_at: string;
+  source: string;              // provider name
+}
+
+// Conditions as stored on pure.rounds.weather
+export interface RoundWeather {
+  temperature?: number;
+  wind_speed?: number;
+  wind_direction?: string;
+  wind_degrees?: number;
+  humidity?: number;
+  pressure?: number;
+  altitude_ft?: number;
+  conditions?: string;
+  observed_at?: string;
+  source?: string;
+}
+
+/**
+ * A source of current conditions. Returns null when the source can't answer.
+ */
+export interface WeatherProvider {
+  readonly name: string;
+  fetchConditions(query: WeatherQuery): Promise<WeatherReading | null>;
+}
+
+// Readings are reused per course for this long
+export const WEATHER_CACHE_TTL_MS = 15 * 60 * 1000;
+
+export const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+// Wind within this many degrees of the shot line is a head or tail wind; otherwise a crosswind
+export const HEAD_TAIL_WIND_DEGREES = 45;
+
+// Sustained wind (mph) at which conditions read as windy whatever the sky
+export const WINDY_THRESHOLD_MPH = 20;
@@ -0,0 +1,201 @@
+import { json } from '@sveltejs/kit';
+import { supabase } from '$lib/supabase';
+import { createClient } from '@supabase/supabase-js';
+import { PUBLIC_SUPABASE_URL, PUBLIC_SUPABASE_ANON_KEY } from '$env/static/public';
+import type { RequestHandler } from '@sveltejs/kit';
+import { BagManager, MAX_BAG_CLUBS, type BagClub } from '$lib/caddy';
+
+const BAG_COLUMNS = 'id, name, type, loft, brand, model, carry_yards, total_yards, position';
+
+/**
+ * Verify the bearer token and build a client that runs queries as the user (RLS decides access)
+ */
+async function authenticate(request: Request) {
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return {
+      error: json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    };
+  }
+
+  const token = authHeader.split(' ')[1];
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return {
+      error: json(
+        { error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
+        { status: 401 }
+      )
+    };
+  }
+
+  const userClient = createClient(PUBLIC_SUPABASE_URL, PUBLIC_SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: `Bearer ${token}` } }
+  });
+
+  return { user, userClient };
+}
+
+function toRow(club: BagClub, userId: string, position: number) {
+  return {
+    user_id: userId,
+    name: club.name.trim(),
+    type: club.type,
+    loft: club.loft,
+    brand: club.brand || null,
+    model: club.model || null,
+    carry_yards: club.carry_yards ?? null,
+    total_yards: club.total_yards ?? null,
+    position,
+    updated_at: new Date().toISOString()
+  };
+}
+
+// GET the user's bag, with the distances the caddy will use for each club
+export const GET: RequestHandler = async ({ request }) => {
+  try {
+    const auth = await authenticate(request);
+    if (auth.error) return auth.error;
+
+    const { data: clubs, error } = await auth.userClient
+      .from('pure.user_clubs')
+      .select(BAG_COLUMNS)
+      .eq('user_id', auth.user.id)
+      .order('position', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching bag:', error);
+      return json(
+        { error: { code: 'DATABASE_ERROR', message: 'Failed to fetch bag' } },
+        { status: 500 }
+      );
+    }
+
+    return json({
+      clubs: clubs || [],
+      caddy_distances: await BagManager.loadBag(auth.user.id),
+      max_clubs: MAX_BAG_CLUBS
+    });
+
+  } catch (error) {
+    console.error('Error in get bag endpoint:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch bag' } },
+      { status: 500 }
+    );
+  }
+};
+
+// POST - Add one club
+export const POST: RequestHandler = async ({ request }) => {
+  try {
+    const auth = await authenticate(request);
+    if (auth.error) return auth.error;
+
+    const club: BagClub = await request.json();
+    const errors = BagManager.validateClub(club);
+    if (errors.length > 0) {
+      return json(
+        { error: { code: 'INVALID_CLUB', message: errors.join('; ') } },
+        { status: 400 }
+      );
+    }
+
+    const { count } = await auth.userClient
+      .from('pure.user_clubs')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', auth.user.id);
+
+    if ((count || 0) >= MAX_BAG_CLUBS) {
+      return json(
+        { error: { code: 'BAG_FULL', message: `A bag can hold at most ${MAX_BAG_CLUBS} clubs` } },
+        { status: 409 }
+      );
+    }
+
+    const { data: created, error } = await auth.userClient
+      .from('pure.user_clubs')
+      .insert(toRow(club, auth.user.id, club.position ?? count ?? 0))
+      .select(BAG_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error adding club:', error);
+      const duplicate = error.code === '23505';
+      return json(
+        {
+          error: duplicate
+            ? { code: 'DUPLICATE_CLUB', message: `${club.name} is already in your bag` }
+            : { code: 'DATABASE_ERROR', message: 'Failed to add club' }
+        },
+        { status: duplicate ? 409 : 500 }
+      );
+    }
+
+    return json({ club: created }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error in add club endpoint:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to add club' } },
+      { status: 500 }
+    );
+  }
+};
+
+// PUT - Replace the whole bag (order is kept as given)
+export const PUT: RequestHandler = async ({ request }) => {
+  try {
+    const auth = await authenticate(request);
+    if (auth.error) return auth.error;
+
+    const body: { clubs: BagClub[] } = await request.json();
+    if (!Array.isArray(body?.clubs)) {
+      return json(
+        { error: { code: 'INVALID_BAG', message: 'clubs must be an array' } },
+        { status: 400 }
+      );
+    }
+
+    const errors = BagManager.validateBag(body.clubs);
+    if (errors.length > 0) {
+      return json(
+        { error: { code: 'INVALID_BAG', message: errors.join('; ') } },
+        { status: 400 }
+      );
+    }
+
+    // Cleared and refilled in one transaction so a failed save never leaves an empty bag
+    const { data, error: replaceError } = await auth.userClient
+      .rpc('replace_user_bag', {
+        p_clubs: body.clubs.map((club, i) => toRow(club, auth.user.id, i))
+      })
+      .select(BAG_COLUMNS);
+
+    if (replaceError) {
+      console.error('Error saving bag:', replaceError);
+      return json(
+        { error: { code: 'DATABASE_ERROR', message: 'Failed to save bag' } },
+        { status: 500 }
+      );
+    }
+    const clubs: any[] = data || [];
+
+    return json({
+      clubs: clubs.sort((a, b) => a.position - b.position),
+      caddy_distances: await BagManager.loadBag(auth.user.id),
+      max_clubs: MAX_BAG_CLUBS
+    });
+
+  } catch (error) {
+    console.error('Error in replace bag endpoint:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to save bag' } },
+      { status: 500 }
+    );
+  }
+};
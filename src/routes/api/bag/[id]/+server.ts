@@ -0,0 +1,151 @@
+import { json } from '@sveltejs/kit';
+import { supabase } from '$lib/supabase';
+import { createClient } from '@supabase/supabase-js';
+import { PUBLIC_SUPABASE_URL, PUBLIC_SUPABASE_ANON_KEY } from '$env/static/public';
+import type { RequestHandler } from '@sveltejs/kit';
+import { BagManager, type BagClub } from '$lib/caddy';
+
+const BAG_COLUMNS = 'id, name, type, loft, brand, model, carry_yards, total_yards, position';
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Verify the bearer token and build a client that runs queries as the user (RLS decides access)
+ */
+async function authenticate(request: Request) {
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return {
+      error: json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    };
+  }
+
+  const token = authHeader.split(' ')[1];
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return {
+      error: json(
+        { error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
+        { status: 401 }
+      )
+    };
+  }
+
+  const userClient = createClient(PUBLIC_SUPABASE_URL, PUBLIC_SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: `Bearer ${token}` } }
+  });
+
+  return { user, userClient };
+}
+
+function invalidId() {
+  return json(
+    { error: { code: 'INVALID_CLUB_ID', message: 'Club ID must be a valid UUID' } },
+    { status: 400 }
+  );
+}
+
+// PUT - Update one club
+export const PUT: RequestHandler = async ({ params, request }) => {
+  try {
+    if (!params.id || !uuidRegex.test(params.id)) return invalidId();
+
+    const auth = await authenticate(request);
+    if (auth.error) return auth.error;
+
+    const { data: existing } = await auth.userClient
+      .from('pure.user_clubs')
+      .select(BAG_COLUMNS)
+      .eq('id', params.id)
+      .eq('user_id', auth.user.id)
+      .single();
+
+    if (!existing) {
+      return json(
+        { error: { code: 'CLUB_NOT_FOUND', message: 'Club not found' } },
+        { status: 404 }
+      );
+    }
+
+    const updates: Partial<BagClub> = await request.json();
+    const merged = { ...existing, ...updates };
+    const errors = BagManager.validateClub(merged);
+    if (errors.length > 0) {
+      return json(
+        { error: { code: 'INVALID_CLUB', message: errors.join('; ') } },
+        { status: 400 }
+      );
+    }
+
+    const { data: updated, error } = await auth.userClient
+      .from('pure.user_clubs')
+      .update({
+        name: merged.name.trim(),
+        type: merged.type,
+        loft: merged.loft,
+        brand: merged.brand || null,
+        model: merged.model || null,
+        carry_yards: merged.carry_yards ?? null,
+        total_yards: merged.total_yards ?? null,
+        position: merged.position,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', params.id)
+      .eq('user_id', auth.user.id)
+      .select(BAG_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error updating club:', error);
+      return json(
+        { error: { code: 'DATABASE_ERROR', message: 'Failed to update club' } },
+        { status: 500 }
+      );
+    }
+
+    return json({ club: updated });
+
+  } catch (error) {
+    console.error('Error in update club endpoint:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to update club' } },
+      { status: 500 }
+    );
+  }
+};
+
+// DELETE - Remove one club
+export const DELETE: RequestHandler = async ({ params, request }) => {
+  try {
+    if (!params.id || !uuidRegex.test(params.id)) return invalidId();
+
+    const auth = await authenticate(request);
+    if (auth.error) return auth.error;
+
+    const { error } = await auth.userClient
+      .from('pure.user_clubs')
+      .delete()
+      .eq('id', params.id)
+      .eq('user_id', auth.user.id);
+
+    if (error) {
+      console.error('Error deleting club:', error);
+      return json(
+        { error: { code: 'DATABASE_ERROR', message: 'Failed to remove club' } },
+        { status: 500 }
+      );
+    }
+
+    return json({ message: 'Club removed' });
+
+  } catch (error) {
+    console.error('Error in delete club endpoint:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to remove club' } },
+      { status: 500 }
+    );
+  }
+};
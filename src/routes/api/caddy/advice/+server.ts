@@ -0,0 +1,178 @@
+import { json } from '@sveltejs/kit';
+import { supabase } from '$lib/supabase';
+import type { RequestHandler } from '@sveltejs/kit';
+import { CaddySystem, CaddyQuota, SLOPE_FALL_DEGREES, MAX_GREEN_SLOPE_PERCENT, PIN_DEPTH_YARDS, type CaddyRequest } from '$lib/caddy';
+
+type AdviceRequest = Omit<CaddyRequest, 'user_id' | 'bag'>;
+
+const LIE_TYPES = ['tee', 'fairway', 'rough', 'sand', 'greenside', 'green'];
+const LIE_QUALITIES = ['good', 'tight', 'sitting_down', 'buried'];
+
+// HTTP status for each caddy error code
+const ERROR_STATUS: Record<string, number> = {
+  INSUFFICIENT_DATA: 422,
+  WEATHER_UNAVAILABLE: 503,
+  PROCESSING_ERROR: 500,
+  QUOTA_EXCEEDED: 402
+};
+
+function isPosition(value: any): boolean {
+  return !!value && typeof value === 'object' &&
+    typeof value.lat === 'number' && Math.abs(value.lat) <= 90 &&
+    typeof value.lng === 'number' && Math.abs(value.lng) <= 180;
+}
+
+function validateAdviceRequest(body: any): string | null {
+  const shot = body?.shot_context;
+  if (!shot || typeof shot !== 'object') {
+    return 'shot_context is required';
+  }
+  if (typeof shot.distance_to_target !== 'number' || shot.distance_to_target <= 0) {
+    return 'shot_context.distance_to_target must be a positive number';
+  }
+  if (!LIE_TYPES.includes(shot.lie_type)) {
+    return 'shot_context.lie_type must be one of: ' + LIE_TYPES.join(', ');
+  }
+
+  if (shot.slope_percent !== undefined && (typeof shot.slope_percent !== 'number' || shot.slope_percent < 0 || shot.slope_percent > MAX_GREEN_SLOPE_PERCENT)) {
+    return `shot_context.slope_percent must be between 0 and ${MAX_GREEN_SLOPE_PERCENT}`;
+  }
+  if (shot.slope_direction !== undefined && !(typeof shot.slope_direction === 'string' && Object.hasOwn(SLOPE_FALL_DEGREES, shot.slope_direction))) {
+    return 'shot_context.slope_direction must be one of: ' + Object.keys(SLOPE_FALL_DEGREES).join(', ');
+  }
+
+  if (shot.ball_position !== undefined && !isPosition(shot.ball_position)) {
+    return 'shot_context.ball_position must have lat and lng';
+  }
+  if (shot.target_position !== undefined && !isPosition(shot.target_position)) {
+    return 'shot_context.target_position must have lat and lng';
+  }
+
+  if (shot.lie_quality !== undefined && !LIE_QUALITIES.includes(shot.lie_quality)) {
+    return 'shot_context.lie_quality must be one of: ' + LIE_QUALITIES.join(', ');
+  }
+  if (shot.pin_position !== undefined && !(typeof shot.pin_position === 'string' && Object.hasOwn(PIN_DEPTH_YARDS, shot.pin_position))) {
+    return 'shot_context.pin_position must be one of: ' + Object.keys(PIN_DEPTH_YARDS).join(', ');
+  }
+  if (shot.carry_to_green !== undefined && (typeof shot.carry_to_green !== 'number' || shot.carry_to_green < 0)) {
+    return 'shot_context.carry_to_green must be a non-negative number';
+  }
+
+  // The free-hole allowance is counted per round and hole, so advice must say which
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (typeof body.round_id !== 'string' || !uuidRegex.test(body.round_id)) {
+    return 'round_id must be a UUID';
+  }
+
+  const hole = body.course_context?.hole_number;
+  if (typeof hole !== 'number' || !Number.isInteger(hole) || hole < 1 || hole > 18) {
+    return 'course_context.hole_number must be between 1 and 18';
+  }
+
+  if (body.mode !== undefined && body.mode !== 'training' && body.mode !== 'quick') {
+    return "mode must be 'training' or 'quick'";
+  }
+
+  return null;
+}
+
+// POST caddy advice for a shot, counted against the player's plan
+export const POST: RequestHandler = async ({ request }) => {
+  try {
+    // Validate authentication
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const token = authHeader.split(' ')[1];
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return json(
+        { error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
+        { status: 401 }
+      );
+    }
+
+    const body: AdviceRequest = await request.json().catch(() => null);
+    const invalid = validateAdviceRequest(body);
+    if (invalid) {
+      return json(
+        { error: { code: 'INVALID_REQUEST', message: invalid } },
+        { status: 400 }
+      );
+    }
+
+    // Advice must be for one of the player's own rounds
+    const { data: round, error: roundError } = await supabase
+      .from('pure.rounds')
+      .select('id')
+      .eq('id', body.round_id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (roundError || !round) {
+      return json(
+        { error: { code: 'ROUND_NOT_FOUND', message: 'Round not found' } },
+        { status: 404 }
+      );
+    }
+
+    // Enforce the plan's free holes per round and daily allowance
+    const holeNumber = body.course_context!.hole_number;
+    const { status, usage } = await CaddySystem.checkQuota(user.id, body.round_id, holeNumber);
+
+    if (!status.canGetAdvice) {
+      await CaddyQuota.recordBlocked(user.id, body.round_id, usage);
+      return json(
+        { error: CaddySystem.quotaError(status), quota: status },
+        { status: ERROR_STATUS.QUOTA_EXCEEDED }
+      );
+    }
+
+    const result = await CaddySystem.getAdvice({
+      ...body,
+      mode: body.mode || 'quick',
+      user_id: user.id
+    });
+
+    if ('code' in result) {
+      return json(
+        { error: result },
+        { status: ERROR_STATUS[result.code] || 500 }
+      );
+    }
+
+    // Only advice actually given counts against the allowance
+    const remaining = CaddySystem.checkQuotaStatus(
+      {
+        ...usage,
+        advice_today: usage.advice_today + 1,
+        holes_advised: usage.holes_advised.includes(holeNumber)
+          ? usage.holes_advised
+          : [...usage.holes_advised, holeNumber],
+        hole_number: holeNumber
+      },
+      status.plan
+    );
+    await CaddyQuota.recordUsage(
+      user.id,
+      body.round_id,
+      usage,
+      remaining.advice_remaining === 0 || remaining.holes_remaining === 0
+    );
+
+    return json({ ...result, quota: remaining });
+
+  } catch (error) {
+    console.error('Error getting caddy advice:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to get caddy advice' } },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,111 @@
+import { json } from '@sveltejs/kit';
+import { supabase } from '$lib/supabase';
+import type { RequestHandler } from '@sveltejs/kit';
+import { OPENAI_API_KEY } from '$env/static/private';
+import OpenAI from 'openai';
+import { chooseModel } from '$lib/utils/ai-model';
+import { SLOPE_FALL_DEGREES, MAX_GREEN_SLOPE_PERCENT, type SlopeDirection } from '$lib/caddy';
+
+const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
+
+const MAX_FILE_SIZE = 4 * 1024 * 1024; // 4MB
+const ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const GREEN_READ_PROMPT = `This photo was taken from behind a golf ball on the putting green, looking at the hole.
+Estimate how the green slopes between the ball and the hole.
+Reply with JSON only: {"slope_percent": number, "slope_direction": string, "confidence": number, "notes": string}
+- slope_percent: grade of the green around the hole, 0 to ${MAX_GREEN_SLOPE_PERCENT} (most greens are 1 to 3)
+- slope_direction: which way the green falls as seen from the ball, one of ${Object.keys(SLOPE_FALL_DEGREES).join(', ')}
+- confidence: 0 to 1, how sure you are from this photo
+- notes: one short sentence on what you based the read on`;
+
+// POST a photo of the green; returns an estimated slope for the putting read
+export const POST: RequestHandler = async ({ request }) => {
+  try {
+    // Validate authentication
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const token = authHeader.split(' ')[1];
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return json(
+        { error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
+        { status: 401 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File) || !ALLOWED_TYPES.includes(file.type) || file.size > MAX_FILE_SIZE) {
+      return json(
+        { error: { code: 'INVALID_PHOTO', message: 'A JPEG, PNG or WebP photo under 4MB is required' } },
+        { status: 400 }
+      );
+    }
+
+    const image = Buffer.from(await file.arrayBuffer()).toString('base64');
+
+    const completion = await openai.chat.completions.create({
+      model: chooseModel(2500), // vision needs the larger model
+      messages: [
+        {
+          role: 'system',
+          content: 'You are an experienced tour caddy reading putting greens from photos. Be conservative; say so when the photo shows little.'
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: GREEN_READ_PROMPT },
+            { type: 'image_url', image_url: { url: `data:${file.type};base64,${image}` } }
+          ]
+        }
+      ],
+      response_format: { type: 'json_object' },
+      max_tokens: 200,
+      temperature: 0.2
+    });
+
+    // Anything but a JSON object (bad JSON, null, a bare string) counts as no read
+    let reply: unknown = null;
+    try {
+      reply = JSON.parse(completion.choices[0]?.message?.content || '{}');
+    } catch {
+      reply = null;
+    }
+    const parsed: Record<string, any> = reply && typeof reply === 'object' && !Array.isArray(reply) ? reply : {};
+    const slopePercent = Number(parsed.slope_percent);
+
+    if (
+      !Number.isFinite(slopePercent) ||
+      typeof parsed.slope_direction !== 'string' ||
+      !Object.hasOwn(SLOPE_FALL_DEGREES, parsed.slope_direction)
+    ) {
+      return json(
+        { error: { code: 'READ_FAILED', message: 'Could not read the slope from this photo; enter it by hand' } },
+        { status: 422 }
+      );
+    }
+
+    return json({
+      slope_percent: Math.round(Math.min(MAX_GREEN_SLOPE_PERCENT, Math.max(0, slopePercent)) * 2) / 2,
+      slope_direction: parsed.slope_direction as SlopeDirection,
+      confidence: Math.min(1, Math.max(0, Number(parsed.confidence) || 0)),
+      notes: typeof parsed.notes === 'string' ? parsed.notes : undefined
+    });
+
+  } catch (error) {
+    console.error('Error reading green from photo:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to read green' } },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,37 @@
+import { json } from '@sveltejs/kit';
+import { supabase } from '$lib/supabase';
+import type { RequestHandler } from '@sveltejs/kit';
+import { getCaddyReportCard } from '$lib/caddy';
+
+// GET the caddy report card: how often advice was followed and how it worked out
+export const GET: RequestHandler = async ({ request }) => {
+  try {
+    // Validate authentication
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const token = authHeader.split(' ')[1];
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return json(
+        { error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
+        { status: 401 }
+      );
+    }
+
+    return json({ report_card: await getCaddyReportCard(user.id) });
+
+  } catch (error) {
+    console.error('Error building caddy report card:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to build caddy report card' } },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,165 @@
+import { json } from '@sveltejs/kit';
+import { supabase } from '$lib/supabase';
+import type { RequestHandler } from '@sveltejs/kit';
+import {
+  CorrectionApplier,
+  CorrectionValidator,
+  CourseCorrectionStore,
+  type CorrectableHole,
+  type CorrectionStatus
+} from '$lib/course-corrections';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const statuses: CorrectionStatus[] = ['pending', 'approved', 'rejected', 'superseded'];
+
+// GET a course's corrections (?status= to filter) and its approved change history.
+// Who submitted and reviewed each change is only shown to reviewers; players see it on their own.
+export const GET: RequestHandler = async ({ params, url, request }) => {
+  try {
+    // Validate authentication
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const token = authHeader.split(' ')[1];
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return json(
+        { error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
+        { status: 401 }
+      );
+    }
+
+    if (!params.id || !uuidRegex.test(params.id)) {
+      return json(
+        { error: { code: 'INVALID_COURSE_ID', message: 'Course ID must be a valid UUID' } },
+        { status: 400 }
+      );
+    }
+
+    const status = url.searchParams.get('status') as CorrectionStatus | null;
+    if (status && !statuses.includes(status)) {
+      return json(
+        { error: { code: 'INVALID_STATUS', message: `status must be one of: ${statuses.join(', ')}` } },
+        { status: 400 }
+      );
+    }
+
+    const [corrections, versions, reviewer] = await Promise.all([
+      CourseCorrectionStore.listForCourse(params.id, status ?? undefined),
+      CourseCorrectionStore.history(params.id),
+      CourseCorrectionStore.isReviewer(user.id)
+    ]);
+
+    if (reviewer) {
+      return json({ corrections, versions });
+    }
+
+    return json({
+      corrections: corrections.map(({ user_id, reviewed_by, ...rest }) =>
+        user_id === user.id ? { ...rest, user_id, reviewed_by } : rest
+      ),
+      versions: versions.map(({ approved_by, ...rest }) => rest)
+    });
+
+  } catch (error) {
+    console.error('Error fetching course corrections:', error);
+    return json(
+      { error: { code: 'FETCH_FAILED', message: 'Failed to fetch course corrections' } },
+      { status: 500 }
+    );
+  }
+};
+
+// POST a correction to a hole's par, handicap, yardages or hazards, or the day's pin position
+export const POST: RequestHandler = async ({ params, request }) => {
+  try {
+    // Validate authentication
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const token = authHeader.split(' ')[1];
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return json(
+        { error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
+        { status: 401 }
+      );
+    }
+
+    if (!params.id || !uuidRegex.test(params.id)) {
+      return json(
+        { error: { code: 'INVALID_COURSE_ID', message: 'Course ID must be a valid UUID' } },
+        { status: 400 }
+      );
+    }
+
+    const { data: holes, error: holesError } = await supabase
+      .from('pure.holes')
+      .select('hole_number, par, handicap, yardages, hazards')
+      .eq('course_id', params.id);
+
+    if (holesError || !holes || holes.length === 0) {
+      return json(
+        { error: { code: 'COURSE_NOT_FOUND', message: 'Course not found or has no holes' } },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const { correction, errors } = CorrectionValidator.validate(
+      body,
+      Math.max(...holes.map(h => h.hole_number as number))
+    );
+
+    if (!correction) {
+      return json(
+        { error: { code: 'VALIDATION_ERROR', message: 'Invalid correction', details: errors } },
+        { status: 400 }
+      );
+    }
+
+    const hole = (holes as CorrectableHole[]).find(h => h.hole_number === correction.hole_number);
+    if (!hole) {
+      return json(
+        { error: { code: 'HOLE_NOT_FOUND', message: `Hole ${correction.hole_number} isn't on this course` } },
+        { status: 404 }
+      );
+    }
+
+    if (CorrectionApplier.matchesCurrent(hole, correction.field, correction.value)) {
+      return json(
+        { error: { code: 'NO_CHANGE', message: `Hole ${hole.hole_number} already has that ${correction.field}` } },
+        { status: 409 }
+      );
+    }
+
+    const saved = await CourseCorrectionStore.submit(params.id, user.id, correction, hole);
+    if (!saved) {
+      return json(
+        { error: { code: 'SUBMIT_FAILED', message: 'Failed to submit correction' } },
+        { status: 500 }
+      );
+    }
+
+    return json({ correction: saved }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error submitting course correction:', error);
+    return json(
+      { error: { code: 'SUBMIT_FAILED', message: 'Failed to submit correction' } },
+      { status: 500 }
+    );
+  }
+};
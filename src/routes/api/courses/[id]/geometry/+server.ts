@@ -0,0 +1,158 @@
+import { json } from '@sveltejs/kit';
+import { supabase } from '$lib/supabase';
+import type { RequestHandler } from '@sveltejs/kit';
+import { GeoJsonImporter, HoleGeometryStore, HoleGeometryValidator, type HoleGeometry } from '$lib/hole-geometry';
+import { IMPORT_ID_PREFIX } from '$lib/course-data';
+import {
+  CORRECTION_HAZARD_TYPES,
+  CorrectionApplier,
+  CorrectionValidator,
+  CourseCorrectionStore,
+  type CorrectableHole,
+  type CourseCorrection
+} from '$lib/course-corrections';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// GET the mapped geometry for every hole on a course
+export const GET: RequestHandler = async ({ params }) => {
+  try {
+    if (!params.id || !uuidRegex.test(params.id)) {
+      return json(
+        { error: { code: 'INVALID_COURSE_ID', message: 'Course ID must be a valid UUID' } },
+        { status: 400 }
+      );
+    }
+
+    const holes = await HoleGeometryStore.loadCourse(params.id);
+    return json({ holes });
+
+  } catch (error) {
+    console.error('Error fetching course geometry:', error);
+    return json(
+      { error: { code: 'FETCH_FAILED', message: 'Failed to fetch course geometry' } },
+      { status: 500 }
+    );
+  }
+};
+
+/**
+ * Queue each mapped hole's hazards as a hazard correction, the same review path players use
+ */
+async function submitHazardCorrections(courseId: string, userId: string, mapped: HoleGeometry[]): Promise<CourseCorrection[]> {
+  const { data: holes, error } = await supabase
+    .from('pure.holes')
+    .select('hole_number, par, handicap, yardages, hazards')
+    .eq('course_id', courseId);
+
+  if (error || !holes || holes.length === 0) return [];
+
+  const lastHole = Math.max(...holes.map(h => h.hole_number as number));
+  const submitted: CourseCorrection[] = [];
+
+  for (const geometry of mapped) {
+    const hole = (holes as CorrectableHole[]).find(h => h.hole_number === geometry.hole_number);
+    const hazards = geometry.hazards
+      .filter(h => (CORRECTION_HAZARD_TYPES as string[]).includes(h.type))
+      .map(h => ({ type: h.type, name: h.name, polygon: h.polygon }));
+    if (!hole || hazards.length === 0) continue;
+
+    const { correction } = CorrectionValidator.validate(
+      { hole_number: geometry.hole_number, field: 'hazards', value: hazards, note: 'Mapped from a GeoJSON course map' },
+      lastHole
+    );
+    if (!correction || CorrectionApplier.matchesCurrent(hole, correction.field, correction.value)) continue;
+
+    const saved = await CourseCorrectionStore.submit(courseId, userId, correction, hole);
+    if (saved) submitted.push(saved);
+  }
+
+  return submitted;
+}
+
+// POST a GeoJSON FeatureCollection mapping the course's holes; ?dry_run=true only validates.
+// Reviewers and whoever imported the course replace its map; anyone else's hazards go to review.
+export const POST: RequestHandler = async ({ params, request, url }) => {
+  try {
+    // Validate authentication
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const token = authHeader.split(' ')[1];
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return json(
+        { error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
+        { status: 401 }
+      );
+    }
+
+    if (!params.id || !uuidRegex.test(params.id)) {
+      return json(
+        { error: { code: 'INVALID_COURSE_ID', message: 'Course ID must be a valid UUID' } },
+        { status: 400 }
+      );
+    }
+
+    const { data: course, error: courseError } = await supabase
+      .from('pure.courses')
+      .select('id, source, external_id')
+      .eq('id', params.id)
+      .maybeSingle();
+
+    if (courseError || !course) {
+      return json(
+        { error: { code: 'COURSE_NOT_FOUND', message: 'Course not found' } },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const { holes, issues } = GeoJsonImporter.parse(body);
+
+    if (HoleGeometryValidator.hasErrors(issues)) {
+      return json(
+        { error: { code: 'INVALID_GEOMETRY', message: 'The GeoJSON has problems that need fixing before import' }, issues },
+        { status: 422 }
+      );
+    }
+
+    if (url.searchParams.get('dry_run') === 'true') {
+      return json({ holes, issues, saved: [], missing: [], failed: [] });
+    }
+
+    const importedByUser = course.source === 'import' &&
+      typeof course.external_id === 'string' &&
+      course.external_id.startsWith(`${IMPORT_ID_PREFIX}${user.id}:`);
+
+    if (!importedByUser && !(await CourseCorrectionStore.isReviewer(user.id))) {
+      const corrections = await submitHazardCorrections(params.id, user.id, holes);
+
+      if (corrections.length === 0) {
+        return json(
+          { error: { code: 'FORBIDDEN', message: "Only a reviewer or the course's importer can change its map; there were no hazard changes to send for review" }, issues },
+          { status: 403 }
+        );
+      }
+
+      return json({ corrections, issues }, { status: 202 });
+    }
+
+    const result = await HoleGeometryStore.save(params.id, holes);
+
+    return json({ ...result, issues });
+
+  } catch (error) {
+    console.error('Error importing course geometry:', error);
+    return json(
+      { error: { code: 'IMPORT_FAILED', message: 'Failed to import course geometry' } },
+      { status: 500 }
+    );
+  }
+};
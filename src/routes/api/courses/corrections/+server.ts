@@ -0,0 +1,53 @@
+import { json } from '@sveltejs/kit';
+import { supabase } from '$lib/supabase';
+import type { RequestHandler } from '@sveltejs/kit';
+import { CourseCorrectionStore } from '$lib/course-corrections';
+
+// GET the review queue: pending corrections across all courses, oldest first (reviewers only)
+export const GET: RequestHandler = async ({ request, url }) => {
+  try {
+    // Validate authentication
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const token = authHeader.split(' ')[1];
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return json(
+        { error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
+        { status: 401 }
+      );
+    }
+
+    if (!(await CourseCorrectionStore.isReviewer(user.id))) {
+      return json(
+        { error: { code: 'FORBIDDEN', message: 'Only course reviewers can see the review queue' } },
+        { status: 403 }
+      );
+    }
+
+    const limit = parseInt(url.searchParams.get('limit') || '50');
+    if (isNaN(limit) || limit < 1 || limit > 200) {
+      return json(
+        { error: { code: 'INVALID_LIMIT', message: 'limit must be between 1 and 200' } },
+        { status: 400 }
+      );
+    }
+
+    const corrections = await CourseCorrectionStore.queue(limit);
+    return json({ corrections, count: corrections.length });
+
+  } catch (error) {
+    console.error('Error fetching correction queue:', error);
+    return json(
+      { error: { code: 'FETCH_FAILED', message: 'Failed to fetch correction queue' } },
+      { status: 500 }
+    );
+  }
+};
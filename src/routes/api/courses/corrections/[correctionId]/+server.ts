@@ -0,0 +1,91 @@
+import { json } from '@sveltejs/kit';
+import { supabase } from '$lib/supabase';
+import type { RequestHandler } from '@sveltejs/kit';
+import { CourseCorrectionStore, type ReviewDecision } from '$lib/course-corrections';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const decisions: ReviewDecision[] = ['approve', 'reject'];
+
+// PATCH to approve or reject a pending correction (reviewers only); approval bumps the course's data version
+export const PATCH: RequestHandler = async ({ params, request }) => {
+  try {
+    // Validate authentication
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const token = authHeader.split(' ')[1];
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return json(
+        { error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
+        { status: 401 }
+      );
+    }
+
+    if (!(await CourseCorrectionStore.isReviewer(user.id))) {
+      return json(
+        { error: { code: 'FORBIDDEN', message: 'Only course reviewers can review corrections' } },
+        { status: 403 }
+      );
+    }
+
+    if (!params.correctionId || !uuidRegex.test(params.correctionId)) {
+      return json(
+        { error: { code: 'INVALID_CORRECTION_ID', message: 'Correction ID must be a valid UUID' } },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (!decisions.includes(body.decision)) {
+      return json(
+        { error: { code: 'VALIDATION_ERROR', message: `decision must be one of: ${decisions.join(', ')}` } },
+        { status: 400 }
+      );
+    }
+    if (body.note !== undefined && typeof body.note !== 'string') {
+      return json(
+        { error: { code: 'VALIDATION_ERROR', message: 'note must be text' } },
+        { status: 400 }
+      );
+    }
+
+    const correction = await CourseCorrectionStore.get(params.correctionId);
+    if (!correction) {
+      return json(
+        { error: { code: 'CORRECTION_NOT_FOUND', message: 'Correction not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (correction.status !== 'pending') {
+      return json(
+        { error: { code: 'ALREADY_REVIEWED', message: `This correction is already ${correction.status}` } },
+        { status: 409 }
+      );
+    }
+
+    const result = await CourseCorrectionStore.review(correction, user.id, body.decision, body.note?.trim() || undefined);
+    if (!result) {
+      return json(
+        { error: { code: 'REVIEW_FAILED', message: 'Failed to apply the review; try again' } },
+        { status: 500 }
+      );
+    }
+
+    return json({ correction: result.correction, data_version: result.version });
+
+  } catch (error) {
+    console.error('Error reviewing course correction:', error);
+    return json(
+      { error: { code: 'REVIEW_FAILED', message: 'Failed to review correction' } },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,103 @@
+import { json } from '@sveltejs/kit';
+import { supabase } from '$lib/supabase';
+import type { RequestHandler } from '@sveltejs/kit';
+import { ScorecardImporter, IMPORT_ID_PREFIX } from '$lib/course-data';
+import { cacheCourse } from '../../../../services/course';
+
+// POST a scorecard CSV ({ csv, course }) or course JSON ({ course } with holes); ?dry_run=true only validates.
+// Imports create or refresh the caller's own course; fixes to anyone else's go through course corrections.
+export const POST: RequestHandler = async ({ request, url }) => {
+  try {
+    // Validate authentication
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const token = authHeader.split(' ')[1];
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return json(
+        { error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+
+    // Naming a course that's already listed is a correction to it, not an import
+    const requestedId = body?.course?.external_id ?? body?.course?.id;
+    if (typeof requestedId === 'string' && requestedId.trim() && !requestedId.trim().startsWith(`${IMPORT_ID_PREFIX}${user.id}:`)) {
+      const { data: listed } = await supabase
+        .from('pure.courses')
+        .select('id')
+        .eq('external_id', requestedId.trim())
+        .maybeSingle();
+
+      if (listed) {
+        return json(
+          {
+            error: {
+              code: 'USE_CORRECTIONS',
+              message: `This course is already listed; submit changes to /api/courses/${listed.id}/corrections for review`
+            },
+            course_id: listed.id
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const { course, issues } = ScorecardImporter.parse(body, user.id);
+
+    if (!course || ScorecardImporter.hasErrors(issues)) {
+      return json(
+        { error: { code: 'INVALID_SCORECARD', message: 'The scorecard has problems that need fixing before import' }, issues },
+        { status: 422 }
+      );
+    }
+
+    if (url.searchParams.get('dry_run') === 'true') {
+      return json({ course, issues, course_id: null });
+    }
+
+    // Only ever refresh a row this import created; the namespaced id should guarantee it
+    const { data: existing } = await supabase
+      .from('pure.courses')
+      .select('id, source')
+      .eq('external_id', course.id)
+      .maybeSingle();
+
+    if (existing && existing.source !== 'import') {
+      return json(
+        { error: { code: 'USE_CORRECTIONS', message: `Submit changes to /api/courses/${existing.id}/corrections for review` }, course_id: existing.id },
+        { status: 409 }
+      );
+    }
+
+    // Importing the same course again refreshes the caller's earlier import
+    const courseId = await cacheCourse(course, 'import');
+    if (!courseId) {
+      return json(
+        { error: { code: 'IMPORT_FAILED', message: 'Failed to save the imported course' } },
+        { status: 500 }
+      );
+    }
+
+    return json(
+      { course_id: courseId, external_id: course.id, source: 'import', holes: course.holes?.length ?? 0, issues },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    console.error('Error importing course:', error);
+    return json(
+      { error: { code: 'IMPORT_FAILED', message: 'Failed to import course' } },
+      { status: 500 }
+    );
+  }
+};
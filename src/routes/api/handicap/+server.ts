@@ -0,0 +1,80 @@
+import { json } from '@sveltejs/kit';
+import { supabase } from '$lib/supabase';
+import type { RequestHandler } from '@sveltejs/kit';
+import { getHandicap, updateHandicap } from '../../../services/handicap';
+
+async function authenticate(request: Request) {
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return {
+      error: json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    };
+  }
+
+  const token = authHeader.split(' ')[1];
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return {
+      error: json(
+        { error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
+        { status: 401 }
+      )
+    };
+  }
+
+  return { user };
+}
+
+// GET the current handicap index with each round's differential
+export const GET: RequestHandler = async ({ request }) => {
+  try {
+    const auth = await authenticate(request);
+    if (auth.error) return auth.error;
+
+    const handicap = await getHandicap(auth.user.id);
+    if (!handicap) {
+      return json(
+        { error: { code: 'CALCULATION_FAILED', message: 'Failed to calculate handicap' } },
+        { status: 500 }
+      );
+    }
+
+    return json({ handicap });
+
+  } catch (error) {
+    console.error('Error in get handicap endpoint:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch handicap' } },
+      { status: 500 }
+    );
+  }
+};
+
+// POST - Recalculate and save the handicap index
+export const POST: RequestHandler = async ({ request }) => {
+  try {
+    const auth = await authenticate(request);
+    if (auth.error) return auth.error;
+
+    const handicap = await updateHandicap(auth.user.id);
+    if (!handicap) {
+      return json(
+        { error: { code: 'CALCULATION_FAILED', message: 'Failed to calculate handicap' } },
+        { status: 500 }
+      );
+    }
+
+    return json({ handicap });
+
+  } catch (error) {
+    console.error('Error in update handicap endpoint:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to update handicap' } },
+      { status: 500 }
+    );
+  }
+};
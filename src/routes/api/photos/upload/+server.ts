@@ -50,6 +50,7 @@ export const POST: RequestHandler = async ({ request }) => {
     const holeNumber = formData.get('holeNumber') as string;
     const shotNumber = formData.get('shotNumber') as string;
     const filename = formData.get('filename') as string;
+    const clientId = formData.get('clientId') as string | null;
 
     if (!file || !roundId || !holeNumber || !shotNumber || !filename) {
       return json({ 
@@ -57,6 +58,11 @@ export const POST: RequestHandler = async ({ request }) => {
       }, { status: 400 });
     }
 
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (clientId !== null && !uuidRegex.test(clientId)) {
+      return json({ error: 'clientId must be a UUID' }, { status: 400 });
+    }
+
     // Validate file
     const validation = validatePhotoUpload(file);
     if (!validation.isValid) {
@@ -77,9 +83,26 @@ export const POST: RequestHandler = async ({ request }) => {
       return json({ error: 'Round not found or not owned by user' }, { status: 404 });
     }
 
+    // Keyed by the client id so a replayed upload lands on the same object
+    const mockUrl = `https://pure-round-photos.example.com/${clientId ? `${clientId}/` : ''}${filename}`;
+
+    // Offline replays resend the same client id; treat them as already uploaded
+    if (clientId) {
+      const { data: existingShot } = await supabase
+        .from('shots')
+        .select('lie_photo_url')
+        .eq('round_id', roundId)
+        .eq('hole_number', parseInt(holeNumber))
+        .eq('shot_number', parseInt(shotNumber))
+        .maybeSingle();
+
+      if (existingShot?.lie_photo_url === mockUrl) {
+        return json({ success: true, photoUrl: mockUrl, filename, size: file.size, duplicate: true });
+      }
+    }
+
     // For now, just simulate successful upload
     // In production, this would upload to R2 bucket 'pure-round-photos'
-    const mockUrl = `https://pure-round-photos.example.com/${filename}`;
 
     // Update the shot with lie photo URL
     const { error: updateError } = await supabase
@@ -2,16 +2,15 @@ import { json } from '@sveltejs/kit';
 import { supabase } from '$lib/supabase';
 import type { RequestHandler } from '@sveltejs/kit';
 import { getCourseById } from '../../../../services/course';
+import { updateHandicap } from '../../../../services/handicap';
+import type { RoundWeather } from '$lib/weather';
+import { refreshTendencies } from '$lib/caddy';
 
 interface UpdateRoundRequest {
   status?: 'in_progress' | 'completed' | 'abandoned';
+  current_hole?: number;
   total_score?: number;
-  weather?: {
-    temperature?: number;
-    wind_speed?: number;
-    wind_direction?: string;
-    conditions?: string;
-  };
+  weather?: RoundWeather;
   notes?: string;
 }
 
@@ -158,7 +157,7 @@ export const PUT: RequestHandler = async ({ params, request }) => {
 
     // Parse request body
     const body: UpdateRoundRequest = await request.json();
-    const { status, total_score, weather, notes } = body;
+    const { status, current_hole, total_score, weather, notes } = body;
 
     // Validate authentication
     const authHeader = request.headers.get('authorization');
@@ -213,10 +212,36 @@ export const PUT: RequestHandler = async ({ params, request }) => {
       );
     }
 
+    // A finished round can't be reopened by a late offline replay
+    if (status && status !== existingRound.status && existingRound.status !== 'in_progress') {
+      return json(
+        { 
+          error: { 
+            code: 'ROUND_CONFLICT', 
+            message: `Round is already ${existingRound.status}` 
+          },
+          round: existingRound
+        },
+        { status: 409 }
+      );
+    }
+
+    if (current_hole !== undefined && (!Number.isInteger(current_hole) || current_hole < 1 || current_hole > 18)) {
+      return json(
+        { 
+          error: { 
+            code: 'INVALID_HOLE', 
+            message: 'current_hole must be between 1 and 18' 
+          } 
+        },
+        { status: 400 }
+      );
+    }
+
     // Build update object
     const updateData: any = {};
     
-    if (status !== undefined) {
+    if (status !== undefined && status !== existingRound.status) {
       updateData.status = status;
       
       // Set finished_at if completing or abandoning
@@ -225,6 +250,10 @@ export const PUT: RequestHandler = async ({ params, request }) => {
       }
     }
     
+    if (current_hole !== undefined) {
+      updateData.current_hole = current_hole;
+    }
+    
     if (total_score !== undefined) {
       updateData.total_score = total_score;
     }
@@ -237,6 +266,18 @@ export const PUT: RequestHandler = async ({ params, request }) => {
       updateData.notes = notes;
     }
 
+    // Replaying a status the round already has is a no-op
+    if (Object.keys(updateData).length === 0 && status === existingRound.status) {
+      const course = await getCourseById(existingRound.course_id);
+      return json({
+        round: {
+          ...existingRound,
+          course
+        },
+        message: 'Round already up to date'
+      });
+    }
+
     // If no updates provided
     if (Object.keys(updateData).length === 0) {
       return json(
@@ -275,11 +316,24 @@ export const PUT: RequestHandler = async ({ params, request }) => {
     // Get course details for response
     const course = await getCourseById(updatedRound.course_id);
 
+    // A completed round can change the handicap index and its own net score, and its shots the caddy's tendencies
+    const [handicap] = status === 'completed'
+      ? await Promise.all([updateHandicap(user.id), refreshTendencies(user.id)])
+      : [null];
+    const roundHandicap = handicap?.rounds.find(r => r.round_id === roundId);
+
     return json({
       round: {
         ...updatedRound,
+        ...(roundHandicap && {
+          adjusted_gross_score: roundHandicap.adjusted_gross_score,
+          score_differential: roundHandicap.score_differential,
+          course_handicap: roundHandicap.course_handicap,
+          net_score: roundHandicap.net_score
+        }),
         course
       },
+      ...(handicap && { handicap_index: handicap.handicap_index }),
       message: `Round ${status === 'completed' ? 'completed' : status === 'abandoned' ? 'abandoned' : 'updated'} successfully`
     });
 
@@ -0,0 +1,137 @@
+import { json } from '@sveltejs/kit';
+import { supabase } from '$lib/supabase';
+import type { RequestHandler } from '@sveltejs/kit';
+import type { RiskTolerance } from '$lib/caddy';
+import { generateRoundPlan } from '../../../../../services/strategy';
+
+interface GeneratePlanRequest {
+  risk_tolerance?: RiskTolerance;
+}
+
+const RISK_TOLERANCES: RiskTolerance[] = ['conservative', 'balanced', 'aggressive'];
+
+async function authenticate(request: Request) {
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return {
+      error: json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    };
+  }
+
+  const token = authHeader.split(' ')[1];
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return {
+      error: json(
+        { error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
+        { status: 401 }
+      )
+    };
+  }
+
+  return { user };
+}
+
+async function findRound(roundId: string | undefined, userId: string) {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!roundId || !uuidRegex.test(roundId)) {
+    return {
+      error: json(
+        { error: { code: 'INVALID_ROUND_ID', message: 'Round ID must be a valid UUID' } },
+        { status: 400 }
+      )
+    };
+  }
+
+  const { data: round, error: roundError } = await supabase
+    .from('pure.rounds')
+    .select('id, course_id, tee_set, status, strategy_plan')
+    .eq('id', roundId)
+    .eq('user_id', userId)
+    .single();
+
+  if (roundError || !round) {
+    return {
+      error: json(
+        { error: { code: 'ROUND_NOT_FOUND', message: 'Round not found' } },
+        { status: 404 }
+      )
+    };
+  }
+
+  return { round };
+}
+
+// GET the round's stored game plan
+export const GET: RequestHandler = async ({ params, request }) => {
+  try {
+    const auth = await authenticate(request);
+    if (auth.error) return auth.error;
+
+    const lookup = await findRound(params.id, auth.user.id);
+    if (lookup.error) return lookup.error;
+
+    if (!lookup.round.strategy_plan) {
+      return json(
+        { error: { code: 'PLAN_NOT_FOUND', message: 'No game plan has been generated for this round' } },
+        { status: 404 }
+      );
+    }
+
+    return json({ plan: lookup.round.strategy_plan });
+
+  } catch (error) {
+    console.error('Error in get round plan endpoint:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch game plan' } },
+      { status: 500 }
+    );
+  }
+};
+
+// POST - Generate the game plan from the player's bag and tendencies and store it with the round
+export const POST: RequestHandler = async ({ params, request }) => {
+  try {
+    const auth = await authenticate(request);
+    if (auth.error) return auth.error;
+
+    const lookup = await findRound(params.id, auth.user.id);
+    if (lookup.error) return lookup.error;
+
+    const body: GeneratePlanRequest = await request.json().catch(() => ({}));
+
+    if (body.risk_tolerance !== undefined && !RISK_TOLERANCES.includes(body.risk_tolerance)) {
+      return json(
+        {
+          error: {
+            code: 'INVALID_RISK_TOLERANCE',
+            message: `risk_tolerance must be one of: ${RISK_TOLERANCES.join(', ')}`
+          }
+        },
+        { status: 400 }
+      );
+    }
+
+    const plan = await generateRoundPlan(auth.user.id, lookup.round, body.risk_tolerance);
+
+    if (!plan) {
+      return json(
+        { error: { code: 'PLAN_UNAVAILABLE', message: 'Course hole data is needed to build a game plan' } },
+        { status: 422 }
+      );
+    }
+
+    return json({ plan }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error in generate round plan endpoint:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to generate game plan' } },
+      { status: 500 }
+    );
+  }
+};
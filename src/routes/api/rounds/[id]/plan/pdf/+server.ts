@@ -0,0 +1,72 @@
+import { json } from '@sveltejs/kit';
+import { supabase } from '$lib/supabase';
+import type { RequestHandler } from '@sveltejs/kit';
+import { YardageBook, type RoundPlan } from '$lib/strategy';
+
+// GET the round's game plan as a one-page yardage book
+export const GET: RequestHandler = async ({ params, request }) => {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const token = authHeader.split(' ')[1];
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return json(
+        { error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
+        { status: 401 }
+      );
+    }
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!params.id || !uuidRegex.test(params.id)) {
+      return json(
+        { error: { code: 'INVALID_ROUND_ID', message: 'Round ID must be a valid UUID' } },
+        { status: 400 }
+      );
+    }
+
+    const { data: round, error: roundError } = await supabase
+      .from('pure.rounds')
+      .select('id, strategy_plan')
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (roundError || !round) {
+      return json(
+        { error: { code: 'ROUND_NOT_FOUND', message: 'Round not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (!round.strategy_plan) {
+      return json(
+        { error: { code: 'PLAN_NOT_FOUND', message: 'No game plan has been generated for this round' } },
+        { status: 404 }
+      );
+    }
+
+    const plan = round.strategy_plan as RoundPlan;
+
+    return new Response(YardageBook.toPdf(plan), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${YardageBook.fileName(plan)}"`
+      }
+    });
+
+  } catch (error) {
+    console.error('Error in yardage book endpoint:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to render yardage book' } },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,256 @@
+import { json } from '@sveltejs/kit';
+import { supabase } from '$lib/supabase';
+import type { RequestHandler } from '@sveltejs/kit';
+import { getCourseById } from '../../../../../services/course';
+import {
+  deriveHoleScore,
+  summarizeScorecard,
+  FAIRWAY_RESULTS,
+  type HoleScore
+} from '$lib/scorecard';
+
+interface UpdateScorecardRequest {
+  hole_scores: HoleScore[];
+}
+
+const HOLE_SCORE_COLUMNS =
+  'hole_number, par, strokes, putts, fairway, gir, penalty_strokes, up_and_down, sand_save';
+
+function validateHoleScore(score: any): string[] {
+  const errors: string[] = [];
+  const prefix = `hole ${score?.hole_number ?? '?'}`;
+  const isCount = (value: unknown, min: number) =>
+    typeof value === 'number' && Number.isInteger(value) && value >= min;
+
+  if (!isCount(score?.hole_number, 1) || score.hole_number > 18) {
+    errors.push('hole_number must be between 1 and 18');
+    return errors;
+  }
+  if (!isCount(score.par, 3) || score.par > 6) {
+    errors.push(`${prefix}: par must be between 3 and 6`);
+  }
+  if (!isCount(score.strokes, 1)) {
+    errors.push(`${prefix}: strokes must be a positive integer`);
+  }
+  if (!isCount(score.putts, 0) || score.putts > score.strokes) {
+    errors.push(`${prefix}: putts must be between 0 and strokes`);
+  }
+  if (!isCount(score.penalty_strokes, 0) || score.penalty_strokes >= score.strokes) {
+    errors.push(`${prefix}: penalty_strokes must be less than strokes`);
+  }
+  if (score.fairway !== null && !FAIRWAY_RESULTS.includes(score.fairway)) {
+    errors.push(`${prefix}: fairway must be null or one of: ${FAIRWAY_RESULTS.join(', ')}`);
+  }
+  if (typeof score.gir !== 'boolean') {
+    errors.push(`${prefix}: gir must be a boolean`);
+  }
+  for (const field of ['up_and_down', 'sand_save']) {
+    if (score[field] !== null && typeof score[field] !== 'boolean') {
+      errors.push(`${prefix}: ${field} must be a boolean or null`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Load a round's stored hole scores, deriving any missing holes from its shots
+ */
+async function loadScorecard(round: { id: string; course_id: string; tee_set: string }) {
+  const [course, { data: stored, error: scoresError }, { data: shots }] = await Promise.all([
+    getCourseById(round.course_id),
+    supabase
+      .from('pure.hole_scores')
+      .select(HOLE_SCORE_COLUMNS)
+      .eq('round_id', round.id)
+      .order('hole_number', { ascending: true }),
+    supabase
+      .from('pure.shots')
+      .select('hole_number, shot_number, lie_type, shot_result, miss_direction')
+      .eq('round_id', round.id)
+  ]);
+
+  if (scoresError) {
+    console.error('Error fetching hole scores:', scoresError);
+  }
+
+  const holes = course?.holes || [];
+  const scores: HoleScore[] = [...(stored || [])];
+
+  // Holes finished before scores were stored only have shots
+  for (const hole of holes) {
+    if (scores.some(s => s.hole_number === hole.hole_number)) continue;
+    const holeShots = (shots || []).filter(s => s.hole_number === hole.hole_number);
+    if (!holeShots.some(s => s.shot_result === 'holed')) continue;
+    scores.push(deriveHoleScore(hole.hole_number, hole.par, holeShots));
+  }
+  scores.sort((a, b) => a.hole_number - b.hole_number);
+
+  return {
+    course_name: course?.name || null,
+    holes,
+    hole_scores: scores,
+    summary: summarizeScorecard(scores, holes, round.tee_set)
+  };
+}
+
+async function authenticate(request: Request) {
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return {
+      error: json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    };
+  }
+
+  const token = authHeader.split(' ')[1];
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return {
+      error: json(
+        { error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
+        { status: 401 }
+      )
+    };
+  }
+
+  return { user };
+}
+
+async function findRound(roundId: string | undefined, userId: string) {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!roundId || !uuidRegex.test(roundId)) {
+    return {
+      error: json(
+        { error: { code: 'INVALID_ROUND_ID', message: 'Round ID must be a valid UUID' } },
+        { status: 400 }
+      )
+    };
+  }
+
+  const { data: round, error: roundError } = await supabase
+    .from('pure.rounds')
+    .select('id, course_id, tee_set, started_at, status, course_handicap, net_score, score_differential')
+    .eq('id', roundId)
+    .eq('user_id', userId)
+    .single();
+
+  if (roundError || !round) {
+    return {
+      error: json(
+        { error: { code: 'ROUND_NOT_FOUND', message: 'Round not found' } },
+        { status: 404 }
+      )
+    };
+  }
+
+  return { round };
+}
+
+// GET the round's scorecard with totals
+export const GET: RequestHandler = async ({ params, request }) => {
+  try {
+    const auth = await authenticate(request);
+    if (auth.error) return auth.error;
+
+    const lookup = await findRound(params.id, auth.user.id);
+    if (lookup.error) return lookup.error;
+
+    const { round } = lookup;
+
+    return json({
+      round,
+      ...(await loadScorecard(round))
+    });
+
+  } catch (error) {
+    console.error('Error in get scorecard endpoint:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch scorecard' } },
+      { status: 500 }
+    );
+  }
+};
+
+// PUT - Save one or more hole scores and refresh the round total
+export const PUT: RequestHandler = async ({ params, request }) => {
+  try {
+    const auth = await authenticate(request);
+    if (auth.error) return auth.error;
+
+    const lookup = await findRound(params.id, auth.user.id);
+    if (lookup.error) return lookup.error;
+
+    const { round } = lookup;
+    const body: UpdateScorecardRequest = await request.json();
+
+    if (!Array.isArray(body?.hole_scores) || body.hole_scores.length === 0) {
+      return json(
+        { error: { code: 'NO_UPDATES', message: 'hole_scores must be a non-empty array' } },
+        { status: 400 }
+      );
+    }
+
+    const errors = body.hole_scores.flatMap(validateHoleScore);
+    if (errors.length > 0) {
+      return json(
+        { error: { code: 'INVALID_HOLE_SCORE', message: errors.join('; ') } },
+        { status: 400 }
+      );
+    }
+
+    const rows = body.hole_scores.map(score => ({
+      round_id: round.id,
+      hole_number: score.hole_number,
+      par: score.par,
+      strokes: score.strokes,
+      putts: score.putts,
+      fairway: score.par >= 4 ? score.fairway : null,
+      gir: score.gir,
+      penalty_strokes: score.penalty_strokes,
+      up_and_down: score.up_and_down,
+      sand_save: score.sand_save,
+      updated_at: new Date().toISOString()
+    }));
+
+    const { error: upsertError } = await supabase
+      .from('pure.hole_scores')
+      .upsert(rows, { onConflict: 'round_id,hole_number' });
+
+    if (upsertError) {
+      console.error('Error saving hole scores:', upsertError);
+      return json(
+        { error: { code: 'DATABASE_ERROR', message: 'Failed to save hole scores' } },
+        { status: 500 }
+      );
+    }
+
+    const scorecard = await loadScorecard(round);
+
+    // Keep the round's total in step with the card
+    const { error: totalError } = await supabase
+      .from('pure.rounds')
+      .update({ total_score: scorecard.summary.strokes })
+      .eq('id', round.id)
+      .eq('user_id', auth.user.id);
+
+    if (totalError) {
+      console.error('Error updating round total:', totalError);
+    }
+
+    return json({
+      round,
+      ...scorecard
+    });
+
+  } catch (error) {
+    console.error('Error in update scorecard endpoint:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to save scorecard' } },
+      { status: 500 }
+    );
+  }
+};
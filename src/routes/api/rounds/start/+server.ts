@@ -2,16 +2,13 @@ import { json } from '@sveltejs/kit';
 import { supabase } from '$lib/supabase';
 import type { RequestHandler } from '@sveltejs/kit';
 import { getCourseById } from '../../../../services/course';
+import { resolveRoundWeather } from '../../../../services/weather';
+import type { RoundWeather } from '$lib/weather';
 
 interface StartRoundRequest {
   course_id: string;
   tee_set: string;
-  weather?: {
-    temperature?: number;
-    wind_speed?: number;
-    wind_direction?: string;
-    conditions?: string;
-  };
+  weather?: RoundWeather;
   notes?: string;
 }
 
@@ -129,6 +126,9 @@ export const POST: RequestHandler = async ({ request }) => {
       );
     }
 
+    // Live conditions fill in whatever the player left blank
+    const roundWeather = await resolveRoundWeather(course, weather);
+
     // Create new round
     const roundData = {
       user_id: user.id,
@@ -136,7 +136,7 @@ export const POST: RequestHandler = async ({ request }) => {
       tee_set,
       started_at: new Date().toISOString(),
       status: 'in_progress' as const,
-      weather: weather || null,
+      weather: roundWeather,
       notes: notes || null
     };
 
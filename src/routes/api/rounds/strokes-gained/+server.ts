@@ -0,0 +1,129 @@
+import { json } from '@sveltejs/kit';
+import { supabase } from '$lib/supabase';
+import type { RequestHandler } from '@sveltejs/kit';
+import {
+  calculateRoundStrokesGained,
+  calculateStrokesGainedTrend,
+  type RoundStrokesGained
+} from '$lib/strokes-gained';
+
+const MAX_ROUNDS = 50;
+
+/**
+ * Score one round's shots, using hole pars from the round's course
+ */
+async function scoreRound(round: { id: string; course_id: string; started_at: string }): Promise<RoundStrokesGained> {
+  const [{ data: shots, error: shotsError }, { data: holes }] = await Promise.all([
+    supabase
+      .from('pure.shots')
+      .select('id, hole_number, shot_number, distance_to_target, lie_type, shot_result, club_used')
+      .eq('round_id', round.id)
+      .order('hole_number', { ascending: true })
+      .order('shot_number', { ascending: true }),
+    supabase
+      .from('pure.holes')
+      .select('hole_number, par')
+      .eq('course_id', round.course_id)
+  ]);
+
+  if (shotsError) {
+    console.error('Error fetching shots for strokes gained:', shotsError);
+  }
+
+  const pars: Record<number, number> = {};
+  for (const hole of holes || []) {
+    pars[hole.hole_number] = hole.par;
+  }
+
+  return calculateRoundStrokesGained(round.id, shots || [], pars, round.started_at);
+}
+
+// GET strokes gained for one round (?round_id=) or per round over time (?from=&to=&limit=)
+export const GET: RequestHandler = async ({ request, url }) => {
+  try {
+    // Validate authentication
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const token = authHeader.split(' ')[1];
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return json(
+        { error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
+        { status: 401 }
+      );
+    }
+
+    const roundId = url.searchParams.get('round_id');
+
+    // Single round with shot-level detail
+    if (roundId) {
+      const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+      if (!uuidRegex.test(roundId)) {
+        return json(
+          { error: { code: 'INVALID_ROUND_ID', message: 'Round ID must be a valid UUID' } },
+          { status: 400 }
+        );
+      }
+
+      const { data: round, error: roundError } = await supabase
+        .from('pure.rounds')
+        .select('id, course_id, started_at')
+        .eq('id', roundId)
+        .eq('user_id', user.id)
+        .single();
+
+      if (roundError || !round) {
+        return json(
+          { error: { code: 'ROUND_NOT_FOUND', message: 'Round not found' } },
+          { status: 404 }
+        );
+      }
+
+      return json({ strokes_gained: await scoreRound(round) });
+    }
+
+    // Over time
+    const from = url.searchParams.get('from');
+    const to = url.searchParams.get('to');
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), MAX_ROUNDS);
+
+    let query = supabase
+      .from('pure.rounds')
+      .select('id, course_id, started_at')
+      .eq('user_id', user.id)
+      .neq('status', 'abandoned')
+      .order('started_at', { ascending: false })
+      .limit(isNaN(limit) ? 20 : limit);
+
+    if (from) query = query.gte('started_at', from);
+    if (to) query = query.lte('started_at', to);
+
+    const { data: rounds, error: roundsError } = await query;
+
+    if (roundsError) {
+      console.error('Error fetching rounds for strokes gained:', roundsError);
+      return json(
+        { error: { code: 'DATABASE_ERROR', message: 'Failed to fetch rounds' } },
+        { status: 500 }
+      );
+    }
+
+    const scored = await Promise.all((rounds || []).map(scoreRound));
+
+    return json({ trend: calculateStrokesGainedTrend(scored) });
+
+  } catch (error) {
+    console.error('Error calculating strokes gained:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to calculate strokes gained' } },
+      { status: 500 }
+    );
+  }
+};
@@ -1,10 +1,28 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { supabase } from '$lib/supabase';
+import { AdviceLog } from '$lib/caddy';
+
+// pure.shots.gps_location is a PostGIS geography, written as WKT POINT(lng lat)
+function toGpsPoint(location: unknown): string | null {
+  const [lat, lng] = Array.isArray(location)
+    ? (location.length === 2 ? location : [])
+    : [(location as any)?.lat, (location as any)?.lng];
+
+  if (typeof lat !== 'number' || typeof lng !== 'number' || !Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+
+  return `POINT(${lng} ${lat})`;
+}
 
 function validateShot(data: any): { isValid: boolean; errors: string[] } {
   const errors: string[] = [];
   
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (data.id !== undefined && (typeof data.id !== 'string' || !uuidRegex.test(data.id))) {
+    errors.push('id must be a UUID');
+  }
+  
   if (!data.round_id || typeof data.round_id !== 'string') {
     errors.push('round_id is required and must be a string');
   }
@@ -33,6 +51,23 @@ function validateShot(data: any): { isValid: boolean; errors: string[] } {
   if (data.distance_to_target !== undefined && (typeof data.distance_to_target !== 'number' || data.distance_to_target <= 0)) {
     errors.push('distance_to_target must be a positive number');
   }
+
+  const validDirections = ['left', 'right', 'short', 'long'];
+  if (data.miss_direction !== undefined && !validDirections.includes(data.miss_direction)) {
+    errors.push('miss_direction must be one of: ' + validDirections.join(', '));
+  }
+
+  if (data.gps_location !== undefined && !toGpsPoint(data.gps_location)) {
+    errors.push('gps_location must be { lat, lng } or [lat, lng]');
+  }
+
+  if (data.caddy_advice_id !== undefined && (typeof data.caddy_advice_id !== 'string' || !uuidRegex.test(data.caddy_advice_id))) {
+    errors.push('caddy_advice_id must be a UUID');
+  }
+
+  if (data.hit_at !== undefined && (typeof data.hit_at !== 'string' || isNaN(Date.parse(data.hit_at)))) {
+    errors.push('hit_at must be an ISO timestamp');
+  }
   
   return { isValid: errors.length === 0, errors };
 }
@@ -75,10 +110,43 @@ export const POST: RequestHandler = async ({ request, locals }) => {
       return json({ error: 'Round not found or not owned by user' }, { status: 404 });
     }
 
+    // Offline replays resend the same client-generated id; treat them as already recorded
+    if (body.id) {
+      const { data: existingShot } = await supabase
+        .from('shots')
+        .select('*')
+        .eq('id', body.id)
+        .maybeSingle();
+
+      if (existingShot) {
+        return json({ shot: existingShot, duplicate: true });
+      }
+    }
+
+    // A different shot already holds this number
+    const { data: conflictingShot } = await supabase
+      .from('shots')
+      .select('*')
+      .eq('round_id', body.round_id)
+      .eq('hole_number', body.hole_number)
+      .eq('shot_number', body.shot_number)
+      .maybeSingle();
+
+    if (conflictingShot) {
+      return json({
+        error: `Shot ${body.shot_number} on hole ${body.hole_number} is already recorded`,
+        shot: conflictingShot
+      }, { status: 409 });
+    }
+
+    // The advice this shot answers, if the caddy was asked
+    const advice = await AdviceLog.findForShot(user.id, body, body.caddy_advice_id);
+
     // Insert the shot
     const { data: shotData, error: shotError } = await supabase
       .from('shots')
       .insert({
+        id: body.id,
         round_id: body.round_id,
         hole_number: body.hole_number,
         shot_number: body.shot_number,
@@ -88,7 +156,9 @@ export const POST: RequestHandler = async ({ request, locals }) => {
         distance_to_target: body.distance_to_target,
         lie_type: body.lie_type,
         accuracy_rating: body.accuracy_rating,
-        gps_location: body.gps_location
+        gps_location: body.gps_location === undefined ? undefined : toGpsPoint(body.gps_location),
+        miss_direction: body.miss_direction,
+        club_recommended: advice?.recommended_club
       })
       .select()
       .single();
@@ -98,6 +168,16 @@ export const POST: RequestHandler = async ({ request, locals }) => {
       return json({ error: 'Failed to record shot' }, { status: 500 });
     }
 
+    // Outcome tracking must never cost the player their shot
+    try {
+      if (advice) {
+        await AdviceLog.linkShot(advice, shotData);
+      }
+      await AdviceLog.scoreHole(body.round_id, body.hole_number);
+    } catch (trackingError) {
+      console.error('Error tracking caddy advice outcome:', trackingError);
+    }
+
     return json({ shot: shotData });
 
   } catch (error: unknown) {
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const inserted: Record<string, any>[] = [];
+
+// Just enough of the query builder for the lookups and the insert the route makes
+function query(table: string) {
+  let row: Record<string, any> | null = null;
+  const builder: any = {
+    select: () => builder,
+    eq: () => builder,
+    insert: (values: Record<string, any>) => {
+      inserted.push(values);
+      row = { ...values };
+      return builder;
+    },
+    maybeSingle: async () => ({ data: row, error: null }),
+    single: async () => table === 'rounds' && !row
+      ? { data: { id: ROUND_ID, user_id: 'user-1' }, error: null }
+      : { data: row, error: null }
+  };
+  return builder;
+}
+
+vi.mock('$lib/supabase', () => ({
+  supabase: {
+    auth: { getUser: async () => ({ data: { user: { id: 'user-1' } }, error: null }) },
+    from: (table: string) => query(table)
+  }
+}));
+
+vi.mock('$lib/caddy', () => ({
+  AdviceLog: {
+    findForShot: async () => null,
+    linkShot: async () => undefined,
+    scoreHole: async () => undefined
+  }
+}));
+
+const { POST } = await import('./+server');
+
+const ROUND_ID = '0b6f1c2e-4a3d-4e5f-8a9b-1c2d3e4f5a6b';
+
+function record(shot: Record<string, unknown>) {
+  const request = new Request('http://localhost/api/shots/record', {
+    method: 'POST',
+    headers: { authorization: 'Bearer token', 'content-type': 'application/json' },
+    body: JSON.stringify({
+      round_id: ROUND_ID,
+      hole_number: 1,
+      shot_number: 1,
+      club_used: '7i',
+      shot_result: 'green',
+      ...shot
+    })
+  });
+  return POST({ request, locals: {} } as any);
+}
+
+describe('POST /api/shots/record gps_location', () => {
+  beforeEach(() => {
+    inserted.length = 0;
+  });
+
+  it.each([
+    { name: '[lat, lng]', gps_location: [51.5, -0.12] },
+    { name: '{ lat, lng }', gps_location: { lat: 51.5, lng: -0.12 } }
+  ])('stores $name as a WKT point', async ({ gps_location }) => {
+    const response = await record({ gps_location });
+
+    expect(response.status).toBe(200);
+    expect(inserted).toHaveLength(1);
+    expect(inserted[0].gps_location).toBe('POINT(-0.12 51.5)');
+  });
+
+  it('leaves the location out when there was no fix', async () => {
+    const response = await record({});
+
+    expect(response.status).toBe(200);
+    expect(inserted[0].gps_location).toBeUndefined();
+  });
+
+  it.each([
+    { name: 'a latitude out of range', gps_location: [91, 0] },
+    { name: 'a longitude out of range', gps_location: { lat: 0, lng: 181 } },
+    { name: 'three coordinates', gps_location: [1, 2, 3] },
+    { name: 'a string', gps_location: 'POINT(0 0)' },
+    { name: 'missing lng', gps_location: { lat: 0 } }
+  ])('rejects $name', async ({ gps_location }) => {
+    const response = await record({ gps_location });
+
+    expect(response.status).toBe(400);
+    expect(inserted).toHaveLength(0);
+  });
+});
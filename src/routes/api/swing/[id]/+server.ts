@@ -2,12 +2,41 @@ import { json } from '@sveltejs/kit';
 import { createClient } from '@supabase/supabase-js';
 import { PUBLIC_SUPABASE_URL } from '$env/static/public';
 import { SUPABASE_SERVICE_ROLE_KEY } from '$env/static/private';
+import { supabase } from '$lib/supabase';
+import { R2Validator } from '$lib/storage/r2-validator';
 import type { RequestHandler } from '@sveltejs/kit';
 
 const adminClient = createClient(PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 
-export const GET: RequestHandler = async ({ params }) => {
+// Visibilities that let other players open a swing (e.g. as the reference in a comparison)
+const SHARED_VISIBILITY = ['published', 'model'];
+
+async function isSharedWithCoach(swingId: string, coachId: string): Promise<boolean> {
+  const { data } = await adminClient
+    .from('swing_coach_shares')
+    .select('swing_id')
+    .eq('swing_id', swingId)
+    .eq('coach_id', coachId)
+    .maybeSingle();
+
+  return !!data;
+}
+
+export const GET: RequestHandler = async ({ params, url, request }) => {
   try {
+    // Validate authentication
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return json({ error: 'Invalid authentication token' }, { status: 401 });
+    }
+
     const swingId = params.id;
     
     if (!swingId) {
@@ -16,25 +45,58 @@ export const GET: RequestHandler = async ({ params }) => {
     
     console.log(`🔍 Fetching swing data for ID: ${swingId}`);
     
-    // Fetch swing data from database
-    const { data: swing, error } = await adminClient
+    // Fetch swing data from database; someone else's private swing reads as not found
+    const { data: found, error } = await adminClient
       .from('pure_swings')
       .select('*')
       .eq('id', swingId)
-      .single();
+      .maybeSingle();
     
     if (error) {
       console.error('❌ Database error:', error);
       return json({ error: 'Swing not found' }, { status: 404 });
     }
     
-    if (!swing) {
+    const isOwner = found?.user_id === user.id;
+    const isCoach = !!found && !isOwner && await isSharedWithCoach(swingId, user.id);
+    if (!found || (!isOwner && !isCoach && !SHARED_VISIBILITY.includes(found.visibility))) {
       console.log('❌ No swing found with ID:', swingId);
       return json({ error: 'Swing not found' }, { status: 404 });
     }
+
+    // Shared swings leave out who uploaded them and the upload details;
+    // access tells the page whether the viewer may draw on the swing
+    const { user_id, metadata, ...shared } = found;
+    const access = isOwner ? 'owner' : isCoach ? 'coach' : 'viewer';
+    const swing = { ...(isOwner ? found : shared), access };
     
     console.log(`✅ Found swing: ${swing.id} - ${swing.category} - ${swing.status}`);
     
+    // Optional extras for playback views (e.g. swing comparison)
+    if (url.searchParams.get('include') === 'playback') {
+      const { data: metrics } = await adminClient
+        .from('swing_metrics')
+        .select('*')
+        .eq('swing_id', swingId)
+        .maybeSingle();
+      
+      let streaming = null;
+      if (swing.video_urls) {
+        try {
+          streaming = await R2Validator.generateStreamingUrls(swing.video_urls);
+        } catch (streamError) {
+          console.error('⚠️ Falling back to stored video URLs:', streamError);
+        }
+      }
+      
+      return json({
+        ...swing,
+        metrics: metrics || null,
+        streaming_urls: streaming?.video_urls || swing.video_urls || {},
+        streaming_expires_at: streaming?.expires_at || null
+      });
+    }
+    
     return json(swing);
     
   } catch (err) {
@@ -0,0 +1,240 @@
+import { json } from '@sveltejs/kit';
+import { supabase } from '$lib/supabase';
+import { createClient } from '@supabase/supabase-js';
+import { PUBLIC_SUPABASE_URL, PUBLIC_SUPABASE_ANON_KEY } from '$env/static/public';
+import type { RequestHandler } from '@sveltejs/kit';
+import {
+  ANNOTATION_POINT_COUNTS,
+  ANNOTATION_COLORS,
+  MAX_FREEHAND_POINTS,
+  type CreateAnnotationRequest
+} from '$lib/annotations/types';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Verify the bearer token and build a client that runs queries as the user (RLS decides access)
+ */
+async function authenticate(request: Request) {
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return {
+      error: json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    };
+  }
+
+  const token = authHeader.split(' ')[1];
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return {
+      error: json(
+        { error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
+        { status: 401 }
+      )
+    };
+  }
+
+  const userClient = createClient(PUBLIC_SUPABASE_URL, PUBLIC_SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: `Bearer ${token}` } }
+  });
+
+  return { user, userClient };
+}
+
+function validateAnnotation(body: CreateAnnotationRequest): string | null {
+  if (!Number.isFinite(body.timestamp_ms) || body.timestamp_ms < 0) {
+    return 'timestamp_ms must be a non-negative number';
+  }
+
+  if (!(body.tool in ANNOTATION_POINT_COUNTS)) {
+    return 'tool must be one of line, angle, circle, freehand';
+  }
+
+  if (!Array.isArray(body.points) || body.points.length === 0) {
+    return 'points are required';
+  }
+
+  const expected = ANNOTATION_POINT_COUNTS[body.tool];
+  if (expected !== null && body.points.length !== expected) {
+    return `${body.tool} needs exactly ${expected} points`;
+  }
+  if (expected === null && (body.points.length < 2 || body.points.length > MAX_FREEHAND_POINTS)) {
+    return `freehand needs between 2 and ${MAX_FREEHAND_POINTS} points`;
+  }
+
+  const inFrame = body.points.every(
+    p => Number.isFinite(p?.x) && Number.isFinite(p?.y) && p.x >= 0 && p.x <= 1 && p.y >= 0 && p.y <= 1
+  );
+  if (!inFrame) {
+    return 'points must be normalized between 0 and 1';
+  }
+
+  if (body.color && !ANNOTATION_COLORS.includes(body.color)) {
+    return `color must be one of ${ANNOTATION_COLORS.join(', ')}`;
+  }
+
+  return null;
+}
+
+// GET all annotations for a swing
+export const GET: RequestHandler = async ({ params, request }) => {
+  try {
+    const swingId = params.id;
+
+    if (!swingId || !uuidRegex.test(swingId)) {
+      return json(
+        { error: { code: 'INVALID_SWING_ID', message: 'Swing ID must be a valid UUID' } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticate(request);
+    if (auth.error) return auth.error;
+
+    const { data: annotations, error } = await auth.userClient
+      .from('swing_annotations')
+      .select('*')
+      .eq('swing_id', swingId)
+      .order('timestamp_ms', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching annotations:', error);
+      return json(
+        { error: { code: 'DATABASE_ERROR', message: 'Failed to fetch annotations' } },
+        { status: 500 }
+      );
+    }
+
+    return json({ annotations: annotations || [] });
+
+  } catch (error) {
+    console.error('Error listing annotations:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to list annotations' } },
+      { status: 500 }
+    );
+  }
+};
+
+// POST a new annotation shape
+export const POST: RequestHandler = async ({ params, request }) => {
+  try {
+    const swingId = params.id;
+
+    if (!swingId || !uuidRegex.test(swingId)) {
+      return json(
+        { error: { code: 'INVALID_SWING_ID', message: 'Swing ID must be a valid UUID' } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticate(request);
+    if (auth.error) return auth.error;
+
+    const body: CreateAnnotationRequest = await request.json();
+    const validationError = validateAnnotation(body);
+    if (validationError) {
+      return json(
+        { error: { code: 'INVALID_ANNOTATION', message: validationError } },
+        { status: 400 }
+      );
+    }
+
+    // Only annotate swings the user can see
+    const { data: swing } = await auth.userClient
+      .from('pure_swings')
+      .select('id')
+      .eq('id', swingId)
+      .maybeSingle();
+
+    if (!swing) {
+      return json(
+        { error: { code: 'SWING_NOT_FOUND', message: 'Swing not found' } },
+        { status: 404 }
+      );
+    }
+
+    const { data: annotation, error } = await auth.userClient
+      .from('swing_annotations')
+      .insert({
+        swing_id: swingId,
+        author_id: auth.user.id,
+        timestamp_ms: Math.round(body.timestamp_ms),
+        tool: body.tool,
+        points: body.points.map(p => ({ x: p.x, y: p.y })),
+        color: body.color || 'accent'
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving annotation:', error);
+      // RLS: only the owner and coaches they've shared the swing with may draw on it
+      const forbidden = error.code === '42501';
+      return json(
+        {
+          error: forbidden
+            ? { code: 'FORBIDDEN', message: 'Only the swing owner and their coaches can annotate this swing' }
+            : { code: 'DATABASE_ERROR', message: 'Failed to save annotation' }
+        },
+        { status: forbidden ? 403 : 500 }
+      );
+    }
+
+    return json({ annotation }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error creating annotation:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to create annotation' } },
+      { status: 500 }
+    );
+  }
+};
+
+// DELETE one of the user's annotations (?annotation_id=...)
+export const DELETE: RequestHandler = async ({ params, request, url }) => {
+  try {
+    const swingId = params.id;
+    const annotationId = url.searchParams.get('annotation_id');
+
+    if (!swingId || !annotationId || !uuidRegex.test(annotationId)) {
+      return json(
+        { error: { code: 'INVALID_ANNOTATION_ID', message: 'annotation_id must be a valid UUID' } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticate(request);
+    if (auth.error) return auth.error;
+
+    const { error } = await auth.userClient
+      .from('swing_annotations')
+      .delete()
+      .eq('id', annotationId)
+      .eq('swing_id', swingId)
+      .eq('author_id', auth.user.id);
+
+    if (error) {
+      console.error('Error deleting annotation:', error);
+      return json(
+        { error: { code: 'DATABASE_ERROR', message: 'Failed to delete annotation' } },
+        { status: 500 }
+      );
+    }
+
+    return json({ success: true });
+
+  } catch (error) {
+    console.error('Error deleting annotation:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to delete annotation' } },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,202 @@
+import { json } from '@sveltejs/kit';
+import { supabase } from '$lib/supabase';
+import { createClient } from '@supabase/supabase-js';
+import { PUBLIC_SUPABASE_URL, PUBLIC_SUPABASE_ANON_KEY } from '$env/static/public';
+import { SUPABASE_SERVICE_ROLE_KEY } from '$env/static/private';
+import type { RequestHandler } from '@sveltejs/kit';
+
+// Only used to find a coach's account by email; shares themselves are written as the owner
+const adminClient = createClient(PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Verify the bearer token and build a client that runs queries as the user (RLS decides access)
+ */
+async function authenticate(request: Request) {
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return {
+      error: json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    };
+  }
+
+  const token = authHeader.split(' ')[1];
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return {
+      error: json(
+        { error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
+        { status: 401 }
+      )
+    };
+  }
+
+  const userClient = createClient(PUBLIC_SUPABASE_URL, PUBLIC_SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: `Bearer ${token}` } }
+  });
+
+  return { user, userClient };
+}
+
+function invalidSwingId() {
+  return json(
+    { error: { code: 'INVALID_SWING_ID', message: 'Swing ID must be a valid UUID' } },
+    { status: 400 }
+  );
+}
+
+// GET the coaches the owner has shared this swing with
+export const GET: RequestHandler = async ({ params, request }) => {
+  try {
+    if (!params.id || !uuidRegex.test(params.id)) return invalidSwingId();
+
+    const auth = await authenticate(request);
+    if (auth.error) return auth.error;
+
+    const { data: shares, error } = await auth.userClient
+      .from('swing_coach_shares')
+      .select('coach_id, created_at')
+      .eq('swing_id', params.id)
+      .eq('owner_id', auth.user.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching swing coaches:', error);
+      return json(
+        { error: { code: 'DATABASE_ERROR', message: 'Failed to fetch coaches' } },
+        { status: 500 }
+      );
+    }
+
+    const coachIds = (shares || []).map(s => s.coach_id);
+    const { data: coaches } = coachIds.length > 0
+      ? await adminClient.from('pure_users').select('id, email').in('id', coachIds)
+      : { data: [] };
+
+    return json({
+      coaches: (shares || []).map(share => ({
+        coach_id: share.coach_id,
+        email: coaches?.find(c => c.id === share.coach_id)?.email || null,
+        shared_at: share.created_at
+      }))
+    });
+
+  } catch (error) {
+    console.error('Error listing swing coaches:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to list coaches' } },
+      { status: 500 }
+    );
+  }
+};
+
+// POST { email } - share the swing with a coach so they can view and annotate it
+export const POST: RequestHandler = async ({ params, request }) => {
+  try {
+    if (!params.id || !uuidRegex.test(params.id)) return invalidSwingId();
+
+    const auth = await authenticate(request);
+    if (auth.error) return auth.error;
+
+    const body = await request.json().catch(() => null);
+    const email = typeof body?.email === 'string' ? body.email.trim().toLowerCase() : '';
+    if (!email) {
+      return json(
+        { error: { code: 'INVALID_EMAIL', message: 'email is required' } },
+        { status: 400 }
+      );
+    }
+
+    const { data: coach } = await adminClient
+      .from('pure_users')
+      .select('id, email')
+      .eq('email', email)
+      .maybeSingle();
+
+    if (!coach) {
+      return json(
+        { error: { code: 'COACH_NOT_FOUND', message: 'No Pure Golf account uses that email' } },
+        { status: 404 }
+      );
+    }
+
+    if (coach.id === auth.user.id) {
+      return json(
+        { error: { code: 'INVALID_EMAIL', message: 'You already have access to your own swing' } },
+        { status: 400 }
+      );
+    }
+
+    // RLS only lets the swing's owner share it
+    const { error } = await auth.userClient
+      .from('swing_coach_shares')
+      .upsert(
+        { swing_id: params.id, coach_id: coach.id, owner_id: auth.user.id },
+        { onConflict: 'swing_id,coach_id', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      console.error('Error sharing swing:', error);
+      return json(
+        { error: { code: 'SWING_NOT_FOUND', message: 'Swing not found' } },
+        { status: 404 }
+      );
+    }
+
+    return json({ coach: { coach_id: coach.id, email: coach.email } }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error sharing swing with coach:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to share swing' } },
+      { status: 500 }
+    );
+  }
+};
+
+// DELETE ?coach_id=... - stop sharing the swing with a coach
+export const DELETE: RequestHandler = async ({ params, request, url }) => {
+  try {
+    const coachId = url.searchParams.get('coach_id');
+
+    if (!params.id || !uuidRegex.test(params.id)) return invalidSwingId();
+    if (!coachId || !uuidRegex.test(coachId)) {
+      return json(
+        { error: { code: 'INVALID_COACH_ID', message: 'coach_id must be a valid UUID' } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authenticate(request);
+    if (auth.error) return auth.error;
+
+    const { error } = await auth.userClient
+      .from('swing_coach_shares')
+      .delete()
+      .eq('swing_id', params.id)
+      .eq('coach_id', coachId)
+      .eq('owner_id', auth.user.id);
+
+    if (error) {
+      console.error('Error unsharing swing:', error);
+      return json(
+        { error: { code: 'DATABASE_ERROR', message: 'Failed to remove coach' } },
+        { status: 500 }
+      );
+    }
+
+    return json({ success: true });
+
+  } catch (error) {
+    console.error('Error removing swing coach:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to remove coach' } },
+      { status: 500 }
+    );
+  }
+};
@@ -24,7 +24,8 @@ export const GET: RequestHandler = async ({ request, url }) => {
       );
     }
 
-    // Parse query parameters
+    // Parse query parameters; scope=models lists the model swings instead of the player's own
+    const models = url.searchParams.get('scope') === 'models';
     const category = url.searchParams.get('category');
     const limit = parseInt(url.searchParams.get('limit') || '20');
     const offset = parseInt(url.searchParams.get('offset') || '0');
@@ -41,7 +42,7 @@ export const GET: RequestHandler = async ({ request, url }) => {
     let query = supabase
       .from('pure.swings')
       .select('id, category, created_at, ai_flaws, ai_summary, metadata')
-      .eq('user_id', user.id)
+      .eq(models ? 'visibility' : 'user_id', models ? 'model' : user.id)
       .order('created_at', { ascending: false })
       .range(offset, offset + limit - 1);
 
@@ -66,18 +67,23 @@ export const GET: RequestHandler = async ({ request, url }) => {
       id: swing.id,
       category: swing.category,
       created_at: swing.created_at,
-      metadata: swing.metadata || {},
+      metadata: models ? {} : swing.metadata || {},
       status: swing.ai_flaws && swing.ai_summary ? 'completed' : 'processing',
       has_analysis: !!(swing.ai_flaws && swing.ai_summary),
       swing_score: swing.ai_flaws?.swing_score || null
     }));
 
     // Get total count for pagination
-    const { count, error: countError } = await supabase
+    let countQuery = supabase
       .from('pure.swings')
       .select('*', { count: 'exact', head: true })
-      .eq('user_id', user.id)
-      .eq(category ? 'category' : 'user_id', category || user.id);
+      .eq(models ? 'visibility' : 'user_id', models ? 'model' : user.id);
+
+    if (category) {
+      countQuery = countQuery.eq('category', category);
+    }
+
+    const { count, error: countError } = await countQuery;
 
     if (countError) {
       console.error('Error counting swings:', countError);
@@ -0,0 +1,151 @@
+import { json } from '@sveltejs/kit';
+import { supabase } from '$lib/supabase';
+import { createClient } from '@supabase/supabase-js';
+import { PUBLIC_SUPABASE_URL, PUBLIC_SUPABASE_ANON_KEY } from '$env/static/public';
+import { buildTrends, DEFAULT_ROLLING_WINDOW, type TrendSample } from '$lib/trends';
+import type { RequestHandler } from '@sveltejs/kit';
+
+const CATEGORIES = ['wood', 'iron', 'wedge', 'chip', 'putt'];
+const MAX_SWINGS = 200;
+
+// GET aggregated metric trends (?category=&club=&from=&to=&window=)
+export const GET: RequestHandler = async ({ request, url }) => {
+  try {
+    // Validate authentication
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const token = authHeader.split(' ')[1];
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return json(
+        { error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
+        { status: 401 }
+      );
+    }
+
+    // Parse query parameters
+    const category = url.searchParams.get('category');
+    const club = url.searchParams.get('club');
+    const from = url.searchParams.get('from');
+    const to = url.searchParams.get('to');
+    const window = parseInt(url.searchParams.get('window') || String(DEFAULT_ROLLING_WINDOW));
+
+    if (category && !CATEGORIES.includes(category)) {
+      return json(
+        { error: { code: 'INVALID_CATEGORY', message: 'Invalid category filter' } },
+        { status: 400 }
+      );
+    }
+
+    if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+      return json(
+        { error: { code: 'INVALID_DATE_RANGE', message: 'from and to must be ISO dates' } },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(window) || window < 2 || window > 20) {
+      return json(
+        { error: { code: 'INVALID_WINDOW', message: 'window must be between 2 and 20' } },
+        { status: 400 }
+      );
+    }
+
+    // Per-request client with user's JWT for proper RLS
+    const userClient = createClient(PUBLIC_SUPABASE_URL, PUBLIC_SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: `Bearer ${token}` } }
+    });
+
+    // Newest swings first so the limit keeps the recent ones; put back in order below
+    let query = userClient
+      .from('pure_swings')
+      .select('id, category, created_at, metadata, ai_flaws')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(MAX_SWINGS);
+
+    if (category) query = query.eq('category', category);
+    if (from) query = query.gte('created_at', from);
+    if (to) query = query.lte('created_at', to);
+
+    const { data: swings, error: swingsError } = await query;
+
+    if (swingsError) {
+      console.error('Error fetching swings for trends:', swingsError);
+      return json(
+        { error: { code: 'DATABASE_ERROR', message: 'Failed to fetch swing data' } },
+        { status: 500 }
+      );
+    }
+
+    const clubOf = (swing: any): string | null =>
+      swing.metadata?.club_used || swing.metadata?.club || null;
+
+    const filtered = (swings || []).reverse().filter(swing => !club || clubOf(swing) === club);
+    const swingIds = filtered.map(swing => swing.id);
+
+    const { data: metricsRows, error: metricsError } = swingIds.length > 0
+      ? await userClient
+          .from('swing_metrics')
+          .select('swing_id, tempo_ratio, plane_delta, hip_sway_cm, x_factor')
+          .in('swing_id', swingIds)
+      : { data: [], error: null };
+
+    if (metricsError) {
+      console.error('Error fetching metrics for trends:', metricsError);
+      return json(
+        { error: { code: 'DATABASE_ERROR', message: 'Failed to fetch swing metrics' } },
+        { status: 500 }
+      );
+    }
+
+    const metricsBySwing = new Map((metricsRows || []).map(row => [row.swing_id, row]));
+
+    // numeric columns come back as strings from PostgREST
+    const toNumber = (value: unknown): number | null =>
+      value === null || value === undefined || value === '' ? null : Number(value);
+
+    const samples: TrendSample[] = filtered.map(swing => {
+      const metrics = metricsBySwing.get(swing.id);
+      return {
+        swing_id: swing.id,
+        date: swing.created_at,
+        category: swing.category,
+        club: clubOf(swing),
+        tempo_ratio: toNumber(metrics?.tempo_ratio),
+        plane_delta: toNumber(metrics?.plane_delta),
+        hip_sway_cm: toNumber(metrics?.hip_sway_cm),
+        x_factor: toNumber(metrics?.x_factor),
+        swing_score: toNumber(swing.ai_flaws?.swing_score)
+      };
+    });
+
+    const trends = buildTrends(samples, window);
+    const clubs = [...new Set((swings || []).map(clubOf).filter(Boolean))];
+
+    return json({
+      trends,
+      changes: trends.filter(trend => trend.change).map(trend => ({
+        metric: trend.metric,
+        ...trend.change
+      })),
+      filters: { category, club, from, to, window },
+      available_clubs: clubs,
+      swing_count: samples.length
+    });
+
+  } catch (error) {
+    console.error('Error building swing trends:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to build swing trends' } },
+      { status: 500 }
+    );
+  }
+};
@@ -4,6 +4,8 @@ import { PUBLIC_SUPABASE_URL } from '$env/static/public';
 import { SUPABASE_SERVICE_ROLE_KEY, OPENAI_API_KEY } from '$env/static/private';
 import OpenAI from 'openai';
 import { chooseModel } from '../../../../lib/utils/ai-model';
+import { detectFlaws } from '../../../../lib/flaws';
+import type { FlawDetection } from '../../../../lib/modes/types';
 import type { RequestHandler } from '@sveltejs/kit';
 
 const adminClient = createClient(PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
@@ -70,8 +72,30 @@ export const POST: RequestHandler = async ({ request }) => {
       })
       .eq('id', swing.id);
 
+    // Get user info for Coach Oliver context
+    const { data: user } = await adminClient.auth.admin.getUserById(swing.user_id);
+    const { data: profile } = await adminClient
+      .from('pure_profiles')
+      .select('handicap, goals, name')
+      .eq('id', swing.user_id)
+      .single();
+
+    // Rule-based flaws from measured pose metrics (if the pose service has run)
+    const { data: metrics } = await adminClient
+      .from('swing_metrics')
+      .select('tempo_ratio, plane_delta, hip_sway_cm, x_factor')
+      .eq('swing_id', swing.id)
+      .maybeSingle();
+
+    const detectedFlaws = metrics
+      ? detectFlaws(
+          { ...metrics, phases: swing.swing_phases || [] },
+          { category: swing.category, handicap: profile?.handicap }
+        )
+      : [];
+
     // Analyze swing with GPT-4o
-    const analysis = await analyzeSwingWithGPT(swing);
+    const analysis = await analyzeSwingWithGPT(swing, detectedFlaws);
     
     // Update swing with analysis results
     await adminClient
@@ -84,14 +108,6 @@ export const POST: RequestHandler = async ({ request }) => {
       })
       .eq('id', swing.id);
 
-    // Get user info for Coach Oliver context
-    const { data: user } = await adminClient.auth.admin.getUserById(swing.user_id);
-    const { data: profile } = await adminClient
-      .from('pure_profiles')
-      .select('handicap, goals, name')
-      .eq('id', swing.user_id)
-      .single();
-
     // Generate Coach Oliver's personalized response
     const coachMessage = await generateCoachOliverResponse(swing, analysis, user?.user, profile);
 
@@ -177,7 +193,7 @@ Keep it conversational, under 150 words, and maintain your warm but authoritativ
   return completion.choices[0]?.message?.content || 'Great swing! Let me know if you have any questions about your technique.';
 }
 
-async function analyzeSwingWithGPT(swing: any) {
+async function analyzeSwingWithGPT(swing: any, detectedFlaws: FlawDetection[]) {
   const model = chooseModel(1000); // Estimate tokens needed
   
   const prompt = `Analyze this golf swing:
@@ -185,6 +201,9 @@ async function analyzeSwingWithGPT(swing: any) {
 Category: ${swing.category}
 Upload Mode: ${swing.upload_mode || 'training'}
 Video URLs: ${JSON.stringify(swing.video_urls)}
+Measured Flaws: ${detectedFlaws.length > 0
+  ? detectedFlaws.map(f => `${f.name} (severity ${f.severity}/5)`).join(', ')
+  : 'None detected from pose metrics'}
 
 Please provide a detailed analysis including:
 1. Key technical flaws (if any)
@@ -221,7 +240,8 @@ Focus on the most important 1-2 areas for improvement.`;
       swing_score: score,
       primary_flaw: flaws[0] || null,
       secondary_flaw: flaws[1] || null,
-      confidence: 0.85
+      confidence: 0.85,
+      detected: detectedFlaws
     },
     summary: analysisText
   };
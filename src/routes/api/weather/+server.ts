@@ -0,0 +1,88 @@
+import { json } from '@sveltejs/kit';
+import { supabase } from '$lib/supabase';
+import type { RequestHandler } from '@sveltejs/kit';
+import { WeatherService } from '$lib/weather';
+import { getCourseById } from '../../../services/course';
+import { getCourseWeather } from '../../../services/weather';
+
+async function authenticate(request: Request) {
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return {
+      error: json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    };
+  }
+
+  const token = authHeader.split(' ')[1];
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return {
+      error: json(
+        { error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
+        { status: 401 }
+      )
+    };
+  }
+
+  return { user };
+}
+
+// GET current conditions at a course (?course_id=) or a point (?lat=&lng=)
+export const GET: RequestHandler = async ({ request, url }) => {
+  try {
+    const auth = await authenticate(request);
+    if (auth.error) return auth.error;
+
+    const courseId = url.searchParams.get('course_id');
+    const lat = parseFloat(url.searchParams.get('lat') || '');
+    const lng = parseFloat(url.searchParams.get('lng') || '');
+
+    let weather;
+    if (courseId) {
+      const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+      if (!uuidRegex.test(courseId)) {
+        return json(
+          { error: { code: 'INVALID_COURSE_ID', message: 'Course ID must be a valid UUID' } },
+          { status: 400 }
+        );
+      }
+
+      const course = await getCourseById(courseId);
+      if (!course) {
+        return json(
+          { error: { code: 'COURSE_NOT_FOUND', message: 'Course not found' } },
+          { status: 404 }
+        );
+      }
+
+      weather = await getCourseWeather(course);
+    } else if (Math.abs(lat) <= 90 && Math.abs(lng) <= 180) {
+      weather = await WeatherService.getConditions({ position: { lat, lng } });
+    } else {
+      return json(
+        { error: { code: 'MISSING_LOCATION', message: 'Provide course_id, or lat and lng' } },
+        { status: 400 }
+      );
+    }
+
+    if (!weather) {
+      return json(
+        { error: { code: 'WEATHER_UNAVAILABLE', message: 'Live weather is unavailable right now' } },
+        { status: 503 }
+      );
+    }
+
+    return json({ weather });
+
+  } catch (error) {
+    console.error('Error in weather endpoint:', error);
+    return json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch weather' } },
+      { status: 500 }
+    );
+  }
+};
@@ -1,32 +1,20 @@
 import { supabase } from '$lib/supabase';
 import { env } from '$env/dynamic/private';
-
-interface ExternalCourse {
-  id: string;
-  name: string;
-  latitude: number;
-  longitude: number;
-  address?: string;
-  phone?: string;
-  website?: string;
-  holes?: ExternalHole[];
-  tee_sets?: TeeSet[];
-}
-
-interface ExternalHole {
-  number: number;
-  par: number;
-  handicap?: number;
-  yardages: Record<string, number>; // {"blue": 420, "white": 385, "red": 320}
-  description?: string;
-}
-
-interface TeeSet {
-  name: string;
-  rating?: number;
-  slope?: number;
-  color?: string;
-}
+import { dev } from '$app/environment';
+import type { HoleGeometry } from '$lib/hole-geometry';
+import {
+  CourseDataService,
+  RapidApiCourseProvider,
+  type CourseDataProvider,
+  type CourseSource,
+  type ExternalCourse,
+  type ExternalHole,
+  type TeeSet
+} from '$lib/course-data';
+import { LocalCourseProvider } from '$lib/course-data/local-provider';
+import { CourseCorrectionStore, CorrectionValidator, type PinPosition } from '$lib/course-corrections';
+
+const DEFAULT_COURSE_FIXTURE = 'src/lib/course-data/fixtures/courses.json';
 
 interface Course {
   id: string;
@@ -37,6 +25,8 @@ interface Course {
   phone?: string;
   website?: string;
   tee_sets?: TeeSet[];
+  source: CourseSource;
+  data_version: number;       // bumps with each approved correction
   last_updated: string;
 }
 
@@ -50,123 +40,58 @@ interface Hole {
   description?: string;
   gps_coordinates?: any;
   hazards?: any;
+  geometry?: HoleGeometry | null;
+  pin?: PinPosition | null;   // today's approved pin position
 }
 
 /**
- * Search for courses using external Golf Course API
+ * Provider chosen by COURSE_DATA_PROVIDER: "local" reads courses from COURSE_FIXTURE_PATH,
+ * anything else uses RapidAPI. Without an API key, development falls back to the local fixture.
+ */
+export function createCourseDataProvider(): CourseDataProvider {
+  if (env.COURSE_DATA_PROVIDER === 'local' || (dev && !env.COURSE_DATA_PROVIDER && !env.GOLF_COURSE_API_KEY)) {
+    return new LocalCourseProvider(env.COURSE_FIXTURE_PATH || DEFAULT_COURSE_FIXTURE);
+  }
+  return new RapidApiCourseProvider(env.GOLF_COURSE_API_KEY);
+}
+
+/**
+ * Search for courses with the configured course data provider
  */
 export async function searchCoursesExternal(
   lat: number, 
   lng: number, 
   radius: number = 25
 ): Promise<ExternalCourse[]> {
-  try {
-    if (!env.GOLF_COURSE_API_KEY) {
-      console.warn('Golf Course API key not configured, returning empty results');
-      return [];
-    }
-
-    // Using Golf Course Data API from RapidAPI
-    const response = await fetch(
-      `https://golf-course-api-rapidapi.p.rapidapi.com/courses/search?lat=${lat}&lng=${lng}&radius=${radius}`,
-      {
-        headers: {
-          'X-RapidAPI-Key': env.GOLF_COURSE_API_KEY,
-          'X-RapidAPI-Host': 'golf-course-api-rapidapi.p.rapidapi.com'
-        }
-      }
-    );
-
-    if (!response.ok) {
-      console.error('Golf Course API error:', response.status, await response.text());
-      return [];
-    }
-
-    const data = await response.json();
-    return data.courses || [];
-
-  } catch (error) {
-    console.error('Error searching courses externally:', error);
-    return [];
-  }
+  return CourseDataService.searchCourses({ lat, lng, radius });
 }
 
 /**
  * Get detailed course information including holes
  */
 export async function getCourseDetailsExternal(courseId: string): Promise<ExternalCourse | null> {
-  try {
-    if (!env.GOLF_COURSE_API_KEY) {
-      console.warn('Golf Course API key not configured');
-      return null;
-    }
-
-    const response = await fetch(
-      `https://golf-course-api-rapidapi.p.rapidapi.com/courses/${courseId}`,
-      {
-        headers: {
-          'X-RapidAPI-Key': env.GOLF_COURSE_API_KEY,
-          'X-RapidAPI-Host': 'golf-course-api-rapidapi.p.rapidapi.com'
-        }
-      }
-    );
-
-    if (!response.ok) {
-      console.error('Golf Course API error:', response.status);
-      return null;
-    }
-
-    const data = await response.json();
-    return data.course || null;
-
-  } catch (error) {
-    console.error('Error fetching course details:', error);
-    return null;
-  }
+  return CourseDataService.getCourseDetails(courseId);
 }
 
 /**
- * Cache course data locally in our database
+ * Cache course data locally in our database. Courses are matched on external id, so caching
+ * the same course again refreshes it in place; source records which provider or import it came from.
  */
-export async function cacheCourse(externalCourse: ExternalCourse): Promise<string | null> {
+export async function cacheCourse(
+  externalCourse: ExternalCourse,
+  source: CourseSource = CourseDataService.getProvider().name
+): Promise<string | null> {
   try {
-    // Check if course already exists
-    const { data: existingCourse } = await supabase
-      .from('pure.courses')
-      .select('id')
-      .eq('external_id', externalCourse.id)
-      .single();
-
-    if (existingCourse) {
-      // Update existing course
-      const { error: updateError } = await supabase
-        .from('pure.courses')
-        .update({
-          name: externalCourse.name,
-          location: `POINT(${externalCourse.longitude} ${externalCourse.latitude})`,
-          address: externalCourse.address ? {
-            full: externalCourse.address
-          } : null,
-          phone: externalCourse.phone,
-          website: externalCourse.website,
-          tee_sets: externalCourse.tee_sets || [],
-          last_updated: new Date().toISOString()
-        })
-        .eq('external_id', externalCourse.id);
-
-      if (updateError) {
-        console.error('Error updating course:', updateError);
-        return null;
-      }
-
-      return existingCourse.id;
+    const externalId = String(externalCourse.id).trim();
+    if (!externalId) {
+      console.error('Error caching course: missing external id');
+      return null;
     }
 
-    // Insert new course
-    const { data: newCourse, error: insertError } = await supabase
+    const { data: course, error } = await supabase
       .from('pure.courses')
-      .insert({
-        external_id: externalCourse.id,
+      .upsert({
+        external_id: externalId,
         name: externalCourse.name,
         location: `POINT(${externalCourse.longitude} ${externalCourse.latitude})`,
         address: externalCourse.address ? {
@@ -175,22 +100,25 @@ export async function cacheCourse(externalCourse: ExternalCourse): Promise<strin
         phone: externalCourse.phone,
         website: externalCourse.website,
         tee_sets: externalCourse.tee_sets || [],
+        source,
         last_updated: new Date().toISOString()
-      })
+      }, { onConflict: 'external_id' })
       .select('id')
       .single();
 
-    if (insertError) {
-      console.error('Error inserting course:', insertError);
+    if (error || !course) {
+      console.error('Error caching course:', error);
       return null;
     }
 
-    // Cache holes if available
-    if (externalCourse.holes && newCourse) {
-      await cacheHoles(newCourse.id, externalCourse.holes);
+    // Search results often leave holes out; keep whatever is already cached in that case.
+    // Approved corrections go back on top of the refreshed scorecard.
+    if (externalCourse.holes && externalCourse.holes.length > 0) {
+      await cacheHoles(course.id, externalCourse.holes);
+      await CourseCorrectionStore.reapply(course.id);
     }
 
-    return newCourse?.id || null;
+    return course.id;
 
   } catch (error) {
     console.error('Error caching course:', error);
@@ -199,32 +127,40 @@ export async function cacheCourse(externalCourse: ExternalCourse): Promise<strin
 }
 
 /**
- * Cache hole data for a course
+ * Cache hole data for a course. Holes are updated in place by number, so mapped geometry
+ * survives a scorecard refresh; holes no longer on the scorecard are removed.
  */
 export async function cacheHoles(courseId: string, holes: ExternalHole[]): Promise<void> {
   try {
-    // Delete existing holes for this course
-    await supabase
-      .from('pure.holes')
-      .delete()
-      .eq('course_id', courseId);
+    // The last entry wins if a hole number is repeated
+    const byNumber = new Map(holes.map(hole => [hole.number, hole]));
 
-    // Insert new holes
-    const holesData = holes.map(hole => ({
+    const holesData = [...byNumber.values()].map(hole => ({
       course_id: courseId,
       hole_number: hole.number,
       par: hole.par,
-      handicap: hole.handicap,
+      handicap: hole.handicap ?? null,
       yardages: hole.yardages,
-      description: hole.description
+      description: hole.description ?? null
     }));
 
     const { error } = await supabase
       .from('pure.holes')
-      .insert(holesData);
+      .upsert(holesData, { onConflict: 'course_id,hole_number' });
 
     if (error) {
       console.error('Error caching holes:', error);
+      return;
+    }
+
+    const { error: deleteError } = await supabase
+      .from('pure.holes')
+      .delete()
+      .eq('course_id', courseId)
+      .not('hole_number', 'in', `(${[...byNumber.keys()].join(',')})`);
+
+    if (deleteError) {
+      console.error('Error removing old holes:', deleteError);
     }
 
   } catch (error) {
@@ -285,7 +221,7 @@ export async function searchCourses(
 }
 
 /**
- * Get course by ID with holes
+ * Get course by ID with holes, including approved corrections and today's pin positions
  */
 export async function getCourseById(courseId: string): Promise<(Course & { holes: Hole[] }) | null> {
   try {
@@ -311,9 +247,11 @@ export async function getCourseById(courseId: string): Promise<(Course & { holes
       return { ...formatCourse(course), holes: [] };
     }
 
+    const pins = await CourseCorrectionStore.pinsForDate(courseId, CorrectionValidator.today());
+
     return {
       ...formatCourse(course),
-      holes: holes || []
+      holes: (holes || []).map(hole => ({ ...hole, pin: pins.get(hole.hole_number) ?? null }))
     };
 
   } catch (error) {
@@ -344,6 +282,8 @@ function formatCourse(dbCourse: any): Course {
     phone: dbCourse.phone,
     website: dbCourse.website,
     tee_sets: dbCourse.tee_sets || [],
+    source: dbCourse.source || 'rapidapi',
+    data_version: dbCourse.data_version || 0,
     last_updated: dbCourse.last_updated
   };
 } 
\ No newline at end of file
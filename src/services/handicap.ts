@@ -0,0 +1,103 @@
+import { supabase } from '$lib/supabase';
+import { calculateHandicap, findRatedTee } from '$lib/handicap';
+import type { HandicapIndexResult, HandicapRoundInput } from '$lib/handicap';
+
+/**
+ * Load a user's completed rounds with course ratings and hole scores
+ */
+async function loadHandicapRounds(userId: string): Promise<HandicapRoundInput[]> {
+  const { data: rounds, error: roundsError } = await supabase
+    .from('pure.rounds')
+    .select('id, course_id, tee_set, started_at')
+    .eq('user_id', userId)
+    .eq('status', 'completed')
+    .order('started_at', { ascending: true });
+
+  if (roundsError) {
+    console.error('Error fetching rounds for handicap:', roundsError);
+    return [];
+  }
+  if (!rounds || rounds.length === 0) return [];
+
+  const roundIds = rounds.map(r => r.id);
+  const courseIds = [...new Set(rounds.map(r => r.course_id))];
+
+  const [{ data: courses }, { data: holes }, { data: scores }] = await Promise.all([
+    supabase.from('pure.courses').select('id, tee_sets').in('id', courseIds),
+    supabase.from('pure.holes').select('course_id, hole_number, par, handicap').in('course_id', courseIds),
+    supabase.from('pure.hole_scores').select('round_id, hole_number, strokes').in('round_id', roundIds)
+  ]);
+
+  return rounds.map(round => ({
+    round_id: round.id,
+    played_at: round.started_at,
+    tee: findRatedTee(courses?.find(c => c.id === round.course_id)?.tee_sets, round.tee_set),
+    holes: (holes || []).filter(h => h.course_id === round.course_id),
+    scores: (scores || []).filter(s => s.round_id === round.id)
+  }));
+}
+
+/**
+ * Calculate a user's handicap index without saving it
+ */
+export async function getHandicap(userId: string): Promise<HandicapIndexResult | null> {
+  try {
+    const { data: profile } = await supabase
+      .from('users')
+      .select('handicap')
+      .eq('id', userId)
+      .single();
+
+    const rounds = await loadHandicapRounds(userId);
+
+    // A hand-entered handicap stands in until there are enough differentials
+    return calculateHandicap(rounds, profile?.handicap ?? null);
+
+  } catch (error) {
+    console.error('Error calculating handicap:', error);
+    return null;
+  }
+}
+
+/**
+ * Recalculate the handicap index and save it with each round's course handicap and net score
+ */
+export async function updateHandicap(userId: string): Promise<HandicapIndexResult | null> {
+  const result = await getHandicap(userId);
+  if (!result) return null;
+
+  try {
+    await Promise.all(result.rounds.map(round =>
+      supabase
+        .from('pure.rounds')
+        .update({
+          adjusted_gross_score: round.adjusted_gross_score,
+          score_differential: round.score_differential,
+          course_handicap: round.course_handicap,
+          net_score: round.net_score
+        })
+        .eq('id', round.round_id)
+        .eq('user_id', userId)
+    ));
+
+    if (result.handicap_index !== null) {
+      const { error } = await supabase
+        .from('users')
+        .update({
+          handicap: result.handicap_index,
+          handicap_updated_at: new Date().toISOString()
+        })
+        .eq('id', userId);
+
+      if (error) {
+        console.error('Error saving handicap index:', error);
+      }
+    }
+
+    return result;
+
+  } catch (error) {
+    console.error('Error saving handicap:', error);
+    return result;
+  }
+}
@@ -0,0 +1,64 @@
+import { supabase } from '$lib/supabase';
+import { BagManager, TendencyStore, type RiskTolerance } from '$lib/caddy';
+import { planRound, type RoundPlan } from '$lib/strategy';
+import { getCourseById } from './course';
+
+/**
+ * Build the pre-round game plan from the course, the player's bag and their tendencies
+ */
+export async function buildRoundPlan(
+  userId: string,
+  round: { course_id: string; tee_set: string },
+  riskTolerance?: RiskTolerance
+): Promise<RoundPlan | null> {
+  try {
+    const [course, bag, clubStats, tendencies] = await Promise.all([
+      getCourseById(round.course_id),
+      BagManager.loadBag(userId),
+      BagManager.loadClubStats(userId),
+      TendencyStore.getTendencies(userId)
+    ]);
+
+    if (!course || course.holes.length === 0) return null;
+
+    return planRound({
+      course_id: course.id,
+      course_name: course.name,
+      tee_set: round.tee_set,
+      holes: course.holes,
+      bag,
+      club_stats: clubStats,
+      tendencies,
+      risk_tolerance: riskTolerance
+    });
+
+  } catch (error) {
+    console.error('Error building round plan:', error);
+    return null;
+  }
+}
+
+/**
+ * Build the game plan and store it with the round
+ */
+export async function generateRoundPlan(
+  userId: string,
+  round: { id: string; course_id: string; tee_set: string },
+  riskTolerance?: RiskTolerance
+): Promise<RoundPlan | null> {
+  const plan = await buildRoundPlan(userId, round, riskTolerance);
+  if (!plan) return null;
+
+  const { error } = await supabase
+    .from('pure.rounds')
+    .update({ strategy_plan: plan })
+    .eq('id', round.id)
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error saving round plan:', error);
+    return null;
+  }
+
+  return plan;
+}
@@ -0,0 +1,37 @@
+import { env } from '$env/dynamic/private';
+import { WeatherService, OpenMeteoProvider, type RoundWeather, type WeatherProvider, type WeatherReading } from '$lib/weather';
+import { FileWeatherProvider } from '$lib/weather/file-provider';
+
+const DEFAULT_WEATHER_FIXTURE = 'src/lib/weather/fixtures/weather.json';
+
+/**
+ * Provider chosen by WEATHER_PROVIDER: "file" reads fixed conditions from WEATHER_FIXTURE_PATH,
+ * anything else uses Open-Meteo
+ */
+export function createWeatherProvider(): WeatherProvider {
+  if (env.WEATHER_PROVIDER === 'file') {
+    return new FileWeatherProvider(env.WEATHER_FIXTURE_PATH || DEFAULT_WEATHER_FIXTURE);
+  }
+  return new OpenMeteoProvider();
+}
+
+/**
+ * Current conditions at a course (location is [lat, lng])
+ */
+export async function getCourseWeather(course: { id: string; location: [number, number] }): Promise<WeatherReading | null> {
+  const [lat, lng] = course.location;
+  if (!lat && !lng) return null;
+
+  return WeatherService.getConditions({ course_id: course.id, position: { lat, lng } });
+}
+
+/**
+ * Weather to store on a new round: live conditions with anything the player entered on top
+ */
+export async function resolveRoundWeather(
+  course: { id: string; location: [number, number] },
+  entered?: RoundWeather | null
+): Promise<RoundWeather | null> {
+  const reading = await getCourseWeather(course);
+  return WeatherService.toRoundWeather(reading, entered);
+}
@@ -1,11 +1,17 @@
 import { writable, derived } from 'svelte/store';
 import type { Writable, Readable } from 'svelte/store';
+import { deriveHoleScore, summarizeScorecard, withCorrectedPar } from '$lib/scorecard';
+import type { HoleScore, MissDirection, ScorecardSummary } from '$lib/scorecard';
+import type { RoundPlan } from '$lib/strategy';
+import type { HoleGeometry } from '$lib/hole-geometry';
+import type { PinPosition } from '$lib/course-corrections';
 
 export interface Course {
   id: string;
   name: string;
   location: [number, number];
   holes: Hole[];
+  data_version?: number;   // bumps when an approved correction changes the course
 }
 
 export interface Hole {
@@ -15,6 +21,8 @@ export interface Hole {
   handicap?: number;
   yardages: Record<string, number>;
   description?: string;
+  geometry?: HoleGeometry | null;
+  pin?: PinPosition | null;
 }
 
 export interface Round {
@@ -26,13 +34,21 @@ export interface Round {
   finished_at?: string;
   status: 'in_progress' | 'completed' | 'abandoned';
   total_score?: number;
+  course_handicap?: number | null;
+  net_score?: number | null;
+  score_differential?: number | null;
   weather?: {
     temperature?: number;
     wind_speed?: number;
     wind_direction?: string;
+    wind_degrees?: number;
+    humidity?: number;
+    pressure?: number;
     conditions?: string;
+    source?: string;
   };
   notes?: string;
+  strategy_plan?: RoundPlan | null;
 }
 
 export interface Shot {
@@ -50,12 +66,16 @@ export interface Shot {
   accuracy_rating?: number;
   gps_location?: [number, number];
   ai_confidence?: number;
+  miss_direction?: MissDirection;
+  caddy_advice_id?: string; // advice this shot answers; sent to /api/shots/record, not stored on the shot
+  hit_at?: string;          // when it was played, so a late offline replay still finds the advice before it
 }
 
 export interface RoundState {
   currentRound: Round | null;
   currentHole: number;
   currentShots: Shot[];
+  holeScores: HoleScore[];
   isLoading: boolean;
   error: string | null;
 }
@@ -65,6 +85,7 @@ const initialState: RoundState = {
   currentRound: null,
   currentHole: 1,
   currentShots: [],
+  holeScores: [],
   isLoading: false,
   error: null
 };
@@ -100,18 +121,18 @@ export const currentShots: Readable<Shot[]> = derived(
   )
 );
 
-export const totalScore: Readable<number> = derived(
+export const scorecard: Readable<ScorecardSummary> = derived(
   roundStore,
-  ($roundStore) => {
-    // Calculate current total score based on completed holes
-    // This is a simplified calculation - in a real app you'd want more sophisticated scoring
-    return $roundStore.currentShots.reduce((total, shot) => {
-      if (shot.shot_result === 'holed') {
-        return total + shot.shot_number;
-      }
-      return total;
-    }, 0);
-  }
+  ($roundStore) => summarizeScorecard(
+    $roundStore.holeScores,
+    $roundStore.currentRound?.course?.holes || [],
+    $roundStore.currentRound?.tee_set || null
+  )
+);
+
+export const totalScore: Readable<number> = derived(
+  scorecard,
+  ($scorecard) => $scorecard.strokes
 );
 
 export const isRoundActive: Readable<boolean> = derived(
@@ -128,16 +149,18 @@ export const roundActions = {
       currentRound: round,
       currentHole: 1,
       currentShots: [],
+      holeScores: [],
       error: null
     }));
   },
 
   // Set current round (for loading existing rounds)
-  setRound: (round: Round, shots: Shot[] = []) => {
+  setRound: (round: Round, shots: Shot[] = [], holeScores: HoleScore[] = []) => {
     roundStore.update(state => ({
       ...state,
       currentRound: round,
       currentShots: shots,
+      holeScores,
       error: null
     }));
   },
@@ -206,6 +229,58 @@ export const roundActions = {
     }));
   },
 
+  // Save a hole's score, replacing any earlier entry for that hole
+  setHoleScore: (score: HoleScore) => {
+    roundStore.update(state => ({
+      ...state,
+      holeScores: [
+        ...state.holeScores.filter(s => s.hole_number !== score.hole_number),
+        score
+      ].sort((a, b) => a.hole_number - b.hole_number)
+    }));
+  },
+
+  // Derive a hole's score from its recorded shots and save it
+  completeHole: (holeNumber: number): HoleScore | null => {
+    let score: HoleScore | null = null;
+    roundStore.update(state => {
+      const hole = state.currentRound?.course?.holes.find(h => h.hole_number === holeNumber);
+      if (!hole) return state;
+
+      const derived = deriveHoleScore(holeNumber, hole.par, state.currentShots);
+      score = derived;
+      return {
+        ...state,
+        holeScores: [
+          ...state.holeScores.filter(s => s.hole_number !== holeNumber),
+          derived
+        ].sort((a, b) => a.hole_number - b.hole_number)
+      };
+    });
+    return score;
+  },
+
+  // Take newer course data mid-round; holes already scored are rescored if their par changed
+  refreshCourse: (course: Course) => {
+    roundStore.update(state => {
+      if (!state.currentRound?.course || (course.data_version ?? 0) <= (state.currentRound.course.data_version ?? 0)) {
+        return state;
+      }
+
+      // Only par moves; strokes entered by hand or from shots are kept as they are
+      const holeScores = state.holeScores.map(score => {
+        const hole = course.holes.find(h => h.hole_number === score.hole_number);
+        return hole ? withCorrectedPar(score, hole.par) : score;
+      });
+
+      return {
+        ...state,
+        currentRound: { ...state.currentRound, course: { ...state.currentRound.course, ...course } },
+        holeScores
+      };
+    });
+  },
+
   // Update round metadata
   updateRound: (updates: Partial<Round>) => {
     roundStore.update(state => ({
@@ -272,19 +347,27 @@ export const roundActions = {
   }
 };
 
+function writeSnapshot(state: RoundState) {
+  if (state.currentRound) {
+    localStorage.setItem('pure-current-round', JSON.stringify({
+      round: state.currentRound,
+      currentHole: state.currentHole,
+      shots: state.currentShots,
+      holeScores: state.holeScores
+    }));
+  }
+}
+
 // Persistence helpers
 export const roundPersistence = {
   // Save round state to localStorage
   saveToStorage: () => {
-    roundStore.subscribe(state => {
-      if (state.currentRound) {
-        localStorage.setItem('pure-current-round', JSON.stringify({
-          round: state.currentRound,
-          currentHole: state.currentHole,
-          shots: state.currentShots
-        }));
-      }
-    })();
+    roundStore.subscribe(writeSnapshot)();
+  },
+
+  // Save on every change so a reload without signal resumes the round; returns unsubscribe
+  autoSave: () => {
+    return roundStore.subscribe(writeSnapshot);
   },
 
   // Load round state from localStorage
@@ -294,12 +377,13 @@ export const roundPersistence = {
     const saved = localStorage.getItem('pure-current-round');
     if (saved) {
       try {
-        const { round, currentHole, shots } = JSON.parse(saved);
+        const { round, currentHole, shots, holeScores } = JSON.parse(saved);
         roundStore.update(state => ({
           ...state,
           currentRound: round,
           currentHole,
-          currentShots: shots
+          currentShots: shots,
+          holeScores: holeScores || []
         }));
       } catch (error) {
         console.error('Failed to load round from storage:', error);
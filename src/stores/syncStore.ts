@@ -0,0 +1,19 @@
+import { readable } from 'svelte/store';
+import type { Readable } from 'svelte/store';
+import { syncQueue, type SyncStatus } from '$lib/offline';
+
+const initialStatus: SyncStatus = {
+  online: true,
+  syncing: false,
+  pending: 0,
+  conflicts: [],
+  failed: [],
+  last_synced_at: null
+};
+
+// Sync queue status; the queue starts replaying once something subscribes
+export const syncStatus: Readable<SyncStatus> = readable(initialStatus, (set) => {
+  syncQueue.start();
+  return syncQueue.subscribe(set);
+});
+
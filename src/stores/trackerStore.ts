@@ -0,0 +1,34 @@
+import { derived, readable } from 'svelte/store';
+import type { Readable } from 'svelte/store';
+import { shotTracker, type TrackerStatus } from '$lib/shot-tracking';
+import { currentRound, currentHole } from './roundStore';
+
+const initialStatus: TrackerStatus = {
+  recording: false,
+  round_id: null,
+  hole_number: null,
+  points: 0,
+  last_fix_at: null,
+  error: null
+};
+
+// GPS shot tracker status; recording follows the round (see trackRound), not subscribers
+export const trackerStatus: Readable<TrackerStatus> = readable(initialStatus, (set) => {
+  return shotTracker.subscribe(set);
+});
+
+/**
+ * Record while the current round is in progress and discard the track once it's finished or abandoned.
+ * The returned function stops following the round; recording carries on until the round ends.
+ */
+export function trackRound(): () => void {
+  return derived([currentRound, currentHole], ([round, hole]) => ({ round, hole })).subscribe(({ round, hole }) => {
+    if (!round) return;
+
+    if (round.status === 'in_progress') {
+      shotTracker.start(round.id, hole);
+    } else {
+      shotTracker.end(round.id);
+    }
+  });
+}
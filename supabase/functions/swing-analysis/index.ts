@@ -98,6 +98,25 @@ serve(async (req) => {
 
     console.log('✅ Metrics stored successfully')
 
+    // 4b. Keep per-frame keypoints and phase timestamps with the swing
+    if (Array.isArray(metrics.keypoints)) {
+      const { error: poseError } = await supabaseAdmin
+        .from('pure_swings')
+        .update({
+          ai_pose: {
+            video_hash: metrics.video_hash,
+            frame_count: metrics.frame_count,
+            keypoints: metrics.keypoints
+          },
+          swing_phases: Array.isArray(metrics.phases) ? metrics.phases : []
+        })
+        .eq('id', swing.id)
+
+      if (poseError) {
+        console.warn('⚠️ Failed to store pose keypoints:', poseError.message)
+      }
+    }
+
     // 5. Generate coach response with real metrics
     const openaiKey = Deno.env.get('OPENAI_API_KEY')
     if (openaiKey && metrics.tempo_ratio) {